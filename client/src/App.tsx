@@ -8,8 +8,11 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { TopNav } from "@/components/TopNav";
+import { EmailVerificationBanner } from "@/components/EmailVerificationBanner";
 import Home from "@/pages/Home";
 import Login from "@/pages/Login";
+import ResetPassword from "@/pages/ResetPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
 import StationFinder from "@/pages/StationFinder";
 import QAForum from "@/pages/QAForum";
 import QuestionDetail from "@/pages/QuestionDetail";
@@ -24,6 +27,7 @@ import ArticleDetail from "@/pages/ArticleDetail";
 import KnowledgeHub from "@/pages/KnowledgeHub";
 import PostDetail from "@/pages/PostDetail";
 import Messages from "@/pages/Messages";
+import TripPlanner from "@/pages/TripPlanner";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -55,7 +59,11 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/login" component={Login} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/stations" component={StationFinder} />
+      <Route path="/trips" component={TripPlanner} />
+      <Route path="/trips/:id" component={TripPlanner} />
       <Route path="/communities" component={Communities} />
       <Route path="/communities/:slug" component={CommunityDetail} />
       <Route path="/articles" component={Articles} />
@@ -88,6 +96,9 @@ function AuthenticatedApp() {
         userRole={user?.role}
         userId={user?.id}
       />
+      {user?.status === "PENDING_VERIFICATION" && (
+        <EmailVerificationBanner email={user.email} graceEndsAt={user.verificationGraceEndsAt} />
+      )}
       <Router />
     </div>
   );
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPE_LABELS,
+  ACCESS_TOKEN_SCOPES,
+  ADMIN_SCOPE_ROLES,
+  type AccessTokenScope,
+  type AccessTokenSummary,
+  type CreateAccessTokenInput,
+} from "@shared/access-tokens";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+
+const TOKENS_KEY = ["/api/auth/tokens"];
+const NEVER = "never";
+
+function describeUse(token: AccessTokenSummary): string {
+  const used = token.lastUsedAt
+    ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+    : "Never used";
+  if (!token.expiresAt) return `${used} · No expiry`;
+  const expiresAt = new Date(token.expiresAt);
+  return expiresAt.getTime() <= Date.now()
+    ? `${used} · Expired`
+    : `${used} · Expires ${format(expiresAt, "MMM d, yyyy")}`;
+}
+
+/** Security tab card for personal access tokens used by scripts */
+export function AccessTokenSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<AccessTokenScope[]>(["read"]);
+  const [expiry, setExpiry] = useState("30");
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<AccessTokenSummary[]>({ queryKey: TOKENS_KEY });
+  const availableScopes = ACCESS_TOKEN_SCOPES.filter(
+    (scope) => scope !== "admin" || ADMIN_SCOPE_ROLES.includes(user?.role ?? "")
+  );
+
+  const resetForm = () => {
+    setCreating(false);
+    setName("");
+    setScopes(["read"]);
+    setExpiry("30");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateAccessTokenInput): Promise<{ token: string; accessToken: AccessTokenSummary }> =>
+      (await apiRequest("POST", "/api/auth/tokens", input)).json(),
+    onSuccess: (data) => {
+      setNewToken(data.token);
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: TOKENS_KEY });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't create token", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/auth/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TOKENS_KEY });
+      toast({ title: "Token deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't delete token", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    },
+  });
+
+  const toggleScope = (scope: AccessTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current.filter((s) => s !== scope), scope] : current.filter((s) => s !== scope)));
+  };
+
+  const create = () => {
+    createMutation.mutate({
+      name,
+      scopes,
+      expiresInDays: expiry === NEVER ? null : (Number(expiry) as CreateAccessTokenInput["expiresInDays"]),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Access Tokens</CardTitle>
+        <CardDescription>
+          Let scripts use the API as you by sending a token in an <code>Authorization: Bearer</code> header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newToken && (
+          <div className="space-y-2 rounded-md border p-3">
+            <p className="text-sm">Copy your new token now. It won't be shown again.</p>
+            <p className="rounded-md bg-muted p-2 font-mono text-sm break-all" data-testid="text-new-access-token">
+              {newToken}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  await navigator.clipboard.writeText(newToken);
+                  toast({ title: "Token copied" });
+                }}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button size="sm" onClick={() => setNewToken(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't created any tokens</p>
+        ) : (
+          <ul className="divide-y" data-testid="list-access-tokens">
+            {tokens.map((token) => (
+              <li key={token.id} className="flex items-start gap-3 py-3" data-testid={`access-token-${token.id}`}>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="text-sm font-medium">
+                    {token.name} <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeUse(token)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  aria-label={`Delete ${token.name}`}
+                  data-testid={`button-delete-access-token-${token.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {creating ? (
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="space-y-2">
+              <Label htmlFor="access-token-name">Name</Label>
+              <Input
+                id="access-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Nightly station import"
+                data-testid="input-access-token-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {availableScopes.map((scope) => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`access-token-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    data-testid={`checkbox-access-token-scope-${scope}`}
+                  />
+                  <Label htmlFor={`access-token-scope-${scope}`} className="font-normal leading-tight">
+                    <span className="font-mono">{scope}</span>
+                    <span className="block text-xs text-muted-foreground">{ACCESS_TOKEN_SCOPE_LABELS[scope]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="access-token-expiry">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="access-token-expiry" className="w-48" data-testid="select-access-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      In {days} days
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NEVER}>Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={create}
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                data-testid="button-create-access-token"
+              >
+                Create token
+              </Button>
+              <Button variant="ghost" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setCreating(true)} data-testid="button-new-access-token">
+            <KeyRound className="h-4 w-4 mr-2" />
+            New token
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import {
+  USER_CONTENT_TYPE_LABELS,
+  USER_CONTENT_TYPES,
+  type AccountDeletionStatus,
+} from "@shared/account-deletion";
+import { AlertTriangle, Download, Trash2 } from "lucide-react";
+
+const DELETION_KEY = ["/api/account/deletion"];
+
+/** Privacy tab card for downloading everything stored about the member and deleting the account */
+export function AccountDataSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  const { data: status } = useQuery<AccountDeletionStatus>({ queryKey: DELETION_KEY });
+  const removed = status ? USER_CONTENT_TYPES.filter((type) => status.policy[type] === "remove") : [];
+  const anonymized = status ? USER_CONTENT_TYPES.filter((type) => status.policy[type] === "anonymize") : [];
+
+  const onStatusChange = (next: AccountDeletionStatus) => {
+    queryClient.setQueryData(DELETION_KEY, next);
+    queryClient.invalidateQueries({ queryKey: ["auth", "me"] });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async (): Promise<AccountDeletionStatus> =>
+      (await apiRequest("POST", "/api/account/deletion", { password })).json(),
+    onSuccess: (next) => {
+      onStatusChange(next);
+      setConfirming(false);
+      setPassword("");
+      toast({ title: "Account deletion scheduled", description: "Your other devices have been signed out" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't schedule deletion", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (): Promise<AccountDeletionStatus> => (await apiRequest("DELETE", "/api/account/deletion")).json(),
+    onSuccess: (next) => {
+      onStatusChange(next);
+      toast({ title: "Account deletion cancelled" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't cancel deletion", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    },
+  });
+
+  const downloadExport = async () => {
+    setExporting(true);
+    try {
+      const res = await apiRequest("GET", "/api/account/export");
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "ev-connect-data.json";
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Couldn't export your data", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>Download a copy of your data or delete your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            A JSON file with your profile, posts, comments, questions, answers, articles, bookmarks, messages,
+            notifications and follows.
+          </p>
+          <Button variant="outline" onClick={downloadExport} disabled={exporting} data-testid="button-export-data">
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Preparing..." : "Download my data"}
+          </Button>
+        </div>
+
+        {status?.scheduledFor ? (
+          <Alert variant="destructive" data-testid="alert-deletion-scheduled">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Your account will be deleted on {format(new Date(status.scheduledFor), "MMM d, yyyy 'at' HH:mm")}</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>Until then you can keep using it and cancel at any time.</p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelMutation.isPending}
+                data-testid="button-cancel-deletion"
+              >
+                Keep my account
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : confirming ? (
+          <div className="space-y-4 rounded-md border border-destructive/50 p-4">
+            <div className="space-y-1 text-sm">
+              <p>
+                Your account will be deleted {status?.cooldownDays ?? 14} days from now. Until then you can cancel.
+              </p>
+              {removed.length > 0 && (
+                <p className="text-muted-foreground">
+                  Removed: {removed.map((type) => USER_CONTENT_TYPE_LABELS[type].toLowerCase()).join(", ")}.
+                </p>
+              )}
+              {anonymized.length > 0 && (
+                <p className="text-muted-foreground">
+                  Kept under "Deleted member": {anonymized.map((type) => USER_CONTENT_TYPE_LABELS[type].toLowerCase()).join(", ")}.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-deletion-password">Password</Label>
+              <Input
+                id="account-deletion-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                data-testid="input-account-deletion-password"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                onClick={() => requestMutation.mutate()}
+                disabled={!password || requestMutation.isPending}
+                data-testid="button-confirm-deletion"
+              >
+                Delete my account
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setConfirming(false);
+                  setPassword("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="destructive" onClick={() => setConfirming(true)} data-testid="button-delete-account">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete account
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -25,7 +25,7 @@ export function AdminReportsManagement() {
   const { data: reports, isLoading } = useQuery({
     queryKey: ["/api/reports"],
     queryFn: async () => {
-      const response = await fetch("/api/reports?status=PENDING", {
+      const response = await fetch("/api/reports?status=OPEN", {
         credentials: "include",
       });
 
@@ -86,6 +86,29 @@ export function AdminReportsManagement() {
     handleReportMutation.mutate({ id: reportId, status: "DISMISSED" });
   };
 
+  const deleteReviewMutation = useMutation({
+    mutationFn: async ({ reviewId, reportId }: { reviewId: string; reportId: string }) => {
+      const response = await fetch(`/api/station-reviews/${reviewId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to delete review");
+      return { reportId };
+    },
+    onSuccess: async (_, variables) => {
+      toast({ title: "Review deleted successfully" });
+      try {
+        await handleReportMutation.mutateAsync({ id: variables.reportId, status: "RESOLVED" });
+      } catch {
+        toast({ title: "Review deleted but failed to update report", variant: "destructive" });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete review", variant: "destructive" });
+    },
+  });
+
   const getContentLink = (targetType: string, targetId: string) => {
     switch (targetType) {
       case "ARTICLE":
@@ -120,7 +143,7 @@ export function AdminReportsManagement() {
                       <div className="flex items-center gap-2">
                         <AlertCircle className="h-4 w-4 text-destructive" />
                         <Badge variant="outline">{report.targetType}</Badge>
-                        <Badge variant={report.status === "PENDING" ? "default" : "secondary"}>
+                        <Badge variant={report.status === "OPEN" ? "default" : "secondary"}>
                           {report.status}
                         </Badge>
                       </div>
@@ -172,6 +195,17 @@ export function AdminReportsManagement() {
                           {deletePostMutation.isPending ? "Deleting..." : "Delete Post"}
                         </Button>
                       )}
+                      {report.targetType === "STATION_REVIEW" && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deleteReviewMutation.mutate({ reviewId: report.targetId, reportId: report.id })}
+                          disabled={deleteReviewMutation.isPending || handleReportMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          {deleteReviewMutation.isPending ? "Deleting..." : "Delete Review"}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
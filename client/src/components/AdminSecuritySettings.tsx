@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { TWO_FACTOR_ROLES, type SecuritySettings, type TwoFactorRole } from "@shared/account";
+
+const SETTINGS_KEY = ["/api/admin/security-settings"];
+
+const ROLE_LABELS: Record<TwoFactorRole, string> = {
+  ADMIN: "Admins",
+  MODERATOR: "Moderators",
+};
+
+export function AdminSecuritySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading } = useQuery<SecuritySettings>({ queryKey: SETTINGS_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: SecuritySettings): Promise<SecuritySettings> =>
+      (await apiRequest("PUT", "/api/admin/security-settings", next)).json(),
+    onSuccess: (data) => {
+      queryClient.setQueryData(SETTINGS_KEY, data);
+      toast({ title: "Security settings saved" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save security settings",
+        description: apiErrorMessage(error, "Please try again"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (role: TwoFactorRole, required: boolean) => {
+    const current = settings?.requireTwoFactorRoles ?? [];
+    saveMutation.mutate({
+      ...settings,
+      requireTwoFactorRoles: required ? [...current.filter((r) => r !== role), role] : current.filter((r) => r !== role),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Members with these roles can't use moderator or admin tools until they turn on 2FA in their settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {TWO_FACTOR_ROLES.map((role) => (
+          <div key={role} className="flex items-center justify-between">
+            <Label htmlFor={`require-2fa-${role}`}>Require for {ROLE_LABELS[role]}</Label>
+            <Switch
+              id={`require-2fa-${role}`}
+              checked={settings?.requireTwoFactorRoles.includes(role) ?? false}
+              onCheckedChange={(checked) => toggleRole(role, checked)}
+              disabled={isLoading || saveMutation.isPending}
+              data-testid={`switch-require-2fa-${role.toLowerCase()}`}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
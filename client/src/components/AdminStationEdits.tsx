@@ -0,0 +1,164 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, CheckCircle, XCircle } from "lucide-react";
+import {
+  EDITABLE_STATION_FIELDS,
+  STATION_FIELD_LABELS,
+  formatStationFieldValue,
+  type EditableStationField,
+  type EditableStationFields,
+  type StationEditDiff,
+} from "@shared/station-edits";
+
+interface PendingStationEdit {
+  id: string;
+  changes: StationEditDiff;
+  comment: string | null;
+  createdAt: string;
+  proposer?: { displayName?: string | null } | null;
+  station: EditableStationFields & { id: string };
+  staleFields: EditableStationField[];
+}
+
+export function AdminStationEdits() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: edits, isLoading } = useQuery<PendingStationEdit[]>({
+    queryKey: ["/api/moderation/station-edits"],
+  });
+
+  const onReviewed = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/moderation/station-edits"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+    toast({ title });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/moderation/station-edits/${id}/apply`);
+    },
+    onSuccess: () => onReviewed("Edit applied"),
+    onError: () => {
+      toast({
+        title: "Failed to apply edit",
+        description: "The station may have changed since this was suggested.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      await apiRequest("POST", `/api/moderation/station-edits/${id}/reject`, { reason });
+    },
+    onSuccess: () => onReviewed("Edit rejected"),
+    onError: () => {
+      toast({ title: "Failed to reject edit", variant: "destructive" });
+    },
+  });
+
+  const handleReject = (id: string) => {
+    const reason = window.prompt("Why is this edit being rejected? The member will see this.");
+    if (reason?.trim()) {
+      rejectMutation.mutate({ id, reason: reason.trim() });
+    }
+  };
+
+  const isPending = applyMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Suggested Edits</CardTitle>
+        <CardDescription>Compare member corrections with the current station details</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading suggestions...</div>
+        ) : !edits || edits.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No suggested edits</div>
+        ) : (
+          <div className="space-y-4">
+            {edits.map((edit) => (
+              <Card key={edit.id} data-testid={`station-edit-${edit.id}`}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="font-medium">{edit.station.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Suggested by {edit.proposer?.displayName || "a member"} on{" "}
+                        {new Date(edit.createdAt).toLocaleString()}
+                      </p>
+                      {edit.comment && <p className="text-sm">“{edit.comment}”</p>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => applyMutation.mutate(edit.id)}
+                        disabled={isPending || edit.staleFields.length > 0}
+                        data-testid={`button-apply-edit-${edit.id}`}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Apply
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleReject(edit.id)}
+                        disabled={isPending}
+                        data-testid={`button-reject-edit-${edit.id}`}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+
+                  {edit.staleFields.length > 0 && (
+                    <p className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      The station has changed since this was suggested, so it can't be applied as-is.
+                    </p>
+                  )}
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-32">Field</TableHead>
+                        <TableHead>Current</TableHead>
+                        <TableHead>Suggested</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {EDITABLE_STATION_FIELDS.filter((field) => edit.changes[field]).map((field) => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">
+                            {STATION_FIELD_LABELS[field]}
+                            {edit.staleFields.includes(field) && (
+                              <Badge variant="destructive" className="ml-2 text-xs">Changed</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {formatStationFieldValue(field, edit.station[field])}
+                          </TableCell>
+                          <TableCell>{formatStationFieldValue(field, edit.changes[field]!.to)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileUp, Upload } from "lucide-react";
+
+type ImportOutcome = "CREATE" | "UPDATE" | "DUPLICATE" | "INVALID";
+
+interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  duplicates: number;
+  invalid: number;
+  rows: Array<{
+    row: number;
+    outcome: ImportOutcome;
+    name?: string;
+    stationId?: string;
+    reason?: string;
+  }>;
+}
+
+const OUTCOME_VARIANTS: Record<ImportOutcome, "default" | "secondary" | "outline" | "destructive"> = {
+  CREATE: "default",
+  UPDATE: "secondary",
+  DUPLICATE: "outline",
+  INVALID: "destructive",
+};
+
+// Rows listed under the summary; the counts above always cover the whole file
+const MAX_REPORT_ROWS = 200;
+
+export function AdminStationImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const text = await file!.text();
+      const format = /\.csv$/i.test(file!.name) ? "csv" : "geojson";
+      const res = await apiRequest("POST", "/api/admin/stations/import", {
+        format,
+        data: text,
+        dryRun,
+        updateExisting,
+      });
+      return (await res.json()) as ImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+        toast({ title: `Imported ${result.created} new and ${result.updated} updated stations` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Stations</CardTitle>
+        <CardDescription>
+          Load a GeoJSON FeatureCollection or a CSV with name, address, lat, lng and connectors columns
+          (e.g. “CCS:150; Type 2:22”). Run a dry run first to check the report.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="station-import-file">File</Label>
+            <Input
+              id="station-import-file"
+              type="file"
+              accept=".geojson,.json,.csv"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setReport(null);
+              }}
+              data-testid="input-station-import"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox
+              id="station-import-update"
+              checked={updateExisting}
+              onCheckedChange={(checked) => setUpdateExisting(checked === true)}
+            />
+            <Label htmlFor="station-import-update" className="font-normal">
+              Update stations with a matching external ID
+            </Label>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate(true)}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-import-dry-run"
+          >
+            <FileUp className="h-4 w-4 mr-1" />
+            Dry run
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(false)}
+            disabled={!file || !report?.dryRun || importMutation.isPending}
+            data-testid="button-import-stations"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {report.dryRun ? "Dry run: " : "Imported: "}
+              {report.total} rows · {report.created} new · {report.updated} updated · {report.duplicates} duplicates ·{" "}
+              {report.invalid} invalid
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead className="w-28">Outcome</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.slice(0, MAX_REPORT_ROWS).map((row) => (
+                  <TableRow key={row.row}>
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell>
+                      <Badge variant={OUTCOME_VARIANTS[row.outcome]}>{row.outcome}</Badge>
+                    </TableCell>
+                    <TableCell>{row.name ?? "—"}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.reason ?? ""}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {report.rows.length > MAX_REPORT_ROWS && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {MAX_REPORT_ROWS} of {report.rows.length} rows.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle, GitMerge, MapPin, XCircle } from "lucide-react";
+
+interface QueueStation {
+  id: string;
+  name: string;
+  address: string;
+  coords: { lat: number; lng: number };
+  connectors: Array<{ type: string; powerKW: number }>;
+  provider: string | null;
+  externalId: string | null;
+  createdAt: string;
+}
+
+interface QueueItem extends QueueStation {
+  submitter?: { displayName?: string | null } | null;
+  duplicates: Array<{
+    station: QueueStation;
+    distanceMeters: number;
+    reasons: Array<"NEARBY" | "SAME_NAME" | "SAME_EXTERNAL_ID">;
+  }>;
+}
+
+const DUPLICATE_REASON_LABELS: Record<QueueItem["duplicates"][number]["reasons"][number], string> = {
+  NEARBY: "Nearby",
+  SAME_NAME: "Same name",
+  SAME_EXTERNAL_ID: "Same external ID",
+};
+
+export function AdminStationVerification() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: queue, isLoading } = useQuery<QueueItem[]>({
+    queryKey: ["/api/moderation/stations"],
+  });
+
+  const onDecided = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/moderation/stations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+    toast({ title });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/moderation/stations/${id}/approve`);
+    },
+    onSuccess: () => onDecided("Station approved"),
+    onError: () => {
+      toast({ title: "Failed to approve station", variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      await apiRequest("POST", `/api/moderation/stations/${id}/reject`, { reason });
+    },
+    onSuccess: () => onDecided("Station rejected"),
+    onError: () => {
+      toast({ title: "Failed to reject station", variant: "destructive" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ id, targetId }: { id: string; targetId: string }) => {
+      await apiRequest("POST", `/api/moderation/stations/${id}/merge`, { targetId });
+    },
+    onSuccess: () => onDecided("Station merged"),
+    onError: () => {
+      toast({ title: "Failed to merge station", variant: "destructive" });
+    },
+  });
+
+  const handleReject = (id: string) => {
+    const reason = window.prompt("Why is this station being rejected? The submitter will see this.");
+    if (reason?.trim()) {
+      rejectMutation.mutate({ id, reason: reason.trim() });
+    }
+  };
+
+  const isPending = approveMutation.isPending || rejectMutation.isPending || mergeMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Station Verification</CardTitle>
+        <CardDescription>Approve, reject or merge stations submitted by members</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading submissions...</div>
+        ) : !queue || queue.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No stations awaiting verification</div>
+        ) : (
+          <div className="space-y-4">
+            {queue.map((item) => (
+              <Card key={item.id} data-testid={`verification-${item.id}`}>
+                <CardContent className="p-4 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="font-medium">{item.name}</p>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {item.address}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.connectors.map((c) => `${c.type} ${c.powerKW} kW`).join(", ")}
+                        {item.provider && ` · ${item.provider}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Submitted by {item.submitter?.displayName || "a member"} on{" "}
+                        {new Date(item.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => approveMutation.mutate(item.id)}
+                        disabled={isPending}
+                        data-testid={`button-approve-${item.id}`}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleReject(item.id)}
+                        disabled={isPending}
+                        data-testid={`button-reject-${item.id}`}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+
+                  {item.duplicates.length > 0 && (
+                    <div className="space-y-2 border-t pt-3">
+                      <p className="text-sm font-medium">Possible duplicates</p>
+                      {item.duplicates.map((duplicate) => (
+                        <div
+                          key={duplicate.station.id}
+                          className="flex items-center justify-between gap-4 rounded-md bg-muted/50 p-2"
+                        >
+                          <div className="space-y-1">
+                            <p className="text-sm">{duplicate.station.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {duplicate.station.address} · {duplicate.distanceMeters} m away
+                            </p>
+                            <div className="flex flex-wrap gap-1">
+                              {duplicate.reasons.map((reason) => (
+                                <Badge key={reason} variant="outline" className="text-xs">
+                                  {DUPLICATE_REASON_LABELS[reason]}
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => mergeMutation.mutate({ id: item.id, targetId: duplicate.station.id })}
+                            disabled={isPending}
+                          >
+                            <GitMerge className="h-4 w-4 mr-1" />
+                            Merge into this
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
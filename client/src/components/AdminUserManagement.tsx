@@ -8,13 +8,16 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Search, Edit, Trash2, Ban, CheckCircle, Shield, User as UserIcon } from "lucide-react";
+import { Search, Edit, Trash2, Ban, CheckCircle, Shield, Unlock, User as UserIcon } from "lucide-react";
+import { USER_STATUSES, USER_STATUS_LABELS, type UserStatus } from "@shared/account";
 
 interface User {
   id: string;
   email: string;
   role: string;
   status: string;
+  failedLoginCount?: number;
+  lockedUntil?: string | null;
   createdAt: string;
   profile?: {
     displayName: string;
@@ -23,6 +26,10 @@ interface User {
   };
 }
 
+function isLocked(user: User): boolean {
+  return !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+}
+
 export function AdminUserManagement() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -130,6 +137,25 @@ export function AdminUserManagement() {
     },
   });
 
+  // Unlock user mutation, for accounts locked after failed sign-ins
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/users/${id}/unlock`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to unlock user");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "User unlocked successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to unlock user", variant: "destructive" });
+    },
+  });
+
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -236,9 +262,24 @@ export function AdminUserManagement() {
                             <Badge variant={user.role === "ADMIN" ? "default" : user.role === "MODERATOR" ? "secondary" : "outline"}>
                               {user.role}
                             </Badge>
-                            <Badge variant={user.status === "ACTIVE" ? "default" : "destructive"}>
-                              {user.status}
+                            <Badge
+                              variant={
+                                user.status === "ACTIVE"
+                                  ? "default"
+                                  : user.status === "PENDING_VERIFICATION"
+                                    ? "secondary"
+                                    : user.status === "DELETED"
+                                      ? "outline"
+                                      : "destructive"
+                              }
+                            >
+                              {USER_STATUS_LABELS[user.status as UserStatus] ?? user.status}
                             </Badge>
+                            {isLocked(user) && (
+                              <Badge variant="destructive" data-testid={`badge-locked-${user.id}`}>
+                                Locked until {new Date(user.lockedUntil!).toLocaleTimeString()}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground">{user.email}</p>
                           <p className="text-xs text-muted-foreground">
@@ -274,6 +315,17 @@ export function AdminUserManagement() {
                             Unblock
                           </Button>
                         )}
+                        {isLocked(user) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => unlockUserMutation.mutate(user.id)}
+                            data-testid={`button-unlock-${user.id}`}
+                          >
+                            <Unlock className="h-4 w-4 mr-1" />
+                            Unlock
+                          </Button>
+                        )}
                         <Button
                           variant="destructive"
                           size="sm"
@@ -346,9 +398,11 @@ export function AdminUserManagement() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="ACTIVE">Active</SelectItem>
-                  <SelectItem value="SUSPENDED">Suspended</SelectItem>
-                  <SelectItem value="BANNED">Banned</SelectItem>
+                  {USER_STATUSES.filter((status) => status !== "DELETED" || selectedUser?.status === "DELETED").map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {USER_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -0,0 +1,435 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Pencil, Plus, Trash2, Zap } from "lucide-react";
+import type { ChargingSessionSummary } from "@shared/charging-sessions";
+import { formatMoney } from "@shared/tariffs";
+
+interface ChargingSessionItem {
+  id: string;
+  stationId: string | null;
+  stationName: string;
+  startedAt: string;
+  endedAt: string | null;
+  energyKWh: number;
+  cost: number;
+  currency: string;
+  vehicle: { brand: string; model: string } | null;
+  notes: string | null;
+}
+
+interface StationOption {
+  id: string;
+  name: string;
+  address: string;
+}
+
+const OTHER_STATION = "__other__";
+
+const chartConfig = {
+  energyKWh: { label: "kWh", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatSpend(spend: Record<string, number>): string {
+  const entries = Object.entries(spend);
+  return entries.length > 0 ? entries.map(([currency, amount]) => formatMoney(amount, currency)).join(" + ") : "—";
+}
+
+// datetime-local inputs want local time without a zone
+function toLocalInput(value: string | null): string {
+  return value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+interface SessionFormState {
+  stationId: string;
+  stationName: string;
+  startedAt: string;
+  endedAt: string;
+  energyKWh: string;
+  cost: string;
+  currency: string;
+  notes: string;
+}
+
+function emptyForm(currency: string): SessionFormState {
+  return {
+    stationId: OTHER_STATION,
+    stationName: "",
+    startedAt: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+    endedAt: "",
+    energyKWh: "",
+    cost: "",
+    currency,
+    notes: "",
+  };
+}
+
+export function ChargingSessionsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ChargingSessionItem | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<SessionFormState>(emptyForm("EUR"));
+
+  const sessionsQuery = useQuery<ChargingSessionItem[]>({ queryKey: ["/api/charging-sessions"] });
+  const summaryQuery = useQuery<ChargingSessionSummary>({ queryKey: ["/api/charging-sessions/summary"] });
+  const stationsQuery = useQuery<StationOption[]>({
+    queryKey: ["/api/charging-sessions/stations"],
+    enabled: formOpen,
+  });
+
+  const sessions = sessionsQuery.data ?? [];
+  const summary = summaryQuery.data;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/charging-sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/charging-sessions/summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/charging-sessions/stations"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = editing
+        ? await apiRequest("PUT", `/api/charging-sessions/${editing.id}`, body)
+        : await apiRequest("POST", "/api/charging-sessions", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setFormOpen(false);
+      toast({ title: editing ? "Session updated" : "Session logged" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save session", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/charging-sessions/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Session deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete session", variant: "destructive" });
+    },
+  });
+
+  const openNew = () => {
+    setEditing(null);
+    // New sessions default to the currency the member used last
+    setForm(emptyForm(sessions[0]?.currency ?? "EUR"));
+    setFormOpen(true);
+  };
+
+  const openEdit = (session: ChargingSessionItem) => {
+    setEditing(session);
+    setForm({
+      stationId: session.stationId ?? OTHER_STATION,
+      stationName: session.stationId ? "" : session.stationName,
+      startedAt: toLocalInput(session.startedAt),
+      endedAt: toLocalInput(session.endedAt),
+      energyKWh: String(session.energyKWh),
+      cost: String(session.cost),
+      currency: session.currency,
+      notes: session.notes ?? "",
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = () => {
+    const energyKWh = parseFloat(form.energyKWh);
+    const cost = parseFloat(form.cost);
+    if (!form.startedAt || Number.isNaN(energyKWh) || Number.isNaN(cost)) {
+      toast({ title: "Start time, kWh and cost are required", variant: "destructive" });
+      return;
+    }
+    const linked = form.stationId !== OTHER_STATION;
+    saveMutation.mutate({
+      stationId: linked ? form.stationId : null,
+      stationName: linked ? undefined : form.stationName,
+      startedAt: new Date(form.startedAt).toISOString(),
+      endedAt: form.endedAt ? new Date(form.endedAt).toISOString() : null,
+      energyKWh,
+      cost,
+      currency: form.currency,
+      notes: form.notes,
+      ...(editing ? { vehicle: editing.vehicle } : {}),
+    });
+  };
+
+  const currencies = summary ? Object.keys(summary.averagePricePerKWh) : [];
+  // Editing a session linked to a station the picker no longer offers still shows its name
+  const stationOptions = [
+    ...(stationsQuery.data ?? []),
+    ...(editing?.stationId && !stationsQuery.data?.some((station) => station.id === editing.stationId)
+      ? [{ id: editing.stationId, name: editing.stationName, address: "" }]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold">Charging log</h3>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/charging-sessions/export.csv" download data-testid="link-export-sessions">
+              <Download className="h-3 w-3 mr-1" />
+              Export CSV
+            </a>
+          </Button>
+          <Button size="sm" onClick={openNew} data-testid="button-log-session">
+            <Plus className="h-3 w-3 mr-1" />
+            Log session
+          </Button>
+        </div>
+      </div>
+
+      {summaryQuery.isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : summary && summary.sessions > 0 ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground">Sessions</p>
+              <p className="text-xl font-semibold">{summary.sessions}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground">Energy</p>
+              <p className="text-xl font-semibold">{summary.energyKWh} kWh</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground">Spend</p>
+              <p className="text-xl font-semibold">{formatSpend(summary.spend)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-xs text-muted-foreground">Average price</p>
+              <p className="text-xl font-semibold">
+                {currencies
+                  .map((currency) => `${formatMoney(summary.averagePricePerKWh[currency], currency)}/kWh`)
+                  .join(" · ")}
+              </p>
+            </Card>
+          </div>
+
+          <Card className="p-4">
+            <p className="text-sm font-medium mb-2">Energy per month</p>
+            <ChartContainer config={chartConfig} className="h-48 w-full">
+              <BarChart data={summary.months}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="month"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(month: string) => format(new Date(`${month}-01T00:00:00`), "MMM yy")}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => {
+                        const month = payload?.[0]?.payload as ChargingSessionSummary["months"][number] | undefined;
+                        return month ? `${month.month} · ${formatSpend(month.spend)}` : "";
+                      }}
+                    />
+                  }
+                />
+                <Bar dataKey="energyKWh" fill="var(--color-energyKWh)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </Card>
+
+          <Card className="p-4">
+            <p className="text-sm font-medium mb-2">Most-used stations</p>
+            <ul className="space-y-1 text-sm">
+              {summary.topStations.map((station) => (
+                <li key={station.stationId ?? station.stationName} className="flex justify-between gap-2">
+                  <span className="flex items-center gap-1 truncate">
+                    <Zap className="h-3 w-3 text-primary flex-shrink-0" />
+                    {station.stationName}
+                  </span>
+                  <span className="text-muted-foreground flex-shrink-0">
+                    {station.sessions} × · {station.energyKWh} kWh
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        </>
+      ) : null}
+
+      {sessionsQuery.isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, idx) => (
+            <Skeleton key={idx} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : sessionsQuery.isError ? (
+        <Card className="p-6 text-center text-destructive">
+          Failed to load charging sessions. Please try again later.
+        </Card>
+      ) : sessions.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">
+          Log your charging sessions to track energy and costs over time.
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((session) => (
+            <Card key={session.id} className="p-3 flex items-center justify-between gap-3" data-testid={`session-${session.id}`}>
+              <div className="min-w-0">
+                <p className="font-medium text-sm truncate">{session.stationName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(session.startedAt), "d MMM yyyy, HH:mm")} · {session.energyKWh} kWh ·{" "}
+                  {formatMoney(session.cost, session.currency)}
+                  {session.vehicle && ` · ${session.vehicle.brand} ${session.vehicle.model}`}
+                </p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => openEdit(session)} title="Edit session">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(session.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Delete session"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit charging session" : "Log charging session"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Station</Label>
+              <Select value={form.stationId} onValueChange={(stationId) => setForm({ ...form, stationId })}>
+                <SelectTrigger data-testid="select-session-station">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {stationOptions.map((station) => (
+                    <SelectItem key={station.id} value={station.id}>
+                      {station.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_STATION}>Another charger…</SelectItem>
+                </SelectContent>
+              </Select>
+              {form.stationId === OTHER_STATION && (
+                <Input
+                  placeholder="Charger name, e.g. Home wallbox"
+                  value={form.stationName}
+                  onChange={(e) => setForm({ ...form, stationName: e.target.value })}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="session-start">Started</Label>
+                <Input
+                  id="session-start"
+                  type="datetime-local"
+                  value={form.startedAt}
+                  onChange={(e) => setForm({ ...form, startedAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="session-end">Ended</Label>
+                <Input
+                  id="session-end"
+                  type="datetime-local"
+                  value={form.endedAt}
+                  onChange={(e) => setForm({ ...form, endedAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="session-energy">kWh</Label>
+                <Input
+                  id="session-energy"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.energyKWh}
+                  onChange={(e) => setForm({ ...form, energyKWh: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="session-cost">Cost</Label>
+                <Input
+                  id="session-cost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.cost}
+                  onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="session-currency">Currency</Label>
+                <Input
+                  id="session-currency"
+                  maxLength={3}
+                  value={form.currency}
+                  onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="session-notes">Notes</Label>
+              <Textarea
+                id="session-notes"
+                value={form.notes}
+                maxLength={1000}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-session">
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface EmailVerificationBannerProps {
+  email: string;
+  graceEndsAt?: string;
+}
+
+/** Reminds members with an unverified email what they're missing and lets them ask for a new link */
+export function EmailVerificationBanner({ email, graceEndsAt }: EmailVerificationBannerProps) {
+  const { toast } = useToast();
+  const [isSending, setIsSending] = useState(false);
+  const graceOver = graceEndsAt ? new Date(graceEndsAt).getTime() <= Date.now() : false;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      const res = await fetch("/api/auth/verify-email/resend", { method: "POST", credentials: "include" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to send verification email");
+      toast({ title: "Verification email sent", description: `Check your inbox at ${email}.` });
+    } catch (error) {
+      toast({
+        title: "Couldn't send email",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="border-b bg-amber-50 dark:bg-amber-950/40" data-testid="banner-email-verification">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="flex items-center gap-2">
+          <MailWarning className="h-4 w-4 flex-shrink-0" />
+          {graceOver
+            ? `Verify ${email} to keep using your account.`
+            : `Verify ${email} to post, message and add stations.`}
+          {!graceOver && graceEndsAt && (
+            <span className="text-muted-foreground">
+              Browsing stays open until {new Date(graceEndsAt).toLocaleDateString()}.
+            </span>
+          )}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleResend}
+          disabled={isSending}
+          data-testid="button-resend-verification"
+        >
+          {isSending ? "Sending..." : "Resend link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
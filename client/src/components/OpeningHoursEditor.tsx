@@ -0,0 +1,132 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WEEKDAYS, WEEKDAY_LABELS, type OpeningHours, type Weekday } from "@shared/station-details";
+
+interface DayHours {
+  open: boolean;
+  from: string;
+  to: string;
+}
+
+/** Editable form of a station's hours: one period per day is enough for most sites */
+export interface OpeningHoursForm {
+  mode: "unknown" | "always" | "custom";
+  days: Record<Weekday, DayHours>;
+  timeZone: string;
+}
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function toOpeningHoursForm(hours: OpeningHours | null | undefined): OpeningHoursForm {
+  const days = Object.fromEntries(
+    WEEKDAYS.map((day) => {
+      const period = hours?.periods.find((candidate) => candidate.day === day);
+      return [day, period ? { open: true, from: period.open, to: period.close } : { open: false, from: "08:00", to: "20:00" }];
+    })
+  ) as Record<Weekday, DayHours>;
+  return {
+    mode: !hours ? "unknown" : hours.twentyFourSeven ? "always" : "custom",
+    days,
+    timeZone: hours?.timeZone ?? browserTimeZone(),
+  };
+}
+
+export function fromOpeningHoursForm(form: OpeningHoursForm): OpeningHours | null {
+  if (form.mode === "unknown") return null;
+  const timeZone = form.timeZone.trim() || undefined;
+  if (form.mode === "always") return { twentyFourSeven: true, periods: [], timeZone };
+  return {
+    twentyFourSeven: false,
+    periods: WEEKDAYS.filter((day) => form.days[day].open).map((day) => ({
+      day,
+      open: form.days[day].from,
+      close: form.days[day].to,
+    })),
+    timeZone,
+  };
+}
+
+interface OpeningHoursEditorProps {
+  value: OpeningHoursForm;
+  onChange: (value: OpeningHoursForm) => void;
+}
+
+export function OpeningHoursEditor({ value, onChange }: OpeningHoursEditorProps) {
+  const updateDay = (day: Weekday, update: Partial<DayHours>) => {
+    onChange({ ...value, days: { ...value.days, [day]: { ...value.days[day], ...update } } });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={value.mode} onValueChange={(mode) => onChange({ ...value, mode: mode as OpeningHoursForm["mode"] })}>
+        <SelectTrigger data-testid="select-opening-hours-mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="unknown">Not known</SelectItem>
+          <SelectItem value="always">Open 24/7</SelectItem>
+          <SelectItem value="custom">Set hours</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.mode === "custom" && (
+        <div className="space-y-1">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="flex items-center gap-2">
+              <Checkbox
+                id={`hours-${day}`}
+                checked={value.days[day].open}
+                onCheckedChange={(checked) => updateDay(day, { open: checked === true })}
+              />
+              <Label htmlFor={`hours-${day}`} className="w-10">
+                {WEEKDAY_LABELS[day]}
+              </Label>
+              {value.days[day].open ? (
+                <>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={value.days[day].from}
+                    onChange={(e) => updateDay(day, { from: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={value.days[day].to}
+                    onChange={(e) => updateDay(day, { to: e.target.value })}
+                  />
+                </>
+              ) : (
+                <span className="text-sm text-muted-foreground">Closed</span>
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">A closing time before the opening time runs past midnight.</p>
+        </div>
+      )}
+
+      {value.mode !== "unknown" && (
+        <div className="space-y-1">
+          <Label htmlFor="hours-time-zone" className="text-xs">Time zone</Label>
+          <Input
+            id="hours-time-zone"
+            value={value.timeZone}
+            placeholder="e.g. Europe/London"
+            onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
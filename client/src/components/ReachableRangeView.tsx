@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Badge } from "@/components/ui/badge";
+import { BatteryCharging, Loader2 } from "lucide-react";
+import { StationMap } from "@/components/StationMap";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { fetchReachableRange, formatDistance, type ReachableStationRecord } from "@/lib/stations";
+import { DEFAULT_CONSUMPTION_KWH_PER_100KM, DEFAULT_RESERVE_PERCENT } from "@shared/reachable-range";
+import type { WatchedStatus } from "@shared/station-watch";
+import type { VehicleSpec } from "@shared/vehicles";
+
+const INPUT_DEBOUNCE_MS = 400;
+const LISTED_STATIONS = 10;
+const NO_STATIONS: ReachableStationRecord[] = [];
+
+const STATUS_BADGES: Record<WatchedStatus, string> = { UP: "Working", BUSY: "Busy", DOWN: "Down" };
+
+interface ReachableRangeViewProps {
+  origin: { lat: number; lng: number } | null;
+  vehicle?: VehicleSpec;
+  /** Battery to start from when the profile names a car the catalog doesn't know */
+  defaultBatteryKWh?: number;
+  /** Station filters from the finder, in query-string form */
+  filterParams: Record<string, string>;
+  onLocationChange: (location: { lat: number; lng: number }) => void;
+}
+
+/** Finder mode answering "what can I reach on the charge I have?" */
+export function ReachableRangeView({
+  origin,
+  vehicle,
+  defaultBatteryKWh,
+  filterParams,
+  onLocationChange,
+}: ReachableRangeViewProps) {
+  const [soc, setSoc] = useState(30);
+  const [batteryKWh, setBatteryKWh] = useState(String(vehicle?.batteryKWh ?? defaultBatteryKWh ?? ""));
+  const [consumption, setConsumption] = useState(String(DEFAULT_CONSUMPTION_KWH_PER_100KM));
+  const [reserve, setReserve] = useState(DEFAULT_RESERVE_PERCENT);
+
+  // The profile loads after the page; fill the battery in once it does
+  const profileBatteryKWh = vehicle?.batteryKWh ?? defaultBatteryKWh;
+  useEffect(() => {
+    if (profileBatteryKWh) setBatteryKWh((current) => current || String(profileBatteryKWh));
+  }, [profileBatteryKWh]);
+
+  const params = useDebouncedValue(
+    { soc, batteryKWh: Number(batteryKWh), consumption: Number(consumption), reserve },
+    INPUT_DEBOUNCE_MS
+  );
+  const valid = params.batteryKWh > 0 && params.consumption > 0;
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["/api/stations/reachable", origin, params, filterParams],
+    queryFn: ({ signal }) =>
+      fetchReachableRange({ lat: origin!.lat, lng: origin!.lng, ...params, ...filterParams }, signal),
+    enabled: !!origin && valid,
+  });
+
+  const stations = data?.stations ?? NO_STATIONS;
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="grid gap-4 md:grid-cols-[1fr_1fr_140px_140px]">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Charge left</Label>
+              <span className="text-sm text-muted-foreground flex items-center gap-1">
+                <BatteryCharging className="h-4 w-4" />
+                {soc}%
+              </span>
+            </div>
+            <Slider min={0} max={100} step={5} value={[soc]} onValueChange={([value]) => setSoc(value)} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Keep in reserve</Label>
+              <span className="text-sm text-muted-foreground">{reserve}%</span>
+            </div>
+            <Slider min={0} max={30} step={5} value={[reserve]} onValueChange={([value]) => setReserve(value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="range-battery">Battery (kWh)</Label>
+            <Input
+              id="range-battery"
+              type="number"
+              min={1}
+              value={batteryKWh}
+              onChange={(e) => setBatteryKWh(e.target.value)}
+              data-testid="input-range-battery"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="range-consumption">kWh / 100 km</Label>
+            <Input
+              id="range-consumption"
+              type="number"
+              min={1}
+              step={0.1}
+              value={consumption}
+              onChange={(e) => setConsumption(e.target.value)}
+              data-testid="input-range-consumption"
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground mt-3" data-testid="text-range-summary">
+          {!valid ? (
+            "Enter your battery size to see what you can reach."
+          ) : isFetching && !data ? (
+            <span className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Working out your range...
+            </span>
+          ) : error ? (
+            "Couldn't work out your range. Try again in a moment."
+          ) : data ? (
+            <>
+              About {formatDistance(data.drivingRangeKm)} of driving before you reach {data.reservePercent}%
+              {data.vehicle && ` in your ${data.vehicle.brand} ${data.vehicle.model}`}.{" "}
+              {stations.length} station{stations.length === 1 ? "" : "s"} within{" "}
+              {formatDistance(data.radiusKm)} in a straight line. Roads are assumed to be about 30% longer.
+            </>
+          ) : null}
+        </p>
+      </Card>
+
+      <StationMap
+        stations={stations}
+        userLocation={origin}
+        onLocationChange={onLocationChange}
+        vehicle={vehicle}
+        range={data && { center: data.center, radiusKm: data.radiusKm }}
+      />
+
+      {stations.length > 0 && (
+        <Card className="p-4">
+          <h3 className="font-semibold mb-3">Best bets in range</h3>
+          <ol className="space-y-2">
+            {stations.slice(0, LISTED_STATIONS).map((station) => (
+              <li key={station.id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{station.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatDistance(station.distanceKm)} · arrive with about {Math.max(0, Math.round(station.arrivalSocPercent))}%
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {station.effectivePowerKW > 0 && <Badge variant="secondary">{station.effectivePowerKW} kW</Badge>}
+                  {station.status && (
+                    <Badge variant={station.status === "UP" ? "default" : "outline"}>
+                      {STATUS_BADGES[station.status]}
+                    </Badge>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </Card>
+      )}
+    </div>
+  );
+}
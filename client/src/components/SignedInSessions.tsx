@@ -0,0 +1,121 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+
+interface SignedInSession {
+  id: string;
+  current: boolean;
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+}
+
+const SESSIONS_KEY = ["/api/auth/sessions"];
+
+function isMobile(session: SignedInSession) {
+  return /iOS|Android/.test(session.device);
+}
+
+/** Security tab card listing where the member is signed in, with remote sign-out */
+export function SignedInSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: sessions = [], isLoading } = useQuery<SignedInSession[]>({ queryKey: SESSIONS_KEY });
+  const others = sessions.filter((session) => !session.current);
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_KEY });
+      toast({ title: "Signed out of that device" });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't sign out that device", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async (): Promise<{ revoked: number }> =>
+      (await apiRequest("POST", "/api/auth/sessions/revoke-others")).json(),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_KEY });
+      toast({ title: `Signed out of ${data.revoked} other session${data.revoked === 1 ? "" : "s"}` });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't sign out other sessions", description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Where You're Signed In</CardTitle>
+        <CardDescription>
+          Devices with access to your account. Sign out any you don't recognise and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading sessions...</p>
+        ) : (
+          <ul className="divide-y" data-testid="list-signed-in-sessions">
+            {sessions.map((session) => {
+              const Icon = isMobile(session) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center gap-3 py-3" data-testid={`session-${session.id}`}>
+                  <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      {session.device}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground" title={session.userAgent ?? undefined}>
+                      {[
+                        session.ip,
+                        session.current
+                          ? "Active now"
+                          : session.lastSeenAt && `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`,
+                        session.signedInAt && `signed in ${formatDistanceToNow(new Date(session.signedInAt), { addSuffix: true })}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {others.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            data-testid="button-revoke-other-sessions"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out all other sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
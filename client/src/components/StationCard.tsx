@@ -1,11 +1,40 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Zap, Bookmark, Navigation } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MapPin, Zap, Bookmark, Navigation, CheckCircle2, Clock, MessageSquareWarning, Star, Pencil } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { describeCheckIn, LIVE_STATUS_COLORS } from "@/lib/stations";
+import { StarRating, StationReviewsDialog } from "@/components/StationReviewsDialog";
+import { StationEditDialog } from "@/components/StationEditDialog";
+import { formatChargeTime, type StationCompatibility } from "@shared/vehicles";
+import { formatMoney, type StationCostEstimate } from "@shared/tariffs";
+import {
+  ACCESS_TYPE_LABELS,
+  AMENITY_LABELS,
+  PARKING_RESTRICTION_LABELS,
+  formatOpeningHours,
+  isOpenAt,
+  type StationDetails,
+} from "@shared/station-details";
+import {
+  CHECK_IN_LABELS,
+  LIVE_STATUS_LABELS,
+  type RecentCheckIn,
+  type StationCheckInInput,
+  type StationLiveStatus,
+} from "@shared/check-ins";
 
 interface Connector {
   type: string;
@@ -23,6 +52,17 @@ interface StationCardProps {
   availability?: "available" | "busy" | "offline";
   latitude?: number;
   longitude?: number;
+  /** Fit with the member's vehicle; omitted when no vehicle is known */
+  compatibility?: StationCompatibility;
+  /** Crowd-sourced status from member check-ins */
+  liveStatus?: StationLiveStatus;
+  recentCheckIns?: RecentCheckIn[];
+  ratingAverage?: number;
+  ratingCount?: number;
+  /** Expected cost of a typical charge; hidden when the pricing can't be read */
+  costEstimate?: StationCostEstimate;
+  /** Opening hours, access and amenities, where members have filled them in */
+  details?: Partial<StationDetails>;
 }
 
 export function StationCard({
@@ -36,11 +76,20 @@ export function StationCard({
   availability = "available",
   latitude,
   longitude,
+  compatibility,
+  liveStatus,
+  recentCheckIns = [],
+  ratingAverage = 0,
+  ratingCount = 0,
+  costEstimate,
+  details = {},
 }: StationCardProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [bookmarked, setBookmarked] = useState(false);
+  const [showReviews, setShowReviews] = useState(false);
+  const [showEdit, setShowEdit] = useState(false);
 
   // Check if station is bookmarked
   const { data: bookmark } = useQuery({
@@ -99,6 +148,35 @@ export function StationCard({
     },
   });
 
+  const checkInMutation = useMutation({
+    mutationFn: async (input: StationCheckInInput) => {
+      const res = await apiRequest("POST", `/api/stations/${id}/check-ins`, input);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stations/search"] });
+      toast({ title: "Thanks for checking in" });
+    },
+    onError: () => {
+      toast({
+        title: "Failed to record check-in",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCheckIn = (input: StationCheckInInput) => {
+    if (!user) {
+      toast({
+        title: "Please login to check in at stations",
+        variant: "destructive",
+      });
+      return;
+    }
+    checkInMutation.mutate(input);
+  };
+
   const handleBookmark = () => {
     if (!user) {
       toast({
@@ -126,6 +204,17 @@ export function StationCard({
     }
   };
 
+  const openNow =
+    latitude !== undefined && longitude !== undefined
+      ? isOpenAt({ coords: { lat: latitude, lng: longitude }, openingHours: details.openingHours })
+      : undefined;
+  const siteInfo = [
+    details.accessType && details.accessType !== "PUBLIC" ? ACCESS_TYPE_LABELS[details.accessType] : undefined,
+    details.maxHeightMeters ? `Max height ${details.maxHeightMeters} m` : undefined,
+    ...(details.parkingRestrictions ?? []).map((restriction) => PARKING_RESTRICTION_LABELS[restriction]),
+    ...(details.amenities ?? []).map((amenity) => AMENITY_LABELS[amenity]),
+  ].filter(Boolean);
+
   const availabilityColor = {
     available: "bg-status-online",
     busy: "bg-status-away",
@@ -145,22 +234,88 @@ export function StationCard({
               {name}
             </h3>
             <div className="flex items-center gap-1">
-              <div className={`w-2 h-2 rounded-full ${availabilityColor[availability]}`} />
+              {liveStatus && liveStatus.status !== "UNKNOWN" ? (
+                <span
+                  className="flex items-center gap-1 text-xs"
+                  style={{ color: LIVE_STATUS_COLORS[liveStatus.status] }}
+                  data-testid={`text-live-status-${id}`}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ background: LIVE_STATUS_COLORS[liveStatus.status] }} />
+                  {LIVE_STATUS_LABELS[liveStatus.status]}
+                </span>
+              ) : (
+                <div className={`w-2 h-2 rounded-full ${availabilityColor[availability]}`} />
+              )}
             </div>
           </div>
 
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-muted-foreground mb-1 hover:underline"
+            onClick={() => setShowReviews(true)}
+            data-testid={`button-reviews-${id}`}
+          >
+            {ratingCount > 0 ? (
+              <>
+                <StarRating value={ratingAverage} size="h-3 w-3" />
+                <span>{ratingAverage.toFixed(1)} ({ratingCount})</span>
+              </>
+            ) : (
+              <>
+                <Star className="h-3 w-3" />
+                <span>No reviews yet</span>
+              </>
+            )}
+          </button>
+
           <p className="text-sm text-muted-foreground mb-2 flex items-center gap-1">
             <MapPin className="h-3 w-3" />
             {address}
             {distance && <span className="ml-1">· {distance}</span>}
           </p>
 
+          {(details.openingHours || siteInfo.length > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-2" data-testid={`text-site-details-${id}`}>
+              {details.openingHours && (
+                <span
+                  className={`flex items-center gap-1 font-medium ${openNow === false ? "text-destructive" : "text-primary"}`}
+                  title={formatOpeningHours(details.openingHours)}
+                >
+                  <Clock className="h-3 w-3" />
+                  {details.openingHours.twentyFourSeven ? "Open 24/7" : openNow ? "Open now" : "Closed now"}
+                </span>
+              )}
+              {siteInfo.length > 0 && <span>{siteInfo.join(" · ")}</span>}
+            </div>
+          )}
+
+          {compatibility?.compatible && (
+            <div className="flex items-center gap-2 text-xs text-primary mb-2" data-testid={`text-compatible-${id}`}>
+              <CheckCircle2 className="h-3 w-3" />
+              <span>Fits your vehicle</span>
+              {compatibility.fastestChargeMinutes !== undefined && (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  10–80% in {formatChargeTime(compatibility.fastestChargeMinutes)}
+                </span>
+              )}
+            </div>
+          )}
+
           <div className="flex flex-wrap gap-1 mb-3">
-            {connectors.map((connector, i) => (
-              <Badge key={i} variant="secondary" className="text-xs">
-                {connector.type} · {connector.powerKW}kW
-              </Badge>
-            ))}
+            {connectors.map((connector, i) => {
+              const fit = compatibility?.connectors[i];
+              return (
+                <Badge
+                  key={i}
+                  variant="secondary"
+                  className={`text-xs ${fit && !fit.compatible ? "opacity-50" : ""}`}
+                >
+                  {connector.type} · {connector.powerKW}kW
+                  {fit?.chargeMinutes !== undefined && ` · ${formatChargeTime(fit.chargeMinutes)}`}
+                </Badge>
+              );
+            })}
           </div>
 
           {(provider || pricing) && (
@@ -170,6 +325,30 @@ export function StationCard({
             </div>
           )}
 
+          {costEstimate && costEstimate.total !== null && (
+            <p className="text-xs mb-3" data-testid={`text-cost-estimate-${id}`}>
+              {costEstimate.tariff.free ? (
+                <span className="font-medium text-primary">Free to charge</span>
+              ) : (
+                <>
+                  <span className="font-medium">≈ {formatMoney(costEstimate.total, costEstimate.currency)}</span>
+                  <span className="text-muted-foreground">
+                    {" "}for {costEstimate.energyKWh} kWh
+                    {costEstimate.minutes !== undefined && ` (~${formatChargeTime(costEstimate.minutes)})`}
+                  </span>
+                </>
+              )}
+            </p>
+          )}
+
+          {recentCheckIns.length > 0 && (
+            <ul className="text-xs text-muted-foreground mb-3 space-y-0.5" data-testid={`list-check-ins-${id}`}>
+              {recentCheckIns.map((checkIn, i) => (
+                <li key={i}>{describeCheckIn(checkIn)}</li>
+              ))}
+            </ul>
+          )}
+
           <div className="flex items-center gap-2">
             <Button
               variant="outline"
@@ -190,9 +369,71 @@ export function StationCard({
             >
               <Bookmark className={`h-3 w-3 ${bookmarked ? 'fill-current' : ''}`} />
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={checkInMutation.isPending}
+                  title="Check in"
+                  data-testid={`button-check-in-${id}`}
+                >
+                  <MessageSquareWarning className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Check in</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleCheckIn({ status: "CHARGED_OK" })}>
+                  {CHECK_IN_LABELS.CHARGED_OK}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleCheckIn({ status: "ALL_OCCUPIED" })}>
+                  {CHECK_IN_LABELS.ALL_OCCUPIED}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleCheckIn({ status: "ICED" })}>
+                  {CHECK_IN_LABELS.ICED}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {connectors.length > 0 ? (
+                  Array.from(new Set(connectors.map((connector) => connector.type))).map((type) => (
+                    <DropdownMenuItem key={type} onClick={() => handleCheckIn({ status: "BROKEN", connectorType: type })}>
+                      Broken: {type}
+                    </DropdownMenuItem>
+                  ))
+                ) : (
+                  <DropdownMenuItem onClick={() => handleCheckIn({ status: "BROKEN" })}>
+                    {CHECK_IN_LABELS.BROKEN}
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowEdit(true)}
+              title="Suggest an edit"
+              data-testid={`button-suggest-edit-${id}`}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
           </div>
         </div>
       </div>
+
+      <StationReviewsDialog stationId={id} stationName={name} open={showReviews} onOpenChange={setShowReviews} />
+      <StationEditDialog
+        station={{
+          id,
+          name,
+          address,
+          coords: latitude !== undefined && longitude !== undefined ? { lat: latitude, lng: longitude } : undefined,
+          connectors,
+          provider,
+          pricing,
+          ...details,
+        }}
+        open={showEdit}
+        onOpenChange={setShowEdit}
+      />
     </Card>
   );
 }
@@ -0,0 +1,369 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  OpeningHoursEditor,
+  fromOpeningHoursForm,
+  toOpeningHoursForm,
+} from "@/components/OpeningHoursEditor";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  EDITABLE_STATION_FIELDS,
+  STATION_FIELD_LABELS,
+  formatStationFieldValue,
+  type EditableStationFields,
+  type StationEditDiff,
+} from "@shared/station-edits";
+import {
+  ACCESS_TYPES,
+  ACCESS_TYPE_LABELS,
+  AMENITIES,
+  AMENITY_LABELS,
+  PARKING_RESTRICTIONS,
+  PARKING_RESTRICTION_LABELS,
+  type AccessType,
+  type Amenity,
+  type ParkingRestriction,
+  type StationDetails,
+} from "@shared/station-details";
+
+interface StationHistoryItem {
+  id: string;
+  changes: StationEditDiff;
+  comment: string | null;
+  reviewedAt: string | null;
+  proposer?: { displayName?: string | null } | null;
+}
+
+interface StationEditDialogProps {
+  station: {
+    id: string;
+    name: string;
+    address: string;
+    coords?: { lat: number; lng: number };
+    connectors: Array<{ type: string; powerKW: number }>;
+    provider?: string | null;
+    pricing?: string | null;
+  } & Partial<StationDetails>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StationEditDialog({ station, open, onOpenChange }: StationEditDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState(station.name);
+  const [address, setAddress] = useState(station.address);
+  const [coords, setCoords] = useState("");
+  const [connectors, setConnectors] = useState(station.connectors);
+  const [provider, setProvider] = useState(station.provider ?? "");
+  const [pricing, setPricing] = useState(station.pricing ?? "");
+  const [hours, setHours] = useState(() => toOpeningHoursForm(station.openingHours));
+  const [accessType, setAccessType] = useState<AccessType | "unknown">(station.accessType ?? "unknown");
+  const [parkingRestrictions, setParkingRestrictions] = useState<ParkingRestriction[]>(station.parkingRestrictions ?? []);
+  const [maxHeight, setMaxHeight] = useState(station.maxHeightMeters?.toString() ?? "");
+  const [amenities, setAmenities] = useState<Amenity[]>(station.amenities ?? []);
+  const [comment, setComment] = useState("");
+
+  // Each time the dialog opens the form starts from the station as it is now;
+  // keyed on open alone so parent re-renders don't wipe what the member typed
+  useEffect(() => {
+    if (!open) return;
+    setName(station.name);
+    setAddress(station.address);
+    setCoords(station.coords ? `${station.coords.lat}, ${station.coords.lng}` : "");
+    setConnectors(station.connectors);
+    setProvider(station.provider ?? "");
+    setPricing(station.pricing ?? "");
+    setHours(toOpeningHoursForm(station.openingHours));
+    setAccessType(station.accessType ?? "unknown");
+    setParkingRestrictions(station.parkingRestrictions ?? []);
+    setMaxHeight(station.maxHeightMeters?.toString() ?? "");
+    setAmenities(station.amenities ?? []);
+    setComment("");
+  }, [open]);
+
+  const { data: history, isLoading: historyLoading } = useQuery<StationHistoryItem[]>({
+    queryKey: ["/api/stations", station.id, "history"],
+    enabled: open,
+  });
+
+  const proposeMutation = useMutation({
+    mutationFn: async (changes: Partial<EditableStationFields>) => {
+      const res = await apiRequest("POST", `/api/stations/${station.id}/edits`, { changes, comment });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Suggestion sent", description: "A moderator will review it." });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: "Failed to send suggestion", variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = () => {
+    const changes: Partial<EditableStationFields> = {
+      name,
+      address,
+      connectors: connectors.filter((connector) => connector.type.trim()),
+      provider: provider.trim() || null,
+      pricing: pricing.trim() || null,
+    };
+    if (coords.trim()) {
+      const [lat, lng] = coords.split(",").map((part) => parseFloat(part));
+      if (Number.isNaN(lat) || Number.isNaN(lng)) {
+        toast({ title: "Enter the location as “lat, lng”", variant: "destructive" });
+        return;
+      }
+      changes.coords = { lat, lng };
+    }
+    const maxHeightMeters = maxHeight.trim() ? parseFloat(maxHeight) : null;
+    if (maxHeightMeters !== null && !(maxHeightMeters > 0 && maxHeightMeters <= 10)) {
+      toast({ title: "Enter the height clearance in metres", variant: "destructive" });
+      return;
+    }
+
+    // Site details are only proposed when the member changed them, so a
+    // station without any on file doesn't get a suggestion of empty lists.
+    // Comparing forms also keeps hours the editor can't show, like split shifts.
+    const details: StationDetails = {
+      openingHours: fromOpeningHoursForm(hours),
+      accessType: accessType === "unknown" ? null : accessType,
+      parkingRestrictions,
+      maxHeightMeters,
+      amenities,
+    };
+    const before: StationDetails = {
+      openingHours: fromOpeningHoursForm(toOpeningHoursForm(station.openingHours)),
+      accessType: station.accessType ?? null,
+      parkingRestrictions: station.parkingRestrictions ?? [],
+      maxHeightMeters: station.maxHeightMeters ?? null,
+      amenities: station.amenities ?? [],
+    };
+    for (const field of Object.keys(details) as Array<keyof StationDetails>) {
+      if (JSON.stringify(details[field]) === JSON.stringify(before[field])) continue;
+      (changes as Record<string, unknown>)[field] = details[field];
+    }
+    proposeMutation.mutate(changes);
+  };
+
+  const updateConnector = (index: number, update: Partial<{ type: string; powerKW: number }>) => {
+    setConnectors((current) => current.map((connector, i) => (i === index ? { ...connector, ...update } : connector)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Station details</DialogTitle>
+          <DialogDescription>{station.name}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={user ? "suggest" : "history"}>
+          <TabsList className="w-full">
+            <TabsTrigger value="suggest" className="flex-1" disabled={!user}>
+              Suggest an edit
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex-1">
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="suggest" className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="edit-name">Name</Label>
+              <Input id="edit-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-address">Address</Label>
+              <Input id="edit-address" value={address} onChange={(e) => setAddress(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-coords">Location (lat, lng)</Label>
+              <Input id="edit-coords" value={coords} onChange={(e) => setCoords(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Connectors</Label>
+              {connectors.map((connector, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    value={connector.type}
+                    placeholder="Type"
+                    onChange={(e) => updateConnector(i, { type: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    className="w-24"
+                    value={connector.powerKW}
+                    min={1}
+                    onChange={(e) => updateConnector(i, { powerKW: Number(e.target.value) })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setConnectors((current) => current.filter((_, j) => j !== i))}
+                    title="Remove connector"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConnectors((current) => [...current, { type: "", powerKW: 22 }])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add connector
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="edit-provider">Operator</Label>
+                <Input id="edit-provider" value={provider} onChange={(e) => setProvider(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-pricing">Pricing</Label>
+                <Input id="edit-pricing" value={pricing} onChange={(e) => setPricing(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Opening hours</Label>
+              <OpeningHoursEditor value={hours} onChange={setHours} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Access</Label>
+                <Select value={accessType} onValueChange={(value) => setAccessType(value as AccessType | "unknown")}>
+                  <SelectTrigger data-testid="select-edit-access">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unknown">Not known</SelectItem>
+                    {ACCESS_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {ACCESS_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="edit-max-height">Max height (m)</Label>
+                <Input
+                  id="edit-max-height"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={maxHeight}
+                  onChange={(e) => setMaxHeight(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Parking</Label>
+              <div className="grid grid-cols-2 gap-1">
+                {PARKING_RESTRICTIONS.map((restriction) => (
+                  <label key={restriction} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={parkingRestrictions.includes(restriction)}
+                      onCheckedChange={(checked) =>
+                        setParkingRestrictions((current) =>
+                          checked === true ? [...current, restriction] : current.filter((r) => r !== restriction)
+                        )
+                      }
+                    />
+                    {PARKING_RESTRICTION_LABELS[restriction]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Amenities</Label>
+              <div className="grid grid-cols-2 gap-1">
+                {AMENITIES.map((amenity) => (
+                  <label key={amenity} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={amenities.includes(amenity)}
+                      onCheckedChange={(checked) =>
+                        setAmenities((current) =>
+                          checked === true ? [...current, amenity] : current.filter((a) => a !== amenity)
+                        )
+                      }
+                    />
+                    {AMENITY_LABELS[amenity]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-comment">Note for moderators</Label>
+              <Textarea
+                id="edit-comment"
+                placeholder="How do you know? e.g. visited last week"
+                value={comment}
+                maxLength={1000}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleSubmit} disabled={proposeMutation.isPending} data-testid="button-submit-edit">
+              {proposeMutation.isPending ? "Sending..." : "Send suggestion"}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {historyLoading ? (
+              <p className="text-sm text-muted-foreground">Loading history...</p>
+            ) : !history || history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No member edits yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {history.map((item) => (
+                  <div key={item.id} className="space-y-1 text-sm">
+                    <p className="text-xs text-muted-foreground">
+                      Suggested by {item.proposer?.displayName || "a former member"}
+                      {item.reviewedAt && ` · ${formatDistanceToNow(new Date(item.reviewedAt), { addSuffix: true })}`}
+                    </p>
+                    {EDITABLE_STATION_FIELDS.filter((field) => item.changes[field]).map((field) => (
+                      <p key={field}>
+                        <span className="font-medium">{STATION_FIELD_LABELS[field]}:</span>{" "}
+                        <span className="line-through text-muted-foreground">
+                          {formatStationFieldValue(field, item.changes[field]!.from)}
+                        </span>{" "}
+                        → {formatStationFieldValue(field, item.changes[field]!.to)}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
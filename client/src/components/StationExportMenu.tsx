@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+const EXPORT_FORMATS = [
+  { format: "geojson", label: "GeoJSON", hint: "Maps and GIS tools" },
+  { format: "kml", label: "KML", hint: "Google Earth and My Maps" },
+  { format: "gpx", label: "GPX", hint: "Navigation apps" },
+] as const;
+
+interface StationExportMenuProps {
+  /** Query understood by /api/stations, or { bookmarked: "true" } */
+  params: Record<string, string | number | undefined>;
+  disabled?: boolean;
+}
+
+export function StationExportMenu({ params, disabled }: StationExportMenuProps) {
+  const exportUrl = (format: string) => {
+    const query = new URLSearchParams({ format });
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") query.set(key, String(value));
+    });
+    return `/api/stations/export?${query.toString()}`;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled} data-testid="button-export-stations">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download stations</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(({ format, label, hint }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={exportUrl(format)} download>
+              <span className="font-medium">{label}</span>
+              <span className="ml-2 text-xs text-muted-foreground">{hint}</span>
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,188 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, X } from "lucide-react";
+import { CONNECTOR_FAMILY_LABELS, type ConnectorFamily } from "@shared/stations";
+import {
+  ACCESS_TYPES,
+  ACCESS_TYPE_LABELS,
+  AMENITIES,
+  AMENITY_LABELS,
+  type AccessType,
+  type Amenity,
+} from "@shared/station-details";
+import type { StationFilterState } from "@/hooks/use-station-filters";
+
+// Filterable connectors; Type 1 is left out as it's AC-only and rare on public posts
+const FILTER_CONNECTORS: ConnectorFamily[] = ["CCS", "CHADEMO", "TYPE_2", "TESLA"];
+const POWER_OPTIONS = [0, 22, 50, 150, 350];
+
+interface StationFilterBarProps {
+  filters: StationFilterState;
+  activeCount: number;
+  /** Shown next to the "compatible only" toggle; the toggle is hidden without a known vehicle */
+  vehicleName?: string;
+  onChange: (update: Partial<StationFilterState>) => void;
+  onReset: () => void;
+}
+
+export function StationFilterBar({ filters, activeCount, vehicleName, onChange, onReset }: StationFilterBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3" data-testid="station-filters">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <SlidersHorizontal className="h-4 w-4" />
+        Filters
+      </div>
+
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        value={filters.connectors}
+        onValueChange={(value) => onChange({ connectors: value as ConnectorFamily[] })}
+      >
+        {FILTER_CONNECTORS.map((family) => (
+          <ToggleGroupItem key={family} value={family} data-testid={`filter-connector-${family}`}>
+            {CONNECTOR_FAMILY_LABELS[family]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <Select
+        value={String(filters.minPower)}
+        onValueChange={(value) => onChange({ minPower: Number(value) })}
+      >
+        <SelectTrigger className="w-[140px] h-9" data-testid="filter-min-power">
+          <SelectValue placeholder="Any power" />
+        </SelectTrigger>
+        <SelectContent>
+          {POWER_OPTIONS.map((power) => (
+            <SelectItem key={power} value={String(power)}>
+              {power === 0 ? "Any power" : `${power}+ kW`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.pricing}
+        onValueChange={(value) => onChange({ pricing: value as StationFilterState["pricing"] })}
+      >
+        <SelectTrigger className="w-[120px] h-9" data-testid="filter-pricing">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="any">Free or paid</SelectItem>
+          <SelectItem value="free">Free only</SelectItem>
+          <SelectItem value="paid">Paid only</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.sort}
+        onValueChange={(value) => onChange({ sort: value as StationFilterState["sort"] })}
+      >
+        <SelectTrigger className="w-[140px] h-9" data-testid="filter-sort">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="distance">Nearest first</SelectItem>
+          <SelectItem value="rating">Top rated</SelectItem>
+          <SelectItem value="price">Cheapest first</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.access[0] ?? "any"}
+        onValueChange={(value) => onChange({ access: value === "any" ? [] : [value as AccessType] })}
+      >
+        <SelectTrigger className="w-[150px] h-9" data-testid="filter-access">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="any">Any access</SelectItem>
+          {ACCESS_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {ACCESS_TYPE_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        value={filters.amenities}
+        onValueChange={(value) => onChange({ amenities: value as Amenity[] })}
+      >
+        {AMENITIES.map((amenity) => (
+          <ToggleGroupItem key={amenity} value={amenity} data-testid={`filter-amenity-${amenity}`}>
+            {AMENITY_LABELS[amenity]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <Input
+        type="number"
+        placeholder="Vehicle height (m)"
+        className="w-[160px] h-9"
+        min={0}
+        max={10}
+        step={0.1}
+        value={filters.vehicleHeight || ""}
+        onChange={(e) => onChange({ vehicleHeight: Number(e.target.value) || 0 })}
+        data-testid="filter-height"
+      />
+
+      <Input
+        placeholder="Operator"
+        className="w-[160px] h-9"
+        value={filters.provider}
+        onChange={(e) => onChange({ provider: e.target.value })}
+        data-testid="filter-provider"
+      />
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="filter-operational"
+          checked={filters.operationalOnly}
+          onCheckedChange={(checked) => onChange({ operationalOnly: checked })}
+        />
+        <Label htmlFor="filter-operational" className="text-sm">Operational only</Label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="filter-open-now"
+          checked={filters.openNow}
+          onCheckedChange={(checked) => onChange({ openNow: checked })}
+          data-testid="filter-open-now"
+        />
+        <Label htmlFor="filter-open-now" className="text-sm">Open now</Label>
+      </div>
+
+      {vehicleName && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="filter-compatible"
+            checked={filters.compatibleOnly}
+            onCheckedChange={(checked) => onChange({ compatibleOnly: checked })}
+            data-testid="filter-compatible"
+          />
+          <Label htmlFor="filter-compatible" className="text-sm">Fits my {vehicleName}</Label>
+        </div>
+      )}
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={onReset} className="gap-1">
+          <X className="h-3 w-3" />
+          Clear ({activeCount})
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -6,38 +6,70 @@ import { MapPin, Zap, Navigation, Search, Loader2 } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-
-interface Station {
-  ID: number;
-  AddressInfo: {
-    Title: string;
-    AddressLine1: string;
-    Town: string;
-    StateOrProvince: string;
-    Latitude: number;
-    Longitude: number;
-    Distance?: number;
-  };
-  Connections: Array<{
-    ConnectionType?: { Title: string };
-    PowerKW?: number;
-  }>;
-  OperatorInfo?: { Title: string };
-  StatusType?: { IsOperational: boolean };
-}
+import {
+  describeCheckIn,
+  formatDistance,
+  LIVE_STATUS_COLORS,
+  maxPowerKW,
+  POWER_CLASSES,
+  powerClass,
+  toAvailability,
+  UNCLUSTERED_ZOOM,
+  type MapViewport,
+  type StationRecord,
+} from "@/lib/stations";
+import { formatChargeTime, stationCompatibility, type VehicleSpec } from "@shared/vehicles";
+import { LIVE_STATUS_LABELS } from "@shared/check-ins";
+import { AMENITY_LABELS, formatOpeningHours, isOpenAt } from "@shared/station-details";
+import {
+  clusterCellDegrees,
+  groupStationsByCell,
+  mergeClusters,
+  toStationCluster,
+  type StationCluster,
+} from "@shared/stations";
 
 interface StationMapProps {
-  stations: Station[];
+  stations: StationRecord[];
+  /** Pre-grouped stations for zoomed-out views, drawn alongside any nearby stations */
+  clusters?: StationCluster[];
   userLocation: { lat: number; lng: number } | null;
   onLocationChange?: (location: { lat: number; lng: number }) => void;
+  onViewportChange?: (viewport: MapViewport) => void;
+  /** The member's vehicle; compatible stations get a highlighted marker */
+  vehicle?: VehicleSpec;
+  /** Safe driving range drawn as a circle, for the reachable-range view */
+  range?: { center: { lat: number; lng: number }; radiusKm: number };
 }
 
-export function StationMap({ stations, userLocation, onLocationChange }: StationMapProps) {
+const INITIAL_ZOOM = 12;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function formatCount(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(count >= 10000 ? 0 : 1)}k` : String(count);
+}
+
+export function StationMap({
+  stations,
+  clusters = [],
+  userLocation,
+  onLocationChange,
+  onViewportChange,
+  vehicle,
+  range,
+}: StationMapProps) {
   const { toast } = useToast();
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
-  const [selectedStation, setSelectedStation] = useState<Station | null>(null);
+  const rangeLayerRef = useRef<any>(null);
+  const [selectedStation, setSelectedStation] = useState<StationRecord | null>(null);
+  const [zoom, setZoom] = useState(INITIAL_ZOOM);
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
   const [leafletLoaded, setLeafletLoaded] = useState(false);
   const [mapSearchQuery, setMapSearchQuery] = useState("");
   const [isSearching, setIsSearching] = useState(false);
@@ -76,7 +108,7 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
     }
 
     // Create map
-    const map = L.map(mapRef.current).setView([userLocation.lat, userLocation.lng], 12);
+    const map = L.map(mapRef.current).setView([userLocation.lat, userLocation.lng], INITIAL_ZOOM);
     mapInstanceRef.current = map;
 
     // Add OpenStreetMap tiles
@@ -97,6 +129,19 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
       .addTo(map)
       .bindPopup('<b>Your Location</b>');
 
+    // Report the visible area so stations can be loaded for it
+    const reportViewport = () => {
+      const center = map.getCenter();
+      setZoom(map.getZoom());
+      onViewportChangeRef.current?.({
+        bbox: map.getBounds().toBBoxString(),
+        center: { lat: center.lat, lng: center.lng },
+        zoom: map.getZoom(),
+      });
+    };
+    map.on('moveend', reportViewport);
+    reportViewport();
+
     return () => {
       if (mapInstanceRef.current) {
         mapInstanceRef.current.remove();
@@ -105,6 +150,30 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
     };
   }, [leafletLoaded, userLocation]);
 
+  // Draw the range circle and fit the map to it whenever it changes
+  useEffect(() => {
+    if (!mapInstanceRef.current || !leafletLoaded) return;
+
+    // @ts-ignore
+    const L = window.L;
+    if (!L) return;
+
+    rangeLayerRef.current?.remove();
+    rangeLayerRef.current = null;
+    if (!range || range.radiusKm <= 0) return;
+
+    const circle = L.circle([range.center.lat, range.center.lng], {
+      radius: range.radiusKm * 1000,
+      color: '#10b981',
+      weight: 2,
+      dashArray: '6 6',
+      fillColor: '#10b981',
+      fillOpacity: 0.08,
+    }).addTo(mapInstanceRef.current);
+    rangeLayerRef.current = circle;
+    mapInstanceRef.current.fitBounds(circle.getBounds(), { padding: [20, 20] });
+  }, [range?.center.lat, range?.center.lng, range?.radiusKm, leafletLoaded, userLocation]);
+
   // Add station markers
   useEffect(() => {
     if (!mapInstanceRef.current || !leafletLoaded) return;
@@ -117,47 +186,103 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
     markersRef.current.forEach(marker => marker.remove());
     markersRef.current = [];
 
-    // Add markers for each station
-    stations.forEach((station) => {
-      const isOperational = station.StatusType?.IsOperational !== false;
-      const color = isOperational ? '#10b981' : '#ef4444';
+    // Nearby stations share a bubble until the map is zoomed in far enough to tell them apart
+    const cellDegrees = clusterCellDegrees(zoom);
+    const groups = zoom >= UNCLUSTERED_ZOOM
+      ? stations.map((station) => [station])
+      : groupStationsByCell(stations, cellDegrees);
+    const bubbles = mergeClusters(
+      [...clusters, ...groups.filter((group) => group.length > 1).map(toStationCluster)],
+      cellDegrees
+    );
+
+    bubbles.forEach((cluster) => {
+      const size = Math.round(28 + Math.min(24, Math.log10(cluster.count) * 10));
+      const clusterIcon = L.divIcon({
+        className: 'custom-cluster-marker',
+        html: `<div style="background: ${powerClass(cluster.maxPowerKW).color}; width: ${size}px; height: ${size}px; border-radius: 50%; border: 3px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3); color: white; font-size: 12px; font-weight: 600; display: flex; align-items: center; justify-content: center;">${formatCount(cluster.count)}</div>`,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2],
+      });
+
+      const { west, south, east, north } = cluster.bounds;
+      const marker = L.marker([cluster.lat, cluster.lng], { icon: clusterIcon })
+        .addTo(mapInstanceRef.current)
+        .on('click', () =>
+          mapInstanceRef.current?.fitBounds([[south, west], [north, east]], { padding: [40, 40], maxZoom: UNCLUSTERED_ZOOM })
+        );
+      markersRef.current.push(marker);
+    });
+
+    // Add markers for the stations that stand alone
+    groups.filter((group) => group.length === 1).forEach(([station]) => {
+      const fit = vehicle ? stationCompatibility(vehicle, station) : undefined;
+      const status = station.liveStatus?.status ?? 'UNKNOWN';
+      // Fill shows how fast the station charges, the ring what members last reported
+      const fill = powerClass(maxPowerKW(station)).color;
+      const ring = status === 'UNKNOWN' ? 'white' : LIVE_STATUS_COLORS[status];
+      // Stations the member's car can use get a larger marker with a violet glow
+      const size = fit?.compatible ? 18 : 14;
+      const glow = fit?.compatible ? '0 0 0 3px rgba(139, 92, 246, 0.6), ' : '';
+      const opacity = toAvailability(station) === 'offline' ? 0.45 : 1;
 
       const stationIcon = L.divIcon({
         className: 'custom-station-marker',
-        html: `<div style="background: ${color}; width: 12px; height: 12px; border-radius: 50%; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>`,
-        iconSize: [12, 12],
-        iconAnchor: [6, 6],
+        html: `<div style="background: ${fill}; width: ${size}px; height: ${size}px; border-radius: 50%; border: 3px solid ${ring}; box-shadow: ${glow}0 2px 4px rgba(0,0,0,0.3); opacity: ${opacity};"></div>`,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2],
       });
 
       const marker = L.marker(
-        [station.AddressInfo.Latitude, station.AddressInfo.Longitude],
+        [station.coords.lat, station.coords.lng],
         { icon: stationIcon }
       )
         .addTo(mapInstanceRef.current)
         .on('click', () => setSelectedStation(station));
 
-      const connectors = station.Connections?.map(c => 
-        `${c.ConnectionType?.Title || 'Unknown'} ${c.PowerKW ? `(${c.PowerKW}kW)` : ''}`
+      const connectors = station.connectors.map(c =>
+        `${c.type} ${c.powerKW ? `(${c.powerKW}kW)` : ''}`
       ).join(', ') || 'No connector info';
+      const distance = formatDistance(station.distanceKm);
+      const liveStatus = station.liveStatus;
+      const recentCheckIns = station.recentCheckIns ?? [];
+      const open = isOpenAt(station);
+      const amenities = station.amenities.map((amenity) => AMENITY_LABELS[amenity]).join(', ');
 
       marker.bindPopup(`
         <div style="min-width: 200px;">
-          <h3 style="font-weight: 600; margin-bottom: 8px;">${station.AddressInfo.Title}</h3>
-          <p style="font-size: 12px; color: #666; margin-bottom: 4px;">${station.AddressInfo.AddressLine1}</p>
-          <p style="font-size: 12px; color: #666; margin-bottom: 8px;">${station.AddressInfo.Town}, ${station.AddressInfo.StateOrProvince}</p>
-          <p style="font-size: 11px; margin-bottom: 4px;"><strong>Connectors:</strong> ${connectors}</p>
-          ${station.OperatorInfo ? `<p style="font-size: 11px;"><strong>Operator:</strong> ${station.OperatorInfo.Title}</p>` : ''}
-          ${station.AddressInfo.Distance ? `<p style="font-size: 11px; margin-top: 4px; color: #3b82f6;"><strong>Distance:</strong> ${station.AddressInfo.Distance.toFixed(1)} mi</p>` : ''}
+          <h3 style="font-weight: 600; margin-bottom: 8px;">${escapeHtml(station.name)}</h3>
+          <p style="font-size: 12px; color: #666; margin-bottom: 8px;">${escapeHtml(station.address)}</p>
+          <p style="font-size: 11px; margin-bottom: 4px;"><strong>Connectors:</strong> ${escapeHtml(connectors)}</p>
+          ${station.provider ? `<p style="font-size: 11px;"><strong>Operator:</strong> ${escapeHtml(station.provider)}</p>` : ''}
+          ${station.openingHours ? `<p style="font-size: 11px; margin-top: 4px;"><strong style="color: ${open === false ? '#ef4444' : '#10b981'};">${
+            station.openingHours.twentyFourSeven ? 'Open 24/7' : open ? 'Open now' : 'Closed now'
+          }</strong>${station.openingHours.twentyFourSeven ? '' : ` · ${escapeHtml(formatOpeningHours(station.openingHours))}`}</p>` : ''}
+          ${amenities ? `<p style="font-size: 11px;"><strong>Amenities:</strong> ${escapeHtml(amenities)}</p>` : ''}
+          ${distance ? `<p style="font-size: 11px; margin-top: 4px; color: #3b82f6;"><strong>Distance:</strong> ${distance}</p>` : ''}
+          ${fit ? `<p style="font-size: 11px; margin-top: 4px; color: ${fit.compatible ? '#8b5cf6' : '#666'};">${
+            fit.compatible
+              ? `Fits your vehicle${fit.fastestChargeMinutes !== undefined ? ` · 10–80% in ${formatChargeTime(fit.fastestChargeMinutes)}` : ''}`
+              : 'No compatible connector for your vehicle'
+          }</p>` : ''}
+          ${liveStatus && liveStatus.status !== 'UNKNOWN' ? `<p style="font-size: 11px; margin-top: 4px; color: ${LIVE_STATUS_COLORS[liveStatus.status]};"><strong>${LIVE_STATUS_LABELS[liveStatus.status]}</strong>${
+            liveStatus.brokenConnectors.length > 0 ? ` (${escapeHtml(liveStatus.brokenConnectors.join(', '))})` : ''
+          }</p>` : ''}
+          ${recentCheckIns.length > 0 ? `<ul style="font-size: 11px; margin-top: 4px; color: #666; padding-left: 14px; list-style: disc;">${
+            recentCheckIns.map((checkIn) => `<li>${escapeHtml(describeCheckIn(checkIn))}</li>`).join('')
+          }</ul>` : ''}
         </div>
       `);
 
       markersRef.current.push(marker);
     });
-  }, [stations, leafletLoaded]);
+  }, [stations, clusters, zoom, leafletLoaded, vehicle]);
+
+  const stationsInView = stations.length + clusters.reduce((total, cluster) => total + cluster.count, 0);
 
-  const handleNavigate = (station: Station) => {
+  const handleNavigate = (station: StationRecord) => {
     window.open(
-      `https://www.google.com/maps/dir/?api=1&destination=${station.AddressInfo.Latitude},${station.AddressInfo.Longitude}`,
+      `https://www.google.com/maps/dir/?api=1&destination=${station.coords.lat},${station.coords.lng}`,
       '_blank'
     );
   };
@@ -268,14 +393,34 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
               <div className="w-3 h-3 rounded-full bg-blue-500 border-2 border-white" />
               <span>Your Location</span>
             </div>
+            {POWER_CLASSES.map((powerClass) => (
+              <div key={powerClass.label} className="flex items-center gap-2 text-sm">
+                <div className="w-3 h-3 rounded-full border-2 border-white" style={{ background: powerClass.color }} />
+                <span>{powerClass.label}</span>
+              </div>
+            ))}
+            {(["WORKING", "OCCUPIED", "BROKEN"] as const).map((status) => (
+              <div key={status} className="flex items-center gap-2 text-sm">
+                <div className="w-3 h-3 rounded-full bg-muted border-2" style={{ borderColor: LIVE_STATUS_COLORS[status] }} />
+                <span>{LIVE_STATUS_LABELS[status]}</span>
+              </div>
+            ))}
             <div className="flex items-center gap-2 text-sm">
-              <div className="w-3 h-3 rounded-full bg-green-500 border-2 border-white" />
-              <span>Available</span>
-            </div>
-            <div className="flex items-center gap-2 text-sm">
-              <div className="w-3 h-3 rounded-full bg-red-500 border-2 border-white" />
+              <div className="w-3 h-3 rounded-full bg-muted border-2 border-white opacity-50" />
               <span>Offline</span>
             </div>
+            {vehicle && (
+              <div className="flex items-center gap-2 text-sm">
+                <div className="w-3 h-3 rounded-full bg-muted border-2 border-white ring-2 ring-violet-500/60" />
+                <span>Fits your {vehicle.model}</span>
+              </div>
+            )}
+            {range && (
+              <div className="flex items-center gap-2 text-sm">
+                <div className="w-3 h-3 rounded-full bg-emerald-500/10 border-2 border-dashed border-emerald-500" />
+                <span>Safe range</span>
+              </div>
+            )}
           </div>
         </Card>
       </div>
@@ -283,9 +428,13 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
       {/* Station List Sidebar */}
       <div className="w-full md:w-80 overflow-y-auto space-y-3">
         <div>
-          <h3 className="font-semibold text-lg mb-1">Nearby Stations ({stations.length})</h3>
+          <h3 className="font-semibold text-lg mb-1">
+            {range ? "Reachable Stations" : "Stations in View"} ({stationsInView})
+          </h3>
           <p className="text-sm text-muted-foreground">
-            Click markers on the map for details
+            {clusters.length > 0
+              ? "Zoom in or click a cluster to see individual stations"
+              : "Click markers on the map for details"}
           </p>
         </div>
 
@@ -295,37 +444,44 @@ export function StationMap({ stations, userLocation, onLocationChange }: Station
               <div className="flex items-start gap-2">
                 <Zap className="h-5 w-5 text-primary flex-shrink-0 mt-0.5" />
                 <div className="flex-1 min-w-0">
-                  <h4 className="font-semibold text-sm mb-1">{selectedStation.AddressInfo.Title}</h4>
+                  <h4 className="font-semibold text-sm mb-1">{selectedStation.name}</h4>
                   <p className="text-xs text-muted-foreground">
-                    {selectedStation.AddressInfo.AddressLine1}<br />
-                    {selectedStation.AddressInfo.Town}, {selectedStation.AddressInfo.StateOrProvince}
+                    {selectedStation.address}
                   </p>
                 </div>
               </div>
 
-              {selectedStation.Connections && selectedStation.Connections.length > 0 && (
+              {selectedStation.connectors.length > 0 && (
                 <div>
                   <p className="text-xs font-medium mb-1">Connectors:</p>
                   <div className="flex flex-wrap gap-1">
-                    {selectedStation.Connections.map((conn, i) => (
-                      <Badge key={i} variant="secondary" className="text-xs">
-                        {conn.ConnectionType?.Title || 'Unknown'}
-                        {conn.PowerKW && ` · ${conn.PowerKW}kW`}
-                      </Badge>
-                    ))}
+                    {selectedStation.connectors.map((conn, i) => {
+                      const fit = vehicle ? stationCompatibility(vehicle, selectedStation).connectors[i] : undefined;
+                      return (
+                        <Badge
+                          key={i}
+                          variant="secondary"
+                          className={`text-xs ${fit && !fit.compatible ? 'opacity-50' : ''}`}
+                        >
+                          {conn.type}
+                          {conn.powerKW > 0 && ` · ${conn.powerKW}kW`}
+                          {fit?.chargeMinutes !== undefined && ` · ${formatChargeTime(fit.chargeMinutes)}`}
+                        </Badge>
+                      );
+                    })}
                   </div>
                 </div>
               )}
 
-              {selectedStation.OperatorInfo && (
+              {selectedStation.provider && (
                 <p className="text-xs">
-                  <span className="font-medium">Operator:</span> {selectedStation.OperatorInfo.Title}
+                  <span className="font-medium">Operator:</span> {selectedStation.provider}
                 </p>
               )}
 
-              {selectedStation.AddressInfo.Distance && (
+              {selectedStation.distanceKm !== undefined && (
                 <p className="text-xs text-primary font-medium">
-                  {selectedStation.AddressInfo.Distance.toFixed(1)} miles away
+                  {formatDistance(selectedStation.distanceKm)} away
                 </p>
               )}
 
@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Flag, Star, Trash2 } from "lucide-react";
+import { REVIEW_TAGS, REVIEW_TAG_LABELS, type ReviewTag } from "@shared/reviews";
+
+interface StationReviewItem {
+  id: string;
+  stationId: string;
+  authorId: string;
+  rating: number;
+  text: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  author?: { displayName?: string | null } | null;
+}
+
+export function StarRating({
+  value,
+  onChange,
+  size = "h-4 w-4",
+}: {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: string;
+}) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={`${size} ${star <= Math.round(value) ? "fill-amber-400 text-amber-400" : "text-muted-foreground"}`}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            aria-label={`${star} star${star === 1 ? "" : "s"}`}
+            data-testid={`button-rating-${star}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+interface StationReviewsDialogProps {
+  stationId: string;
+  stationName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function StationReviewsDialog({ stationId, stationName, open, onOpenChange }: StationReviewsDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState("");
+  const [tags, setTags] = useState<ReviewTag[]>([]);
+
+  const { data: reviews, isLoading } = useQuery<StationReviewItem[]>({
+    queryKey: ["/api/stations", stationId, "reviews"],
+    enabled: open,
+  });
+
+  const ownReview = reviews?.find((review) => review.authorId === user?.id);
+
+  // Editing starts from the member's existing review
+  useEffect(() => {
+    if (!ownReview) return;
+    setRating(ownReview.rating);
+    setText(ownReview.text);
+    setTags(ownReview.tags as ReviewTag[]);
+  }, [ownReview]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stations/search"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/stations/${stationId}/reviews`, { rating, text, tags });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: ownReview ? "Review updated" : "Review posted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save review", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (reviewId: string) => {
+      await apiRequest("DELETE", `/api/station-reviews/${reviewId}`);
+    },
+    onSuccess: () => {
+      setRating(0);
+      setText("");
+      setTags([]);
+      invalidate();
+      toast({ title: "Review deleted" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete review", variant: "destructive" });
+    },
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: string; reason: string }) => {
+      await apiRequest("POST", "/api/reports", {
+        targetType: "STATION_REVIEW",
+        targetId: reviewId,
+        reason,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Review reported", description: "A moderator will take a look." });
+    },
+    onError: () => {
+      toast({ title: "Failed to report review", variant: "destructive" });
+    },
+  });
+
+  const handleReport = (reviewId: string) => {
+    const reason = window.prompt("Why are you reporting this review?");
+    if (reason?.trim()) {
+      reportMutation.mutate({ reviewId, reason: reason.trim() });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reviews</DialogTitle>
+          <DialogDescription>{stationName}</DialogDescription>
+        </DialogHeader>
+
+        {user ? (
+          <div className="space-y-3 border-b pb-4">
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-medium">{ownReview ? "Your review" : "Rate this station"}</span>
+              <StarRating value={rating} onChange={setRating} size="h-5 w-5" />
+            </div>
+            <Textarea
+              placeholder="How was charging here?"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={2000}
+              data-testid="input-review-text"
+            />
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="flex-wrap justify-start"
+              value={tags}
+              onValueChange={(value) => setTags(value as ReviewTag[])}
+            >
+              {REVIEW_TAGS.map((tag) => (
+                <ToggleGroupItem key={tag} value={tag} className="text-xs">
+                  {REVIEW_TAG_LABELS[tag]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={rating === 0 || saveMutation.isPending}
+                data-testid="button-save-review"
+              >
+                {ownReview ? "Update review" : "Post review"}
+              </Button>
+              {ownReview && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate(ownReview.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground border-b pb-4">Log in to review this station.</p>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading reviews...</p>
+        ) : !reviews || reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviews yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <div key={review.id} className="space-y-1" data-testid={`review-${review.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <StarRating value={review.rating} size="h-3 w-3" />
+                    <span className="text-sm font-medium">{review.author?.displayName || "Member"}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(review.updatedAt), { addSuffix: true })}
+                    </span>
+                    {user && review.authorId !== user.id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => handleReport(review.id)}
+                        title="Report review"
+                      >
+                        <Flag className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {review.text && <p className="text-sm">{review.text}</p>}
+                {review.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {review.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-xs">
+                        {REVIEW_TAG_LABELS[tag as ReviewTag] ?? tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
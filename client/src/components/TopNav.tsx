@@ -20,6 +20,7 @@ import {
   Shield,
   CheckCircle2,
   Mail,
+  Route,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -39,6 +40,7 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { GlobalSearch } from "@/components/GlobalSearch";
 import { useToast } from "@/hooks/use-toast";
+import { WATCHED_STATUS_LABELS, type WatchedStatus } from "@shared/station-watch";
 
 interface NotificationItem {
   id: string;
@@ -196,6 +198,9 @@ export function TopNav({
       case "PROFILE":
         setLocation(`/profiles/${notification.targetId}`);
         break;
+      case "STATION":
+        setLocation("/stations");
+        break;
       default:
         break;
     }
@@ -212,6 +217,33 @@ export function TopNav({
         return `${actorName} liked your post.`;
       case "POST_COMMENTED":
         return `${actorName} commented on your post.`;
+      case "STATION_VERIFICATION": {
+        const stationName = (notification.metadata?.stationName as string | undefined) ?? "your station";
+        switch (notification.metadata?.decision) {
+          case "APPROVED":
+            return `${stationName} was approved and is now verified.`;
+          case "REJECTED":
+            return `${stationName} was not approved: ${notification.metadata?.reason ?? "no reason given"}`;
+          case "MERGED":
+            return `${stationName} was merged into ${notification.metadata?.mergedIntoName ?? "an existing station"}.`;
+          default:
+            return `${stationName} was reviewed by a moderator.`;
+        }
+      }
+      case "STATION_EDIT": {
+        const stationName = (notification.metadata?.stationName as string | undefined) ?? "a station";
+        return notification.metadata?.decision === "APPLIED"
+          ? `Your edit to ${stationName} was applied. Thanks for helping!`
+          : `Your edit to ${stationName} was not applied: ${notification.metadata?.reason ?? "no reason given"}`;
+      }
+      case "STATION_STATUS": {
+        const stationName = (notification.metadata?.stationName as string | undefined) ?? "A saved station";
+        const status = notification.metadata?.status as WatchedStatus | undefined;
+        const broken = (notification.metadata?.brokenConnectors as string[] | undefined) ?? [];
+        if (!status) return `${stationName} changed status.`;
+        return `${stationName} is ${WATCHED_STATUS_LABELS[status]}` +
+          (status === "DOWN" && broken.length > 0 ? ` (${broken.join(", ")}).` : ".");
+      }
       default:
         return "You have a new notification.";
     }
@@ -279,6 +311,14 @@ export function TopNav({
                 </NavigationMenuLink>
               </Link>
             </NavigationMenuItem>
+            <NavigationMenuItem>
+              <Link href="/trips">
+                <NavigationMenuLink className={navigationMenuTriggerStyle()} active={location.startsWith("/trips")}>
+                  <Route className="h-4 w-4 mr-2" />
+                  Trips
+                </NavigationMenuLink>
+              </Link>
+            </NavigationMenuItem>
             {userRole === "ADMIN" && (
               <NavigationMenuItem>
                 <Link href="/admin">
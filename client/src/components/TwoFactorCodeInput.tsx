@@ -0,0 +1,44 @@
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { TWO_FACTOR_CODE_LENGTH } from "@shared/account";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called once all six digits are in, e.g. to submit without a click */
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+const HALF = TWO_FACTOR_CODE_LENGTH / 2;
+
+/** Six-digit authenticator code, split 3-3 the way apps show it */
+export function TwoFactorCodeInput({ value, onChange, onComplete, disabled, id }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      id={id}
+      maxLength={TWO_FACTOR_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      data-testid="input-two-factor-code"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: HALF }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        {Array.from({ length: HALF }, (_, index) => (
+          <InputOTPSlot key={index} index={HALF + index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { TwoFactorCodeInput } from "@/components/TwoFactorCodeInput";
+import { Copy, KeyRound, ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  requiredForRole: boolean;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const STATUS_KEY = ["/api/auth/2fa"];
+
+/** Groups the secret in fours so it's easier to type into an app by hand */
+function formatSecret(secret: string): string {
+  return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they
+        won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={async () => {
+            await navigator.clipboard.writeText(codes.join("\n"));
+            toast({ title: "Recovery codes copied" });
+          }}
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button size="sm" onClick={onDone} data-testid="button-recovery-codes-saved">
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Security tab card for turning authenticator-app 2FA on and off */
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<"disable" | "regenerate" | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({ queryKey: STATUS_KEY });
+
+  const reset = () => {
+    setCode("");
+    setPassword("");
+    setAction(null);
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    setCode("");
+    toast({ title, description: apiErrorMessage(error, "Please try again"), variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<Enrollment> => (await apiRequest("POST", "/api/auth/2fa/setup")).json(),
+    onSuccess: (data) => setEnrollment(data),
+    onError: onError("Couldn't start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string): Promise<{ recoveryCodes: string[] }> =>
+      (await apiRequest("POST", "/api/auth/2fa/enable", { code: value })).json(),
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError: onError("Couldn't turn on 2FA"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/2fa/disable", { password, code }),
+    onSuccess: () => {
+      reset();
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: onError("Couldn't turn off 2FA"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (): Promise<{ recoveryCodes: string[] }> =>
+      (await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code })).json(),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+    },
+    onError: onError("Couldn't create new codes"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && (
+            <Badge variant="default" data-testid="badge-two-factor-on">
+              On
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app as well as your password when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.requiredForRole && !status.enabled && (
+          <p className="text-sm text-destructive">
+            Your role requires two-factor authentication. Moderator and admin tools stay locked until it's on.
+          </p>
+        )}
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : isLoading ? null : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Add EV Connect to your authenticator app with this key, or{" "}
+              <a href={enrollment.otpauthUri} className="text-primary hover:underline">
+                open it in the app
+              </a>{" "}
+              on this device.
+            </p>
+            <p className="rounded-md bg-muted p-3 font-mono text-sm break-all" data-testid="text-two-factor-secret">
+              {formatSecret(enrollment.secret)}
+            </p>
+            <div className="space-y-2">
+              <Label>Enter the code the app shows</Label>
+              <TwoFactorCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={(value) => enableMutation.mutate(value)}
+                disabled={enableMutation.isPending}
+              />
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setEnrollment(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : !status?.enabled ? (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Set up two-factor authentication
+          </Button>
+        ) : action ? (
+          <div className="space-y-4">
+            {action === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  data-testid="input-two-factor-password"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Code from your authenticator app</Label>
+              <TwoFactorCodeInput value={code} onChange={setCode} />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={action === "disable" ? "destructive" : "default"}
+                disabled={code.length < 6 || (action === "disable" && !password) || disableMutation.isPending || regenerateMutation.isPending}
+                onClick={() => (action === "disable" ? disableMutation.mutate() : regenerateMutation.mutate())}
+                data-testid="button-confirm-two-factor-action"
+              >
+                {action === "disable" ? "Turn off 2FA" : "Create new codes"}
+              </Button>
+              <Button variant="ghost" onClick={reset}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-left">
+              {status.recoveryCodesLeft} recovery code{status.recoveryCodesLeft === 1 ? "" : "s"} left
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+                <KeyRound className="h-4 w-4 mr-2" />
+                New recovery codes
+              </Button>
+              {!status.requiredForRole && (
+                <Button variant="outline" onClick={() => setAction("disable")} data-testid="button-disable-two-factor">
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,16 @@ import { createContext, useContext, useState, useEffect, ReactNode } from 'react
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast'; // If using toasts
 
-interface User { id: string; email: string; role: string; }
+interface User {
+  id: string;
+  email: string;
+  role: string;
+  status?: string;
+  /** Set while the email is unverified: reading stops working after this */
+  verificationGraceEndsAt?: string;
+  /** Set while a requested account deletion waits out its cooldown */
+  deletionScheduledFor?: string;
+}
 interface Profile { 
   displayName?: string; 
   avatarUrl?: string;
@@ -22,13 +31,21 @@ interface Profile {
     batteryCapacity?: number;
   };
   interests?: string[];
+  notificationPrefs?: {
+    newPost?: boolean;
+    like?: boolean;
+    comment?: boolean;
+    stationStatus?: boolean;
+  };
 }
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  /** Resolves with twoFactorRequired when the password was right but a code is still needed */
+  login: (email: string, password: string) => Promise<{ twoFactorRequired: boolean }>;
+  completeTwoFactorLogin: (input: { code: string } | { recoveryCode: string }) => Promise<{ usedRecoveryCode: boolean }>;
   register: (email: string, password: string, displayName: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshProfile: () => Promise<void>;
@@ -75,7 +92,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setIsLoading(authLoading);
   }, [authData, error, authLoading]);
 
-  const handleLoginRegister = async (email: string, password: string, displayName?: string) => {
+  const handleLoginRegister = async (email: string, password: string, displayName?: string): Promise<{ twoFactorRequired: boolean }> => {
     const endpoint = displayName ? '/api/auth/register' : '/api/auth/login';
     const body = displayName 
       ? JSON.stringify({ email, password, displayName })
@@ -95,6 +112,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const data = await res.json();
     console.log("[Login/Register] API success:", data);
+    if (data.twoFactorRequired) return { twoFactorRequired: true };
+    await finishSignIn(data);
+    return { twoFactorRequired: false };
+  };
+
+  const finishSignIn = async (data: { user: User; profile?: Profile }) => {
     setUser(data.user); // Optimistic update
     if (data.profile) setProfile(data.profile);
 
@@ -109,7 +132,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const login = (email: string, password: string) => handleLoginRegister(email, password);
-  const register = (email: string, password: string, displayName: string) => handleLoginRegister(email, password, displayName);
+  const register = async (email: string, password: string, displayName: string) => {
+    await handleLoginRegister(email, password, displayName);
+  };
+
+  const completeTwoFactorLogin = async (input: { code: string } | { recoveryCode: string }) => {
+    const res = await fetch('/api/auth/login/2fa', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+      credentials: 'include',
+    });
+    const data = await res.json().catch(() => ({ error: 'Unknown error' }));
+    if (!res.ok) throw new Error(data.error || 'Verification failed');
+    await finishSignIn(data);
+    return { usedRecoveryCode: !!data.usedRecoveryCode };
+  };
 
   const logout = async () => {
     try {
@@ -139,6 +177,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: !!user,
     isLoading,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
     refreshProfile,
@@ -0,0 +1,140 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { CONNECTOR_FAMILIES, type ConnectorFamily } from "@shared/stations";
+import { STATION_SORTS, type StationSort } from "@shared/reviews";
+import { ACCESS_TYPES, AMENITIES, type AccessType, type Amenity } from "@shared/station-details";
+
+export interface StationFilterState {
+  connectors: ConnectorFamily[];
+  minPower: number;
+  provider: string;
+  pricing: "any" | "free" | "paid";
+  operationalOnly: boolean;
+  /** Only stations the signed-in member's vehicle can plug into */
+  compatibleOnly: boolean;
+  /** Only stations known to be open right now */
+  openNow: boolean;
+  access: AccessType[];
+  amenities: Amenity[];
+  /** Vehicle height in metres, 0 for no height limit */
+  vehicleHeight: number;
+  sort: StationSort;
+}
+
+export const DEFAULT_STATION_FILTERS: StationFilterState = {
+  connectors: [],
+  minPower: 0,
+  provider: "",
+  pricing: "any",
+  operationalOnly: false,
+  compatibleOnly: false,
+  openNow: false,
+  access: [],
+  amenities: [],
+  vehicleHeight: 0,
+  sort: "distance",
+};
+
+// Filter keys owned by this hook; other query params (e.g. stationId) are left alone
+const FILTER_PARAMS = [
+  "connector",
+  "minPower",
+  "provider",
+  "pricing",
+  "operational",
+  "compatible",
+  "open",
+  "access",
+  "amenity",
+  "height",
+  "sort",
+];
+
+// Unknown values are dropped rather than rejected, so an old link still loads
+function parseList<T extends string>(value: string | null, allowed: readonly T[]): T[] {
+  return (value ?? "")
+    .split(",")
+    .map((part) => part.trim().toUpperCase())
+    .filter((part): part is T => (allowed as readonly string[]).includes(part));
+}
+
+function parseFilters(search: string): StationFilterState {
+  const params = new URLSearchParams(search);
+  const minPower = Number(params.get("minPower"));
+  const height = Number(params.get("height"));
+  const pricing = params.get("pricing");
+  const sort = params.get("sort");
+
+  return {
+    connectors: parseList<ConnectorFamily>(params.get("connector"), CONNECTOR_FAMILIES),
+    minPower: Number.isFinite(minPower) && minPower > 0 ? minPower : 0,
+    provider: params.get("provider") ?? "",
+    pricing: pricing === "free" || pricing === "paid" ? pricing : "any",
+    operationalOnly: params.get("operational") === "true",
+    compatibleOnly: params.get("compatible") === "true",
+    openNow: params.get("open") === "true",
+    access: parseList<AccessType>(params.get("access"), ACCESS_TYPES),
+    amenities: parseList<Amenity>(params.get("amenity"), AMENITIES),
+    vehicleHeight: Number.isFinite(height) && height > 0 && height <= 10 ? height : 0,
+    sort: (STATION_SORTS as readonly string[]).includes(sort ?? "") ? (sort as StationSort) : "distance",
+  };
+}
+
+// Query params understood by /api/stations and friends
+export function toStationQueryParams(filters: StationFilterState): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filters.connectors.length > 0) params.connector = filters.connectors.join(",");
+  if (filters.minPower > 0) params.minPower = String(filters.minPower);
+  if (filters.provider.trim()) params.provider = filters.provider.trim();
+  if (filters.pricing !== "any") params.pricing = filters.pricing;
+  if (filters.operationalOnly) params.operational = "true";
+  if (filters.compatibleOnly) params.compatible = "true";
+  if (filters.openNow) params.open = "true";
+  if (filters.access.length > 0) params.access = filters.access.join(",");
+  if (filters.amenities.length > 0) params.amenity = filters.amenities.join(",");
+  if (filters.vehicleHeight > 0) params.height = String(filters.vehicleHeight);
+  if (filters.sort !== "distance") params.sort = filters.sort;
+  return params;
+}
+
+/**
+ * Station finder filters, kept in the URL query string so filtered views can
+ * be bookmarked and shared.
+ */
+export function useStationFilters() {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const filters = useMemo(() => parseFilters(search), [search]);
+
+  const setFilters = useCallback(
+    (update: Partial<StationFilterState>) => {
+      const params = new URLSearchParams(search);
+      FILTER_PARAMS.forEach((key) => params.delete(key));
+      const next = toStationQueryParams({ ...filters, ...update });
+      Object.entries(next).forEach(([key, value]) => params.set(key, value));
+      const query = params.toString();
+      navigate(query ? `${location}?${query}` : location, { replace: true });
+    },
+    [filters, location, navigate, search]
+  );
+
+  // Clearing filters keeps the chosen sort order
+  const resetFilters = useCallback(
+    () => setFilters({ ...DEFAULT_STATION_FILTERS, sort: filters.sort }),
+    [filters.sort, setFilters]
+  );
+
+  const activeCount =
+    filters.connectors.length +
+    (filters.minPower > 0 ? 1 : 0) +
+    (filters.provider.trim() ? 1 : 0) +
+    (filters.pricing !== "any" ? 1 : 0) +
+    (filters.operationalOnly ? 1 : 0) +
+    (filters.compatibleOnly ? 1 : 0) +
+    (filters.openNow ? 1 : 0) +
+    filters.access.length +
+    filters.amenities.length +
+    (filters.vehicleHeight > 0 ? 1 : 0);
+
+  return { filters, setFilters, resetFilters, activeCount };
+}
@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+/** The server's `error` message from a failed apiRequest, for showing to the member */
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,185 @@
+import { formatDistanceToNow } from "date-fns";
+import type { StationWithStatus } from "@shared/schema";
+import { haversineDistanceKm, kmToMiles, type LatLng } from "@shared/geo";
+import { CHECK_IN_LABELS, type LiveStationStatus, type RecentCheckIn } from "@shared/check-ins";
+import type { StationCluster } from "@shared/stations";
+import type { ReachableRange, ReachableStation } from "@shared/reachable-range";
+
+// Stations as they arrive over JSON, with dates serialized to strings
+export type StationRecord = Omit<StationWithStatus, "createdAt" | "updatedAt" | "lastSyncedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+  lastSyncedAt: string | null;
+};
+
+export interface MapViewport {
+  /** west,south,east,north as produced by Leaflet's toBBoxString() */
+  bbox: string;
+  center: { lat: number; lng: number };
+  zoom: number;
+}
+
+/** Below this zoom the map loads server-side clusters instead of individual stations */
+export const CLUSTER_ZOOM = 10;
+/** From this zoom on every station gets its own marker */
+export const UNCLUSTERED_ZOOM = 16;
+
+export type StationAvailability = "available" | "busy" | "offline";
+
+export function toAvailability(station: Pick<StationRecord, "availability">): StationAvailability {
+  switch (station.availability) {
+    case "AVAILABLE":
+      return "available";
+    case "BUSY":
+      return "busy";
+    default:
+      return "offline";
+  }
+}
+
+export const LIVE_STATUS_COLORS: Record<LiveStationStatus, string> = {
+  WORKING: "#10b981",
+  OCCUPIED: "#f59e0b",
+  BROKEN: "#ef4444",
+  BLOCKED: "#f97316",
+  UNKNOWN: "#94a3b8",
+};
+
+export const POWER_CLASSES = [
+  { label: "Up to 22 kW", maxKW: 22, color: "#38bdf8" },
+  { label: "22–99 kW", maxKW: 100, color: "#0369a1" },
+  { label: "100 kW and up", maxKW: Infinity, color: "#1e1b4b" },
+] as const;
+
+export function powerClass(powerKW: number): (typeof POWER_CLASSES)[number] {
+  return POWER_CLASSES.find((powerClass) => powerKW < powerClass.maxKW) ?? POWER_CLASSES[POWER_CLASSES.length - 1];
+}
+
+export function maxPowerKW(station: Pick<StationRecord, "connectors">): number {
+  return Math.max(0, ...station.connectors.map((connector) => connector.powerKW || 0));
+}
+
+export function describeCheckIn(checkIn: RecentCheckIn): string {
+  const label =
+    checkIn.status === "BROKEN" && checkIn.connectorType
+      ? `Broken ${checkIn.connectorType}`
+      : CHECK_IN_LABELS[checkIn.status];
+  return `${label} · ${formatDistanceToNow(new Date(checkIn.createdAt), { addSuffix: true })}`;
+}
+
+export function formatDistance(distanceKm?: number): string | undefined {
+  return distanceKm === undefined ? undefined : `${kmToMiles(distanceKm).toFixed(1)} mi`;
+}
+
+export interface MapTile {
+  /** z/x/y of the slippy-map tile */
+  key: string;
+  /** west,south,east,north */
+  bbox: string;
+}
+
+// Tiles are this many levels coarser than the map, so a viewport spans only a few
+const TILE_ZOOM_OFFSET = 2;
+const MAX_TILE_ZOOM = 14;
+const MAX_LATITUDE = 85.0511;
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** zoom);
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const rad = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+function tileXToLng(x: number, zoom: number): number {
+  return (x / 2 ** zoom) * 360 - 180;
+}
+
+function tileYToLat(y: number, zoom: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** zoom;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+/**
+ * Web Mercator tiles covering the viewport. Stations are fetched and cached
+ * per tile, so panning back over an area reuses what was already loaded.
+ */
+export function viewportTiles(viewport: MapViewport): MapTile[] {
+  const [west, south, east, north] = viewport.bbox.split(",").map(Number);
+  const zoom = Math.max(0, Math.min(MAX_TILE_ZOOM, Math.round(viewport.zoom) - TILE_ZOOM_OFFSET));
+  const last = 2 ** zoom - 1;
+  const clampTile = (value: number) => Math.max(0, Math.min(last, value));
+  // Leaflet reports longitudes past ±180 when the world repeats; those copies are skipped
+  const minX = clampTile(lngToTileX(Math.max(-180, west), zoom));
+  const maxX = clampTile(lngToTileX(Math.min(180, east), zoom));
+  const minY = clampTile(latToTileY(north, zoom));
+  const maxY = clampTile(latToTileY(south, zoom));
+
+  const tiles: MapTile[] = [];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      const bbox = [tileXToLng(x, zoom), tileYToLat(y + 1, zoom), tileXToLng(x + 1, zoom), tileYToLat(y, zoom)];
+      tiles.push({ key: `${zoom}/${x}/${y}`, bbox: bbox.map((value) => value.toFixed(6)).join(",") });
+    }
+  }
+  return tiles;
+}
+
+/** Whether any part of a west,south,east,north box lies within radiusKm of center */
+export function bboxWithinKm(bbox: string, center: LatLng, radiusKm: number): boolean {
+  const [west, south, east, north] = bbox.split(",").map(Number);
+  const nearest = {
+    lat: Math.max(south, Math.min(north, center.lat)),
+    lng: Math.max(west, Math.min(east, center.lng)),
+  };
+  return haversineDistanceKm(center, nearest) <= radiusKm;
+}
+
+async function getJson<T>(
+  path: string,
+  params: Record<string, string | number | undefined>,
+  signal?: AbortSignal
+): Promise<T> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+
+  const response = await fetch(`${path}?${search.toString()}`, {
+    credentials: "include",
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error("Failed to fetch stations");
+  }
+  return response.json();
+}
+
+export function fetchStations(
+  params: Record<string, string | number | undefined>,
+  signal?: AbortSignal
+): Promise<StationRecord[]> {
+  return getJson("/api/stations", params, signal);
+}
+
+export function fetchStationClusters(
+  params: Record<string, string | number | undefined>,
+  signal?: AbortSignal
+): Promise<StationCluster[]> {
+  return getJson("/api/stations/clusters", params, signal);
+}
+
+export type ReachableStationRecord = StationRecord &
+  Pick<ReachableStation, "distanceKm" | "arrivalSocPercent" | "effectivePowerKW" | "status">;
+
+export type ReachableRangeRecord = Omit<ReachableRange, "stations"> & { stations: ReachableStationRecord[] };
+
+export function fetchReachableRange(
+  params: Record<string, string | number | undefined>,
+  signal?: AbortSignal
+): Promise<ReachableRangeRecord> {
+  return getJson("/api/stations/reachable", params, signal);
+}
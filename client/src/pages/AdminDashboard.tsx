@@ -1,8 +1,12 @@
 import { AdminStats } from "@/components/AdminStats";
 import { AdminReportsManagement } from "@/components/AdminReportsManagement";
 import { AdminUserManagement } from "@/components/AdminUserManagement";
+import { AdminStationVerification } from "@/components/AdminStationVerification";
+import { AdminStationEdits } from "@/components/AdminStationEdits";
+import { AdminStationImport } from "@/components/AdminStationImport";
+import { AdminSecuritySettings } from "@/components/AdminSecuritySettings";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Shield, Users, MessageSquare, Zap, FileText } from "lucide-react";
+import { Shield, Users, MessageSquare, Zap, FileText, Lock } from "lucide-react";
 
 export default function AdminDashboard() {
   return (
@@ -45,6 +49,10 @@ export default function AdminDashboard() {
                 <FileText className="h-4 w-4" />
                 Articles
               </TabsTrigger>
+              <TabsTrigger value="security" className="gap-2" data-testid="tab-security">
+                <Lock className="h-4 w-4" />
+                Security
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="users" className="mt-6">
@@ -61,10 +69,10 @@ export default function AdminDashboard() {
               </div>
             </TabsContent>
 
-            <TabsContent value="stations" className="mt-6">
-              <div className="text-center py-12 text-muted-foreground">
-                Station verification interface will be displayed here
-              </div>
+            <TabsContent value="stations" className="mt-6 space-y-6">
+              <AdminStationVerification />
+              <AdminStationEdits />
+              <AdminStationImport />
             </TabsContent>
 
             <TabsContent value="articles" className="mt-6">
@@ -72,6 +80,10 @@ export default function AdminDashboard() {
                 Article CMS will be displayed here
               </div>
             </TabsContent>
+
+            <TabsContent value="security" className="mt-6">
+              <AdminSecuritySettings />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1,5 +1,5 @@
 import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLocation } from "wouter";
 import { formatDistanceToNow } from "date-fns";
@@ -7,16 +7,93 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Zap, Bookmark, MapPin, ArrowRight } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Zap, Bookmark, MapPin, ArrowRight, Bell, BellOff } from "lucide-react";
+import { StationExportMenu } from "@/components/StationExportMenu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  DEFAULT_BOOKMARK_WATCH,
+  WATCHED_STATUS_LABELS,
+  WATCHED_STATUSES,
+  type BookmarkWatch,
+  type WatchedStatus,
+} from "@shared/station-watch";
 
 interface BookmarkItem {
   id: string;
   userId: string;
   targetType: string;
   targetId: string;
+  watch: BookmarkWatch | null;
+  lastSeenStatus: WatchedStatus | null;
   createdAt: string;
 }
 
+function StationWatchMenu({ bookmark }: { bookmark: BookmarkItem }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const watch = bookmark.watch ?? { ...DEFAULT_BOOKMARK_WATCH, enabled: false };
+
+  const updateWatch = useMutation({
+    mutationFn: async (next: BookmarkWatch) => {
+      const res = await apiRequest("PUT", `/api/bookmarks/${bookmark.id}/watch`, next);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["bookmarks"] }),
+    onError: () => {
+      toast({ title: "Failed to update station alerts", variant: "destructive" });
+    },
+  });
+
+  const toggleStatus = (status: WatchedStatus, checked: boolean) => {
+    const notifyOn = checked ? [...watch.notifyOn, status] : watch.notifyOn.filter((s) => s !== status);
+    updateWatch.mutate({ ...watch, notifyOn });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={watch.enabled ? "Station alerts on" : "Station alerts off"}
+          disabled={updateWatch.isPending}
+        >
+          {watch.enabled ? <Bell className="h-4 w-4 text-primary" /> : <BellOff className="h-4 w-4" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuCheckboxItem
+          checked={watch.enabled}
+          onCheckedChange={(enabled) => updateWatch.mutate({ ...watch, enabled })}
+        >
+          Watch this station
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Notify me when it's</DropdownMenuLabel>
+        {WATCHED_STATUSES.map((status) => (
+          <DropdownMenuCheckboxItem
+            key={status}
+            checked={watch.notifyOn.includes(status)}
+            disabled={!watch.enabled}
+            onCheckedChange={(checked) => toggleStatus(status, checked)}
+          >
+            {WATCHED_STATUS_LABELS[status]}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 function BookmarkCard({ bookmark }: { bookmark: BookmarkItem }) {
   const isStation = bookmark.targetType === "STATION";
 
@@ -45,10 +122,13 @@ function BookmarkCard({ bookmark }: { bookmark: BookmarkItem }) {
           Saved {formatDistanceToNow(new Date(bookmark.createdAt), { addSuffix: true })}
         </p>
       </div>
-      <Button variant="outline" size="sm" className="gap-1" onClick={handleOpen}>
-        {isStation ? <MapPin className="h-3 w-3" /> : <ArrowRight className="h-3 w-3" />}
-        Open
-      </Button>
+      <div className="flex items-center gap-2">
+        {isStation && <StationWatchMenu bookmark={bookmark} />}
+        <Button variant="outline" size="sm" className="gap-1" onClick={handleOpen}>
+          {isStation ? <MapPin className="h-3 w-3" /> : <ArrowRight className="h-3 w-3" />}
+          Open
+        </Button>
+      </div>
     </Card>
   );
 }
@@ -146,7 +226,12 @@ export default function Bookmarks() {
 
           <TabsContent value="stations" className="mt-6 space-y-4">
             {stationBookmarks.length > 0 ? (
-              stationBookmarks.map((bookmark) => <BookmarkCard key={bookmark.id} bookmark={bookmark} />)
+              <>
+                <div className="flex justify-end">
+                  <StationExportMenu params={{ bookmarked: "true" }} />
+                </div>
+                {stationBookmarks.map((bookmark) => <BookmarkCard key={bookmark.id} bookmark={bookmark} />)}
+              </>
             ) : (
               <Card className="p-6 text-center text-muted-foreground">
                 No stations bookmarked yet.
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Zap } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { TwoFactorCodeInput } from "@/components/TwoFactorCodeInput";
 
 const getSignupFromSearch = (): boolean => {
   if (typeof window === "undefined") return false;
@@ -17,7 +18,7 @@ const getSignupFromSearch = (): boolean => {
 
 export default function Login() {
   const [location, setLocation] = useLocation();
-  const { login, register } = useAuth();
+  const { login, register, completeTwoFactorLogin } = useAuth();
   const { toast } = useToast();
   const [isRegister, setIsRegister] = useState(() => getSignupFromSearch());
   const [email, setEmail] = useState("");
@@ -27,6 +28,10 @@ export default function Login() {
   const [vehicleModel, setVehicleModel] = useState("");
   const [vehicleYear, setVehicleYear] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
   const previousModeRef = useRef(isRegister);
 
   const resetForm = useCallback(() => {
@@ -85,9 +90,16 @@ export default function Login() {
         // For now, we'll pass vehicle info in displayName as a workaround
         // In production, you'd update the register function to accept vehicle info
         await register(email, password, displayName);
-        toast({ title: "Account created successfully!" });
+        toast({
+          title: "Account created successfully!",
+          description: `We've sent a link to ${email}. Verify your email to start posting.`,
+        });
       } else {
-        await login(email, password);
+        const { twoFactorRequired } = await login(email, password);
+        if (twoFactorRequired) {
+          setTwoFactorStep(true);
+          return;
+        }
         toast({ title: "Welcome back!" });
       }
       // Router will detect the auth state change and redirect
@@ -102,6 +114,119 @@ export default function Login() {
     }
   };
 
+  const leaveTwoFactorStep = () => {
+    setTwoFactorStep(false);
+    setTwoFactorCode("");
+    setRecoveryCode("");
+    setUseRecoveryCode(false);
+    setPassword("");
+  };
+
+  const submitTwoFactor = async (code = twoFactorCode) => {
+    setIsLoading(true);
+    try {
+      const { usedRecoveryCode } = await completeTwoFactorLogin(
+        useRecoveryCode ? { recoveryCode } : { code }
+      );
+      toast({
+        title: "Welcome back!",
+        description: usedRecoveryCode
+          ? "That recovery code is now used up. Create new ones in Settings if you're running low."
+          : undefined,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again";
+      toast({ title: "Verification failed", description: message, variant: "destructive" });
+      setTwoFactorCode("");
+      // The server drops the pending sign-in after too many tries or when it expires
+      if (/sign in again/i.test(message)) leaveTwoFactorStep();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitTwoFactor();
+  };
+
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center space-y-2">
+            <div className="flex justify-center">
+              <div className="flex items-center gap-2">
+                <Zap className="h-8 w-8 text-primary" />
+                <span className="font-display font-bold text-2xl">EV Connect</span>
+              </div>
+            </div>
+            <CardTitle>Two-factor authentication</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? "Enter one of the recovery codes you saved when you set up 2FA"
+                : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode">Recovery code</Label>
+                  <Input
+                    id="recoveryCode"
+                    data-testid="input-recovery-code"
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <TwoFactorCodeInput
+                    value={twoFactorCode}
+                    onChange={setTwoFactorCode}
+                    onComplete={(code) => submitTwoFactor(code)}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : twoFactorCode.length < 6)}
+                data-testid="button-verify-two-factor"
+              >
+                {isLoading ? "Please wait..." : "Verify"}
+              </Button>
+            </form>
+
+            <div className="mt-4 flex justify-between text-sm">
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                data-testid="button-toggle-recovery-code"
+              >
+                {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+              </button>
+              <button
+                type="button"
+                className="text-muted-foreground hover:underline"
+                onClick={leaveTwoFactorStep}
+                data-testid="button-cancel-two-factor"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <Card className="w-full max-w-md">
@@ -206,6 +331,18 @@ export default function Login() {
                 required
                 minLength={6}
               />
+              {!isRegister && (
+                <div className="text-right text-sm">
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => setLocation("/reset-password")}
+                    data-testid="button-forgot-password"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              )}
             </div>
             <Button
               type="submit"
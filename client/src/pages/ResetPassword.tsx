@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Zap } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PASSWORD_MIN_LENGTH } from "@shared/account";
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.error || "Something went wrong. Please try again.");
+  }
+}
+
+/** Asks for a reset link, or sets a new password when opened from one */
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      await postJson("/api/auth/password-reset/request", { email });
+      setRequested(true);
+    } catch (error) {
+      toast({
+        title: "Couldn't send reset link",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Passwords don't match",
+        description: "Please make sure your new passwords match.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await postJson("/api/auth/password-reset/confirm", { token, newPassword });
+      toast({ title: "Password reset", description: "Sign in with your new password." });
+      setLocation("/login");
+    } catch (error) {
+      toast({
+        title: "Couldn't reset password",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-2">
+          <div className="flex justify-center">
+            <div className="flex items-center gap-2">
+              <Zap className="h-8 w-8 text-primary" />
+              <span className="font-display font-bold text-2xl">EV Connect</span>
+            </div>
+          </div>
+          <CardTitle>{token ? "Choose a new password" : "Reset your password"}</CardTitle>
+          <CardDescription>
+            {token
+              ? "You'll be signed out everywhere once it's changed"
+              : "We'll email you a link to choose a new one"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {token ? (
+            <form onSubmit={handleReset} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New Password</Label>
+                <Input
+                  id="new-password"
+                  data-testid="input-new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  minLength={PASSWORD_MIN_LENGTH}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm New Password</Label>
+                <Input
+                  id="confirm-password"
+                  data-testid="input-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={PASSWORD_MIN_LENGTH}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-reset-password">
+                {isLoading ? "Please wait..." : "Reset password"}
+              </Button>
+            </form>
+          ) : requested ? (
+            <p className="text-sm text-muted-foreground text-center" data-testid="text-reset-requested">
+              If an account exists for {email}, a reset link is on its way. It works once and expires in an hour.
+            </p>
+          ) : (
+            <form onSubmit={handleRequest} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  data-testid="input-email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-request-reset">
+                {isLoading ? "Please wait..." : "Send reset link"}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center text-sm">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => setLocation("/login")}
+              data-testid="button-back-to-login"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
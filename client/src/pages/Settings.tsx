@@ -12,6 +12,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { User, Lock, Bell, Shield, Upload, Save } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { SignedInSessions } from "@/components/SignedInSessions";
+import { AccessTokenSettings } from "@/components/AccessTokenSettings";
+import { AccountDataSettings } from "@/components/AccountDataSettings";
 
 export default function Settings() {
   const { user, profile, refreshProfile } = useAuth();
@@ -37,6 +41,7 @@ export default function Settings() {
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [pushNotifications, setPushNotifications] = useState(true);
   const [communityUpdates, setCommunityUpdates] = useState(true);
+  const [stationAlerts, setStationAlerts] = useState(true);
   
   // Loading states
   const [isSavingProfile, setIsSavingProfile] = useState(false);
@@ -53,6 +58,7 @@ export default function Settings() {
       setVehicleBrand(profile.vehicle?.brand || "");
       setVehicleModel(profile.vehicle?.model || "");
       setVehicleYear(profile.vehicle?.year?.toString() || "");
+      setStationAlerts(profile.notificationPrefs?.stationStatus !== false);
     }
   }, [profile]);
 
@@ -178,7 +184,7 @@ export default function Settings() {
 
     setIsSavingPassword(true);
     try {
-      const res = await fetch("/api/auth/change-password", {
+      const res = await fetch("/api/auth/password", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -190,7 +196,7 @@ export default function Settings() {
 
       if (!res.ok) {
         const error = await res.json();
-        throw new Error(error.message || "Failed to change password");
+        throw new Error(error.error || "Failed to change password");
       }
 
       toast({
@@ -212,6 +218,30 @@ export default function Settings() {
     }
   };
 
+  // Saved straight away: the watcher reads it from the profile on its next run
+  const handleStationAlertsChange = async (checked: boolean) => {
+    setStationAlerts(checked);
+    try {
+      const res = await fetch("/api/profiles", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notificationPrefs: { stationStatus: checked } }),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error("Failed to update station alerts");
+      }
+      await refreshProfile();
+    } catch (error) {
+      setStationAlerts(!checked);
+      toast({
+        title: "Error",
+        description: "Failed to update station alerts.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveNotifications = async () => {
     setIsSavingNotifications(true);
     try {
@@ -483,6 +513,12 @@ export default function Settings() {
                 </Button>
               </CardContent>
             </Card>
+
+            <TwoFactorSettings />
+
+            <SignedInSessions />
+
+            <AccessTokenSettings />
           </TabsContent>
 
           {/* Notifications Tab */}
@@ -537,6 +573,20 @@ export default function Settings() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="station-alerts">Station Status Alerts</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Get notified when a bookmarked station goes down or comes back
+                    </p>
+                  </div>
+                  <Switch
+                    id="station-alerts"
+                    checked={stationAlerts}
+                    onCheckedChange={handleStationAlertsChange}
+                  />
+                </div>
+
                 <Button 
                   onClick={handleSaveNotifications} 
                   disabled={isSavingNotifications}
@@ -595,6 +645,8 @@ export default function Settings() {
                 </Button>
               </CardContent>
             </Card>
+
+            <AccountDataSettings />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,44 +1,63 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useMemo } from "react";
+import { useQueries, useQuery, useQueryClient, type UseQueryResult } from "@tanstack/react-query";
 import { StationMap } from "@/components/StationMap";
 import { StationCard } from "@/components/StationCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Map, List, Search, MapPin, Loader2 } from "lucide-react";
+import { Map, List, Search, MapPin, Loader2, BatteryCharging } from "lucide-react";
+import { StationFilterBar } from "@/components/StationFilterBar";
+import { StationExportMenu } from "@/components/StationExportMenu";
+import { ReachableRangeView } from "@/components/ReachableRangeView";
+import {
+  bboxWithinKm,
+  CLUSTER_ZOOM,
+  fetchStationClusters,
+  fetchStations,
+  formatDistance,
+  toAvailability,
+  viewportTiles,
+  type MapTile,
+  type MapViewport,
+  type StationRecord,
+} from "@/lib/stations";
+import { useStationFilters, toStationQueryParams } from "@/hooks/use-station-filters";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useAuth } from "@/contexts/AuthContext";
+import { resolveVehicle, stationCompatibility } from "@shared/vehicles";
+import { compareByPrice, defaultEstimateKWh, estimateStationCost } from "@shared/tariffs";
+import { compareByRating } from "@shared/reviews";
+import { haversineDistanceKm, milesToKm } from "@shared/geo";
+import type { StationCluster } from "@shared/stations";
 
-interface ChargingStation {
-  ID: number;
-  AddressInfo: {
-    Title: string;
-    AddressLine1: string;
-    Town: string;
-    StateOrProvince: string;
-    Postcode: string;
-    Country: {
-      Title: string;
-    };
-    Latitude: number;
-    Longitude: number;
-    Distance?: number;
-  };
-  Connections: Array<{
-    ConnectionType?: {
-      Title: string;
-    };
-    PowerKW?: number;
-    Level?: {
-      Title: string;
-    };
-  }>;
-  OperatorInfo?: {
-    Title: string;
-  };
-  UsageCost?: string;
-  StatusType?: {
-    IsOperational: boolean;
-    Title: string;
+const SYNC_RADIUS_MILES = 25;
+const TILE_STATION_LIMIT = 500;
+const VIEWPORT_DEBOUNCE_MS = 300;
+// "Open now" results go out of date as the clock moves, unlike everything else a tile holds
+const OPEN_NOW_STALE_MS = 5 * 60 * 1000;
+// Shared empty results keep the map from redrawing its markers on unrelated renders
+const NO_STATIONS: StationRecord[] = [];
+const NO_CLUSTERS: StationCluster[] = [];
+
+interface TileData {
+  stations: StationRecord[];
+  clusters: StationCluster[];
+}
+
+// Stable so useQueries only re-merges when a tile's result changes
+function mergeTiles(results: UseQueryResult<TileData>[]) {
+  const stations: Record<string, StationRecord> = {};
+  const clusters: StationCluster[] = [];
+  for (const result of results) {
+    result.data?.stations.forEach((station) => (stations[station.id] = station));
+    clusters.push(...(result.data?.clusters ?? []));
+  }
+  return {
+    stations: Object.values(stations),
+    clusters,
+    isLoading: results.some((result) => result.isLoading),
+    error: results.find((result) => result.error)?.error ?? null,
   };
 }
 
@@ -47,6 +66,22 @@ export default function StationFinder() {
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [searchLocation, setSearchLocation] = useState("");
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const { filters, setFilters, resetFilters, activeCount } = useStationFilters();
+  const { profile } = useAuth();
+  const vehicle = useMemo(() => resolveVehicle(profile?.vehicle), [profile]);
+  const estimateKWh = defaultEstimateKWh(vehicle);
+
+  // "Compatible only" narrows the connector filter to the car's inlets server-side;
+  // power limits etc. are still checked per station below
+  const compatibleOnly = filters.compatibleOnly && !!vehicle;
+  const connectorFilter = compatibleOnly
+    ? filters.connectors.length > 0
+      ? filters.connectors.filter((family) => vehicle!.inlets.includes(family))
+      : vehicle!.inlets
+    : filters.connectors;
+  const filterParams = toStationQueryParams({ ...filters, connectors: connectorFilter, compatibleOnly: false });
+  const freshness = filters.openNow ? { staleTime: OPEN_NOW_STALE_MS } : {};
 
   // Get user's current location
   useEffect(() => {
@@ -78,59 +113,116 @@ export default function StationFinder() {
     }
   }, [toast]);
 
-  // Fetch charging stations via backend proxy
-  const { data: stations = [], isLoading, error } = useQuery<ChargingStation[]>({
-    queryKey: ["charging-stations", userLocation],
-    queryFn: async () => {
-      if (!userLocation) return [];
-      
-      console.log("Fetching stations for:", userLocation);
-      
-      const url = `/api/charging-stations?latitude=${userLocation.lat}&longitude=${userLocation.lng}&distance=25&maxResults=50`;
-      console.log("API URL:", url);
-      
-      const response = await fetch(url, {
+  const debouncedViewport = useDebouncedValue(viewport, VIEWPORT_DEBOUNCE_MS);
+  // Zoomed out past a region, the map shows server-side clusters rather than stations
+  const clustered = !!debouncedViewport && debouncedViewport.zoom < CLUSTER_ZOOM;
+  // Sort is applied after tiles are merged, so it isn't part of a tile's cache key
+  const tileParams = toStationQueryParams({ ...filters, connectors: connectorFilter, compatibleOnly: false, sort: "distance" });
+
+  // Sync upstream stations around the map centre once zoomed in, otherwise around the search location.
+  // Rounded to ~1 km so small pans reuse the same sync
+  const syncCenter = useMemo(() => {
+    const center = debouncedViewport && !clustered ? debouncedViewport.center : userLocation;
+    return center && { lat: Number(center.lat.toFixed(2)), lng: Number(center.lng.toFixed(2)) };
+  }, [debouncedViewport, clustered, userLocation]);
+
+  const syncQuery = useQuery<StationRecord[]>({
+    queryKey: ["/api/stations/search", syncCenter, filterParams],
+    queryFn: async ({ signal }) => {
+      if (!syncCenter) return [];
+      const params = new URLSearchParams({
+        lat: String(syncCenter.lat),
+        lng: String(syncCenter.lng),
+        distance: String(SYNC_RADIUS_MILES),
+        maxResults: "50",
+        ...filterParams,
+      });
+      const response = await fetch(`/api/stations/search?${params.toString()}`, {
         credentials: "include",
+        signal,
       });
-      
-      console.log("Response status:", response.status);
-      console.log("Response headers:", Object.fromEntries(response.headers.entries()));
-      
-      const text = await response.text();
-      console.log("Response text (first 200 chars):", text.substring(0, 200));
-      
       if (!response.ok) {
-        console.error("API Error:", response.status, response.statusText);
         throw new Error("Failed to fetch stations");
       }
-      
-      try {
-        const data = JSON.parse(text);
-        console.log("Stations received:", data.length, "stations");
-        console.log("First station:", data[0]);
-        return data;
-      } catch (e) {
-        console.error("JSON parse error:", e);
-        console.error("Full response text:", text);
-        throw new Error("Invalid JSON response from server");
-      }
+      return response.json();
     },
-    enabled: !!userLocation,
+    enabled: !!syncCenter,
+    ...freshness,
     retry: 2,
     retryDelay: 1000,
   });
 
+  // Tiles loaded before a sync may be missing the stations it just stored
+  const queryClient = useQueryClient();
+  useEffect(() => {
+    if (!syncQuery.dataUpdatedAt || !syncCenter) return;
+    queryClient.invalidateQueries({
+      queryKey: ["/api/stations", "tile"],
+      predicate: (query) =>
+        query.state.status === "success" &&
+        query.state.dataUpdatedAt < syncQuery.dataUpdatedAt &&
+        bboxWithinKm((query.queryKey[2] as MapTile).bbox, syncCenter, milesToKm(SYNC_RADIUS_MILES)),
+    });
+  }, [syncQuery.dataUpdatedAt]);
+
+  // Then load whatever our backend knows about, one cached tile at a time. Moving the
+  // map away from a tile cancels its request; coming back reuses the cached result
+  const tiles = useMemo(() => (debouncedViewport ? viewportTiles(debouncedViewport) : []), [debouncedViewport]);
+  const tileResults = useQueries({
+    queries: tiles.map((tile) => ({
+      queryKey: ["/api/stations", "tile", tile, clustered ? `clusters@${debouncedViewport!.zoom}` : "stations", tileParams],
+      queryFn: async ({ signal }: { signal: AbortSignal }): Promise<TileData> =>
+        clustered
+          ? {
+              stations: [],
+              clusters: await fetchStationClusters({ bbox: tile.bbox, zoom: debouncedViewport!.zoom, ...tileParams }, signal),
+            }
+          : {
+              stations: await fetchStations({ bbox: tile.bbox, limit: TILE_STATION_LIMIT, ...tileParams }, signal),
+              clusters: [],
+            },
+      enabled: !syncQuery.isFetching,
+      gcTime: 30 * 60 * 1000,
+      ...freshness,
+    })),
+    combine: mergeTiles,
+  });
+
+  const origin = userLocation ?? debouncedViewport?.center;
+  const tileStations = useMemo(() => {
+    const byDistance = (a: StationRecord, b: StationRecord) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0);
+    return tileResults.stations
+      .map((station) => ({ ...station, distanceKm: origin ? haversineDistanceKm(origin, station.coords) : undefined }))
+      .sort((a, b) => {
+        if (filters.sort === "rating") return compareByRating(a, b) || byDistance(a, b);
+        if (filters.sort === "price") return compareByPrice(a, b, vehicle) || byDistance(a, b);
+        return byDistance(a, b);
+      });
+  }, [tileResults.stations, origin, filters.sort, vehicle]);
+
+  // While clustered the list falls back to the stations synced around the search location
+  const showTiles = !!debouncedViewport && !clustered;
+  const stations = showTiles ? tileStations : syncQuery.data ?? NO_STATIONS;
+  const isLoading = syncQuery.isLoading || (showTiles && tileResults.isLoading && tileStations.length === 0);
+  const error = showTiles ? tileResults.error : syncQuery.error;
+
   // Log errors
   if (error) {
     console.error("Query error:", error);
   }
 
+  // A new search location invalidates the last reported map area until the map re-centres
+  const changeLocation = (location: { lat: number; lng: number }) => {
+    setViewport(null);
+    setUserLocation(location);
+  };
+
   const handleUseMyLocation = () => {
     if (navigator.geolocation) {
       setIsGettingLocation(true);
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          setUserLocation({
+          changeLocation({
             lat: position.coords.latitude,
             lng: position.coords.longitude,
           });
@@ -172,7 +264,7 @@ export default function StationFinder() {
       }
       
       const location = results[0];
-      setUserLocation({
+      changeLocation({
         lat: parseFloat(location.lat),
         lng: parseFloat(location.lon),
       });
@@ -190,8 +282,10 @@ export default function StationFinder() {
     }
   };
 
-  // Don't filter stations - show all from API
-  const filteredStations = stations;
+  const filteredStations = useMemo(
+    () => (compatibleOnly ? stations.filter((station) => stationCompatibility(vehicle!, station).compatible) : stations),
+    [stations, compatibleOnly, vehicle]
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -204,19 +298,32 @@ export default function StationFinder() {
                 Discover nearby EV charging stations
               </p>
             </div>
-            <Button
-              variant="outline"
-              onClick={handleUseMyLocation}
-              disabled={isGettingLocation}
-              className="gap-2"
-            >
-              {isGettingLocation ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <MapPin className="h-4 w-4" />
-              )}
-              Use My Location
-            </Button>
+            <div className="flex gap-2">
+              <StationExportMenu
+                params={{
+                  bbox: viewport?.bbox,
+                  lat: userLocation?.lat,
+                  lng: userLocation?.lng,
+                  // Without a map area yet, export what the list is showing around the search location
+                  radius: viewport ? undefined : 25,
+                  ...filterParams,
+                }}
+                disabled={!viewport && !userLocation}
+              />
+              <Button
+                variant="outline"
+                onClick={handleUseMyLocation}
+                disabled={isGettingLocation}
+                className="gap-2"
+              >
+                {isGettingLocation ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <MapPin className="h-4 w-4" />
+                )}
+                Use My Location
+              </Button>
+            </div>
           </div>
           
           <div className="flex gap-2">
@@ -234,6 +341,16 @@ export default function StationFinder() {
               {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
             </Button>
           </div>
+
+          <div className="mt-4">
+            <StationFilterBar
+              filters={filters}
+              activeCount={activeCount}
+              vehicleName={vehicle ? `${vehicle.brand} ${vehicle.model}` : undefined}
+              onChange={setFilters}
+              onReset={resetFilters}
+            />
+          </div>
         </div>
       </div>
 
@@ -248,14 +365,34 @@ export default function StationFinder() {
               <List className="h-4 w-4" />
               List View
             </TabsTrigger>
+            <TabsTrigger value="range" className="gap-2" data-testid="tab-range">
+              <BatteryCharging className="h-4 w-4" />
+              Range
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="map" className="mt-6">
             <StationMap 
-              stations={filteredStations} 
+              stations={clustered ? NO_STATIONS : filteredStations}
+              clusters={clustered ? tileResults.clusters : NO_CLUSTERS}
               userLocation={userLocation}
               onLocationChange={(newLocation) => {
-                setUserLocation(newLocation);
+                changeLocation(newLocation);
+                setSearchLocation("");
+              }}
+              onViewportChange={setViewport}
+              vehicle={vehicle}
+            />
+          </TabsContent>
+
+          <TabsContent value="range" className="mt-6">
+            <ReachableRangeView
+              origin={userLocation}
+              vehicle={vehicle}
+              defaultBatteryKWh={profile?.vehicle?.batteryCapacity}
+              filterParams={filterParams}
+              onLocationChange={(newLocation) => {
+                changeLocation(newLocation);
                 setSearchLocation("");
               }}
             />
@@ -286,48 +423,31 @@ export default function StationFinder() {
             ) : filteredStations.length > 0 ? (
               <>
                 <div className="mb-4 text-sm text-muted-foreground">
-                  Found {filteredStations.length} charging stations nearby
+                  Found {filteredStations.length} charging stations {showTiles ? "in this map area" : "nearby"}
                 </div>
                 <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {filteredStations.map((station) => {
-                    const address = [
-                      station.AddressInfo.AddressLine1,
-                      station.AddressInfo.Town,
-                      station.AddressInfo.StateOrProvince,
-                      station.AddressInfo.Postcode,
-                    ]
-                      .filter(Boolean)
-                      .join(", ");
-
-                    const connectors = station.Connections?.map((conn) => ({
-                      type: conn.ConnectionType?.Title || conn.Level?.Title || "Unknown",
-                      powerKW: conn.PowerKW || 0,
-                    })) || [];
-
-                    const distance = station.AddressInfo.Distance
-                      ? `${station.AddressInfo.Distance.toFixed(1)} mi`
-                      : undefined;
-
-                    const availability = station.StatusType?.IsOperational
-                      ? "available"
-                      : "offline";
-
-                    return (
-                      <StationCard
-                        key={station.ID}
-                        id={station.ID.toString()}
-                        name={station.AddressInfo.Title}
-                        address={address}
-                        distance={distance}
-                        connectors={connectors}
-                        provider={station.OperatorInfo?.Title}
-                        pricing={station.UsageCost}
-                        availability={availability as any}
-                        latitude={station.AddressInfo.Latitude}
-                        longitude={station.AddressInfo.Longitude}
-                      />
-                    );
-                  })}
+                  {filteredStations.map((station) => (
+                    <StationCard
+                      key={station.id}
+                      id={station.id}
+                      name={station.name}
+                      address={station.address}
+                      distance={formatDistance(station.distanceKm)}
+                      connectors={station.connectors}
+                      provider={station.provider ?? undefined}
+                      pricing={station.pricing ?? undefined}
+                      availability={toAvailability(station)}
+                      latitude={station.coords.lat}
+                      longitude={station.coords.lng}
+                      compatibility={vehicle ? stationCompatibility(vehicle, station) : undefined}
+                      liveStatus={station.liveStatus}
+                      recentCheckIns={station.recentCheckIns}
+                      ratingAverage={station.ratingAverage}
+                      ratingCount={station.ratingCount}
+                      costEstimate={estimateStationCost(station, vehicle, estimateKWh)}
+                      details={station}
+                    />
+                  ))}
                 </div>
               </>
             ) : (
@@ -335,7 +455,9 @@ export default function StationFinder() {
                 <MapPin className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                 <h3 className="text-lg font-semibold mb-2">No stations found</h3>
                 <p className="text-muted-foreground mb-4">
-                  No charging stations found within 25 miles of your location
+                  {activeCount > 0
+                    ? "No charging stations match your filters in this area"
+                    : "No charging stations found within 25 miles of your location"}
                 </p>
                 {userLocation && (
                   <p className="text-xs text-muted-foreground mb-4">
@@ -347,7 +469,7 @@ export default function StationFinder() {
                     <MapPin className="h-4 w-4 mr-2" />
                     Use My Location
                   </Button>
-                  <Button variant="outline" onClick={() => setUserLocation({ lat: 40.7128, lng: -74.0060 })}>
+                  <Button variant="outline" onClick={() => changeLocation({ lat: 40.7128, lng: -74.0060 })}>
                     Try New York
                   </Button>
                 </div>
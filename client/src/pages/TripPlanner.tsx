@@ -0,0 +1,429 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, BatteryCharging, Flag, Loader2, LocateFixed, Route, Save, Share2, Trash2, Zap } from "lucide-react";
+import { resolveVehicle, formatChargeTime } from "@shared/vehicles";
+import type { TripLeg, TripPlan, TripPlanRequest } from "@shared/trips";
+
+interface SavedTrip {
+  id: string;
+  userId: string;
+  name: string;
+  request: TripPlanRequest;
+  plan: TripPlan;
+  postId: string | null;
+  createdAt: string;
+}
+
+const POWER_OPTIONS = [22, 50, 100, 150];
+
+// Accepts "lat, lng" as typed or pasted from a map
+function parseLatLng(value: string): { lat: number; lng: number } | null {
+  const parts = value.split(",").map((part) => Number(part.trim()));
+  if (parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) return null;
+  const [lat, lng] = parts;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+function formatLatLng(point: { lat: number; lng: number }): string {
+  return `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`;
+}
+
+function LegRow({ leg, index }: { leg: TripLeg; index: number }) {
+  const stop = leg.chargingStop;
+  return (
+    <div className="flex gap-3" data-testid={`trip-leg-${index}`}>
+      <div className="mt-1">
+        {stop ? <Zap className="h-4 w-4 text-primary" /> : <Flag className="h-4 w-4 text-muted-foreground" />}
+      </div>
+      <div className="flex-1 space-y-1">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="font-medium text-sm">{leg.to.label || formatLatLng(leg.to)}</p>
+          <span className="text-xs text-muted-foreground">
+            {leg.distanceKm} km · {leg.energyKWh} kWh
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Leave at {Math.round(leg.departureSocPercent)}%, arrive at {Math.round(leg.arrivalSocPercent)}%
+        </p>
+        {stop && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="secondary">{stop.powerKW} kW {stop.connectorType}</Badge>
+            <span>Charge to {Math.round(stop.departureSocPercent)}%</span>
+            {stop.chargeMinutes !== undefined && <span>· about {formatChargeTime(stop.chargeMinutes)}</span>}
+            {stop.detourKm >= 0.5 && <span className="text-muted-foreground">· {stop.detourKm} km off route</span>}
+          </div>
+        )}
+        {stop && <p className="text-xs text-muted-foreground">{stop.address}</p>}
+      </div>
+    </div>
+  );
+}
+
+function PlanSummary({ plan }: { plan: TripPlan }) {
+  const stops = plan.legs.filter((leg) => leg.chargingStop).length;
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span><strong>{plan.totalDistanceKm}</strong> km</span>
+        <span><strong>{stops}</strong> charging stop{stops === 1 ? "" : "s"}</span>
+        {plan.totalChargeMinutes > 0 && <span><strong>{formatChargeTime(plan.totalChargeMinutes)}</strong> charging</span>}
+        <span>Arrive with <strong>{Math.round(plan.arrivalSocPercent)}%</strong></span>
+      </div>
+      {plan.warnings.map((warning) => (
+        <div key={warning} className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          {warning}
+        </div>
+      ))}
+      <div className="space-y-4">
+        {plan.legs.map((leg, index) => (
+          <LegRow key={index} leg={leg} index={index} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function TripPlanner() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/trips/:id");
+  const tripId = params?.id;
+  const vehicle = useMemo(() => resolveVehicle(profile?.vehicle), [profile?.vehicle]);
+
+  const [origin, setOrigin] = useState("");
+  const [destination, setDestination] = useState("");
+  const [batteryKWh, setBatteryKWh] = useState("");
+  const [consumption, setConsumption] = useState("18");
+  const [startSoc, setStartSoc] = useState(90);
+  const [minPower, setMinPower] = useState(50);
+  const [tripName, setTripName] = useState("");
+  const [plan, setPlan] = useState<TripPlan | null>(null);
+  const [savedTrip, setSavedTrip] = useState<SavedTrip | null>(null);
+
+  useEffect(() => {
+    if (vehicle && !batteryKWh) setBatteryKWh(String(vehicle.batteryKWh));
+  }, [vehicle, batteryKWh]);
+
+  const { data: myTrips } = useQuery<SavedTrip[]>({
+    queryKey: ["/api/trips"],
+    enabled: !!user,
+  });
+
+  const { data: openedTrip, error: openedTripError } = useQuery<SavedTrip>({
+    queryKey: ["/api/trips", tripId],
+    enabled: !!tripId,
+  });
+
+  // Opening /trips/:id shows the stored plan and fills the form for re-planning
+  useEffect(() => {
+    if (!openedTrip) return;
+    const request = openedTrip.request;
+    setOrigin(formatLatLng(request.origin));
+    setDestination(formatLatLng(request.destination));
+    setBatteryKWh(String(request.batteryKWh));
+    setConsumption(String(request.consumptionKWhPer100Km));
+    setStartSoc(request.startSocPercent);
+    setMinPower(request.minPowerKW);
+    setTripName(openedTrip.name);
+    setPlan(openedTrip.plan);
+    setSavedTrip(openedTrip);
+  }, [openedTrip]);
+
+  const buildRequest = (): Partial<TripPlanRequest> | null => {
+    const from = parseLatLng(origin);
+    const to = parseLatLng(destination);
+    const battery = Number(batteryKWh);
+    const perHundred = Number(consumption);
+    if (!from || !to) {
+      toast({ title: "Enter origin and destination as \"lat, lng\"", variant: "destructive" });
+      return null;
+    }
+    if (!(battery > 0) || !(perHundred > 0)) {
+      toast({ title: "Battery size and consumption must be positive numbers", variant: "destructive" });
+      return null;
+    }
+    return {
+      origin: from,
+      destination: to,
+      batteryKWh: battery,
+      consumptionKWhPer100Km: perHundred,
+      startSocPercent: startSoc,
+      minPowerKW: minPower,
+    };
+  };
+
+  const planMutation = useMutation({
+    mutationFn: async (request: Partial<TripPlanRequest>) => {
+      const res = await apiRequest("POST", "/api/trips/plan", request);
+      return (await res.json()) as TripPlan;
+    },
+    onSuccess: (result) => {
+      setPlan(result);
+      setSavedTrip(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not plan trip", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (request: Partial<TripPlanRequest>) => {
+      const res = await apiRequest("POST", "/api/trips", { name: tripName.trim(), request });
+      return (await res.json()) as SavedTrip;
+    },
+    onSuccess: (trip) => {
+      setSavedTrip(trip);
+      setPlan(trip.plan);
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({ title: "Trip saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save trip", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/trips/${id}/share`);
+      return (await res.json()) as { trip: SavedTrip; post: { id: string } };
+    },
+    onSuccess: ({ post }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      toast({ title: "Trip shared to your feed" });
+      navigate(`/posts/${post.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not share trip", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/trips/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trips"] });
+      if (savedTrip?.id === id) setSavedTrip(null);
+      if (tripId === id) navigate("/trips");
+    },
+  });
+
+  const handleUseMyLocation = () => {
+    navigator.geolocation?.getCurrentPosition(
+      (position) => setOrigin(formatLatLng({ lat: position.coords.latitude, lng: position.coords.longitude })),
+      () => toast({ title: "Could not get your location", variant: "destructive" })
+    );
+  };
+
+  const handlePlan = () => {
+    const request = buildRequest();
+    if (request) planMutation.mutate(request);
+  };
+
+  const handleSave = () => {
+    const request = buildRequest();
+    if (!request) return;
+    if (!tripName.trim()) {
+      toast({ title: "Give the trip a name first", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(request);
+  };
+
+  const isOwnTrip = !!savedTrip && savedTrip.userId === user?.id;
+
+  return (
+    <div className="container max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <Route className="h-7 w-7" />
+          Trip Planner
+        </h1>
+        <p className="text-muted-foreground">
+          Plan a drive with charging stops from stations in the EV Connect directory
+          {vehicle ? ` for your ${vehicle.brand} ${vehicle.model}` : ""}.
+        </p>
+      </div>
+
+      {tripId && openedTripError && (
+        <Card className="p-4 text-sm text-destructive">This trip doesn't exist or hasn't been shared.</Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[360px_1fr]">
+        <div className="space-y-6">
+          <Card className="p-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="trip-origin">From</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="trip-origin"
+                  placeholder="lat, lng"
+                  value={origin}
+                  onChange={(e) => setOrigin(e.target.value)}
+                  data-testid="input-trip-origin"
+                />
+                <Button variant="outline" size="icon" onClick={handleUseMyLocation} title="Use my location">
+                  <LocateFixed className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trip-destination">To</Label>
+              <Input
+                id="trip-destination"
+                placeholder="lat, lng"
+                value={destination}
+                onChange={(e) => setDestination(e.target.value)}
+                data-testid="input-trip-destination"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="trip-battery">Battery (kWh)</Label>
+                <Input
+                  id="trip-battery"
+                  type="number"
+                  min={1}
+                  value={batteryKWh}
+                  onChange={(e) => setBatteryKWh(e.target.value)}
+                  data-testid="input-trip-battery"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trip-consumption">kWh / 100 km</Label>
+                <Input
+                  id="trip-consumption"
+                  type="number"
+                  min={1}
+                  step={0.1}
+                  value={consumption}
+                  onChange={(e) => setConsumption(e.target.value)}
+                  data-testid="input-trip-consumption"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Starting charge</Label>
+                <span className="text-sm text-muted-foreground flex items-center gap-1">
+                  <BatteryCharging className="h-4 w-4" />
+                  {startSoc}%
+                </span>
+              </div>
+              <Slider min={5} max={100} step={5} value={[startSoc]} onValueChange={([value]) => setStartSoc(value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Minimum charger power</Label>
+              <Select value={String(minPower)} onValueChange={(value) => setMinPower(Number(value))}>
+                <SelectTrigger data-testid="select-trip-min-power">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POWER_OPTIONS.map((power) => (
+                    <SelectItem key={power} value={String(power)}>
+                      {power}+ kW
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {user ? (
+              <Button className="w-full gap-2" onClick={handlePlan} disabled={planMutation.isPending} data-testid="button-plan-trip">
+                {planMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Route className="h-4 w-4" />}
+                Plan trip
+              </Button>
+            ) : (
+              <Button className="w-full" variant="outline" onClick={() => navigate("/login")} data-testid="button-plan-trip-login">
+                Sign in to plan trips
+              </Button>
+            )}
+          </Card>
+
+          {user && myTrips && myTrips.length > 0 && (
+            <Card className="p-4 space-y-3">
+              <h2 className="font-semibold">My trips</h2>
+              {myTrips.map((trip) => (
+                <div key={trip.id} className="flex items-center justify-between gap-2">
+                  <button
+                    className="text-sm text-left hover:underline truncate"
+                    onClick={() => navigate(`/trips/${trip.id}`)}
+                  >
+                    {trip.name}
+                    <span className="text-muted-foreground"> · {trip.plan.totalDistanceKm} km</span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(trip.id)}
+                    data-testid={`button-delete-trip-${trip.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </Card>
+          )}
+        </div>
+
+        <Card className="p-6 space-y-6">
+          {plan ? (
+            <>
+              <PlanSummary plan={plan} />
+              {user && (
+                <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+                  {!savedTrip && (
+                    <>
+                      <Input
+                        placeholder="Trip name"
+                        className="max-w-xs"
+                        value={tripName}
+                        onChange={(e) => setTripName(e.target.value)}
+                        data-testid="input-trip-name"
+                      />
+                      <Button variant="outline" className="gap-2" onClick={handleSave} disabled={saveMutation.isPending}>
+                        <Save className="h-4 w-4" />
+                        Save
+                      </Button>
+                    </>
+                  )}
+                  {isOwnTrip && (
+                    <Button
+                      className="gap-2"
+                      onClick={() => shareMutation.mutate(savedTrip.id)}
+                      disabled={shareMutation.isPending}
+                      data-testid="button-share-trip"
+                    >
+                      <Share2 className="h-4 w-4" />
+                      {savedTrip.postId ? "View post" : "Share as post"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center text-muted-foreground py-16">
+              <Route className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              Enter a start and end point to see where to charge along the way.
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
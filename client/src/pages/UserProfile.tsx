@@ -8,13 +8,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { FileText, Bookmark, MapPin, Zap, ArrowRight } from "lucide-react";
+import { FileText, Bookmark, MapPin, Zap, ArrowRight, BatteryCharging } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
+import { ChargingSessionsPanel } from "@/components/ChargingSessionsPanel";
 
 interface ApiPost {
   id: string;
@@ -394,6 +395,12 @@ export default function UserProfile() {
             <Bookmark className="h-4 w-4" />
             Bookmarks
           </TabsTrigger>
+          {isOwnProfile && (
+            <TabsTrigger value="charging" className="gap-2" data-testid="tab-charging">
+              <BatteryCharging className="h-4 w-4" />
+              Charging
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="posts" className="mt-6 space-y-4">
@@ -492,6 +499,12 @@ export default function UserProfile() {
             </Card>
           )}
         </TabsContent>
+
+        {isOwnProfile && (
+          <TabsContent value="charging" className="mt-6">
+            <ChargingSessionsPanel />
+          </TabsContent>
+        )}
       </Tabs>
 
       <Dialog open={showMessageDialog} onOpenChange={(open) => {
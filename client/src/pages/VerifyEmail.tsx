@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, Loader2, XCircle } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+
+type VerifyState = { status: "verifying" } | { status: "verified" } | { status: "failed"; error: string };
+
+/** Landing page for the link in the verification email */
+export default function VerifyEmail() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { isAuthenticated, refreshProfile } = useAuth();
+  const [state, setState] = useState<VerifyState>(
+    token ? { status: "verifying" } : { status: "failed", error: "This link is missing its token." }
+  );
+  // Tokens work once, so StrictMode's double effect mustn't spend it twice
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    (async () => {
+      try {
+        const res = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+          credentials: "include",
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Verification failed");
+        setState({ status: "verified" });
+        await refreshProfile();
+      } catch (error) {
+        setState({ status: "failed", error: error instanceof Error ? error.message : "Verification failed" });
+      }
+    })();
+  }, [token, refreshProfile]);
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center px-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader className="space-y-2">
+          <div className="flex justify-center">
+            {state.status === "verifying" ? (
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            ) : state.status === "verified" ? (
+              <CheckCircle className="h-10 w-10 text-primary" />
+            ) : (
+              <XCircle className="h-10 w-10 text-destructive" />
+            )}
+          </div>
+          <CardTitle>
+            {state.status === "verifying"
+              ? "Verifying your email..."
+              : state.status === "verified"
+                ? "Email verified"
+                : "Couldn't verify your email"}
+          </CardTitle>
+          <CardDescription data-testid="text-verify-result">
+            {state.status === "verified"
+              ? "Thanks! You can now post, message and add stations."
+              : state.status === "failed"
+                ? `${state.error} Sign in and use "Resend link" to get a new one.`
+                : null}
+          </CardDescription>
+        </CardHeader>
+        {state.status !== "verifying" && (
+          <CardContent>
+            <Button onClick={() => setLocation(isAuthenticated ? "/" : "/login")} data-testid="button-continue">
+              {isAuthenticated ? "Continue" : "Sign in"}
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createAccessTokens, requiredAccessTokenScope } from "./access-tokens";
+
+test("reads need the read scope", () => {
+  assert.equal(requiredAccessTokenScope("GET", "/api/stations"), "read");
+  assert.equal(requiredAccessTokenScope("GET", "/api/auth/me"), "read");
+});
+
+test("writes need the scope for their area", () => {
+  assert.equal(requiredAccessTokenScope("POST", "/api/posts"), "write:posts");
+  assert.equal(requiredAccessTokenScope("POST", "/api/stations/abc/reviews"), "write:stations");
+  assert.equal(requiredAccessTokenScope("POST", "/api/admin/stations/import"), "write:stations");
+  assert.equal(requiredAccessTokenScope("PATCH", "/api/admin/users/abc"), "admin");
+});
+
+test("account, session and token routes don't accept tokens", () => {
+  assert.equal(requiredAccessTokenScope("GET", "/api/auth/sessions"), null);
+  assert.equal(requiredAccessTokenScope("GET", "/api/auth/2fa"), null);
+  assert.equal(requiredAccessTokenScope("POST", "/api/auth/tokens"), null);
+  assert.equal(requiredAccessTokenScope("GET", "/api/account/export"), null);
+  assert.equal(requiredAccessTokenScope("DELETE", "/api/account/deletion"), null);
+  assert.equal(requiredAccessTokenScope("POST", "/api/messages"), null);
+});
+
+test("mixed-case paths are classified like the routes Express serves for them", () => {
+  assert.equal(requiredAccessTokenScope("GET", "/api/Account/export"), null);
+  assert.equal(requiredAccessTokenScope("GET", "/api/AUTH/sessions"), null);
+  assert.equal(requiredAccessTokenScope("GET", "/api/AUTH/2fa"), null);
+  assert.equal(requiredAccessTokenScope("GET", "/API/AUTH/ME"), "read");
+  assert.equal(requiredAccessTokenScope("POST", "/api/Admin/Users/abc/unlock"), "admin");
+  assert.equal(requiredAccessTokenScope("POST", "/api/Admin/Stations/import"), "write:stations");
+});
+
+async function tokenSetup(role = "USER") {
+  const storage = new MemStorage();
+  const accessTokens = createAccessTokens(storage);
+  const user = await storage.createUser({ email: "member@example.com", passwordHash: "x", role });
+  return { storage, accessTokens, user };
+}
+
+test("issued tokens are stored only as a hash and authenticate their owner", async () => {
+  const { storage, accessTokens, user } = await tokenSetup();
+  const issued = await accessTokens.issue(user, { name: "Import", scopes: ["read", "read"], expiresInDays: 30 });
+  assert.ok("token" in issued);
+  assert.match(issued.token, /^evc_/);
+  assert.deepEqual(issued.accessToken.scopes, ["read"]);
+
+  const [stored] = await storage.getAccessTokens(user.id);
+  assert.notEqual(stored.tokenHash, issued.token);
+
+  const result = await accessTokens.authenticate(issued.token);
+  assert.ok("user" in result);
+  assert.equal(result.user.id, user.id);
+});
+
+test("unknown, revoked and expired tokens are refused", async () => {
+  const { storage, accessTokens, user } = await tokenSetup();
+  assert.ok("error" in (await accessTokens.authenticate("evc_not-a-real-token")));
+  assert.ok("error" in (await accessTokens.authenticate("not even the right shape")));
+
+  const revoked = await accessTokens.issue(user, { name: "Old", scopes: ["read"], expiresInDays: null });
+  assert.ok("token" in revoked);
+  assert.equal(await accessTokens.revoke(user.id, revoked.accessToken.id), true);
+  assert.ok("error" in (await accessTokens.authenticate(revoked.token)));
+
+  const expiring = await accessTokens.issue(user, { name: "Short", scopes: ["read"], expiresInDays: 7 });
+  assert.ok("token" in expiring);
+  const [stored] = await storage.getAccessTokens(user.id);
+  await storage.deleteAccessToken(stored.id, user.id);
+  await storage.createAccessToken({ ...stored, expiresAt: new Date(Date.now() - 1000) });
+  assert.deepEqual(await accessTokens.authenticate(expiring.token), { error: "This access token has expired" });
+});
+
+test("members can't revoke someone else's token", async () => {
+  const { storage, accessTokens, user } = await tokenSetup();
+  const other = await storage.createUser({ email: "other@example.com", passwordHash: "x" });
+  const issued = await accessTokens.issue(user, { name: "Mine", scopes: ["read"], expiresInDays: null });
+  assert.ok("token" in issued);
+  assert.equal(await accessTokens.revoke(other.id, issued.accessToken.id), false);
+  assert.ok("user" in (await accessTokens.authenticate(issued.token)));
+});
+
+test("only moderators and admins can grant the admin scope", async () => {
+  const member = await tokenSetup("USER");
+  assert.ok("error" in (await member.accessTokens.issue(member.user, { name: "Admin", scopes: ["admin"], expiresInDays: 30 })));
+  const moderator = await tokenSetup("MODERATOR");
+  assert.ok("token" in (await moderator.accessTokens.issue(moderator.user, { name: "Admin", scopes: ["admin"], expiresInDays: 30 })));
+});
@@ -0,0 +1,129 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  ADMIN_SCOPE_ROLES,
+  type AccessTokenScope,
+  type AccessTokenSummary,
+  type CreateAccessTokenInput,
+} from "@shared/access-tokens";
+import type { AccessToken, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Recognisable in logs and by secret scanners
+const TOKEN_PREFIX = "evc_";
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** lastUsedAt is only rewritten this often so busy scripts don't write on every call */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+const MAX_TOKENS_PER_USER = 50;
+
+function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function toAccessTokenSummary(token: AccessToken): AccessTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    scopes: token.scopes,
+    prefix: token.prefix,
+    expiresAt: token.expiresAt?.toISOString() ?? null,
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Write routes a token can reach, by path prefix; the first match wins.
+// Anything not listed (account, messages, bookmarks, ...) stays session-only.
+const WRITE_SCOPES: Array<[RegExp, AccessTokenScope]> = [
+  [/^\/api\/admin\/stations\//, "write:stations"],
+  [/^\/api\/(admin|moderation|reports\/|knowledge-categories)/, "admin"],
+  [/^\/api\/(posts|comments|communities|questions|answers|articles|article-comments)(\/|$)/, "write:posts"],
+  [/^\/api\/(stations|station-reviews)(\/|$)/, "write:stations"],
+];
+
+/**
+ * Scope a token needs for the request, or null when tokens can't be used for
+ * it at all. Moderator and admin tools also need the admin scope; the role
+ * guards check that.
+ */
+export function requiredAccessTokenScope(method: string, requestPath: string): AccessTokenScope | null {
+  // Express matches routes case-insensitively, so /api/Account/export still reaches the account routes
+  const path = requestPath.toLowerCase();
+  if (path.startsWith("/api/auth/")) {
+    // Tokens can't manage the account, sessions or other tokens
+    return method === "GET" && path === "/api/auth/me" ? "read" : null;
+  }
+  // Nor export the member's data or delete the account
+  if (path.startsWith("/api/account/")) return null;
+  if (READ_METHODS.includes(method)) return "read";
+  return WRITE_SCOPES.find(([pattern]) => pattern.test(path))?.[1] ?? null;
+}
+
+export function createAccessTokens(storage: IStorage) {
+  async function list(userId: string): Promise<AccessTokenSummary[]> {
+    return (await storage.getAccessTokens(userId)).map(toAccessTokenSummary);
+  }
+
+  /** Creates a token and returns the only copy of it alongside its summary */
+  async function issue(
+    user: User,
+    input: CreateAccessTokenInput
+  ): Promise<{ token: string; accessToken: AccessTokenSummary } | { error: string }> {
+    if (input.scopes.includes("admin") && !ADMIN_SCOPE_ROLES.includes(user.role)) {
+      return { error: "Only moderators and admins can create tokens with the admin scope" };
+    }
+    if ((await storage.getAccessTokens(user.id)).length >= MAX_TOKENS_PER_USER) {
+      return { error: `You can have at most ${MAX_TOKENS_PER_USER} access tokens. Delete one you no longer use.` };
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const stored = await storage.createAccessToken({
+      userId: user.id,
+      name: input.name,
+      scopes: Array.from(new Set(input.scopes)),
+      tokenHash: hashAccessToken(token),
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+    });
+    return { token, accessToken: toAccessTokenSummary(stored) };
+  }
+
+  async function revoke(userId: string, id: string): Promise<boolean> {
+    return storage.deleteAccessToken(id, userId);
+  }
+
+  /** Looks up the member a Bearer token belongs to and records that it was used */
+  async function authenticate(token: string): Promise<{ user: User; accessToken: AccessToken } | { error: string }> {
+    const accessToken = token.startsWith(TOKEN_PREFIX)
+      ? await storage.getAccessTokenByHash(hashAccessToken(token))
+      : undefined;
+    if (!accessToken) return { error: "Invalid access token" };
+
+    const now = new Date();
+    if (accessToken.expiresAt && accessToken.expiresAt <= now) {
+      return { error: "This access token has expired" };
+    }
+
+    const user = await storage.getUser(accessToken.userId);
+    if (!user) return { error: "Invalid access token" };
+
+    if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      storage.touchAccessToken(accessToken.id, now).catch((error) => {
+        console.error("[AccessTokens] Failed to record token use:", error);
+      });
+    }
+    return { user, accessToken };
+  }
+
+  return { list, issue, revoke, authenticate };
+}
+
+export type AccessTokens = ReturnType<typeof createAccessTokens>;
+
+/** The token from an `Authorization: Bearer` header, if there is one */
+export function bearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createAccountDeletion } from "./account-deletion";
+import { comparePassword, hashPassword } from "./auth";
+import { createTestContext } from "./test-helpers";
+import { DEFAULT_CONTENT_DELETION_POLICY } from "@shared/account-deletion";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setup(options: { cooldownMs?: number; policy?: typeof DEFAULT_CONTENT_DELETION_POLICY } = {}) {
+  const { storage, mailer, sent, user } = await createTestContext({
+    email: "leaving@example.com",
+    passwordHash: await hashPassword("secret123"),
+  });
+  const accountDeletion = createAccountDeletion(storage, { mailer, intervalMs: 0, cooldownMs: 14 * DAY_MS, ...options });
+  await storage.createProfile({ userId: user.id, displayName: "Leaving Member", bio: "Drives an EV" });
+  const other = await storage.createUser({ email: "staying@example.com", passwordHash: "x" });
+  await storage.createProfile({ userId: other.id, displayName: "Staying Member" });
+  return { storage, accountDeletion, user, other, sent };
+}
+
+test("a deletion request needs the password and waits out the cooldown", async () => {
+  const { storage, accountDeletion, user, sent } = await setup();
+  assert.deepEqual(await accountDeletion.requestDeletion(user, "wrong"), { error: "Incorrect password" });
+
+  const before = Date.now();
+  const scheduled = await accountDeletion.requestDeletion(user, "secret123");
+  assert.ok(!("error" in scheduled));
+  const scheduledFor = scheduled.deletionScheduledFor!.getTime();
+  assert.ok(Math.abs(scheduledFor - (before + 14 * DAY_MS)) < 1000);
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].to, "leaving@example.com");
+
+  // Nothing is due yet
+  assert.equal(await accountDeletion.purgeDue(), 0);
+  assert.equal((await storage.getUser(user.id))!.email, "leaving@example.com");
+});
+
+test("a cancelled deletion never runs", async () => {
+  const { storage, accountDeletion, user } = await setup({ cooldownMs: 0 });
+  const scheduled = await accountDeletion.requestDeletion(user, "secret123");
+  assert.ok(!("error" in scheduled));
+  const cancelled = await accountDeletion.cancelDeletion(scheduled);
+  assert.ok(!("error" in cancelled));
+  assert.equal(cancelled.deletionScheduledFor, null);
+  assert.equal(await accountDeletion.purgeDue(), 0);
+  assert.equal((await storage.getUser(user.id))!.status, "ACTIVE");
+  assert.ok("error" in (await accountDeletion.cancelDeletion(cancelled)));
+});
+
+test("the export has the member's data but no credentials", async () => {
+  const { storage, accountDeletion, user, other } = await setup();
+  await storage.createPost({ authorId: user.id, text: "My first post" });
+  await storage.followUser(user.id, other.id);
+
+  const data = await accountDeletion.exportData(user.id);
+  assert.equal(data.user.email, "leaving@example.com");
+  assert.ok(!("passwordHash" in data.user));
+  assert.equal(data.profile?.displayName, "Leaving Member");
+  assert.deepEqual(data.posts.map((post) => post.text), ["My first post"]);
+  assert.equal(data.following.length, 1);
+  assert.ok(!JSON.stringify(data).includes(user.passwordHash));
+});
+
+test("erasing removes or anonymizes content by policy and leaves an account nobody can sign in to", async () => {
+  const { storage, accountDeletion, user, other } = await setup({ cooldownMs: 0 });
+  const ownPost = await storage.createPost({ authorId: user.id, text: "Removed with the account" });
+  const otherPost = await storage.createPost({ authorId: other.id, text: "Stays" });
+  await storage.createComment({ postId: otherPost.id, authorId: user.id, text: "Kept, anonymized" });
+  await storage.followUser(other.id, user.id);
+  await storage.createBookmark({ userId: user.id, targetType: "POST", targetId: otherPost.id });
+
+  await accountDeletion.requestDeletion(user, "secret123");
+  assert.equal(await accountDeletion.purgeDue(), 1);
+
+  assert.equal(await storage.getPost(ownPost.id), undefined);
+  assert.deepEqual((await storage.getComments(otherPost.id)).map((comment) => comment.text), ["Kept, anonymized"]);
+  assert.deepEqual(await storage.getBookmarks(user.id), []);
+  assert.deepEqual(await storage.getFollowing(other.id), []);
+  assert.equal((await storage.getProfile(other.id))!.followingCount, 0);
+
+  const erased = (await storage.getUser(user.id))!;
+  assert.equal(erased.status, "DELETED");
+  assert.equal(erased.deletionScheduledFor, null);
+  assert.notEqual(erased.email, "leaving@example.com");
+  assert.equal(await storage.getUserByEmail("leaving@example.com"), undefined);
+  assert.equal(await comparePassword("secret123", erased.passwordHash), false);
+
+  const profile = (await storage.getProfile(user.id))!;
+  assert.equal(profile.displayName, "Deleted member");
+  assert.equal(profile.bio, null);
+
+  // Already erased, so the next sweep has nothing to do
+  assert.equal(await accountDeletion.purgeDue(), 0);
+});
+
+test("the policy can keep posts too", async () => {
+  const { storage, accountDeletion, user } = await setup({
+    cooldownMs: 0,
+    policy: { ...DEFAULT_CONTENT_DELETION_POLICY, posts: "anonymize" },
+  });
+  const post = await storage.createPost({ authorId: user.id, text: "Still here" });
+  await accountDeletion.requestDeletion(user, "secret123");
+  await accountDeletion.purgeDue();
+  assert.equal((await storage.getPost(post.id))?.authorId, user.id);
+});
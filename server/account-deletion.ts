@@ -0,0 +1,193 @@
+import { randomBytes } from "crypto";
+import type { User } from "@shared/schema";
+import {
+  contentDeletionPolicySchema,
+  DEFAULT_CONTENT_DELETION_POLICY,
+  DELETED_USER_DISPLAY_NAME,
+  DELETED_USER_STATUS,
+  USER_CONTENT_TYPES,
+  type AccountDeletionStatus,
+  type ContentDeletionPolicy,
+} from "@shared/account-deletion";
+import type { IStorage, UserData } from "./storage";
+import { comparePassword, hashPassword } from "./auth";
+import { createMailer, defaultAppUrl, type Mailer } from "./mailer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_COOLDOWN_MS = 14 * DAY_MS;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const configured = Number(process.env[name] || fallback);
+  return Number.isFinite(configured) && configured >= 0 ? configured : fallback;
+}
+
+/** DEFAULT_CONTENT_DELETION_POLICY with any overrides from ACCOUNT_DELETION_POLICY (JSON keyed by content type) */
+export function contentDeletionPolicyFromEnv(): ContentDeletionPolicy {
+  const raw = process.env.ACCOUNT_DELETION_POLICY?.trim();
+  if (!raw) return DEFAULT_CONTENT_DELETION_POLICY;
+  try {
+    return contentDeletionPolicySchema.parse(JSON.parse(raw));
+  } catch (error) {
+    console.error("[AccountDeletion] Ignoring invalid ACCOUNT_DELETION_POLICY:", error);
+    return DEFAULT_CONTENT_DELETION_POLICY;
+  }
+}
+
+export type UserDataExport = Omit<UserData, "user"> & {
+  exportedAt: string;
+  user: Omit<User, "passwordHash" | "failedLoginCount" | "lockedUntil">;
+};
+
+export interface AccountDeletionOptions {
+  mailer?: Mailer;
+  /** Base URL the confirmation mail links to */
+  appUrl?: string;
+  /** How long a request waits before the account is erased */
+  cooldownMs?: number;
+  /** How often due accounts are erased; 0 disables the background sweep */
+  intervalMs?: number;
+  policy?: ContentDeletionPolicy;
+}
+
+/**
+ * Self-service account deletion. A request only schedules the erasure, so a
+ * member who changes their mind (or whose session was stolen) can cancel
+ * during the cooldown. Erasing removes or anonymizes each kind of content
+ * according to the policy and always removes everything private.
+ */
+export function createAccountDeletion(storage: IStorage, options: AccountDeletionOptions = {}) {
+  const mailer = options.mailer ?? createMailer();
+  const appUrl = options.appUrl?.replace(/\/+$/, "") ?? defaultAppUrl();
+  const cooldownMs = options.cooldownMs ?? numberFromEnv("ACCOUNT_DELETION_COOLDOWN_MS", DEFAULT_COOLDOWN_MS);
+  const intervalMs = options.intervalMs ?? numberFromEnv("ACCOUNT_DELETION_SWEEP_INTERVAL_MS", DEFAULT_INTERVAL_MS);
+  const policy = options.policy ?? contentDeletionPolicyFromEnv();
+
+  function getStatus(user: User): AccountDeletionStatus {
+    return {
+      scheduledFor: user.deletionScheduledFor?.toISOString() ?? null,
+      cooldownDays: Math.ceil(cooldownMs / DAY_MS),
+      policy,
+    };
+  }
+
+  async function requestDeletion(user: User, password: string): Promise<User | { error: string }> {
+    if (!(await comparePassword(password, user.passwordHash))) {
+      return { error: "Incorrect password" };
+    }
+    if (user.deletionScheduledFor) return user;
+
+    const scheduledFor = new Date(Date.now() + cooldownMs);
+    const updated = await storage.updateUser(user.id, { deletionScheduledFor: scheduledFor });
+    if (!updated) return { error: "User not found" };
+
+    await mailer.send({
+      to: user.email,
+      subject: "Your EV Connect account is scheduled for deletion",
+      text: [
+        `Your account and personal data will be deleted on ${scheduledFor.toUTCString()}.`,
+        "",
+        "Changed your mind? Sign in before then and cancel the deletion in your privacy settings:",
+        `${appUrl}/settings`,
+        "",
+        "If you didn't ask for this, cancel it and change your password.",
+      ].join("\n"),
+    }).catch((error) => {
+      // The request stands either way; the settings page shows the date too
+      console.error("[AccountDeletion] Failed to send confirmation mail:", error);
+    });
+    return updated;
+  }
+
+  async function cancelDeletion(user: User): Promise<User | { error: string }> {
+    if (!user.deletionScheduledFor) return { error: "Your account isn't scheduled for deletion" };
+    const updated = await storage.updateUser(user.id, { deletionScheduledFor: null });
+    return updated ?? { error: "User not found" };
+  }
+
+  /** Everything stored about the member, minus credentials */
+  async function exportData(userId: string): Promise<UserDataExport> {
+    const { user, ...data } = await storage.getUserData(userId);
+    const { passwordHash, failedLoginCount, lockedUntil, ...account } = user;
+    return { exportedAt: new Date().toISOString(), user: account, ...data };
+  }
+
+  /**
+   * Erases the account now. The user and profile rows stay behind as a
+   * "Deleted member" placeholder so anonymized content still has an author.
+   */
+  async function erase(user: User): Promise<void> {
+    for (const type of USER_CONTENT_TYPES) {
+      if (policy[type] === "remove") await storage.deleteUserContent(user.id, type);
+    }
+    await storage.deleteUserRecords(user.id);
+
+    await storage.updateProfile(user.id, {
+      displayName: DELETED_USER_DISPLAY_NAME,
+      avatarUrl: null,
+      bio: null,
+      location: null,
+      vehicle: null,
+      interests: [],
+      acceptsMessages: false,
+    });
+    await storage.updateUser(user.id, {
+      email: `deleted-${user.id}@deleted.invalid`,
+      // Nobody knows this password, so the placeholder can't be signed in to
+      passwordHash: await hashPassword(randomBytes(32).toString("base64url")),
+      status: DELETED_USER_STATUS,
+      role: "USER",
+      deletionScheduledFor: null,
+      // Ends any session still open
+      passwordChangedAt: new Date(),
+    });
+    console.log(`[AccountDeletion] Erased account ${user.id}`);
+  }
+
+  /** Erases every account whose cooldown has run out; returns how many */
+  async function purgeDue(): Promise<number> {
+    const due = await storage.getUsersDueForDeletion(new Date());
+    let erased = 0;
+    for (const user of due) {
+      try {
+        await erase(user);
+        erased++;
+      } catch (error) {
+        // The next sweep picks it up again
+        console.error(`[AccountDeletion] Failed to erase account ${user.id}:`, error);
+      }
+    }
+    return erased;
+  }
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running = false;
+
+  async function tick() {
+    if (running) return;
+    running = true;
+    try {
+      const erased = await purgeDue();
+      if (erased > 0) console.log(`[AccountDeletion] Erased ${erased} accounts`);
+    } catch (error) {
+      console.error("[AccountDeletion] Sweep failed:", error);
+    } finally {
+      running = false;
+    }
+  }
+
+  function start() {
+    if (timer || intervalMs <= 0) return;
+    timer = setInterval(tick, intervalMs);
+    timer.unref?.();
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  }
+
+  return { getStatus, requestDeletion, cancelDeletion, exportData, erase, purgeDue, start, stop };
+}
+
+export type AccountDeletion = ReturnType<typeof createAccountDeletion>;
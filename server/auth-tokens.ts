@@ -0,0 +1,46 @@
+import { createHash, randomBytes } from "crypto";
+import type { AuthToken } from "@shared/schema";
+import type { AuthTokenPurpose } from "@shared/account";
+import type { IStorage } from "./storage";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a token for a link mailed to the member and returns the only copy
+ * of it. Older unused tokens for the same purpose stop working, so only the
+ * latest mail is good.
+ */
+export async function issueAuthToken(
+  storage: IStorage,
+  userId: string,
+  purpose: AuthTokenPurpose,
+  ttlMs: number
+): Promise<string> {
+  await storage.revokeAuthTokens(userId, purpose);
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+}
+
+/** Uses up a mailed token; unknown, expired and already used tokens all fail the same way */
+export async function redeemAuthToken(
+  storage: IStorage,
+  token: string,
+  purpose: AuthTokenPurpose
+): Promise<AuthToken | { error: string }> {
+  const stored = await storage.getAuthTokenByHash(hashToken(token));
+  if (!stored || stored.purpose !== purpose || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+    return { error: "This link is invalid or has expired" };
+  }
+  if (!(await storage.useAuthToken(stored.id))) {
+    return { error: "This link is invalid or has expired" };
+  }
+  return stored;
+}
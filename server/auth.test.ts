@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Response } from "express";
+import { SECURITY_SETTINGS_KEY } from "@shared/account";
+import type { AccessTokenScope } from "@shared/access-tokens";
+import { createAuthenticateToken, createRoleGuards, type AuthRequest } from "./auth";
+import { createAccessTokens } from "./access-tokens";
+import { createTwoFactor } from "./two-factor";
+import { fakeResponse } from "./test-helpers";
+import { MemStorage } from "./storage";
+
+type Middleware = (req: AuthRequest, res: Response, next: NextFunction) => unknown;
+
+/**
+ * Runs the middlewares in order like Express would; true when the request got
+ * past all of them. Guards may call next() after they return, so each step
+ * waits for next() or a response rather than for the middleware itself.
+ */
+async function run(middlewares: Middleware[], req: AuthRequest) {
+  const { res, sent } = fakeResponse();
+  for (const middleware of middlewares) {
+    const passed = await new Promise<boolean>((resolve, reject) => {
+      const json = res.json.bind(res);
+      res.json = (body) => {
+        resolve(false);
+        return json(body);
+      };
+      Promise.resolve(middleware(req, res, () => resolve(true))).catch(reject);
+    });
+    if (!passed) return { passed, sent };
+  }
+  return { passed: true, sent };
+}
+
+function bearerRequest(token: string, method: string, url: string) {
+  return { method, originalUrl: url, url, headers: { authorization: `Bearer ${token}` }, session: {} } as unknown as AuthRequest;
+}
+
+async function setup(role: string, scopes: AccessTokenScope[]) {
+  const storage = new MemStorage();
+  const user = await storage.createUser({ email: "mod@example.com", passwordHash: "x", role });
+  const issued = await createAccessTokens(storage).issue(user, { name: "Script", scopes });
+  assert.ok("token" in issued);
+  const { requireModerator } = createRoleGuards(createTwoFactor(storage));
+  return { storage, user, token: issued.token, authenticateToken: createAuthenticateToken(storage), requireModerator };
+}
+
+test("a moderator's token without the admin scope can't moderate others' reviews", async () => {
+  const { token, authenticateToken, requireModerator } = await setup("MODERATOR", ["write:stations"]);
+  const req = bearerRequest(token, "DELETE", "/api/station-reviews/abc");
+
+  // The token is good for the route itself, which is what lets authors delete their own reviews
+  assert.equal((await run([authenticateToken], req)).passed, true);
+  const { passed, sent } = await run([authenticateToken, requireModerator], req);
+  assert.equal(passed, false);
+  assert.equal(sent.status, 403);
+  assert.equal(sent.body.requiredScope, "admin");
+});
+
+test("moderators need the admin scope and, when required, 2FA", async () => {
+  const { storage, token, authenticateToken, requireModerator } = await setup("MODERATOR", ["write:stations", "admin"]);
+  const req = () => bearerRequest(token, "DELETE", "/api/station-reviews/abc");
+  assert.equal((await run([authenticateToken, requireModerator], req())).passed, true);
+
+  await storage.setAppSetting(SECURITY_SETTINGS_KEY, { requireTwoFactorRoles: ["MODERATOR"] });
+  const { passed, sent } = await run([authenticateToken, requireModerator], req());
+  assert.equal(passed, false);
+  assert.equal(sent.body.code, "TWO_FACTOR_REQUIRED");
+});
+
+test("members can't pass the moderator guard whatever their token says", async () => {
+  const { token, authenticateToken, requireModerator } = await setup("USER", ["write:stations"]);
+  const { passed, sent } = await run([authenticateToken, requireModerator], bearerRequest(token, "DELETE", "/api/station-reviews/abc"));
+  assert.equal(passed, false);
+  assert.equal(sent.status, 403);
+});
+
+test("access tokens issued before a password change stop working", async () => {
+  const { storage, user, token, authenticateToken } = await setup("USER", ["read"]);
+  const req = () => bearerRequest(token, "GET", "/api/stations");
+  assert.equal((await run([authenticateToken], req())).passed, true);
+
+  // Stamped a moment ahead so it's after the token even on a fast clock
+  await storage.updateUser(user.id, { passwordChangedAt: new Date(Date.now() + 1000) });
+  const { passed, sent } = await run([authenticateToken], req());
+  assert.equal(passed, false);
+  assert.equal(sent.status, 401);
+
+  // A token made after the change works
+  await storage.updateUser(user.id, { passwordChangedAt: new Date(Date.now() - 1000) });
+  const reissued = await createAccessTokens(storage).issue(user, { name: "New", scopes: ["read"] });
+  assert.ok("token" in reissued);
+  assert.equal((await run([authenticateToken], bearerRequest(reissued.token, "GET", "/api/stations"))).passed, true);
+});
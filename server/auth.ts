@@ -1,19 +1,21 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
-import type { User } from "@shared/schema";
+import type { AccessToken, User } from "@shared/schema";
 import type { IStorage } from "./storage";
+import { verificationGraceEndsAt } from "@shared/account";
+import { emailVerificationGraceMs } from "./email-verification";
+import type { TwoFactor } from "./two-factor";
+import { bearerToken, createAccessTokens, requiredAccessTokenScope } from "./access-tokens";
 
 // Require SESSION_SECRET in production
 if (process.env.NODE_ENV === "production" && !process.env.SESSION_SECRET) {
   throw new Error("SESSION_SECRET environment variable is required in production");
 }
 
-const JWT_SECRET = process.env.SESSION_SECRET || "dev-secret-only-for-local-development";
-const TOKEN_EXPIRY = "7d";
-
 export interface AuthRequest extends Request {
   user?: User;
+  /** Set when the request was signed with a personal access token instead of the session */
+  accessToken?: AccessToken;
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -24,25 +26,94 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-export function generateToken(userId: string): string {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: TOKEN_EXPIRY });
+export interface AuthenticateOptions {
+  /** Let members who haven't verified their email through regardless of the grace period */
+  allowUnverified?: boolean;
+  /** Defaults to EMAIL_VERIFICATION_GRACE_MS */
+  verificationGraceMs?: number;
 }
 
-export function verifyToken(token: string): { userId: string } | null {
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    return decoded;
-  } catch {
-    return null;
+// Requests that only read; unverified members keep these during the grace period
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export function createAuthenticateToken(storage: IStorage, options: AuthenticateOptions = {}) {
+  const verificationGraceMs = options.verificationGraceMs ?? emailVerificationGraceMs();
+  const accessTokens = createAccessTokens(storage);
+
+  // Scripts sign requests with a personal access token instead of a session cookie
+  async function authenticateAccessToken(req: AuthRequest, res: Response, token: string): Promise<User | undefined> {
+    const requiredScope = requiredAccessTokenScope(req.method, req.originalUrl.split("?")[0]);
+    if (!requiredScope) {
+      res.status(403).json({ error: "Access tokens can't be used for this request", code: "INSUFFICIENT_SCOPE" });
+      return undefined;
+    }
+
+    const result = await accessTokens.authenticate(token);
+    if ("error" in result) {
+      res.status(401).json({ error: result.error });
+      return undefined;
+    }
+    if (!result.accessToken.scopes.includes(requiredScope)) {
+      res.status(403).json({
+        error: `This access token needs the ${requiredScope} scope`,
+        code: "INSUFFICIENT_SCOPE",
+        requiredScope,
+      });
+      return undefined;
+    }
+
+    // Like sessions, tokens issued before a password change stop working
+    if (result.user.passwordChangedAt && result.accessToken.createdAt < result.user.passwordChangedAt) {
+      res.status(401).json({ error: "Your password was changed. Create a new access token." });
+      return undefined;
+    }
+
+    req.accessToken = result.accessToken;
+    return result.user;
+  }
+
+  // Responds and returns false when the account can't make this request
+  function checkStatus(user: User, req: Request, res: Response): boolean {
+    if (user.status === "PENDING_VERIFICATION") {
+      const inGrace = Date.now() < verificationGraceEndsAt(user, verificationGraceMs).getTime();
+      if (!options.allowUnverified && !(inGrace && READ_METHODS.includes(req.method))) {
+        console.log("[Auth] ❌ Email not verified - returning 403");
+        res.status(403).json({
+          error: inGrace
+            ? "Verify your email address to post, message or add stations"
+            : "Verify your email address to keep using your account",
+          code: "EMAIL_VERIFICATION_REQUIRED",
+        });
+        return false;
+      }
+    } else if (user.status !== "ACTIVE") {
+      console.log("[Auth] ❌ User account not active - returning 403");
+      res.status(403).json({ error: "Account is not active" });
+      return false;
+    }
+    return true;
   }
-}
 
-export function createAuthenticateToken(storage: IStorage) {
   return async function authenticateToken(
     req: AuthRequest,
     res: Response,
     next: NextFunction
   ): Promise<void> {
+    const token = bearerToken(req.headers.authorization);
+    if (token) {
+      try {
+        const user = await authenticateAccessToken(req, res, token);
+        if (user && checkStatus(user, req, res)) {
+          req.user = user;
+          next();
+        }
+      } catch (error) {
+        console.error("[Auth] ❌ Error checking access token:", error);
+        res.status(500).json({ error: "Authentication error" });
+      }
+      return;
+    }
+
     console.log("[Auth] ===== Authentication Check =====");
     console.log("[Auth] URL:", req.url);
     console.log("[Auth] Method:", req.method);
@@ -71,9 +142,14 @@ export function createAuthenticateToken(storage: IStorage) {
         return;
       }
 
-      if (user.status !== "ACTIVE") {
-        console.log("[Auth] ❌ User account not active - returning 403");
-        res.status(403).json({ error: "Account is not active" });
+      if (!checkStatus(user, req, res)) {
+        return;
+      }
+
+      if (user.passwordChangedAt && (req.session.authenticatedAt ?? 0) < user.passwordChangedAt.getTime()) {
+        console.log("[Auth] ❌ Session predates a password change - returning 401");
+        req.session.destroy(() => {});
+        res.status(401).json({ error: "Your password was changed. Please sign in again." });
         return;
       }
 
@@ -154,5 +230,43 @@ export function requireRole(...roles: string[]) {
   };
 }
 
-export const requireModerator = requireRole("MODERATOR", "ADMIN");
-export const requireAdmin = requireRole("ADMIN");
+/**
+ * Moderator and admin guards that also hold back members whose role has to
+ * use 2FA (see the security settings) until they've turned it on, and access
+ * tokens without the admin scope.
+ */
+export function createRoleGuards(twoFactor: Pick<TwoFactor, "isRequiredFor" | "isEnabled">) {
+  function requireRoleWithTwoFactor(...roles: string[]) {
+    const checkRole = requireRole(...roles);
+    return (req: AuthRequest, res: Response, next: NextFunction): Promise<void> =>
+      checkRole(req, res, async () => {
+        if (req.accessToken && !req.accessToken.scopes.includes("admin")) {
+          res.status(403).json({
+            error: "This access token needs the admin scope",
+            code: "INSUFFICIENT_SCOPE",
+            requiredScope: "admin",
+          });
+          return;
+        }
+        try {
+          const user = req.user!;
+          if ((await twoFactor.isRequiredFor(user)) && !(await twoFactor.isEnabled(user.id))) {
+            res.status(403).json({
+              error: "Turn on two-factor authentication in Settings to use these tools",
+              code: "TWO_FACTOR_REQUIRED",
+            });
+            return;
+          }
+          next();
+        } catch (error) {
+          console.error("[Auth] Error checking two-factor requirement:", error);
+          res.status(500).json({ error: "Authentication error" });
+        }
+      });
+  }
+
+  return {
+    requireModerator: requireRoleWithTwoFactor("MODERATOR", "ADMIN"),
+    requireAdmin: requireRoleWithTwoFactor("ADMIN"),
+  };
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createAggregateChargingDataProvider,
+  createFixtureChargingDataProvider,
+  type ChargingDataProvider,
+  type ChargingStation,
+} from "./charging-data-provider";
+
+function station(externalId: string, lat: number, lng: number): ChargingStation {
+  return { externalId, name: externalId, coords: { lat, lng }, address: "", connectors: [] };
+}
+
+function staticProvider(name: string, stations: ChargingStation[]): ChargingDataProvider {
+  return { name, searchStations: async () => stations };
+}
+
+const failingProvider: ChargingDataProvider = {
+  name: "broken",
+  searchStations: async () => {
+    throw new Error("upstream down");
+  },
+};
+
+test("the fixture file serves stations within the radius, nearest first", async () => {
+  const provider = createFixtureChargingDataProvider();
+  const found = await provider.searchStations({ latitude: 37.7793, longitude: -122.4176, distance: 5 });
+  assert.ok(found.length > 1);
+  assert.equal(found[0].externalId, "fixture-sf-civic-center");
+  assert.ok(found.every((station) => !("countryCode" in station)));
+
+  assert.deepEqual(await provider.searchStations({ latitude: 0, longitude: 0, distance: 5 }), []);
+});
+
+test("fixture searches by country ignore the radius", async () => {
+  const provider = createFixtureChargingDataProvider();
+  const british = await provider.searchStations({ countryCode: "gb" });
+  assert.equal(british.length, 1);
+  assert.equal((await provider.searchStations({ countryCode: "US", maxResults: 3 })).length, 3);
+});
+
+test("inline fixture stations are validated", async () => {
+  assert.throws(() =>
+    createFixtureChargingDataProvider({ stations: [{ externalId: "", name: "x", coords: { lat: 0, lng: 0 }, address: "" } as any] })
+  );
+});
+
+test("a missing fixture file fails the search", async () => {
+  const provider = createFixtureChargingDataProvider({ path: "server/fixtures/does-not-exist.json" });
+  await assert.rejects(provider.searchStations({}), /ENOENT/);
+});
+
+test("the aggregate keeps the first provider's copy of a site", async () => {
+  const provider = createAggregateChargingDataProvider([
+    staticProvider("first", [station("a-1", 52.5, 13.4), station("shared", 48, 11)]),
+    // 10 m from a-1, the same externalId as one already seen, and a genuinely new site
+    staticProvider("second", [station("b-1", 52.50009, 13.4), station("shared", 40, 10), station("b-2", 53, 10)]),
+  ]);
+  assert.equal(provider.name, "first+second");
+  const found = await provider.searchStations({ latitude: 52.5, longitude: 13.4 });
+  assert.deepEqual(found.map((station) => station.externalId), ["a-1", "b-2", "shared"]);
+});
+
+test("the aggregate skips failing providers unless every one fails", async (t) => {
+  t.mock.method(console, "error", () => {});
+  const partly = createAggregateChargingDataProvider([failingProvider, staticProvider("ok", [station("a-1", 0, 0)])]);
+  assert.deepEqual((await partly.searchStations({})).map((station) => station.externalId), ["a-1"]);
+
+  const allDown = createAggregateChargingDataProvider([failingProvider, failingProvider]);
+  await assert.rejects(allDown.searchStations({}), /All charging data providers failed: broken, broken/);
+});
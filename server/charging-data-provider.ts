@@ -0,0 +1,197 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { haversineDistanceKm, milesToKm, type LatLng } from "@shared/geo";
+import { createOpenChargeMapProvider } from "./open-charge-map";
+
+/** A station as every provider reports it, before it's stored */
+export interface ChargingStation {
+  /** Unique across providers, e.g. "ocm-1234" */
+  externalId: string;
+  name: string;
+  coords: LatLng;
+  address: string;
+  connectors: Array<{ type: string; powerKW: number }>;
+  provider?: string;
+  pricing?: string;
+  availability?: string;
+}
+
+export interface ChargingStationSearchParams {
+  latitude?: number;
+  longitude?: number;
+  /** Search radius in miles */
+  distance?: number;
+  countryCode?: string;
+  maxResults?: number;
+}
+
+export interface ChargingDataProvider {
+  name: string;
+  searchStations(params: ChargingStationSearchParams): Promise<ChargingStation[]>;
+}
+
+const DEFAULT_DISTANCE_MILES = 25;
+const DEFAULT_MAX_RESULTS = 50;
+
+function searchCenter(params: ChargingStationSearchParams): LatLng | undefined {
+  if (params.latitude === undefined || params.longitude === undefined) return undefined;
+  return { lat: params.latitude, lng: params.longitude };
+}
+
+// Nearest first when the search has a center; otherwise the order is kept
+function nearestFirst(stations: ChargingStation[], params: ChargingStationSearchParams): ChargingStation[] {
+  const center = searchCenter(params);
+  const maxResults = params.maxResults || DEFAULT_MAX_RESULTS;
+  if (!center) return stations.slice(0, maxResults);
+  return stations
+    .map((station) => ({ station, distanceKm: haversineDistanceKm(center, station.coords) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, maxResults)
+    .map(({ station }) => station);
+}
+
+const fixtureStationSchema = z.object({
+  externalId: z.string().min(1),
+  name: z.string().min(1),
+  coords: z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }),
+  address: z.string(),
+  connectors: z.array(z.object({ type: z.string(), powerKW: z.number() })).default([]),
+  provider: z.string().optional(),
+  pricing: z.string().optional(),
+  availability: z.string().optional(),
+  /** ISO 3166-1 alpha-2, only used for countryCode searches */
+  countryCode: z.string().length(2).optional(),
+});
+
+export type FixtureStation = z.infer<typeof fixtureStationSchema>;
+
+export interface FixtureChargingDataProviderOptions {
+  /** JSON file holding an array of stations; relative paths resolve from the working directory */
+  path?: string;
+  /** Stations to serve instead of reading a file */
+  stations?: FixtureStation[];
+}
+
+export const DEFAULT_FIXTURE_PATH = "server/fixtures/charging-stations.json";
+
+/**
+ * Serves stations from a local JSON file so the app runs without network
+ * access, e.g. offline in development and in CI. The file is read once, on
+ * the first search.
+ */
+export function createFixtureChargingDataProvider(
+  options: FixtureChargingDataProviderOptions = {}
+): ChargingDataProvider {
+  const filePath = path.resolve(options.path ?? DEFAULT_FIXTURE_PATH);
+  let loaded: Promise<FixtureStation[]> | undefined = options.stations
+    ? Promise.resolve(z.array(fixtureStationSchema).parse(options.stations))
+    : undefined;
+
+  function load(): Promise<FixtureStation[]> {
+    if (!loaded) {
+      loaded = readFile(filePath, "utf8").then((text) => z.array(fixtureStationSchema).parse(JSON.parse(text)));
+      // A missing or broken file is retried on the next search rather than cached
+      loaded.catch(() => {
+        loaded = undefined;
+      });
+    }
+    return loaded;
+  }
+
+  return {
+    name: "fixture",
+    async searchStations(params) {
+      const center = searchCenter(params);
+      const radiusKm = milesToKm(params.distance || DEFAULT_DISTANCE_MILES);
+      const countryCode = params.countryCode?.toUpperCase();
+      const matches = (await load())
+        .filter((station) => !center || haversineDistanceKm(center, station.coords) <= radiusKm)
+        .filter((station) => !countryCode || station.countryCode?.toUpperCase() === countryCode)
+        .map(({ countryCode: _countryCode, ...station }) => station);
+      return nearestFirst(matches, params);
+    },
+  };
+}
+
+export interface AggregateChargingDataProviderOptions {
+  /** Stations from different providers this close together are treated as one site */
+  duplicateRadiusMeters?: number;
+}
+
+const DEFAULT_DUPLICATE_RADIUS_METERS = 25;
+
+/**
+ * Queries every provider at once and merges the results. When two providers
+ * report the same site, the one listed first wins. Providers that fail are
+ * skipped; the search only fails when all of them do.
+ */
+export function createAggregateChargingDataProvider(
+  providers: ChargingDataProvider[],
+  options: AggregateChargingDataProviderOptions = {}
+): ChargingDataProvider {
+  const duplicateRadiusMeters = options.duplicateRadiusMeters ?? DEFAULT_DUPLICATE_RADIUS_METERS;
+
+  return {
+    name: providers.map((provider) => provider.name).join("+"),
+    async searchStations(params) {
+      const results = await Promise.allSettled(providers.map((provider) => provider.searchStations(params)));
+
+      const merged: ChargingStation[] = [];
+      const seenExternalIds = new Set<string>();
+      const failures: string[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "rejected") {
+          console.error(`[ChargingData] Provider ${providers[index].name} failed:`, result.reason);
+          failures.push(providers[index].name);
+          return;
+        }
+        for (const station of result.value) {
+          if (seenExternalIds.has(station.externalId)) continue;
+          const sameSite = merged.some(
+            (kept) => haversineDistanceKm(kept.coords, station.coords) * 1000 <= duplicateRadiusMeters
+          );
+          if (sameSite) continue;
+          seenExternalIds.add(station.externalId);
+          merged.push(station);
+        }
+      });
+
+      if (providers.length > 0 && failures.length === providers.length) {
+        throw new Error(`All charging data providers failed: ${failures.join(", ")}`);
+      }
+      return nearestFirst(merged, params);
+    },
+  };
+}
+
+const PROVIDER_FACTORIES: Record<string, () => ChargingDataProvider> = {
+  ocm: () => createOpenChargeMapProvider(),
+  fixture: () =>
+    createFixtureChargingDataProvider({ path: process.env.CHARGING_DATA_FIXTURE_PATH?.trim() || undefined }),
+};
+
+/**
+ * Builds the providers named in CHARGING_DATA_PROVIDERS (comma-separated,
+ * e.g. "ocm,fixture"), defaulting to Open Charge Map. Several providers are
+ * merged with the aggregator.
+ */
+export function createDefaultChargingDataProvider(): ChargingDataProvider {
+  const names = (process.env.CHARGING_DATA_PROVIDERS || "ocm")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.flatMap((name) => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`[ChargingData] Unknown provider "${name}" in CHARGING_DATA_PROVIDERS, ignoring it`);
+      return [];
+    }
+    return [factory()];
+  });
+
+  if (providers.length === 0) return createOpenChargeMapProvider();
+  if (providers.length === 1) return providers[0];
+  return createAggregateChargingDataProvider(providers);
+}
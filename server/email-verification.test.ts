@@ -0,0 +1,57 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { createEmailVerification, emailVerificationGraceMs } from "./email-verification";
+import { createTestContext, linkToken, TEST_APP_URL } from "./test-helpers";
+
+async function setup() {
+  const context = await createTestContext({ email: "new@example.com", passwordHash: "x", status: "PENDING_VERIFICATION" });
+  const emailVerification = createEmailVerification(context.storage, { mailer: context.mailer, appUrl: TEST_APP_URL });
+  return { ...context, emailVerification };
+}
+
+test("following the link activates the account once", async () => {
+  const { emailVerification, user, sent } = await setup();
+  await emailVerification.sendVerification(user);
+  assert.match(sent[0].text, /^https:\/\/ev\.example\/verify-email\?token=/m);
+
+  const verified = await emailVerification.verifyEmail(linkToken(sent[0]));
+  assert.ok(!("error" in verified));
+  assert.equal(verified.status, "ACTIVE");
+  assert.ok("error" in (await emailVerification.verifyEmail(linkToken(sent[0]))));
+});
+
+test("verifying doesn't lift a suspension", async () => {
+  const { storage, emailVerification, user, sent } = await setup();
+  await emailVerification.sendVerification(user);
+  await storage.updateUser(user.id, { status: "SUSPENDED" });
+  const result = await emailVerification.verifyEmail(linkToken(sent[0]));
+  assert.ok(!("error" in result));
+  assert.equal(result.status, "SUSPENDED");
+});
+
+test("resending is limited to one link a minute", async () => {
+  const { emailVerification, user, sent } = await setup();
+  assert.deepEqual(await emailVerification.resendVerification(user), { sent: true });
+  const again = await emailVerification.resendVerification(user);
+  assert.ok("error" in again);
+  assert.equal(again.retryAfterSeconds, 60);
+  assert.equal(sent.length, 1);
+});
+
+test("verified members can't ask for another link", async () => {
+  const { storage, emailVerification, user } = await setup();
+  const active = (await storage.updateUser(user.id, { status: "ACTIVE" }))!;
+  assert.deepEqual(await emailVerification.resendVerification(active), { error: "Your email address is already verified" });
+});
+
+afterEach(() => {
+  delete process.env.EMAIL_VERIFICATION_GRACE_MS;
+});
+
+test("the grace period comes from the environment and falls back on bad values", () => {
+  assert.equal(emailVerificationGraceMs(), 3 * 24 * 60 * 60 * 1000);
+  process.env.EMAIL_VERIFICATION_GRACE_MS = "0";
+  assert.equal(emailVerificationGraceMs(), 0);
+  process.env.EMAIL_VERIFICATION_GRACE_MS = "-5";
+  assert.equal(emailVerificationGraceMs(), 3 * 24 * 60 * 60 * 1000);
+});
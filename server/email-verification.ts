@@ -0,0 +1,87 @@
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { issueAuthToken, redeemAuthToken } from "./auth-tokens";
+import { createMailer, defaultAppUrl, type Mailer } from "./mailer";
+
+const DEFAULT_GRACE_MS = 3 * 24 * 60 * 60 * 1000;
+const DEFAULT_LINK_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Resending is limited so the endpoint can't be used to flood someone's inbox
+const RESEND_MIN_INTERVAL_MS = 60 * 1000;
+const RESEND_WINDOW_MS = 60 * 60 * 1000;
+const RESEND_MAX_PER_WINDOW = 5;
+
+/** How long unverified members may keep reading, from EMAIL_VERIFICATION_GRACE_MS; 0 means not at all */
+export function emailVerificationGraceMs(): number {
+  const configured = Number(process.env.EMAIL_VERIFICATION_GRACE_MS || DEFAULT_GRACE_MS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_GRACE_MS;
+}
+
+export interface EmailVerificationOptions {
+  mailer?: Mailer;
+  /** Base URL verification links point at */
+  appUrl?: string;
+  linkTtlMs?: number;
+}
+
+export function createEmailVerification(storage: IStorage, options: EmailVerificationOptions = {}) {
+  const mailer = options.mailer ?? createMailer();
+  const appUrl = options.appUrl?.replace(/\/+$/, "") ?? defaultAppUrl();
+  const linkTtlMs = options.linkTtlMs ?? DEFAULT_LINK_TTL_MS;
+
+  async function sendVerification(user: User): Promise<void> {
+    const token = await issueAuthToken(storage, user.id, "EMAIL_VERIFICATION", linkTtlMs);
+    const hours = Math.round(linkTtlMs / (60 * 60 * 1000));
+    await mailer.send({
+      to: user.email,
+      subject: "Confirm your email for EV Connect",
+      text: [
+        "Welcome to EV Connect!",
+        "",
+        `Confirm this is your email address within the next ${hours} hours:`,
+        `${appUrl}/verify-email?token=${encodeURIComponent(token)}`,
+        "",
+        "If you didn't create an account, ignore this message and it won't be activated.",
+      ].join("\n"),
+    });
+  }
+
+  /** Mails a fresh link unless one went out too recently */
+  async function resendVerification(user: User): Promise<{ sent: true } | { error: string; retryAfterSeconds?: number }> {
+    if (user.status !== "PENDING_VERIFICATION") {
+      return { error: "Your email address is already verified" };
+    }
+
+    const now = Date.now();
+    const [recent, inWindow] = await Promise.all([
+      storage.countAuthTokens(user.id, "EMAIL_VERIFICATION", new Date(now - RESEND_MIN_INTERVAL_MS)),
+      storage.countAuthTokens(user.id, "EMAIL_VERIFICATION", new Date(now - RESEND_WINDOW_MS)),
+    ]);
+    if (recent > 0) {
+      return { error: "A link was sent a moment ago. Check your inbox.", retryAfterSeconds: RESEND_MIN_INTERVAL_MS / 1000 };
+    }
+    if (inWindow >= RESEND_MAX_PER_WINDOW) {
+      return { error: "Too many links requested. Try again later.", retryAfterSeconds: RESEND_WINDOW_MS / 1000 };
+    }
+
+    await sendVerification(user);
+    return { sent: true };
+  }
+
+  async function verifyEmail(token: string): Promise<User | { error: string }> {
+    const redeemed = await redeemAuthToken(storage, token, "EMAIL_VERIFICATION");
+    if ("error" in redeemed) return redeemed;
+
+    const user = await storage.getUser(redeemed.userId);
+    if (!user) return { error: "This link is invalid or has expired" };
+    // Suspended or banned members stay that way; the link only confirms the address
+    if (user.status !== "PENDING_VERIFICATION") return user;
+
+    const updated = await storage.updateUser(user.id, { status: "ACTIVE" });
+    return updated ?? { error: "User not found" };
+  }
+
+  return { sendVerification, resendVerification, verifyEmail };
+}
+
+export type EmailVerification = ReturnType<typeof createEmailVerification>;
@@ -3,6 +3,8 @@ import cookieParser from "cookie-parser";
 import session from "express-session";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { createDefaultSessionStore } from "./session-store";
+import { trackSessionActivity } from "./sessions";
 import { setupVite, serveStatic, log } from "./vite";
 import dotenv from "dotenv";
 
@@ -10,7 +12,21 @@ import dotenv from "dotenv";
 dotenv.config();
 
 const app = express();
-const MemoryStore = session.MemoryStore;
+
+/**
+ * TRUST_PROXY as Express's "trust proxy" setting: true/false, a number of
+ * hops, or comma-separated addresses/subnets (e.g. "loopback, 10.0.0.0/8").
+ * req.ip, and so every per-IP rate limit, depends on it.
+ */
+function trustProxySetting(raw: string | undefined): boolean | number | string | undefined {
+  const value = raw?.trim();
+  if (!value) return undefined;
+  if (value === "true" || value === "false") return value === "true";
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+const trustProxy = trustProxySetting(process.env.TRUST_PROXY);
+if (trustProxy !== undefined) app.set("trust proxy", trustProxy);
 
 declare module 'http' {
   interface IncomingMessage {
@@ -21,6 +37,12 @@ declare module 'http' {
 declare module 'express-session' {
   interface SessionData {
     userId?: string;
+    /** When the member signed in; sessions older than their last password change are rejected */
+    authenticatedAt?: number;
+    /** Password checked, waiting for the second factor */
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    /** Shown in the member's list of signed-in devices */
+    device?: { userAgent?: string; ip?: string; lastSeenAt: number };
   }
 }
 
@@ -39,7 +61,7 @@ app.use(cors({
   credentials: true,
 }));
 app.use(session({
-  store: new MemoryStore(),
+  store: createDefaultSessionStore(),
   secret: process.env.SESSION_SECRET || 'dev-secret-only-for-local-development',
   resave: false,
   saveUninitialized: false,
@@ -52,6 +74,7 @@ app.use(session({
     path: '/',
   }
 }));
+app.use(trackSessionActivity);
 
 app.use((req, res, next) => {
   const start = Date.now();
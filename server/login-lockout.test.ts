@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createLoginLockout } from "./login-lockout";
+
+const MINUTE_MS = 60 * 1000;
+
+async function setup() {
+  const storage = new MemStorage();
+  const lockout = createLoginLockout(storage);
+  const user = await storage.createUser({ email: "member@example.com", passwordHash: "x" });
+  const fail = async () => lockout.recordFailure((await storage.getUser(user.id))!);
+  const current = async () => (await storage.getUser(user.id))!;
+  return { storage, lockout, user, fail, current };
+}
+
+test("the first four wrong passwords don't lock the account", async () => {
+  const { lockout, fail, current } = await setup();
+  for (let i = 0; i < 4; i++) assert.equal(await fail(), null);
+  assert.equal(lockout.lockedUntil(await current()), null);
+  assert.equal((await current()).failedLoginCount, 4);
+});
+
+test("each failure past the threshold doubles the lock, up to an hour", async () => {
+  const { fail } = await setup();
+  for (let i = 0; i < 4; i++) await fail();
+
+  const expected = [1, 2, 4, 8, 16, 32, 60, 60];
+  for (const minutes of expected) {
+    const before = Date.now();
+    const until = await fail();
+    assert.ok(until);
+    const lockMs = until.getTime() - before;
+    assert.ok(Math.abs(lockMs - minutes * MINUTE_MS) < 1000, `expected ${minutes} minutes, got ${lockMs}ms`);
+  }
+});
+
+test("a lock that has run out no longer counts", async () => {
+  const { storage, lockout, user, current } = await setup();
+  await storage.updateUser(user.id, { lockedUntil: new Date(Date.now() - 1000) });
+  assert.equal(lockout.lockedUntil(await current()), null);
+  await storage.updateUser(user.id, { lockedUntil: new Date(Date.now() + MINUTE_MS) });
+  assert.ok(lockout.lockedUntil(await current()));
+});
+
+test("signing in or an admin unlock resets the count", async () => {
+  const { lockout, user, fail, current } = await setup();
+  for (let i = 0; i < 6; i++) await fail();
+  await lockout.recordSuccess(await current());
+  assert.equal((await current()).failedLoginCount, 0);
+  assert.equal((await current()).lockedUntil, null);
+
+  for (let i = 0; i < 6; i++) await fail();
+  await lockout.unlock(user.id);
+  assert.equal((await current()).failedLoginCount, 0);
+  assert.equal(lockout.lockedUntil(await current()), null);
+  // Counting starts over, so the next wrong password doesn't lock again
+  assert.equal(await fail(), null);
+});
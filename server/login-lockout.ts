@@ -0,0 +1,57 @@
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+
+export interface LoginLockoutOptions {
+  /** Wrong passwords in a row before the first lock */
+  threshold?: number;
+  /** First lock; each further wrong password doubles it */
+  baseLockMs?: number;
+  maxLockMs?: number;
+}
+
+/**
+ * Progressive lockout after repeated wrong passwords. The count only resets
+ * on a successful sign-in or an admin unlock, so each failure past the
+ * threshold locks the account for twice as long as the one before.
+ */
+export function createLoginLockout(storage: IStorage, options: LoginLockoutOptions = {}) {
+  const threshold = options.threshold ?? 5;
+  const baseLockMs = options.baseLockMs ?? MINUTE_MS;
+  const maxLockMs = options.maxLockMs ?? 60 * MINUTE_MS;
+
+  function lockDuration(failedLoginCount: number): number {
+    if (failedLoginCount < threshold) return 0;
+    return Math.min(maxLockMs, baseLockMs * 2 ** (failedLoginCount - threshold));
+  }
+
+  /** When the account unlocks, or null if it isn't locked now */
+  function lockedUntil(user: User): Date | null {
+    return user.lockedUntil && user.lockedUntil.getTime() > Date.now() ? user.lockedUntil : null;
+  }
+
+  /** Counts a wrong password and returns the new lock's end, if it set one */
+  async function recordFailure(user: User): Promise<Date | null> {
+    const failedLoginCount = await storage.recordFailedLogin(user.id);
+    const duration = lockDuration(failedLoginCount);
+    if (!duration) return null;
+    const until = new Date(Date.now() + duration);
+    await storage.updateUser(user.id, { lockedUntil: until });
+    return until;
+  }
+
+  async function recordSuccess(user: User): Promise<void> {
+    if (user.failedLoginCount > 0 || user.lockedUntil) {
+      await storage.updateUser(user.id, { failedLoginCount: 0, lockedUntil: null });
+    }
+  }
+
+  async function unlock(userId: string): Promise<User | undefined> {
+    return storage.updateUser(userId, { failedLoginCount: 0, lockedUntil: null });
+  }
+
+  return { lockedUntil, recordFailure, recordSuccess, unlock };
+}
+
+export type LoginLockout = ReturnType<typeof createLoginLockout>;
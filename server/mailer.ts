@@ -0,0 +1,76 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export interface FileMailTransportOptions {
+  directory: string;
+}
+
+/**
+ * Writes each message to its own .eml file instead of sending it, so links in
+ * password reset mails can be followed during local development.
+ */
+export function createFileMailTransport(options: FileMailTransportOptions): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(options.directory, { recursive: true });
+      const sentAt = new Date();
+      const file = path.join(options.directory, `${sentAt.toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`);
+      const contents = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${sentAt.toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        message.text,
+        "",
+      ].join("\r\n");
+      await writeFile(file, contents, "utf8");
+      console.log(`[Mailer] Wrote "${message.subject}" for ${message.to} to ${file}`);
+    },
+  };
+}
+
+const DEFAULT_OUTBOX_DIR = ".mail-outbox";
+const DEFAULT_APP_URL = "http://localhost:5000";
+
+/** Public base URL for links in outgoing mail, from APP_URL */
+export function defaultAppUrl(): string {
+  return (process.env.APP_URL?.trim() || DEFAULT_APP_URL).replace(/\/+$/, "");
+}
+
+/** Writes mail to MAIL_OUTBOX_DIR; a real transport can replace it without touching callers */
+export function createDefaultMailTransport(): MailTransport {
+  return createFileMailTransport({ directory: process.env.MAIL_OUTBOX_DIR?.trim() || DEFAULT_OUTBOX_DIR });
+}
+
+export interface MailerOptions {
+  transport?: MailTransport;
+  from?: string;
+}
+
+export function createMailer(options: MailerOptions = {}) {
+  const transport = options.transport ?? createDefaultMailTransport();
+  const from = options.from ?? (process.env.MAIL_FROM?.trim() || "EV Connect <no-reply@localhost>");
+
+  async function send(message: MailMessage): Promise<void> {
+    await transport.send({ ...message, from });
+  }
+
+  return { send, transport: transport.name };
+}
+
+export type Mailer = ReturnType<typeof createMailer>;
@@ -0,0 +1,18 @@
+import { connectToMongoDB } from "./mongo-storage";
+import { migrateLegacyStations } from "./station-migration";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+async function migrateStations() {
+  console.log("🔧 Migrating legacy station documents...");
+  await connectToMongoDB(process.env.MONGODB_URI);
+  const migrated = await migrateLegacyStations();
+  console.log(`✅ Migrated ${migrated} stations`);
+  process.exit(0);
+}
+
+migrateStations().catch((error) => {
+  console.error("❌ Station migration failed:", error);
+  process.exit(1);
+});
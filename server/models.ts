@@ -7,6 +7,10 @@ export interface IUser extends Document {
   passwordHash: string;
   role: string;
   status: string;
+  passwordChangedAt?: Date | null;
+  failedLoginCount: number;
+  lockedUntil?: Date | null;
+  deletionScheduledFor?: Date | null;
   createdAt: Date;
 }
 
@@ -16,9 +20,132 @@ const UserSchema = new Schema<IUser>({
   passwordHash: { type: String, required: true },
   role: { type: String, required: true, default: 'USER' },
   status: { type: String, required: true, default: 'ACTIVE' },
+  passwordChangedAt: { type: Date, default: null },
+  failedLoginCount: { type: Number, default: 0 },
+  lockedUntil: { type: Date, default: null },
+  deletionScheduledFor: { type: Date, default: null, index: { sparse: true } },
   createdAt: { type: Date, default: Date.now }
 });
 
+// Auth token interface
+export interface IAuthToken extends Document {
+  _id: string;
+  userId: string;
+  purpose: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+const AuthTokenSchema = new Schema<IAuthToken>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true, ref: 'User' },
+  purpose: { type: String, required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  expiresAt: { type: Date, required: true },
+  usedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+AuthTokenSchema.index({ userId: 1, purpose: 1 });
+
+// Session interface (express-session data, keyed by session id)
+export interface ISession extends Document {
+  _id: string;
+  userId?: string | null;
+  data: Record<string, unknown>;
+  expiresAt: Date;
+  /** Set when the session is destroyed; the placeholder stays until expiresAt */
+  revokedAt?: Date | null;
+}
+
+const SessionSchema = new Schema<ISession>({
+  _id: { type: String, required: true },
+  userId: { type: String, ref: 'User', default: null, index: true },
+  data: { type: Schema.Types.Mixed, required: true },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date, default: null }
+}, { minimize: false });
+
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Two-factor credential interface
+export interface ITwoFactorCredential extends Document {
+  _id: string;
+  userId: string;
+  secret: string;
+  enabledAt?: Date | null;
+  recoveryCodeHashes: string[];
+  lastUsedStep?: number | null;
+  createdAt: Date;
+}
+
+const TwoFactorCredentialSchema = new Schema<ITwoFactorCredential>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true, ref: 'User', unique: true },
+  secret: { type: String, required: true },
+  enabledAt: { type: Date, default: null },
+  recoveryCodeHashes: { type: [String], default: [] },
+  lastUsedStep: { type: Number, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// App setting interface
+export interface IAppSetting extends Document {
+  _id: string;
+  value: unknown;
+  updatedBy?: string | null;
+  updatedAt: Date;
+}
+
+const AppSettingSchema = new Schema<IAppSetting>({
+  _id: { type: String, required: true },
+  value: { type: Schema.Types.Mixed, required: true },
+  updatedBy: { type: String, ref: 'User', default: null },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+// Personal access token interface
+export interface IAccessToken extends Document {
+  _id: string;
+  userId: string;
+  name: string;
+  scopes: string[];
+  tokenHash: string;
+  prefix: string;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+}
+
+const AccessTokenSchema = new Schema<IAccessToken>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true, ref: 'User', index: true },
+  name: { type: String, required: true },
+  scopes: { type: [String], required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  prefix: { type: String, required: true },
+  expiresAt: { type: Date, default: null },
+  lastUsedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Rate limit bucket interface, keyed by group, dimension and client
+export interface IRateLimitBucket extends Document {
+  _id: string;
+  count: number;
+  resetAt: Date;
+}
+
+const RateLimitBucketSchema = new Schema<IRateLimitBucket>({
+  _id: { type: String, required: true },
+  count: { type: Number, required: true, default: 0 },
+  resetAt: { type: Date, required: true }
+});
+
+RateLimitBucketSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
 // Profile interface
 export interface IProfile extends Document {
   _id: string;
@@ -46,6 +173,7 @@ export interface IProfile extends Document {
     newPost?: boolean;
     like?: boolean;
     comment?: boolean;
+    stationStatus?: boolean;
   };
   acceptsMessages: boolean;
 }
@@ -76,6 +204,7 @@ const ProfileSchema = new Schema<IProfile>({
     newPost: { type: Boolean, default: true },
     like: { type: Boolean, default: true },
     comment: { type: Boolean, default: true },
+    stationStatus: { type: Boolean, default: true },
   },
   acceptsMessages: { type: Boolean, default: true }
 });
@@ -172,51 +301,92 @@ const CommentSchema = new Schema<IComment>({
 // Station interface
 export interface IStation extends Document {
   _id: string;
+  externalId?: string;
   name: string;
-  location: {
+  coords: {
     lat: number;
     lng: number;
-    address?: string;
-    city?: string;
-    state?: string;
-    country?: string;
   };
-  operator?: string;
-  status: string;
+  // GeoJSON mirror of coords for the 2dsphere index
+  location?: {
+    type: 'Point';
+    coordinates: [number, number];
+  };
+  address: string;
   connectors: Array<{
     type: string;
-    power?: number;
-    status?: string;
+    powerKW: number;
   }>;
+  provider?: string;
   pricing?: string;
+  availability?: string;
+  openingHours?: {
+    twentyFourSeven: boolean;
+    periods: Array<{ day: string; open: string; close: string }>;
+    timeZone?: string;
+  };
+  accessType?: string;
+  parkingRestrictions: string[];
+  maxHeightMeters?: number;
+  amenities: string[];
   verified: boolean;
   addedBy?: string;
+  bookmarksCount: number;
+  ratingAverage: number;
+  ratingCount: number;
+  lastSyncedAt?: Date;
+  lastCheckInAt?: Date;
   createdAt: Date;
+  updatedAt: Date;
 }
 
 const StationSchema = new Schema<IStation>({
   _id: { type: String, required: true },
+  externalId: { type: String, unique: true, sparse: true },
   name: { type: String, required: true },
-  location: {
+  coords: {
     lat: { type: Number, required: true },
-    lng: { type: Number, required: true },
-    address: String,
-    city: String,
-    state: String,
-    country: String
+    lng: { type: Number, required: true }
+  },
+  location: {
+    type: { type: String, enum: ['Point'], default: 'Point' },
+    coordinates: [Number]
   },
-  operator: String,
-  status: { type: String, required: true },
-  connectors: [{
+  address: { type: String, required: true },
+  connectors: [new Schema({
     type: { type: String, required: true },
-    power: Number,
-    status: String
-  }],
+    powerKW: { type: Number, default: 0 }
+  }, { _id: false })],
+  provider: String,
   pricing: String,
+  availability: String,
+  openingHours: {
+    type: new Schema({
+      twentyFourSeven: { type: Boolean, required: true },
+      periods: [new Schema({
+        day: { type: String, required: true },
+        open: { type: String, required: true },
+        close: { type: String, required: true }
+      }, { _id: false })],
+      timeZone: String
+    }, { _id: false }),
+    default: undefined
+  },
+  accessType: String,
+  parkingRestrictions: { type: [String], default: [] },
+  maxHeightMeters: Number,
+  amenities: { type: [String], default: [] },
   verified: { type: Boolean, default: false },
-  addedBy: String,
-  createdAt: { type: Date, default: Date.now }
+  addedBy: { type: String, ref: 'User' },
+  bookmarksCount: { type: Number, default: 0 },
+  ratingAverage: { type: Number, default: 0 },
+  ratingCount: { type: Number, default: 0 },
+  lastSyncedAt: Date,
+  lastCheckInAt: Date,
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
 });
+StationSchema.index({ location: '2dsphere' });
 
 // Bookmark interface
 export interface IBookmark extends Document {
@@ -224,6 +394,11 @@ export interface IBookmark extends Document {
   userId: string;
   targetType: string;
   targetId: string;
+  watch?: {
+    enabled: boolean;
+    notifyOn: string[];
+  };
+  lastSeenStatus?: string;
   createdAt: Date;
 }
 
@@ -232,8 +407,14 @@ const BookmarkSchema = new Schema<IBookmark>({
   userId: { type: String, required: true, ref: 'User' },
   targetType: { type: String, required: true },
   targetId: { type: String, required: true },
+  watch: {
+    enabled: Boolean,
+    notifyOn: [String]
+  },
+  lastSeenStatus: String,
   createdAt: { type: Date, default: Date.now }
 });
+BookmarkSchema.index({ targetType: 1, 'watch.enabled': 1 });
 
 // Question interface
 export interface IQuestion extends Document {
@@ -487,8 +668,149 @@ const MessageSchema = new Schema<IMessage>({
 });
 MessageSchema.index({ conversationId: 1, createdAt: 1 });
 
+// Station check-in interface
+export interface IStationCheckIn extends Document {
+  _id: string;
+  stationId: string;
+  userId: string;
+  status: string;
+  connectorType?: string | null;
+  comment?: string | null;
+  createdAt: Date;
+}
+
+const StationCheckInSchema = new Schema<IStationCheckIn>({
+  _id: { type: String, required: true },
+  stationId: { type: String, required: true, ref: 'Station' },
+  userId: { type: String, required: true, ref: 'User' },
+  status: { type: String, required: true, enum: ['CHARGED_OK', 'ALL_OCCUPIED', 'BROKEN', 'ICED'] },
+  connectorType: { type: String, default: null },
+  comment: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+StationCheckInSchema.index({ stationId: 1, createdAt: -1 });
+
+// Station review interface
+export interface IStationReview extends Document {
+  _id: string;
+  stationId: string;
+  authorId: string;
+  rating: number;
+  text: string;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StationReviewSchema = new Schema<IStationReview>({
+  _id: { type: String, required: true },
+  stationId: { type: String, required: true, ref: 'Station' },
+  authorId: { type: String, required: true, ref: 'User' },
+  rating: { type: Number, required: true, min: 1, max: 5 },
+  text: { type: String, default: '' },
+  tags: [{ type: String }],
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+StationReviewSchema.index({ stationId: 1, authorId: 1 }, { unique: true });
+
+// Station edit proposal interface
+export interface IStationEdit extends Document {
+  _id: string;
+  stationId: string;
+  proposerId?: string | null;
+  changes: any;
+  comment?: string | null;
+  status: string;
+  reviewedBy?: string | null;
+  reviewNote?: string | null;
+  reviewedAt?: Date | null;
+  createdAt: Date;
+}
+
+const StationEditSchema = new Schema<IStationEdit>({
+  _id: { type: String, required: true },
+  stationId: { type: String, required: true, ref: 'Station' },
+  proposerId: { type: String, ref: 'User', default: null },
+  changes: { type: Schema.Types.Mixed, required: true },
+  comment: { type: String, default: null },
+  status: { type: String, default: 'PENDING', enum: ['PENDING', 'APPLIED', 'REJECTED'] },
+  reviewedBy: { type: String, ref: 'User', default: null },
+  reviewNote: { type: String, default: null },
+  reviewedAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+StationEditSchema.index({ stationId: 1, status: 1 });
+
+// Charging session interface
+export interface IChargingSession extends Document {
+  _id: string;
+  userId: string;
+  stationId?: string | null;
+  stationName: string;
+  startedAt: Date;
+  endedAt?: Date | null;
+  energyKWh: number;
+  cost: number;
+  currency: string;
+  vehicle?: { brand: string; model: string } | null;
+  notes?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChargingSessionSchema = new Schema<IChargingSession>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true, ref: 'User' },
+  stationId: { type: String, ref: 'Station', default: null },
+  stationName: { type: String, required: true },
+  startedAt: { type: Date, required: true },
+  endedAt: { type: Date, default: null },
+  energyKWh: { type: Number, required: true },
+  cost: { type: Number, required: true },
+  currency: { type: String, required: true },
+  vehicle: {
+    type: {
+      brand: String,
+      model: String
+    },
+    default: null
+  },
+  notes: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+ChargingSessionSchema.index({ userId: 1, startedAt: -1 });
+
+// Trip interface
+export interface ITrip extends Document {
+  _id: string;
+  userId: string;
+  name: string;
+  request: any;
+  plan: any;
+  postId?: string | null;
+  createdAt: Date;
+}
+
+const TripSchema = new Schema<ITrip>({
+  _id: { type: String, required: true },
+  userId: { type: String, required: true, ref: 'User', index: true },
+  name: { type: String, required: true },
+  request: { type: Schema.Types.Mixed, required: true },
+  plan: { type: Schema.Types.Mixed, required: true },
+  postId: { type: String, ref: 'Post', default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
 // Models
 export const User = mongoose.model<IUser>('User', UserSchema);
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
+export const AuthToken = mongoose.model<IAuthToken>('AuthToken', AuthTokenSchema);
+export const TwoFactorCredential = mongoose.model<ITwoFactorCredential>('TwoFactorCredential', TwoFactorCredentialSchema);
+export const AppSetting = mongoose.model<IAppSetting>('AppSetting', AppSettingSchema);
+export const AccessToken = mongoose.model<IAccessToken>('AccessToken', AccessTokenSchema);
+export const RateLimitBucket = mongoose.model<IRateLimitBucket>('RateLimitBucket', RateLimitBucketSchema);
 export const Profile = mongoose.model<IProfile>('Profile', ProfileSchema);
 export const Community = mongoose.model<ICommunity>('Community', CommunitySchema);
 export const CommunityMember = mongoose.model<ICommunityMember>('CommunityMember', CommunityMemberSchema);
@@ -508,3 +830,8 @@ export const UserBlock = mongoose.model<IUserBlock>('UserBlock', UserBlockSchema
 export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
 export const Conversation = mongoose.model<IConversation>('Conversation', ConversationSchema);
 export const Message = mongoose.model<IMessage>('Message', MessageSchema);
+export const StationCheckIn = mongoose.model<IStationCheckIn>('StationCheckIn', StationCheckInSchema);
+export const StationReview = mongoose.model<IStationReview>('StationReview', StationReviewSchema);
+export const StationEdit = mongoose.model<IStationEdit>('StationEdit', StationEditSchema);
+export const ChargingSession = mongoose.model<IChargingSession>('ChargingSession', ChargingSessionSchema);
+export const Trip = mongoose.model<ITrip>('Trip', TripSchema);
@@ -1,18 +1,40 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IStorage, SearchLimits, SearchResults } from "./storage";
+import { IStorage, SearchLimits, SearchResults, type StationFilters, type StationBounds, type UserData, type StationChangeFilters, boundsCenter, syncedStationChanged } from "./storage";
 import {
-  User, Profile, Community, CommunityMember, Post, Comment,
+  connectorFamilyMatcher,
+  FREE_PRICING_PATTERN,
+  groupStationsByCell,
+  toStationCluster,
+  type StationCluster,
+  type StationFeatureFilters,
+} from "@shared/stations";
+import { isOpenAt } from "@shared/station-details";
+import { averageRating } from "@shared/reviews";
+import type { AuthTokenPurpose } from "@shared/account";
+import type { UserContentType } from "@shared/account-deletion";
+import {
+  User, AuthToken, TwoFactorCredential, AppSetting, AccessToken, RateLimitBucket, Profile, Community, CommunityMember, Post, Comment,
   Station, Bookmark, Question, Answer, Article, ArticleComment, Report, AuditLog, KnowledgeCategory,
-  UserFollow, UserBlock, Notification, Conversation, Message
+  UserFollow, UserBlock, Notification, Conversation, Message, Trip, StationCheckIn, StationReview,
+  StationEdit, ChargingSession
 } from "./models";
 import {
   type User as UserType, type InsertUser,
+  type AuthToken as AuthTokenType, type InsertAuthToken,
+  type TwoFactorCredential as TwoFactorCredentialType, type InsertTwoFactorCredential,
+  type AppSetting as AppSettingType,
+  type AccessToken as AccessTokenType, type InsertAccessToken,
+  type RateLimitBucket as RateLimitBucketType,
   type Profile as ProfileType, type InsertProfile,
   type Community as CommunityType, type InsertCommunity,
   type CommunityMember as CommunityMemberType, type InsertCommunityMember,
   type Post as PostType, type InsertPost,
   type Comment as CommentType, type InsertComment,
-  type Station as StationType, type InsertStation,
+  type Station as StationType, type InsertStation, type StationWithDistance,
+  type StationCheckIn as StationCheckInType, type InsertStationCheckIn,
+  type StationReview as StationReviewType, type InsertStationReview,
+  type StationEdit as StationEditType, type InsertStationEdit,
+  type ChargingSession as ChargingSessionType, type InsertChargingSession,
   type Bookmark as BookmarkType, type InsertBookmark,
   type Question as QuestionType, type InsertQuestion,
   type Answer as AnswerType, type InsertAnswer,
@@ -26,6 +48,7 @@ import {
   type Notification as NotificationType, type InsertNotification,
   type Conversation as ConversationType, type InsertConversation,
   type Message as MessageType, type InsertMessage,
+  type Trip as TripType, type InsertTrip,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
@@ -89,15 +112,12 @@ export class MongoStorage implements IStorage {
       Station.find({
         $or: [
           { name: regex },
-          { "location.address": regex },
-          { "location.city": regex },
-          { "location.state": regex },
-          { "location.country": regex },
-          { operator: regex },
+          { address: regex },
+          { provider: regex },
         ],
       })
         .limit(stationLimit)
-        .select("_id name location.address location.city location.state location.country")
+        .select("_id name address")
         .lean<Record<string, any>>(),
       Profile.find({ displayName: regex })
         .limit(userLimit)
@@ -138,10 +158,10 @@ export class MongoStorage implements IStorage {
     const stations = (stationDocs as Array<Record<string, any>>).map((station) => ({
       id: station._id as string,
       name: station.name as string,
-      address: (station.location?.address as string | undefined) ?? null,
-      city: (station.location?.city as string | undefined) ?? null,
-      state: (station.location?.state as string | undefined) ?? null,
-      country: (station.location?.country as string | undefined) ?? null,
+      address: (station.address as string | undefined) ?? null,
+      city: null,
+      state: null,
+      country: null,
     }));
 
     const userMap = new Map<string, { id: string; displayName?: string | null; email?: string | null; avatarUrl?: string | null }>();
@@ -180,6 +200,21 @@ export class MongoStorage implements IStorage {
   }
 
   // Users
+  private mapUser(user: any): UserType {
+    return {
+      id: user._id,
+      email: user.email,
+      passwordHash: user.passwordHash,
+      role: user.role,
+      status: user.status,
+      passwordChangedAt: user.passwordChangedAt ?? null,
+      failedLoginCount: user.failedLoginCount ?? 0,
+      lockedUntil: user.lockedUntil ?? null,
+      deletionScheduledFor: user.deletionScheduledFor ?? null,
+      createdAt: user.createdAt
+    };
+  }
+
   async getUser(id: string): Promise<UserType | undefined> {
     console.log("[MongoStorage] getUser called with ID:", id, "Type:", typeof id);
     const user = await User.findOne({ _id: id });
@@ -187,26 +222,12 @@ export class MongoStorage implements IStorage {
     if (user) {
       console.log("[MongoStorage] User _id:", user._id, "Type:", typeof user._id);
     }
-    return user ? {
-      id: user._id,
-      email: user.email,
-      passwordHash: user.passwordHash,
-      role: user.role,
-      status: user.status,
-      createdAt: user.createdAt
-    } : undefined;
+    return user ? this.mapUser(user) : undefined;
   }
 
   async getUserByEmail(email: string): Promise<UserType | undefined> {
     const user = await User.findOne({ email });
-    return user ? {
-      id: user._id,
-      email: user.email,
-      passwordHash: user.passwordHash,
-      role: user.role,
-      status: user.status,
-      createdAt: user.createdAt
-    } : undefined;
+    return user ? this.mapUser(user) : undefined;
   }
 
   async createUser(user: InsertUser): Promise<UserType> {
@@ -216,41 +237,24 @@ export class MongoStorage implements IStorage {
       email: user.email,
       passwordHash: user.passwordHash,
       role: user.role || 'USER',
-      status: user.status || 'ACTIVE'
+      status: user.status || 'ACTIVE',
+      passwordChangedAt: user.passwordChangedAt ?? null,
+      failedLoginCount: user.failedLoginCount ?? 0,
+      lockedUntil: user.lockedUntil ?? null,
+      deletionScheduledFor: user.deletionScheduledFor ?? null
     });
     await newUser.save();
-    return {
-      id: newUser._id,
-      email: newUser.email,
-      passwordHash: newUser.passwordHash,
-      role: newUser.role,
-      status: newUser.status,
-      createdAt: newUser.createdAt
-    };
+    return this.mapUser(newUser);
   }
 
   async updateUser(id: string, updates: Partial<Omit<UserType, 'id' | 'createdAt'>>): Promise<UserType | undefined> {
     const user = await User.findOneAndUpdate({ _id: id }, updates, { new: true });
-    return user ? {
-      id: user._id,
-      email: user.email,
-      passwordHash: user.passwordHash,
-      role: user.role,
-      status: user.status,
-      createdAt: user.createdAt
-    } : undefined;
+    return user ? this.mapUser(user) : undefined;
   }
 
   async getUsers(): Promise<UserType[]> {
     const users = await User.find();
-    return users.map(user => ({
-      id: user._id,
-      email: user.email,
-      passwordHash: user.passwordHash,
-      role: user.role,
-      status: user.status,
-      createdAt: user.createdAt
-    }));
+    return users.map(user => this.mapUser(user));
   }
 
   async deleteUser(id: string): Promise<boolean> {
@@ -260,6 +264,340 @@ export class MongoStorage implements IStorage {
     return result.deletedCount > 0;
   }
 
+  async recordFailedLogin(id: string): Promise<number> {
+    const user = await User.findOneAndUpdate({ _id: id }, { $inc: { failedLoginCount: 1 } }, { new: true });
+    return user?.failedLoginCount ?? 0;
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<UserType[]> {
+    const users = await User.find({ deletionScheduledFor: { $ne: null, $lte: now } });
+    return users.map((user) => this.mapUser(user));
+  }
+
+  // Account data
+  async getUserData(userId: string): Promise<UserData> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error(`User ${userId} not found`);
+    // Plain copies of the stored documents, with _id renamed the way the rest of the app sees it
+    const withIds = (docs: any[]) => docs.map(({ _id, __v, ...rest }) => ({ id: _id, ...rest }));
+    const conversations = await Conversation.find({ $or: [{ participantAId: userId }, { participantBId: userId }] });
+    const conversationIds = conversations.map((conversation) => conversation._id);
+
+    const [
+      profile, posts, comments, questions, answers, articles, articleComments, stationReviews, stationCheckIns,
+      stationEdits, bookmarks, messages, notifications, following, followers, blocks, memberships, trips, chargingSessions,
+    ] = await Promise.all([
+      this.getProfile(userId),
+      Post.find({ authorId: userId }).lean(),
+      Comment.find({ authorId: userId }).lean(),
+      Question.find({ authorId: userId }).lean(),
+      Answer.find({ authorId: userId }).lean(),
+      Article.find({ authorId: userId }).lean(),
+      ArticleComment.find({ authorId: userId }).lean(),
+      StationReview.find({ authorId: userId }),
+      StationCheckIn.find({ userId }),
+      StationEdit.find({ proposerId: userId }),
+      this.getBookmarks(userId),
+      Message.find({ conversationId: { $in: conversationIds } }),
+      Notification.find({ userId }),
+      this.getFollowing(userId),
+      this.getFollowers(userId),
+      this.getBlockedUsers(userId),
+      CommunityMember.find({ userId }).lean(),
+      this.getTrips(userId),
+      this.getChargingSessions(userId),
+    ]);
+
+    return {
+      user,
+      profile,
+      posts: withIds(posts),
+      comments: withIds(comments),
+      questions: withIds(questions),
+      answers: withIds(answers),
+      articles: withIds(articles),
+      articleComments: withIds(articleComments),
+      stationReviews: stationReviews.map((review) => this.mapStationReview(review)),
+      stationCheckIns: stationCheckIns.map((checkIn) => this.mapStationCheckIn(checkIn)),
+      stationEdits: stationEdits.map((edit) => this.mapStationEdit(edit)),
+      bookmarks,
+      conversations: conversations.map((conversation) => this.mapConversation(conversation)),
+      messages: messages.map((message) => this.mapMessage(message)),
+      notifications: notifications.map((notification) => this.mapNotification(notification)),
+      following,
+      followers,
+      blocks,
+      communityMemberships: withIds(memberships),
+      trips,
+      chargingSessions,
+    };
+  }
+
+  async deleteUserContent(userId: string, type: UserContentType): Promise<number> {
+    const idsOf = async (model: mongoose.Model<any>, filter: Record<string, unknown>): Promise<string[]> =>
+      (await model.find(filter, { _id: 1 }).lean()).map((doc: any) => doc._id);
+    let ids: string[];
+
+    switch (type) {
+      case "posts":
+        ids = await idsOf(Post, { authorId: userId });
+        for (const id of ids) {
+          // Same cleanup as MemStorage: nothing else should point at a post that's gone
+          await Comment.deleteMany({ postId: id });
+          await Bookmark.deleteMany({ targetType: "POST", targetId: id });
+          await Notification.deleteMany({ targetType: "POST", targetId: id });
+          await this.deletePost(id);
+        }
+        return ids.length;
+      case "comments":
+        ids = await idsOf(Comment, { authorId: userId });
+        for (const id of ids) await this.deleteComment(id);
+        return ids.length;
+      case "questions":
+        ids = await idsOf(Question, { authorId: userId });
+        for (const id of ids) await this.deleteQuestion(id);
+        return ids.length;
+      case "answers": {
+        const answers = await Answer.find({ authorId: userId }, { _id: 1, questionId: 1 }).lean();
+        await Answer.deleteMany({ authorId: userId });
+        for (const answer of answers) {
+          await Question.updateOne({ _id: answer.questionId, answersCount: { $gt: 0 } }, { $inc: { answersCount: -1 } });
+        }
+        return answers.length;
+      }
+      case "articles":
+        ids = await idsOf(Article, { authorId: userId });
+        for (const id of ids) await this.deleteArticle(id);
+        return ids.length;
+      case "articleComments":
+        ids = await idsOf(ArticleComment, { authorId: userId });
+        for (const id of ids) await this.deleteArticleComment(id);
+        return ids.length;
+      case "stationReviews":
+        ids = await idsOf(StationReview, { authorId: userId });
+        for (const id of ids) await this.deleteStationReview(id);
+        return ids.length;
+      case "stationCheckIns":
+        return (await StationCheckIn.deleteMany({ userId })).deletedCount;
+      case "messages":
+        // Both sides go; a conversation with half of it missing isn't worth keeping
+        ids = await idsOf(Conversation, { $or: [{ participantAId: userId }, { participantBId: userId }] });
+        await Message.deleteMany({ conversationId: { $in: ids } });
+        await Conversation.deleteMany({ _id: { $in: ids } });
+        return ids.length;
+    }
+  }
+
+  async deleteUserRecords(userId: string): Promise<void> {
+    for (const follow of await this.getFollowing(userId)) await this.unfollowUser(userId, follow.followingId);
+    for (const follow of await this.getFollowers(userId)) await this.unfollowUser(follow.followerId, userId);
+    const memberships = await CommunityMember.find({ userId }).lean();
+    for (const membership of memberships) await this.leaveCommunity(membership.communityId, userId);
+
+    await Promise.all([
+      UserBlock.deleteMany({ $or: [{ blockerId: userId }, { blockedId: userId }] }),
+      Bookmark.deleteMany({ userId }),
+      Notification.deleteMany({ userId }),
+      Trip.deleteMany({ userId }),
+      ChargingSession.deleteMany({ userId }),
+      Report.deleteMany({ reporterId: userId }),
+      AuthToken.deleteMany({ userId }),
+      AccessToken.deleteMany({ userId }),
+      TwoFactorCredential.deleteOne({ userId }),
+      // Others' notifications about the member stay but no longer point at them
+      Notification.updateMany({ actorId: userId }, { actorId: null }),
+    ]);
+  }
+
+  // Auth tokens
+  private mapAuthToken(t: any): AuthTokenType {
+    return {
+      id: t._id,
+      userId: t.userId,
+      purpose: t.purpose,
+      tokenHash: t.tokenHash,
+      expiresAt: t.expiresAt,
+      usedAt: t.usedAt ?? null,
+      createdAt: t.createdAt
+    };
+  }
+
+  async createAuthToken(token: InsertAuthToken): Promise<AuthTokenType> {
+    const newToken = new AuthToken({
+      _id: randomUUID(),
+      userId: token.userId,
+      purpose: token.purpose,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt
+    });
+    await newToken.save();
+    return this.mapAuthToken(newToken);
+  }
+
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthTokenType | undefined> {
+    const token = await AuthToken.findOne({ tokenHash });
+    return token ? this.mapAuthToken(token) : undefined;
+  }
+
+  async useAuthToken(id: string): Promise<boolean> {
+    // Conditional on usedAt so two requests racing with the same link can't both win
+    const token = await AuthToken.findOneAndUpdate({ _id: id, usedAt: null }, { usedAt: new Date() });
+    return !!token;
+  }
+
+  async revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<number> {
+    const result = await AuthToken.updateMany({ userId, purpose, usedAt: null }, { usedAt: new Date() });
+    return result.modifiedCount;
+  }
+
+  async countAuthTokens(userId: string, purpose: AuthTokenPurpose, since: Date): Promise<number> {
+    return AuthToken.countDocuments({ userId, purpose, createdAt: { $gte: since } });
+  }
+
+  // Two-factor authentication
+  private mapTwoFactorCredential(c: any): TwoFactorCredentialType {
+    return {
+      id: c._id,
+      userId: c.userId,
+      secret: c.secret,
+      enabledAt: c.enabledAt ?? null,
+      recoveryCodeHashes: c.recoveryCodeHashes ?? [],
+      lastUsedStep: c.lastUsedStep ?? null,
+      createdAt: c.createdAt
+    };
+  }
+
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredentialType | undefined> {
+    const credential = await TwoFactorCredential.findOne({ userId });
+    return credential ? this.mapTwoFactorCredential(credential) : undefined;
+  }
+
+  async saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredentialType> {
+    const saved = await TwoFactorCredential.findOneAndUpdate(
+      { userId: credential.userId },
+      {
+        $set: {
+          secret: credential.secret,
+          enabledAt: credential.enabledAt ?? null,
+          recoveryCodeHashes: credential.recoveryCodeHashes ?? [],
+          lastUsedStep: credential.lastUsedStep ?? null,
+          createdAt: new Date()
+        },
+        $setOnInsert: { _id: randomUUID() }
+      },
+      { upsert: true, new: true }
+    );
+    return this.mapTwoFactorCredential(saved);
+  }
+
+  async deleteTwoFactorCredential(userId: string): Promise<boolean> {
+    const result = await TwoFactorCredential.deleteOne({ userId });
+    return result.deletedCount > 0;
+  }
+
+  async useTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const credential = await TwoFactorCredential.findOneAndUpdate(
+      { userId, $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }] },
+      { lastUsedStep: step }
+    );
+    return !!credential;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const credential = await TwoFactorCredential.findOneAndUpdate(
+      { userId, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash } }
+    );
+    return !!credential;
+  }
+
+  // Personal access tokens
+  private mapAccessToken(t: any): AccessTokenType {
+    return {
+      id: t._id,
+      userId: t.userId,
+      name: t.name,
+      scopes: t.scopes,
+      tokenHash: t.tokenHash,
+      prefix: t.prefix,
+      expiresAt: t.expiresAt ?? null,
+      lastUsedAt: t.lastUsedAt ?? null,
+      createdAt: t.createdAt
+    };
+  }
+
+  async createAccessToken(token: InsertAccessToken): Promise<AccessTokenType> {
+    const newToken = new AccessToken({
+      _id: randomUUID(),
+      userId: token.userId,
+      name: token.name,
+      scopes: token.scopes,
+      tokenHash: token.tokenHash,
+      prefix: token.prefix,
+      expiresAt: token.expiresAt ?? null
+    });
+    await newToken.save();
+    return this.mapAccessToken(newToken);
+  }
+
+  async getAccessTokenByHash(tokenHash: string): Promise<AccessTokenType | undefined> {
+    const token = await AccessToken.findOne({ tokenHash });
+    return token ? this.mapAccessToken(token) : undefined;
+  }
+
+  async getAccessTokens(userId: string): Promise<AccessTokenType[]> {
+    const tokens = await AccessToken.find({ userId }).sort({ createdAt: -1 });
+    return tokens.map((token) => this.mapAccessToken(token));
+  }
+
+  async deleteAccessToken(id: string, userId: string): Promise<boolean> {
+    const result = await AccessToken.deleteOne({ _id: id, userId });
+    return result.deletedCount > 0;
+  }
+
+  async touchAccessToken(id: string, usedAt: Date): Promise<void> {
+    await AccessToken.updateOne({ _id: id }, { lastUsedAt: usedAt });
+  }
+
+  // Rate limiting
+  async hitRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucketType> {
+    const now = new Date();
+    // Count in the open window; if there isn't one, start it. Both steps are atomic on their own,
+    // so the worst a race does is let one extra request into a fresh window.
+    const counted = await RateLimitBucket.findOneAndUpdate(
+      { _id: key, resetAt: { $gt: now } },
+      { $inc: { count: 1 } },
+      { new: true }
+    );
+    if (counted) return { key, count: counted.count, resetAt: counted.resetAt };
+
+    const resetAt = new Date(now.getTime() + windowMs);
+    await RateLimitBucket.findByIdAndUpdate(key, { count: 1, resetAt }, { upsert: true });
+    return { key, count: 1, resetAt };
+  }
+
+  async clearRateLimitBucket(key: string): Promise<void> {
+    await RateLimitBucket.deleteOne({ _id: key });
+  }
+
+  // App settings
+  async getAppSetting(key: string): Promise<AppSettingType | undefined> {
+    const setting = await AppSetting.findById(key);
+    return setting
+      ? { key: setting._id, value: setting.value, updatedBy: setting.updatedBy ?? null, updatedAt: setting.updatedAt }
+      : undefined;
+  }
+
+  async setAppSetting(key: string, value: unknown, updatedBy?: string): Promise<AppSettingType> {
+    const updatedAt = new Date();
+    await AppSetting.findByIdAndUpdate(
+      key,
+      { value, updatedBy: updatedBy ?? null, updatedAt },
+      { upsert: true }
+    );
+    return { key, value, updatedBy: updatedBy ?? null, updatedAt };
+  }
+
   // Profiles
   private async syncUserFollowCounts(userId: string): Promise<void> {
     const [followersCount, followingCount] = await Promise.all([
@@ -288,7 +626,7 @@ export class MongoStorage implements IStorage {
       interests: profile.interests ?? null,
       followersCount: profile.followersCount ?? 0,
       followingCount: profile.followingCount ?? 0,
-      notificationPrefs: profile.notificationPrefs ?? { newPost: true, like: true, comment: true },
+      notificationPrefs: profile.notificationPrefs ?? { newPost: true, like: true, comment: true, stationStatus: true },
       acceptsMessages: profile.acceptsMessages ?? true,
     } as ProfileType;
   }
@@ -320,7 +658,7 @@ export class MongoStorage implements IStorage {
       interests: profile.interests,
       followersCount: profile.followersCount ?? 0,
       followingCount: profile.followingCount ?? 0,
-      notificationPrefs: profile.notificationPrefs ?? { newPost: true, like: true, comment: true },
+      notificationPrefs: profile.notificationPrefs ?? { newPost: true, like: true, comment: true, stationStatus: true },
       acceptsMessages: profile.acceptsMessages ?? true,
     });
     await newProfile.save();
@@ -982,83 +1320,541 @@ export class MongoStorage implements IStorage {
   }
 
   // Stations
-  async getStations(filters?: { verified?: boolean; limit?: number }): Promise<StationType[]> {
+  private mapStation(station: any): StationType {
+    return {
+      id: station._id,
+      externalId: station.externalId ?? null,
+      name: station.name,
+      coords: { lat: station.coords.lat, lng: station.coords.lng },
+      address: station.address,
+      connectors: (station.connectors ?? []).map((c: any) => ({ type: c.type, powerKW: c.powerKW ?? 0 })),
+      provider: station.provider ?? null,
+      pricing: station.pricing ?? null,
+      availability: station.availability ?? null,
+      openingHours: station.openingHours
+        ? {
+            twentyFourSeven: station.openingHours.twentyFourSeven,
+            periods: (station.openingHours.periods ?? []).map((p: any) => ({ day: p.day, open: p.open, close: p.close })),
+            ...(station.openingHours.timeZone ? { timeZone: station.openingHours.timeZone } : {}),
+          }
+        : null,
+      accessType: station.accessType ?? null,
+      parkingRestrictions: [...(station.parkingRestrictions ?? [])],
+      maxHeightMeters: station.maxHeightMeters ?? null,
+      amenities: [...(station.amenities ?? [])],
+      verified: station.verified ?? false,
+      addedBy: station.addedBy ?? null,
+      bookmarksCount: station.bookmarksCount ?? 0,
+      ratingAverage: station.ratingAverage ?? 0,
+      ratingCount: station.ratingCount ?? 0,
+      lastSyncedAt: station.lastSyncedAt ?? null,
+      lastCheckInAt: station.lastCheckInAt ?? null,
+      createdAt: station.createdAt,
+      updatedAt: station.updatedAt ?? station.createdAt,
+    };
+  }
+
+  private toGeoPoint(coords: { lat: number; lng: number }) {
+    return { type: 'Point' as const, coordinates: [coords.lng, coords.lat] as [number, number] };
+  }
+
+  private boundsQuery(bounds: StationBounds): any {
+    const box = (west: number, east: number) => ({
+      location: {
+        $geoWithin: {
+          $geometry: {
+            type: 'Polygon',
+            coordinates: [[
+              [west, bounds.south], [east, bounds.south], [east, bounds.north],
+              [west, bounds.north], [west, bounds.south],
+            ]],
+          },
+        },
+      },
+    });
+    // Split boxes that wrap the antimeridian into two halves
+    return bounds.west <= bounds.east
+      ? box(bounds.west, bounds.east)
+      : { $or: [box(bounds.west, 180), box(-180, bounds.east)] };
+  }
+
+  private featureQuery(filters: StationFeatureFilters): any {
+    const query: any = {};
+    const families = filters.connectorTypes ?? [];
+    if (families.length > 0 || filters.minPowerKW) {
+      // Type and power must be satisfied by the same connector
+      const connector: any = {};
+      if (filters.minPowerKW) connector.powerKW = { $gte: filters.minPowerKW };
+      if (families.length > 0) {
+        connector.$or = families.map(family => {
+          const { pattern, excludes } = connectorFamilyMatcher(family);
+          return { type: excludes.length > 0 ? { $regex: pattern, $nin: excludes } : { $regex: pattern } };
+        });
+      }
+      query.connectors = { $elemMatch: connector };
+    }
+    if (filters.provider) {
+      const escaped = filters.provider.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.provider = new RegExp(escaped, "i");
+    }
+    if (filters.pricing === "free") query.pricing = FREE_PRICING_PATTERN;
+    if (filters.pricing === "paid") query.pricing = { $nin: [null, "", FREE_PRICING_PATTERN] };
+    if (filters.operationalOnly) query.availability = "AVAILABLE";
+    // Whether a station is open depends on its local time, which is checked
+    // after loading; only stations with known hours can qualify
+    if (filters.openAt) query.openingHours = { $ne: null };
+    if (filters.accessTypes?.length) query.accessType = { $in: filters.accessTypes };
+    if (filters.amenities?.length) query.amenities = { $all: filters.amenities };
+    if (filters.vehicleHeightMeters !== undefined) {
+      query.maxHeightMeters = { $not: { $lt: filters.vehicleHeightMeters } };
+    }
+    return query;
+  }
+
+  /** Applies the filters the database can't evaluate, then the limit */
+  private finishStations<T extends StationType>(stations: T[], filters: StationFilters | undefined, limit: number): T[] {
+    const openAt = filters?.openAt;
+    return (openAt ? stations.filter(s => isOpenAt(s, openAt)) : stations).slice(0, limit);
+  }
+
+  private stationQuery(filters?: StationFilters): any {
     let query: any = {};
     if (filters?.verified !== undefined) query.verified = filters.verified;
+    if (filters?.submittedOnly) query.addedBy = { $ne: null };
+    if (filters?.name) {
+      const escaped = filters.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.name = new RegExp(`^${escaped}$`, "i");
+    }
+    if (filters) query = { ...query, ...this.featureQuery(filters) };
+    if (filters?.bounds) query = { ...query, ...this.boundsQuery(filters.bounds) };
+    return query;
+  }
+
+  async getStations(filters?: StationFilters): Promise<StationWithDistance[]> {
+    const query = this.stationQuery(filters);
     const limit = filters?.limit || 50;
-    const stations = await Station.find(query).sort({ createdAt: -1 }).limit(limit);
-    return stations.map(s => ({
-      id: s._id,
-      name: s.name,
-      location: s.location,
-      operator: s.operator,
-      status: s.status,
-      connectors: s.connectors,
-      pricing: s.pricing,
-      verified: s.verified,
-      addedBy: s.addedBy,
-      createdAt: s.createdAt
+    // Opening hours are checked in memory, so the limit has to wait until then
+    const dbLimit = filters?.openAt ? Number.MAX_SAFE_INTEGER : limit;
+
+    // Like MemStorage, a map view without an explicit point is ordered from the middle of the box
+    const origin = filters?.near ?? filters?.origin ?? (filters?.bounds && boundsCenter(filters.bounds));
+    if (origin) {
+      // Sorting by distance in the pipeline keeps the limit on the nearest stations, not the newest
+      const docs = await Station.aggregate([
+        {
+          $geoNear: {
+            near: this.toGeoPoint(origin),
+            distanceField: 'distanceMeters',
+            ...(filters?.near ? { maxDistance: filters.near.radiusKm * 1000 } : {}),
+            spherical: true,
+            query,
+          },
+        },
+        ...(filters?.sort === "rating"
+          ? [{ $sort: { ratingAverage: -1 as const, ratingCount: -1 as const, distanceMeters: 1 as const } }]
+          : []),
+        { $limit: dbLimit },
+      ]);
+      const mapped = docs.map(doc => ({ ...this.mapStation(doc), distanceKm: doc.distanceMeters / 1000 }));
+      return this.finishStations(mapped, filters, limit);
+    }
+
+    const sort: any = filters?.sort === "rating" ? { ratingAverage: -1, ratingCount: -1 } : { createdAt: -1 };
+    const stations = await Station.find(query).sort(sort).limit(dbLimit);
+    return this.finishStations(stations.map(s => this.mapStation(s)), filters, limit);
+  }
+
+  async getStationClusters(filters: StationFilters, cellDegrees: number): Promise<StationCluster[]> {
+    if (filters.openAt) {
+      // Opening hours can't be evaluated in the pipeline; group the open stations here instead
+      const stations = await this.getStations({ ...filters, sort: undefined, limit: Number.MAX_SAFE_INTEGER });
+      return groupStationsByCell(stations, cellDegrees).map(toStationCluster);
+    }
+    let query = this.stationQuery(filters);
+    if (filters.near) {
+      // $geoNear can't be grouped over, so the radius becomes a plain geo filter
+      const { lat, lng, radiusKm } = filters.near;
+      query = { $and: [query, { location: { $geoWithin: { $centerSphere: [[lng, lat], radiusKm / 6371] } } }] };
+    }
+    const cells = await Station.aggregate([
+      { $match: query },
+      {
+        $group: {
+          _id: {
+            x: { $floor: { $divide: ['$coords.lng', cellDegrees] } },
+            y: { $floor: { $divide: ['$coords.lat', cellDegrees] } },
+          },
+          count: { $sum: 1 },
+          lat: { $avg: '$coords.lat' },
+          lng: { $avg: '$coords.lng' },
+          west: { $min: '$coords.lng' },
+          south: { $min: '$coords.lat' },
+          east: { $max: '$coords.lng' },
+          north: { $max: '$coords.lat' },
+          maxPowerKW: { $max: { $max: '$connectors.powerKW' } },
+          stationId: { $first: '$_id' },
+        },
+      },
+    ]);
+    return cells.map((cell) => ({
+      lat: cell.lat,
+      lng: cell.lng,
+      count: cell.count,
+      maxPowerKW: cell.maxPowerKW ?? 0,
+      bounds: { west: cell.west, south: cell.south, east: cell.east, north: cell.north },
+      stationId: cell.count === 1 ? cell.stationId : undefined,
     }));
   }
 
+  async getStationsByLastChange(filters: StationChangeFilters): Promise<{ stations: StationType[]; total: number }> {
+    const range: any = {};
+    if (filters.changedFrom) range.$gte = filters.changedFrom;
+    if (filters.changedBefore) range.$lt = filters.changedBefore;
+    const [result] = await Station.aggregate([
+      ...(filters.verified !== undefined ? [{ $match: { verified: filters.verified } }] : []),
+      // $max skips a missing lastCheckInAt, matching stationLastChangedAt
+      { $addFields: { lastChangedAt: { $max: ['$updatedAt', '$lastCheckInAt'] } } },
+      ...(Object.keys(range).length > 0 ? [{ $match: { lastChangedAt: range } }] : []),
+      { $sort: { lastChangedAt: 1, _id: 1 } },
+      {
+        $facet: {
+          stations: [{ $skip: filters.offset }, { $limit: filters.limit }],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+    return {
+      stations: (result?.stations ?? []).map((doc: any) => this.mapStation(doc)),
+      total: result?.total[0]?.count ?? 0,
+    };
+  }
+
   async getStation(id: string): Promise<StationType | undefined> {
     const station = await Station.findById(id);
-    return station ? {
-      id: station._id,
-      name: station.name,
-      location: station.location,
-      operator: station.operator,
-      status: station.status,
-      connectors: station.connectors,
-      pricing: station.pricing,
-      verified: station.verified,
-      addedBy: station.addedBy,
-      createdAt: station.createdAt
-    } : undefined;
+    return station ? this.mapStation(station) : undefined;
+  }
+
+  async getStationByExternalId(externalId: string): Promise<StationType | undefined> {
+    const station = await Station.findOne({ externalId });
+    return station ? this.mapStation(station) : undefined;
   }
 
   async createStation(station: InsertStation): Promise<StationType> {
     const id = randomUUID();
     const newStation = new Station({
       _id: id,
+      externalId: station.externalId ?? undefined,
       name: station.name,
-      location: station.location,
-      operator: station.operator,
-      status: station.status,
+      coords: station.coords,
+      location: this.toGeoPoint(station.coords),
+      address: station.address,
       connectors: station.connectors,
-      pricing: station.pricing,
-      verified: station.verified || false,
-      addedBy: station.addedBy
+      provider: station.provider ?? undefined,
+      pricing: station.pricing ?? undefined,
+      availability: station.availability ?? undefined,
+      openingHours: station.openingHours ?? undefined,
+      accessType: station.accessType ?? undefined,
+      parkingRestrictions: station.parkingRestrictions ?? [],
+      maxHeightMeters: station.maxHeightMeters ?? undefined,
+      amenities: station.amenities ?? [],
+      verified: false,
+      addedBy: station.addedBy ?? undefined
     });
     await newStation.save();
+    return this.mapStation(newStation);
+  }
+
+  async updateStation(id: string, updates: Partial<Omit<StationType, 'id' | 'createdAt' | 'updatedAt'>>): Promise<StationType | undefined> {
+    const update: any = { ...updates, updatedAt: new Date() };
+    if (updates.coords) update.location = this.toGeoPoint(updates.coords);
+    const station = await Station.findByIdAndUpdate(id, update, { new: true });
+    return station ? this.mapStation(station) : undefined;
+  }
+
+  async upsertStationByExternalId(station: InsertStation & { externalId: string }, syncedAt: Date = new Date()): Promise<StationType> {
+    // Only the fields the upstream feed owns are overwritten; verification,
+    // bookmarks and the original submitter survive a refresh.
+    const existing = await Station.findOne({ externalId: station.externalId }).lean();
+    if (existing && !syncedStationChanged(this.mapStation(existing), station)) {
+      const touched = await Station.findByIdAndUpdate(existing._id, { $set: { lastSyncedAt: syncedAt } }, { new: true });
+      return this.mapStation(touched ?? { ...existing, lastSyncedAt: syncedAt });
+    }
+    const doc = await Station.findOneAndUpdate(
+      { externalId: station.externalId },
+      {
+        $set: {
+          name: station.name,
+          coords: station.coords,
+          location: this.toGeoPoint(station.coords),
+          address: station.address,
+          connectors: station.connectors,
+          provider: station.provider ?? undefined,
+          pricing: station.pricing ?? undefined,
+          availability: station.availability ?? undefined,
+          lastSyncedAt: syncedAt,
+          updatedAt: syncedAt,
+        },
+        $setOnInsert: {
+          _id: randomUUID(),
+          verified: false,
+          bookmarksCount: 0,
+          addedBy: station.addedBy ?? undefined,
+          createdAt: new Date(),
+        },
+      },
+      { upsert: true, new: true }
+    );
+    return this.mapStation(doc);
+  }
+
+  async deleteStation(id: string): Promise<boolean> {
+    const result = await Station.findByIdAndDelete(id);
+    return !!result;
+  }
+
+  async mergeStations(sourceId: string, targetId: string): Promise<StationType | undefined> {
+    if (sourceId === targetId) return undefined;
+    const [source, target] = await Promise.all([Station.findById(sourceId), Station.findById(targetId)]);
+    if (!source || !target) return undefined;
+
+    const connectors = [...target.connectors];
+    for (const connector of source.connectors) {
+      if (!connectors.some(c => c.type === connector.type && c.powerKW === connector.powerKW)) {
+        connectors.push(connector);
+      }
+    }
+
+    const savedBy = await Bookmark.distinct('userId', { targetType: 'STATION', targetId });
+    await Bookmark.deleteMany({ targetType: 'STATION', targetId: sourceId, userId: { $in: savedBy } });
+    await Bookmark.updateMany({ targetType: 'STATION', targetId: sourceId }, { $set: { targetId } });
+
+    const reviewedBy = await StationReview.distinct('authorId', { stationId: targetId });
+    await StationReview.deleteMany({ stationId: sourceId, authorId: { $in: reviewedBy } });
+    await StationReview.updateMany({ stationId: sourceId }, { $set: { stationId: targetId } });
+
+    await StationCheckIn.updateMany({ stationId: sourceId }, { $set: { stationId: targetId } });
+    await ChargingSession.updateMany({ stationId: sourceId }, { $set: { stationId: targetId } });
+
+    // externalId is unique, so the duplicate has to go before the target can take it over
+    await Station.findByIdAndDelete(sourceId);
+    const bookmarksCount = await Bookmark.countDocuments({ targetType: 'STATION', targetId });
+    await Station.findByIdAndUpdate(targetId, {
+      $set: {
+        externalId: target.externalId ?? source.externalId ?? undefined,
+        provider: target.provider ?? source.provider ?? undefined,
+        pricing: target.pricing ?? source.pricing ?? undefined,
+        openingHours: target.openingHours ?? source.openingHours ?? undefined,
+        accessType: target.accessType ?? source.accessType ?? undefined,
+        maxHeightMeters: target.maxHeightMeters ?? source.maxHeightMeters ?? undefined,
+        parkingRestrictions: Array.from(new Set([...target.parkingRestrictions, ...source.parkingRestrictions])),
+        amenities: Array.from(new Set([...target.amenities, ...source.amenities])),
+        connectors,
+        bookmarksCount,
+      }
+    });
+    await this.refreshStationRating(targetId);
+    return this.getStation(targetId);
+  }
+
+  // Station check-ins
+  private mapStationCheckIn(c: any): StationCheckInType {
     return {
-      id: newStation._id,
-      name: newStation.name,
-      location: newStation.location,
-      operator: newStation.operator,
-      status: newStation.status,
-      connectors: newStation.connectors,
-      pricing: newStation.pricing,
-      verified: newStation.verified,
-      addedBy: newStation.addedBy,
-      createdAt: newStation.createdAt
+      id: c._id,
+      stationId: c.stationId,
+      userId: c.userId,
+      status: c.status,
+      connectorType: c.connectorType ?? null,
+      comment: c.comment ?? null,
+      createdAt: c.createdAt
     };
   }
 
-  async updateStation(id: string, updates: Partial<Omit<StationType, 'id' | 'createdAt'>>): Promise<StationType | undefined> {
-    const station = await Station.findByIdAndUpdate(id, updates, { new: true });
-    return station ? {
-      id: station._id,
-      name: station.name,
-      location: station.location,
-      operator: station.operator,
-      status: station.status,
-      connectors: station.connectors,
-      pricing: station.pricing,
-      verified: station.verified,
-      addedBy: station.addedBy,
-      createdAt: station.createdAt
-    } : undefined;
+  async createStationCheckIn(checkIn: InsertStationCheckIn): Promise<StationCheckInType> {
+    const newCheckIn = new StationCheckIn({
+      _id: randomUUID(),
+      stationId: checkIn.stationId,
+      userId: checkIn.userId,
+      status: checkIn.status,
+      connectorType: checkIn.connectorType ?? null,
+      comment: checkIn.comment ?? null
+    });
+    await newCheckIn.save();
+    // Not through updateStation: a check-in isn't an edit of the station itself
+    await Station.updateOne({ _id: checkIn.stationId }, { $max: { lastCheckInAt: newCheckIn.createdAt } });
+    return this.mapStationCheckIn(newCheckIn);
+  }
+
+  async getStationCheckIns(filters: { stationIds: string[]; since?: Date; status?: string; limit?: number }): Promise<StationCheckInType[]> {
+    const query: any = { stationId: { $in: filters.stationIds } };
+    if (filters.since) query.createdAt = { $gte: filters.since };
+    if (filters.status) query.status = filters.status;
+    let cursor = StationCheckIn.find(query).sort({ createdAt: -1 });
+    if (filters.limit) cursor = cursor.limit(filters.limit);
+    const checkIns = await cursor;
+    return checkIns.map(c => this.mapStationCheckIn(c));
+  }
+
+  // Station reviews
+  private mapStationReview(r: any): StationReviewType {
+    return {
+      id: r._id,
+      stationId: r.stationId,
+      authorId: r.authorId,
+      rating: r.rating,
+      text: r.text ?? "",
+      tags: r.tags ?? [],
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt
+    };
+  }
+
+  private async refreshStationRating(stationId: string) {
+    const reviews = await StationReview.find({ stationId }, { rating: 1 });
+    const ratings = reviews.map(r => r.rating);
+    await Station.findByIdAndUpdate(stationId, {
+      $set: { ratingAverage: averageRating(ratings), ratingCount: ratings.length }
+    });
+  }
+
+  async getStationReviews(stationId: string): Promise<StationReviewType[]> {
+    const reviews = await StationReview.find({ stationId }).sort({ updatedAt: -1 });
+    return reviews.map(r => this.mapStationReview(r));
+  }
+
+  async getStationReview(id: string): Promise<StationReviewType | undefined> {
+    const review = await StationReview.findById(id);
+    return review ? this.mapStationReview(review) : undefined;
+  }
+
+  async upsertStationReview(review: InsertStationReview): Promise<StationReviewType> {
+    const now = new Date();
+    const saved = await StationReview.findOneAndUpdate(
+      { stationId: review.stationId, authorId: review.authorId },
+      {
+        $set: { rating: review.rating, text: review.text ?? "", tags: review.tags ?? [], updatedAt: now },
+        $setOnInsert: { _id: randomUUID(), createdAt: now }
+      },
+      { new: true, upsert: true }
+    );
+    await this.refreshStationRating(review.stationId);
+    return this.mapStationReview(saved);
+  }
+
+  async deleteStationReview(id: string): Promise<boolean> {
+    const review = await StationReview.findByIdAndDelete(id);
+    if (!review) return false;
+    await this.refreshStationRating(review.stationId);
+    return true;
+  }
+
+  // Station edit proposals
+  private mapStationEdit(e: any): StationEditType {
+    return {
+      id: e._id,
+      stationId: e.stationId,
+      proposerId: e.proposerId ?? null,
+      changes: e.changes,
+      comment: e.comment ?? null,
+      status: e.status,
+      reviewedBy: e.reviewedBy ?? null,
+      reviewNote: e.reviewNote ?? null,
+      reviewedAt: e.reviewedAt ?? null,
+      createdAt: e.createdAt
+    };
+  }
+
+  async createStationEdit(edit: InsertStationEdit): Promise<StationEditType> {
+    const newEdit = new StationEdit({
+      _id: randomUUID(),
+      stationId: edit.stationId,
+      proposerId: edit.proposerId ?? null,
+      changes: edit.changes,
+      comment: edit.comment ?? null
+    });
+    await newEdit.save();
+    return this.mapStationEdit(newEdit);
+  }
+
+  async getStationEdit(id: string): Promise<StationEditType | undefined> {
+    const edit = await StationEdit.findById(id);
+    return edit ? this.mapStationEdit(edit) : undefined;
+  }
+
+  async getStationEdits(filters?: { stationId?: string; proposerId?: string; status?: string; limit?: number }): Promise<StationEditType[]> {
+    const query: any = {};
+    if (filters?.stationId) query.stationId = filters.stationId;
+    if (filters?.proposerId) query.proposerId = filters.proposerId;
+    if (filters?.status) query.status = filters.status;
+    const edits = await StationEdit.find(query).sort({ createdAt: -1 }).limit(filters?.limit || 50);
+    return edits.map(e => this.mapStationEdit(e));
+  }
+
+  async updateStationEdit(id: string, updates: Partial<Pick<StationEditType, 'status' | 'reviewedBy' | 'reviewNote' | 'reviewedAt'>>): Promise<StationEditType | undefined> {
+    const edit = await StationEdit.findByIdAndUpdate(id, updates, { new: true });
+    return edit ? this.mapStationEdit(edit) : undefined;
+  }
+
+  // Charging sessions
+  private mapChargingSession(c: any): ChargingSessionType {
+    return {
+      id: c._id,
+      userId: c.userId,
+      stationId: c.stationId ?? null,
+      stationName: c.stationName,
+      startedAt: c.startedAt,
+      endedAt: c.endedAt ?? null,
+      energyKWh: c.energyKWh,
+      cost: c.cost,
+      currency: c.currency,
+      vehicle: c.vehicle?.brand ? { brand: c.vehicle.brand, model: c.vehicle.model } : null,
+      notes: c.notes ?? null,
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt
+    };
+  }
+
+  async getChargingSessions(userId: string, filters?: { from?: Date; to?: Date }): Promise<ChargingSessionType[]> {
+    const query: any = { userId };
+    if (filters?.from || filters?.to) {
+      query.startedAt = {};
+      if (filters.from) query.startedAt.$gte = filters.from;
+      if (filters.to) query.startedAt.$lt = filters.to;
+    }
+    const sessions = await ChargingSession.find(query).sort({ startedAt: -1 });
+    return sessions.map(c => this.mapChargingSession(c));
+  }
+
+  async getChargingSession(id: string): Promise<ChargingSessionType | undefined> {
+    const session = await ChargingSession.findById(id);
+    return session ? this.mapChargingSession(session) : undefined;
+  }
+
+  async createChargingSession(session: InsertChargingSession): Promise<ChargingSessionType> {
+    const newSession = new ChargingSession({
+      _id: randomUUID(),
+      userId: session.userId,
+      stationId: session.stationId ?? null,
+      stationName: session.stationName,
+      startedAt: session.startedAt,
+      endedAt: session.endedAt ?? null,
+      energyKWh: session.energyKWh,
+      cost: session.cost,
+      currency: session.currency,
+      vehicle: session.vehicle ?? null,
+      notes: session.notes ?? null
+    });
+    await newSession.save();
+    return this.mapChargingSession(newSession);
+  }
+
+  async updateChargingSession(id: string, updates: Partial<Omit<ChargingSessionType, 'id' | 'userId' | 'createdAt'>>): Promise<ChargingSessionType | undefined> {
+    const session = await ChargingSession.findByIdAndUpdate(id, { ...updates, updatedAt: new Date() }, { new: true });
+    return session ? this.mapChargingSession(session) : undefined;
+  }
+
+  async deleteChargingSession(id: string): Promise<boolean> {
+    const result = await ChargingSession.findByIdAndDelete(id);
+    return !!result;
   }
 
   // Bookmarks
@@ -1066,13 +1862,7 @@ export class MongoStorage implements IStorage {
     let query: any = { userId };
     if (targetType) query.targetType = targetType;
     const bookmarks = await Bookmark.find(query).sort({ createdAt: -1 });
-    return bookmarks.map(b => ({
-      id: b._id,
-      userId: b.userId,
-      targetType: b.targetType,
-      targetId: b.targetId,
-      createdAt: b.createdAt
-    }));
+    return bookmarks.map(b => this.mapBookmark(b));
   }
 
   async createBookmark(bookmark: InsertBookmark): Promise<BookmarkType> {
@@ -1081,16 +1871,11 @@ export class MongoStorage implements IStorage {
       _id: id,
       userId: bookmark.userId,
       targetType: bookmark.targetType,
-      targetId: bookmark.targetId
+      targetId: bookmark.targetId,
+      watch: bookmark.watch ?? undefined
     });
     await newBookmark.save();
-    return {
-      id: newBookmark._id,
-      userId: newBookmark.userId,
-      targetType: newBookmark.targetType,
-      targetId: newBookmark.targetId,
-      createdAt: newBookmark.createdAt
-    };
+    return this.mapBookmark(newBookmark);
   }
 
   async deleteBookmark(id: string): Promise<boolean> {
@@ -1100,13 +1885,31 @@ export class MongoStorage implements IStorage {
 
   async getBookmark(userId: string, targetId: string): Promise<BookmarkType | undefined> {
     const bookmark = await Bookmark.findOne({ userId, targetId });
-    return bookmark ? {
-      id: bookmark._id,
-      userId: bookmark.userId,
-      targetType: bookmark.targetType,
-      targetId: bookmark.targetId,
-      createdAt: bookmark.createdAt
-    } : undefined;
+    return bookmark ? this.mapBookmark(bookmark) : undefined;
+  }
+
+  async updateBookmark(id: string, updates: Partial<Pick<BookmarkType, 'watch' | 'lastSeenStatus'>>): Promise<BookmarkType | undefined> {
+    const bookmark = await Bookmark.findByIdAndUpdate(id, { $set: updates }, { new: true });
+    return bookmark ? this.mapBookmark(bookmark) : undefined;
+  }
+
+  async getWatchedStationBookmarks(): Promise<BookmarkType[]> {
+    const bookmarks = await Bookmark.find({ targetType: 'STATION', 'watch.enabled': true });
+    return bookmarks.map(b => this.mapBookmark(b));
+  }
+
+  private mapBookmark(b: any): BookmarkType {
+    return {
+      id: b._id,
+      userId: b.userId,
+      targetType: b.targetType,
+      targetId: b.targetId,
+      watch: b.watch?.enabled !== undefined
+        ? { enabled: b.watch.enabled, notifyOn: [...(b.watch.notifyOn ?? [])] }
+        : null,
+      lastSeenStatus: b.lastSeenStatus ?? null,
+      createdAt: b.createdAt
+    };
   }
 
   // Questions
@@ -1447,9 +2250,11 @@ export class MongoStorage implements IStorage {
   }
 
   // Reports
-  async getReports(filters?: { status?: string; limit?: number }): Promise<ReportType[]> {
+  async getReports(filters?: { status?: string; targetType?: string; targetId?: string; limit?: number }): Promise<ReportType[]> {
     let query: any = {};
     if (filters?.status) query.status = filters.status;
+    if (filters?.targetType) query.targetType = filters.targetType;
+    if (filters?.targetId) query.targetId = filters.targetId;
     const limit = filters?.limit || 100;
     const reports = await Report.find(query).sort({ createdAt: -1 }).limit(limit);
     return reports.map(r => ({
@@ -1604,4 +2409,50 @@ export class MongoStorage implements IStorage {
     const result = await KnowledgeCategory.deleteOne({ _id: id });
     return result.deletedCount > 0;
   }
+
+  // Trips
+  private mapTrip(t: any): TripType {
+    return {
+      id: t._id,
+      userId: t.userId,
+      name: t.name,
+      request: t.request,
+      plan: t.plan,
+      postId: t.postId ?? null,
+      createdAt: t.createdAt
+    };
+  }
+
+  async getTrips(userId: string): Promise<TripType[]> {
+    const trips = await Trip.find({ userId }).sort({ createdAt: -1 });
+    return trips.map(t => this.mapTrip(t));
+  }
+
+  async getTrip(id: string): Promise<TripType | undefined> {
+    const trip = await Trip.findById(id);
+    return trip ? this.mapTrip(trip) : undefined;
+  }
+
+  async createTrip(trip: InsertTrip): Promise<TripType> {
+    const newTrip = new Trip({
+      _id: randomUUID(),
+      userId: trip.userId,
+      name: trip.name,
+      request: trip.request,
+      plan: trip.plan
+    });
+    await newTrip.save();
+    return this.mapTrip(newTrip);
+  }
+
+  async updateTrip(id: string, updates: Partial<Pick<TripType, 'name' | 'postId'>>): Promise<TripType | undefined> {
+    const trip = await Trip.findByIdAndUpdate(id, { $set: updates }, { new: true });
+    return trip ? this.mapTrip(trip) : undefined;
+  }
+
+  async deleteTrip(id: string): Promise<boolean> {
+    const result = await Trip.findByIdAndDelete(id);
+    return !!result;
+  }
+
 }
@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Request } from "express";
+import { MemStorage } from "./storage";
+import {
+  createOcpiLocations,
+  createOcpiTokenAuth,
+  splitAddress,
+  toEvseStatus,
+  toOcpiConnector,
+  toOcpiHours,
+} from "./ocpi";
+import { fakeResponse, stationInput } from "./test-helpers";
+
+const LAST_UPDATED = "2026-01-01T00:00:00.000Z";
+const NO_REPORTS = { status: "UNKNOWN" as const, confidence: 0, lastCheckInAt: null, brokenConnectors: [] };
+
+test("addresses are split into OCPI fields, recognising the country by name", () => {
+  assert.deepEqual(splitAddress("355 McAllister St, San Francisco, CA, 94102, United States", "USA"), {
+    address: "355 McAllister St",
+    city: "San Francisco",
+    postal_code: "94102",
+    state: "CA",
+    country: "USA",
+  });
+  assert.deepEqual(splitAddress("Alexanderplatz 1, Berlin, 10178, Germany", "USA"), {
+    address: "Alexanderplatz 1",
+    city: "Berlin",
+    postal_code: "10178",
+    state: undefined,
+    country: "DEU",
+  });
+  assert.equal(splitAddress("Somewhere", "GBR").address, "Somewhere");
+  assert.equal(splitAddress("Somewhere", "GBR").country, "GBR");
+});
+
+test("connectors get an OCPI standard and nominal electrical ratings", () => {
+  assert.deepEqual(toOcpiConnector({ type: "CCS", powerKW: 350 }, LAST_UPDATED), {
+    id: "1",
+    standard: "IEC_62196_T2_COMBO",
+    format: "CABLE",
+    power_type: "DC",
+    max_voltage: 920,
+    max_amperage: 380,
+    max_electric_power: 350000,
+    last_updated: LAST_UPDATED,
+  });
+  const type2 = toOcpiConnector({ type: "Type 2", powerKW: 22 }, LAST_UPDATED)!;
+  assert.equal(type2.format, "SOCKET");
+  assert.equal(type2.power_type, "AC_3_PHASE");
+  assert.equal(type2.max_amperage, 32);
+  assert.equal(toOcpiConnector({ type: "CCS (Type 1)", powerKW: 50 }, LAST_UPDATED)!.standard, "IEC_62196_T1_COMBO");
+  assert.equal(toOcpiConnector({ type: "Schuko", powerKW: 3 }, LAST_UPDATED), null);
+});
+
+test("EVSE status prefers crowd reports over the feed's availability", () => {
+  const online = { availability: "AVAILABLE" };
+  assert.equal(toEvseStatus("CCS", online), "AVAILABLE");
+  assert.equal(toEvseStatus("CCS", { availability: "OFFLINE" }), "INOPERATIVE");
+  assert.equal(toEvseStatus("CCS", { availability: null }, NO_REPORTS), "UNKNOWN");
+  assert.equal(toEvseStatus("CCS", online, { ...NO_REPORTS, status: "OCCUPIED" }), "CHARGING");
+  // Only the connector reported broken is out of order
+  const broken = { ...NO_REPORTS, status: "BROKEN" as const, brokenConnectors: ["CCS"] };
+  assert.equal(toEvseStatus("CCS (Type 2)", online, broken), "OUTOFORDER");
+  assert.equal(toEvseStatus("Type 2", online, broken), "AVAILABLE");
+});
+
+test("opening hours become OCPI regular hours with weekdays from 1", () => {
+  assert.deepEqual(toOcpiHours({ twentyFourSeven: true, periods: [] }), { twentyfourseven: true });
+  assert.deepEqual(toOcpiHours({ twentyFourSeven: false, periods: [{ day: "TUE", open: "08:00", close: "24:00" }] }), {
+    twentyfourseven: false,
+    regular_hours: [{ weekday: 2, period_begin: "08:00", period_end: "23:59" }],
+  });
+});
+
+async function setup() {
+  const storage = new MemStorage();
+  const locations = createOcpiLocations(storage, { countryCode: "de", partyId: "abc", maxLimit: 2 });
+  const stations = [];
+  for (const name of ["One", "Two", "Three"]) {
+    const station = await storage.createStation(stationInput(name, 52.5, 13.4, { address: `${name} Street 1, Berlin, 10178, Germany` }));
+    stations.push((await storage.updateStation(station.id, { verified: true }))!);
+  }
+  const unverified = await storage.createStation(stationInput("Pending", 52.5, 13.4));
+  return { storage, locations, stations, unverified };
+}
+
+test("only verified stations are published, paged up to the maximum limit", async () => {
+  const { locations, unverified } = await setup();
+  const page = await locations.listLocations({ offset: 0, limit: 50 });
+  assert.equal(page.total, 3);
+  assert.equal(page.limit, 2);
+  assert.equal(page.locations.length, 2);
+  const rest = await locations.listLocations({ offset: 2 });
+  assert.equal(rest.locations.length, 1);
+  const ids = [...page.locations, ...rest.locations].map((location) => location.id);
+  assert.equal(new Set(ids).size, 3);
+  assert.ok(!ids.includes(unverified.id));
+});
+
+test("a single location carries our party and an EVSE per supported connector", async () => {
+  const { locations, stations, unverified } = await setup();
+  const location = await locations.getLocation(stations[0].id);
+  assert.equal(location!.country_code, "DE");
+  assert.equal(location!.party_id, "ABC");
+  assert.equal(location!.country, "DEU");
+  assert.deepEqual(location!.evses.map((evse) => evse.uid), [`${stations[0].id}-1`]);
+  assert.equal(await locations.getLocation(unverified.id), undefined);
+  assert.equal(await locations.getLocation("missing"), undefined);
+});
+
+test("the token check accepts raw and base64 tokens and closes the module without any", () => {
+  const check = (tokens: string[], authorization?: string) => {
+    const { res, sent } = fakeResponse();
+    let passed = false;
+    const next: NextFunction = () => void (passed = true);
+    createOcpiTokenAuth(tokens)({ headers: { authorization } } as Request, res, next);
+    return passed ? "next" : sent.status;
+  };
+  assert.equal(check(["secret"], "Token secret"), "next");
+  assert.equal(check(["secret"], `Token ${Buffer.from("secret").toString("base64")}`), "next");
+  assert.equal(check(["secret"], "Token wrong"), 401);
+  assert.equal(check(["secret"]), 401);
+  assert.equal(check([""], "Token "), 401);
+});
@@ -0,0 +1,440 @@
+import { timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import type { Station, StationWithStatus } from "@shared/schema";
+import type { StationLiveStatus } from "@shared/check-ins";
+import { connectorFamily } from "@shared/stations";
+import { stationTimeZone, WEEKDAYS, type OpeningHours } from "@shared/station-details";
+import { createStationStatus, type StationStatus } from "./station-status";
+import { stationLastChangedAt, type IStorage } from "./storage";
+
+// Read-only OCPI 2.2 Locations module (sender role). We publish verified
+// stations as one Location each, with one EVSE per connector since stations
+// only record individual connectors, not how they're grouped into chargers.
+
+export const OCPI_VERSION = "2.2";
+
+// OCPI status codes used in response envelopes
+export const OCPI_STATUS = {
+  SUCCESS: 1000,
+  CLIENT_ERROR: 2000,
+  INVALID_PARAMETERS: 2001,
+  UNKNOWN_LOCATION: 2003,
+  SERVER_ERROR: 3000,
+} as const;
+
+export type OcpiEvseStatus =
+  | "AVAILABLE"
+  | "BLOCKED"
+  | "CHARGING"
+  | "INOPERATIVE"
+  | "OUTOFORDER"
+  | "PLANNED"
+  | "REMOVED"
+  | "RESERVED"
+  | "UNKNOWN";
+
+export type OcpiConnectorStandard =
+  | "CHADEMO"
+  | "IEC_62196_T1"
+  | "IEC_62196_T1_COMBO"
+  | "IEC_62196_T2"
+  | "IEC_62196_T2_COMBO"
+  | "TESLA_S";
+
+export type OcpiPowerType = "AC_1_PHASE" | "AC_3_PHASE" | "DC";
+
+export type OcpiParkingRestriction = "EV_ONLY" | "PLUGGED" | "DISABLED" | "CUSTOMERS" | "MOTORCYCLES";
+
+export interface OcpiConnector {
+  id: string;
+  standard: OcpiConnectorStandard;
+  format: "SOCKET" | "CABLE";
+  power_type: OcpiPowerType;
+  max_voltage: number;
+  max_amperage: number;
+  max_electric_power?: number;
+  last_updated: string;
+}
+
+export interface OcpiEvse {
+  uid: string;
+  status: OcpiEvseStatus;
+  connectors: OcpiConnector[];
+  parking_restrictions?: OcpiParkingRestriction[];
+  coordinates: OcpiGeoLocation;
+  last_updated: string;
+}
+
+export interface OcpiHours {
+  twentyfourseven: boolean;
+  /** weekday 1 is Monday */
+  regular_hours?: Array<{ weekday: number; period_begin: string; period_end: string }>;
+}
+
+export interface OcpiGeoLocation {
+  latitude: string;
+  longitude: string;
+}
+
+export interface OcpiLocation {
+  country_code: string;
+  party_id: string;
+  id: string;
+  publish: boolean;
+  name: string;
+  address: string;
+  city: string;
+  postal_code?: string;
+  state?: string;
+  /** ISO 3166-1 alpha-3 */
+  country: string;
+  coordinates: OcpiGeoLocation;
+  evses: OcpiEvse[];
+  operator?: { name: string };
+  facilities?: string[];
+  time_zone: string;
+  opening_times?: OcpiHours;
+  last_updated: string;
+}
+
+export interface OcpiLocationsOptions {
+  /** ISO 3166-1 alpha-2 country of our party; defaults to OCPI_COUNTRY_CODE or "US" */
+  countryCode?: string;
+  /** Three-character party id; defaults to OCPI_PARTY_ID or "EVC" */
+  partyId?: string;
+  /** Alpha-3 country for addresses that don't name one */
+  defaultCountry?: string;
+  /** Largest page a client can ask for */
+  maxLimit?: number;
+  stationStatus?: StationStatus;
+}
+
+const DEFAULT_MAX_LIMIT = 100;
+
+// Addresses are stored as one comma-separated line, so the country is
+// recognised by name from the last part
+const COUNTRY_CODES: Record<string, string> = {
+  "united states": "USA",
+  "united states of america": "USA",
+  usa: "USA",
+  us: "USA",
+  "united kingdom": "GBR",
+  uk: "GBR",
+  gb: "GBR",
+  england: "GBR",
+  scotland: "GBR",
+  wales: "GBR",
+  canada: "CAN",
+  germany: "DEU",
+  deutschland: "DEU",
+  france: "FRA",
+  netherlands: "NLD",
+  nederland: "NLD",
+  belgium: "BEL",
+  norway: "NOR",
+  norge: "NOR",
+  sweden: "SWE",
+  denmark: "DNK",
+  finland: "FIN",
+  ireland: "IRL",
+  spain: "ESP",
+  portugal: "PRT",
+  italy: "ITA",
+  switzerland: "CHE",
+  austria: "AUT",
+  australia: "AUS",
+  "new zealand": "NZL",
+};
+
+const POSTAL_CODE_PATTERN = /^(?=.*\d)[A-Z0-9][A-Z0-9 -]{2,9}$/i;
+const STATE_PATTERN = /^[A-Z]{2,3}$/;
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? value.slice(0, length) : value;
+}
+
+/** Splits "355 McAllister St, San Francisco, CA, 94102, United States" into OCPI address fields */
+export function splitAddress(address: string, defaultCountry: string) {
+  const parts = address.split(",").map((part) => part.trim()).filter(Boolean);
+  let country = defaultCountry;
+  const countryCode = parts.length > 1 ? COUNTRY_CODES[parts[parts.length - 1].toLowerCase()] : undefined;
+  if (countryCode) {
+    country = countryCode;
+    parts.pop();
+  }
+  const postalCode = parts.length > 1 && POSTAL_CODE_PATTERN.test(parts[parts.length - 1]) ? parts.pop() : undefined;
+  const state = parts.length > 2 && STATE_PATTERN.test(parts[parts.length - 1]) ? parts.pop() : undefined;
+  const city = parts.length > 1 ? parts.pop()! : "";
+  return {
+    address: truncate(parts.join(", ") || address, 45),
+    city: truncate(city, 45),
+    postal_code: postalCode && truncate(postalCode, 10),
+    state: state && truncate(state, 20),
+    country,
+  };
+}
+
+function toGeoLocation(coords: { lat: number; lng: number }): OcpiGeoLocation {
+  return { latitude: coords.lat.toFixed(6), longitude: coords.lng.toFixed(6) };
+}
+
+function connectorStandard(type: string): OcpiConnectorStandard | null {
+  switch (connectorFamily(type)) {
+    case "CCS":
+      return /type\s*1|ccs\s*1|j-?1772/i.test(type) ? "IEC_62196_T1_COMBO" : "IEC_62196_T2_COMBO";
+    case "CHADEMO":
+      return "CHADEMO";
+    case "TESLA":
+      return "TESLA_S";
+    case "TYPE_1":
+      return "IEC_62196_T1";
+    case "TYPE_2":
+      return "IEC_62196_T2";
+    default:
+      return null;
+  }
+}
+
+// Single-phase AC tops out around 7.4 kW on a 32 A circuit
+const MAX_SINGLE_PHASE_KW = 7.4;
+const AC_PHASE_VOLTAGE = 230;
+
+/**
+ * Stations only record power, so voltage and amperage are nominal values
+ * consistent with it rather than measured ratings.
+ */
+export function toOcpiConnector(
+  connector: { type: string; powerKW: number },
+  lastUpdated: string
+): OcpiConnector | null {
+  const standard = connectorStandard(connector.type);
+  if (!standard) return null;
+  const watts = Math.max(0, connector.powerKW) * 1000;
+  const isDc =
+    standard === "CHADEMO" ||
+    standard === "IEC_62196_T1_COMBO" ||
+    standard === "IEC_62196_T2_COMBO" ||
+    (standard === "TESLA_S" && connector.powerKW > 22);
+
+  let power_type: OcpiPowerType;
+  let max_voltage: number;
+  let max_amperage: number;
+  if (isDc) {
+    power_type = "DC";
+    max_voltage = connector.powerKW > 200 ? 920 : 500;
+    max_amperage = Math.round(watts / max_voltage);
+  } else if (standard === "IEC_62196_T2" && connector.powerKW > MAX_SINGLE_PHASE_KW) {
+    power_type = "AC_3_PHASE";
+    max_voltage = AC_PHASE_VOLTAGE;
+    max_amperage = Math.round(watts / (3 * AC_PHASE_VOLTAGE));
+  } else {
+    power_type = "AC_1_PHASE";
+    max_voltage = AC_PHASE_VOLTAGE;
+    max_amperage = Math.round(watts / AC_PHASE_VOLTAGE);
+  }
+
+  return {
+    id: "1",
+    standard,
+    // Type 2 AC points are usually bring-your-own-cable; everything else is tethered
+    format: standard === "IEC_62196_T2" ? "SOCKET" : "CABLE",
+    power_type,
+    max_voltage,
+    max_amperage,
+    ...(watts > 0 ? { max_electric_power: Math.round(watts) } : {}),
+    last_updated: lastUpdated,
+  };
+}
+
+function isReportedBroken(type: string, liveStatus: StationLiveStatus): boolean {
+  if (liveStatus.brokenConnectors.length === 0) return liveStatus.status === "BROKEN";
+  const family = connectorFamily(type);
+  return liveStatus.brokenConnectors.some(
+    (broken) => broken.toLowerCase() === type.toLowerCase() || (!!family && connectorFamily(broken) === family)
+  );
+}
+
+/** EVSE status from crowd check-ins, falling back to the feed's availability */
+export function toEvseStatus(type: string, station: Pick<Station, "availability">, liveStatus?: StationLiveStatus): OcpiEvseStatus {
+  if (liveStatus && isReportedBroken(type, liveStatus)) return "OUTOFORDER";
+  switch (liveStatus?.status) {
+    case "WORKING":
+      return "AVAILABLE";
+    case "OCCUPIED":
+      return "CHARGING";
+    case "BLOCKED":
+      return "BLOCKED";
+    default:
+      switch (station.availability) {
+        case "AVAILABLE":
+          return "AVAILABLE";
+        case "OFFLINE":
+          return "INOPERATIVE";
+        default:
+          return "UNKNOWN";
+      }
+  }
+}
+
+export function toOcpiHours(hours: OpeningHours): OcpiHours {
+  if (hours.twentyFourSeven) return { twentyfourseven: true };
+  return {
+    twentyfourseven: false,
+    regular_hours: hours.periods.map((period) => ({
+      weekday: WEEKDAYS.indexOf(period.day) + 1,
+      period_begin: period.open,
+      // OCPI times stop at 23:59
+      period_end: period.close === "24:00" ? "23:59" : period.close,
+    })),
+  };
+}
+
+export function toParkingRestrictions(
+  station: Pick<Station, "parkingRestrictions" | "accessType">
+): OcpiParkingRestriction[] {
+  const restrictions = new Set<OcpiParkingRestriction>();
+  for (const restriction of station.parkingRestrictions) {
+    if (restriction === "EV_ONLY") restrictions.add("EV_ONLY");
+    if (restriction === "CHARGING_ONLY") restrictions.add("PLUGGED");
+    if (restriction === "DISABLED") restrictions.add("DISABLED");
+  }
+  if (station.accessType === "CUSTOMERS_ONLY") restrictions.add("CUSTOMERS");
+  return Array.from(restrictions);
+}
+
+/** When the station or its crowd status last changed; storage pages by the same date */
+export function locationLastUpdated(station: Pick<Station, "updatedAt" | "lastCheckInAt">): Date {
+  return stationLastChangedAt(station);
+}
+
+export const ocpiLocationsQuerySchema = z.object({
+  date_from: z.coerce.date().optional(),
+  date_to: z.coerce.date().optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+export type OcpiLocationsQuery = z.infer<typeof ocpiLocationsQuerySchema>;
+
+export interface OcpiLocationsPage {
+  locations: OcpiLocation[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export function createOcpiLocations(storage: IStorage, options: OcpiLocationsOptions = {}) {
+  const countryCode = (options.countryCode ?? (process.env.OCPI_COUNTRY_CODE || "US")).toUpperCase();
+  const partyId = (options.partyId ?? (process.env.OCPI_PARTY_ID || "EVC")).toUpperCase();
+  const defaultCountry = options.defaultCountry ?? "USA";
+  const maxLimit = options.maxLimit ?? DEFAULT_MAX_LIMIT;
+  const stationStatus = options.stationStatus ?? createStationStatus(storage);
+
+  function toLocation(station: StationWithStatus): OcpiLocation {
+    const lastUpdated = locationLastUpdated(station).toISOString();
+    const coordinates = toGeoLocation(station.coords);
+    const parkingRestrictions = toParkingRestrictions(station);
+    const evses = station.connectors.flatMap((connector, index) => {
+      const ocpiConnector = toOcpiConnector(connector, lastUpdated);
+      if (!ocpiConnector) return [];
+      return [{
+        uid: `${station.id}-${index + 1}`,
+        status: toEvseStatus(connector.type, station, station.liveStatus),
+        connectors: [ocpiConnector],
+        ...(parkingRestrictions.length > 0 ? { parking_restrictions: parkingRestrictions } : {}),
+        coordinates,
+        last_updated: lastUpdated,
+      }];
+    });
+
+    return {
+      country_code: countryCode,
+      party_id: partyId,
+      id: station.id,
+      publish: true,
+      name: station.name,
+      ...splitAddress(station.address, defaultCountry),
+      coordinates,
+      evses,
+      ...(station.provider ? { operator: { name: station.provider } } : {}),
+      // Wi-Fi is the only amenity OCPI has a facility for
+      ...(station.amenities.includes("WIFI") ? { facilities: ["WIFI"] } : {}),
+      time_zone: stationTimeZone(station),
+      ...(station.openingHours ? { opening_times: toOcpiHours(station.openingHours) } : {}),
+      last_updated: lastUpdated,
+    };
+  }
+
+  /**
+   * Verified stations as Locations, oldest change first so paging is stable.
+   * date_from is inclusive and date_to exclusive, as OCPI specifies.
+   */
+  async function listLocations(query: OcpiLocationsQuery): Promise<OcpiLocationsPage> {
+    const limit = Math.min(query.limit ?? maxLimit, maxLimit);
+    const { stations, total } = await storage.getStationsByLastChange({
+      verified: true,
+      changedFrom: query.date_from,
+      changedBefore: query.date_to,
+      offset: query.offset,
+      limit,
+    });
+    const withStatus = await stationStatus.withLiveStatus(stations);
+
+    return {
+      locations: withStatus.map(toLocation),
+      total,
+      offset: query.offset,
+      limit,
+    };
+  }
+
+  /** Unverified and unknown stations both come back undefined */
+  async function getLocation(id: string): Promise<OcpiLocation | undefined> {
+    const station = await storage.getStation(id);
+    if (!station?.verified) return undefined;
+    const [withStatus] = await stationStatus.withLiveStatus([station]);
+    return toLocation(withStatus);
+  }
+
+  return { listLocations, getLocation };
+}
+
+export type OcpiLocations = ReturnType<typeof createOcpiLocations>;
+
+export function ocpiResponse<T>(data: T, statusCode: number = OCPI_STATUS.SUCCESS, message = "Success") {
+  return {
+    ...(data === undefined ? {} : { data }),
+    status_code: statusCode,
+    status_message: message,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function tokenMatches(candidate: string, token: string): boolean {
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Checks the "Authorization: Token ..." header against the configured
+ * credentials tokens (OCPI_TOKENS, comma-separated). OCPI 2.2 sends the token
+ * base64-encoded, earlier clients send it as is; both are accepted. With no
+ * tokens configured the module is closed to everyone.
+ */
+export function createOcpiTokenAuth(tokens: string[] = (process.env.OCPI_TOKENS ?? "").split(",")) {
+  const allowed = tokens.map((token) => token.trim()).filter(Boolean);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const match = /^Token\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+    if (match) {
+      const raw = match[1];
+      const decoded = Buffer.from(raw, "base64").toString("utf8");
+      if (allowed.some((token) => tokenMatches(raw, token) || tokenMatches(decoded, token))) {
+        return next();
+      }
+    }
+    return res.status(401).json(ocpiResponse(undefined, OCPI_STATUS.CLIENT_ERROR, "Invalid or missing token"));
+  };
+}
@@ -1,4 +1,6 @@
-const OCM_BASE_URL = "https://api.openchargemap.io/v3/poi/";
+import type { ChargingDataProvider, ChargingStation } from "./charging-data-provider";
+
+const DEFAULT_OCM_BASE_URL = "https://api.openchargemap.io/v3/poi/";
 
 interface OCMStation {
   ID: number;
@@ -29,102 +31,96 @@ interface OCMStation {
   };
 }
 
-export interface ChargingStation {
-  externalId: string;
-  name: string;
-  coords: { lat: number; lng: number };
-  address: string;
-  connectors: Array<{ type: string; powerKW: number }>;
-  provider?: string;
-  pricing?: string;
-  availability?: string;
+export interface OpenChargeMapProviderOptions {
+  /** Defaults to OPEN_CHARGE_MAP_BASE_URL, then the public OCM API */
+  baseUrl?: string;
+  /** Defaults to OPEN_CHARGE_MAP_API_KEY; OCM works without one at lower rate limits */
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+  /** Abort the request if OCM hasn't answered within this many milliseconds */
+  timeoutMs?: number;
 }
 
-export async function searchChargingStations(params: {
-  latitude?: number;
-  longitude?: number;
-  distance?: number;
-  countryCode?: string;
-  maxResults?: number;
-}): Promise<ChargingStation[]> {
-  const rawApiKey = process.env.OPEN_CHARGE_MAP_API_KEY || "";
-  const OCM_API_KEY = rawApiKey.trim();
+const DEFAULT_TIMEOUT_MS = 8000;
 
-  const queryParams = new URLSearchParams({
-    output: "json",
-    compact: "true",
-    maxresults: (params.maxResults || 50).toString(),
-  });
+function toChargingStation(station: OCMStation): ChargingStation {
+  return {
+    externalId: `ocm-${station.ID}`,
+    name: station.AddressInfo.Title || "Charging Station",
+    coords: {
+      lat: station.AddressInfo.Latitude,
+      lng: station.AddressInfo.Longitude,
+    },
+    address: [
+      station.AddressInfo.AddressLine1,
+      station.AddressInfo.Town,
+      station.AddressInfo.StateOrProvince,
+      station.AddressInfo.Postcode,
+      station.AddressInfo.Country?.Title,
+    ]
+      .filter(Boolean)
+      .join(", "),
+    connectors:
+      station.Connections?.map((conn) => ({
+        type: conn.ConnectionType?.Title || "Unknown",
+        powerKW: conn.PowerKW || 0,
+      })) || [],
+    provider: station.OperatorInfo?.Title,
+    pricing: station.UsageCost,
+    // A missing status says nothing; an explicit non-operational one means the site is down
+    availability: station.StatusType
+      ? station.StatusType.IsOperational ? "AVAILABLE" : "OFFLINE"
+      : "UNKNOWN",
+  };
+}
 
-  if (params.latitude && params.longitude) {
-    queryParams.append("latitude", params.latitude.toString());
-    queryParams.append("longitude", params.longitude.toString());
-    queryParams.append("distance", (params.distance || 25).toString());
-    queryParams.append("distanceunit", "Miles");
-  }
+/** Stations from the Open Charge Map POI API */
+export function createOpenChargeMapProvider(options: OpenChargeMapProviderOptions = {}): ChargingDataProvider {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const baseUrl = options.baseUrl ?? (process.env.OPEN_CHARGE_MAP_BASE_URL?.trim() || DEFAULT_OCM_BASE_URL);
+  const apiKey = (options.apiKey ?? process.env.OPEN_CHARGE_MAP_API_KEY ?? "").trim();
 
-  if (params.countryCode) {
-    queryParams.append("countrycode", params.countryCode);
-  }
+  return {
+    name: "ocm",
+    async searchStations(params) {
+      const queryParams = new URLSearchParams({
+        output: "json",
+        compact: "true",
+        maxresults: (params.maxResults || 50).toString(),
+      });
 
-  // Add API key as query parameter (not header)
-  if (OCM_API_KEY) {
-    queryParams.append("key", OCM_API_KEY);
-  }
+      if (params.latitude && params.longitude) {
+        queryParams.append("latitude", params.latitude.toString());
+        queryParams.append("longitude", params.longitude.toString());
+        queryParams.append("distance", (params.distance || 25).toString());
+        queryParams.append("distanceunit", "Miles");
+      }
 
-  const url = `${OCM_BASE_URL}?${queryParams.toString()}`;
-  
-  console.log("[OCM] API Key present:", !!OCM_API_KEY);
-  console.log("[OCM] API Key (first 10 chars):", OCM_API_KEY.substring(0, 10));
-  console.log("[OCM] API Key raw:", JSON.stringify(rawApiKey));
-  console.log("[OCM] Request URL:", url);
-  
-  try {
-    const headers: Record<string, string> = {
-      "User-Agent": "EVConnect/1.0"
-    };
-    // Only use query parameter for API key, not header
-    console.log("[OCM] Request headers:", headers);
-    
-    const response = await fetch(url, { headers });
+      if (params.countryCode) {
+        queryParams.append("countrycode", params.countryCode);
+      }
 
-    console.log("[OCM] Response status:", response.status, response.statusText);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[OCM] Error response body:", errorText);
-      throw new Error(`OCM API error: ${response.statusText}`);
-    }
+      // OCM takes the key as a query parameter, not a header
+      if (apiKey) {
+        queryParams.append("key", apiKey);
+      }
 
-    const data: OCMStation[] = await response.json();
+      console.log("[OCM] Requesting stations, API key present:", !!apiKey);
 
-    return data.map((station) => ({
-      externalId: `ocm-${station.ID}`,
-      name: station.AddressInfo.Title || "Charging Station",
-      coords: {
-        lat: station.AddressInfo.Latitude,
-        lng: station.AddressInfo.Longitude,
-      },
-      address: [
-        station.AddressInfo.AddressLine1,
-        station.AddressInfo.Town,
-        station.AddressInfo.StateOrProvince,
-        station.AddressInfo.Postcode,
-        station.AddressInfo.Country?.Title,
-      ]
-        .filter(Boolean)
-        .join(", "),
-      connectors:
-        station.Connections?.map((conn) => ({
-          type: conn.ConnectionType?.Title || "Unknown",
-          powerKW: conn.PowerKW || 0,
-        })) || [],
-      provider: station.OperatorInfo?.Title,
-      pricing: station.UsageCost,
-      availability: station.StatusType?.IsOperational ? "AVAILABLE" : "UNKNOWN",
-    }));
-  } catch (error) {
-    console.error("Error fetching from Open Charge Map:", error);
-    throw error;
-  }
+      const response = await fetchImpl(`${baseUrl}?${queryParams.toString()}`, {
+        headers: { "User-Agent": "EVConnect/1.0" },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("[OCM] Error response body:", errorText);
+        throw new Error(`OCM API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data: OCMStation[] = await response.json();
+      return data.map(toChargingStation);
+    },
+  };
 }
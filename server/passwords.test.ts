@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createPasswords } from "./passwords";
+import { comparePassword, hashPassword } from "./auth";
+import { createTestContext, linkToken, TEST_APP_URL } from "./test-helpers";
+
+async function setup(resetTtlMs?: number) {
+  const context = await createTestContext({ email: "member@example.com", passwordHash: await hashPassword("old-password") });
+  const passwords = createPasswords(context.storage, { mailer: context.mailer, appUrl: TEST_APP_URL, resetTtlMs });
+  return { ...context, passwords };
+}
+
+test("changing the password needs the current one and stamps the change", async () => {
+  const { passwords, user } = await setup();
+  assert.deepEqual(await passwords.changePassword(user, "wrong", "new-password"), { error: "Current password is incorrect" });
+
+  const changedAt = new Date();
+  const updated = await passwords.changePassword(user, "old-password", "new-password", changedAt);
+  assert.ok(!("error" in updated));
+  assert.equal(await comparePassword("new-password", updated.passwordHash), true);
+  assert.equal(updated.passwordChangedAt, changedAt);
+});
+
+test("reset links work once", async () => {
+  const { storage, passwords, user, sent } = await setup();
+  await passwords.requestReset("member@example.com");
+  assert.equal(sent.length, 1);
+  assert.match(sent[0].text, /^https:\/\/ev\.example\/reset-password\?token=/m);
+  const token = linkToken(sent[0]);
+
+  const reset = await passwords.resetPassword(token, "new-password");
+  assert.ok(!("error" in reset));
+  assert.equal(await comparePassword("new-password", (await storage.getUser(user.id))!.passwordHash), true);
+  assert.ok("error" in (await passwords.resetPassword(token, "another-password")));
+});
+
+test("only the latest reset link is good", async () => {
+  const { passwords, sent } = await setup();
+  await passwords.requestReset("member@example.com");
+  await passwords.requestReset("member@example.com");
+  assert.ok("error" in (await passwords.resetPassword(linkToken(sent[0]), "new-password")));
+  assert.ok(!("error" in (await passwords.resetPassword(linkToken(sent[1]), "new-password"))));
+});
+
+test("expired and made-up links are refused", async () => {
+  const { passwords, sent } = await setup(-1000);
+  await passwords.requestReset("member@example.com");
+  assert.deepEqual(await passwords.resetPassword(linkToken(sent[0]), "new-password"), { error: "This link is invalid or has expired" });
+  assert.deepEqual(await passwords.resetPassword("made-up", "new-password"), { error: "This link is invalid or has expired" });
+});
+
+test("unknown and suspended addresses get no mail", async () => {
+  const { storage, passwords, user, sent } = await setup();
+  await passwords.requestReset("nobody@example.com");
+  await storage.updateUser(user.id, { status: "SUSPENDED" });
+  await passwords.requestReset("member@example.com");
+  assert.equal(sent.length, 0);
+});
@@ -0,0 +1,85 @@
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { comparePassword, hashPassword } from "./auth";
+import { issueAuthToken, redeemAuthToken } from "./auth-tokens";
+import { createMailer, defaultAppUrl, type Mailer } from "./mailer";
+
+export interface PasswordOptions {
+  mailer?: Mailer;
+  /** Base URL reset links point at */
+  appUrl?: string;
+  resetTtlMs?: number;
+}
+
+const DEFAULT_RESET_TTL_MS = 60 * 60 * 1000;
+const RESETTABLE_STATUSES = ["ACTIVE", "PENDING_VERIFICATION"];
+
+export function createPasswords(storage: IStorage, options: PasswordOptions = {}) {
+  const mailer = options.mailer ?? createMailer();
+  const appUrl = options.appUrl?.replace(/\/+$/, "") ?? defaultAppUrl();
+  const resetTtlMs = options.resetTtlMs ?? DEFAULT_RESET_TTL_MS;
+
+  // Stamping the change lets authenticateToken turn away sessions that
+  // signed in with the old password
+  async function setPassword(
+    userId: string,
+    newPassword: string,
+    changedAt: Date,
+    updates: Partial<Pick<User, "status">> = {}
+  ): Promise<User | undefined> {
+    const passwordHash = await hashPassword(newPassword);
+    return storage.updateUser(userId, { ...updates, passwordHash, passwordChangedAt: changedAt });
+  }
+
+  async function changePassword(
+    user: User,
+    currentPassword: string,
+    newPassword: string,
+    changedAt = new Date()
+  ): Promise<User | { error: string }> {
+    if (!(await comparePassword(currentPassword, user.passwordHash))) {
+      return { error: "Current password is incorrect" };
+    }
+    const updated = await setPassword(user.id, newPassword, changedAt);
+    return updated ?? { error: "User not found" };
+  }
+
+  /** Mails a reset link. Unknown addresses are ignored quietly so the endpoint can't be used to probe for members. */
+  async function requestReset(email: string): Promise<void> {
+    const user = await storage.getUserByEmail(email);
+    if (!user || !RESETTABLE_STATUSES.includes(user.status)) return;
+
+    const token = await issueAuthToken(storage, user.id, "PASSWORD_RESET", resetTtlMs);
+    const minutes = Math.round(resetTtlMs / 60000);
+    await mailer.send({
+      to: user.email,
+      subject: "Reset your EV Connect password",
+      text: [
+        "Someone asked to reset the password for your EV Connect account.",
+        "",
+        `Choose a new password here within the next ${minutes} minutes:`,
+        `${appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        "",
+        "If that wasn't you, ignore this message and your password stays the same.",
+      ].join("\n"),
+    });
+  }
+
+  async function resetPassword(token: string, newPassword: string): Promise<User | { error: string }> {
+    const redeemed = await redeemAuthToken(storage, token, "PASSWORD_RESET");
+    if ("error" in redeemed) return redeemed;
+
+    const user = await storage.getUser(redeemed.userId);
+    if (!user || !RESETTABLE_STATUSES.includes(user.status)) {
+      return { error: "This link is invalid or has expired" };
+    }
+    // Following a mailed link proves the address as well as a verification link would
+    const verified = user.status === "PENDING_VERIFICATION" ? { status: "ACTIVE" } : {};
+    const updated = await setPassword(user.id, newPassword, new Date(), verified);
+    return updated ?? { error: "User not found" };
+  }
+
+  return { changePassword, requestReset, resetPassword };
+}
+
+export type Passwords = ReturnType<typeof createPasswords>;
@@ -0,0 +1,93 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createRateLimiter, DEFAULT_RATE_LIMITS, rateLimitsFromEnv } from "./rate-limit";
+import type { AuthRequest } from "./auth";
+import { fakeResponse } from "./test-helpers";
+
+/** Runs the middleware once; true when the request was let through */
+async function run(middleware: ReturnType<ReturnType<typeof createRateLimiter>["rateLimit"]>, req: Partial<AuthRequest>) {
+  const { res, sent } = fakeResponse();
+  let passed = false;
+  await middleware(req as AuthRequest, res, () => {
+    passed = true;
+  });
+  return { passed, sent };
+}
+
+const limits = {
+  ...DEFAULT_RATE_LIMITS,
+  login: { ip: { limit: 3, windowMs: 60_000 }, account: { limit: 2, windowMs: 60_000 } },
+};
+
+test("requests over the IP limit get a 429 with Retry-After", async () => {
+  const { rateLimit } = createRateLimiter(new MemStorage(), { limits });
+  const middleware = rateLimit("login");
+  for (let i = 0; i < 3; i++) assert.equal((await run(middleware, { ip: "10.0.0.1" })).passed, true);
+
+  const blocked = await run(middleware, { ip: "10.0.0.1" });
+  assert.equal(blocked.passed, false);
+  assert.equal(blocked.sent.status, 429);
+  assert.equal(blocked.sent.body.code, "RATE_LIMITED");
+  assert.ok(Number(blocked.sent.headers["Retry-After"]) > 0);
+
+  // Other clients have their own bucket
+  assert.equal((await run(middleware, { ip: "10.0.0.2" })).passed, true);
+});
+
+test("the account bucket catches one account being tried from many IPs", async () => {
+  const { rateLimit } = createRateLimiter(new MemStorage(), { limits });
+  const middleware = rateLimit("login", { accountKey: (req) => req.body?.email });
+  assert.equal((await run(middleware, { ip: "10.0.0.1", body: { email: "a@example.com" } })).passed, true);
+  assert.equal((await run(middleware, { ip: "10.0.0.2", body: { email: "a@example.com" } })).passed, true);
+  assert.equal((await run(middleware, { ip: "10.0.0.3", body: { email: "a@example.com" } })).passed, false);
+  assert.equal((await run(middleware, { ip: "10.0.0.4", body: { email: "b@example.com" } })).passed, true);
+});
+
+test("resetting a bucket lets the client straight back in", async () => {
+  const { rateLimit, reset } = createRateLimiter(new MemStorage(), { limits });
+  const middleware = rateLimit("login", { accountKey: (req) => req.body?.email });
+  const from = (ip: string) => ({ ip, body: { email: "a@example.com" } });
+  await run(middleware, from("10.0.0.1"));
+  await run(middleware, from("10.0.0.2"));
+  assert.equal((await run(middleware, from("10.0.0.3"))).passed, false);
+  await reset("login", "account", "a@example.com");
+  assert.equal((await run(middleware, from("10.0.0.4"))).passed, true);
+});
+
+test("a storage failure lets the request through", async () => {
+  const storage = new MemStorage();
+  storage.hitRateLimitBucket = async () => {
+    throw new Error("storage down");
+  };
+  const { rateLimit } = createRateLimiter(storage, { limits });
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    assert.equal((await run(rateLimit("login"), { ip: "10.0.0.1" })).passed, true);
+  } finally {
+    console.error = originalError;
+  }
+});
+
+afterEach(() => {
+  delete process.env.RATE_LIMITS;
+});
+
+test("RATE_LIMITS overrides single groups and ignores invalid JSON", () => {
+  process.env.RATE_LIMITS = JSON.stringify({ register: { ip: { limit: 50, windowMs: 1000 } }, login: { account: null } });
+  const parsed = rateLimitsFromEnv();
+  assert.deepEqual(parsed.register.ip, { limit: 50, windowMs: 1000 });
+  assert.equal(parsed.login.account, null);
+  assert.deepEqual(parsed.login.ip, DEFAULT_RATE_LIMITS.login.ip);
+  assert.deepEqual(parsed.content, DEFAULT_RATE_LIMITS.content);
+
+  process.env.RATE_LIMITS = "{not json";
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    assert.equal(rateLimitsFromEnv(), DEFAULT_RATE_LIMITS);
+  } finally {
+    console.error = originalError;
+  }
+});
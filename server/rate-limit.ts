@@ -0,0 +1,128 @@
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import type { AuthRequest } from "./auth";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const bucketLimitSchema = z.object({
+  limit: z.number().int().positive(),
+  windowMs: z.number().int().positive(),
+});
+
+// Each group counts requests per client IP and per account separately; null turns one off
+const groupLimitsSchema = z.object({
+  ip: bucketLimitSchema.nullable().optional(),
+  account: bucketLimitSchema.nullable().optional(),
+});
+
+export type BucketLimit = z.infer<typeof bucketLimitSchema>;
+export type GroupLimits = z.infer<typeof groupLimitsSchema>;
+
+export const RATE_LIMIT_GROUPS = ["login", "register", "accountRecovery", "content", "messages", "reports", "search"] as const;
+export type RateLimitGroup = typeof RATE_LIMIT_GROUPS[number];
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitGroup, GroupLimits> = {
+  // Account here is the email being signed in to, so guessing at one address is slowed from any IP
+  login: { ip: { limit: 30, windowMs: 15 * MINUTE_MS }, account: { limit: 10, windowMs: 15 * MINUTE_MS } },
+  register: { ip: { limit: 5, windowMs: HOUR_MS } },
+  accountRecovery: { ip: { limit: 10, windowMs: HOUR_MS } },
+  content: { ip: { limit: 60, windowMs: MINUTE_MS }, account: { limit: 20, windowMs: MINUTE_MS } },
+  messages: { ip: { limit: 60, windowMs: MINUTE_MS }, account: { limit: 30, windowMs: MINUTE_MS } },
+  reports: { ip: { limit: 20, windowMs: HOUR_MS }, account: { limit: 10, windowMs: HOUR_MS } },
+  // Expensive lookups such as trip planning, which runs many corridor queries per call
+  search: { ip: { limit: 30, windowMs: MINUTE_MS }, account: { limit: 20, windowMs: MINUTE_MS } },
+};
+
+const rateLimitOverridesSchema = z.record(z.enum(RATE_LIMIT_GROUPS), groupLimitsSchema);
+
+/** Defaults with any overrides from RATE_LIMITS (JSON keyed by group) applied */
+export function rateLimitsFromEnv(): Record<RateLimitGroup, GroupLimits> {
+  const raw = process.env.RATE_LIMITS?.trim();
+  if (!raw) return DEFAULT_RATE_LIMITS;
+  try {
+    const overrides = rateLimitOverridesSchema.parse(JSON.parse(raw));
+    const limits = { ...DEFAULT_RATE_LIMITS };
+    for (const group of RATE_LIMIT_GROUPS) {
+      if (overrides[group]) limits[group] = { ...limits[group], ...overrides[group] };
+    }
+    return limits;
+  } catch (error) {
+    console.error("[RateLimit] Ignoring invalid RATE_LIMITS:", error);
+    return DEFAULT_RATE_LIMITS;
+  }
+}
+
+/** Sends the 429 every limit uses, with Retry-After in whole seconds */
+export function sendTooManyRequests(res: Response, retryAt: Date, error = "Too many requests. Please try again later.") {
+  const retryAfterSeconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({ error, code: "RATE_LIMITED", retryAfterSeconds });
+}
+
+export interface RateLimitOptions {
+  /** Which account a request counts against; defaults to the signed-in member */
+  accountKey?: (req: AuthRequest) => string | undefined;
+}
+
+export interface RateLimiterOptions {
+  limits?: Record<RateLimitGroup, GroupLimits>;
+}
+
+/**
+ * Express middleware factory for rate limits backed by storage, so counts
+ * survive restarts and are shared between instances. Put it after
+ * authenticateToken when the group counts per member.
+ */
+export function createRateLimiter(storage: IStorage, options: RateLimiterOptions = {}) {
+  const limits = options.limits ?? rateLimitsFromEnv();
+
+  /** Counts a hit and returns when the client may retry, or null while under the limit */
+  async function hit(key: string, bucket: BucketLimit): Promise<Date | null> {
+    const counted = await storage.hitRateLimitBucket(key, bucket.windowMs);
+    return counted.count > bucket.limit ? counted.resetAt : null;
+  }
+
+  function rateLimit(group: RateLimitGroup, rateLimitOptions: RateLimitOptions = {}) {
+    const { ip, account } = limits[group];
+    const accountKey = rateLimitOptions.accountKey ?? ((req: AuthRequest) => req.user?.id);
+
+    return async function rateLimitMiddleware(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+      try {
+        const checks: Array<Promise<Date | null>> = [];
+        if (ip) checks.push(hit(`${group}:ip:${req.ip}`, ip));
+        const accountId = account ? accountKey(req) : undefined;
+        if (account && accountId) checks.push(hit(`${group}:account:${accountId}`, account));
+
+        const blockedUntil = (await Promise.all(checks))
+          .filter((retryAt): retryAt is Date => retryAt !== null)
+          .sort((a, b) => b.getTime() - a.getTime())[0];
+        if (blockedUntil) {
+          console.log(`[RateLimit] ${group} limit hit by ${accountId ?? req.ip}`);
+          sendTooManyRequests(res, blockedUntil);
+          return;
+        }
+      } catch (error) {
+        // A storage hiccup shouldn't take the site down with it
+        console.error("[RateLimit] Error checking limit, letting request through:", error);
+      }
+      next();
+    };
+  }
+
+  /** Forgets a client's count, e.g. an account's login bucket once it signs in */
+  async function reset(group: RateLimitGroup, dimension: "ip" | "account", id: string): Promise<void> {
+    await storage.clearRateLimitBucket(`${group}:${dimension}:${id}`);
+  }
+
+  return { rateLimit, reset };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+/** The normalised email a login or reset request is for */
+export function emailAccountKey(req: Request): string | undefined {
+  const email = req.body?.email;
+  return typeof email === "string" ? email.trim().toLowerCase() : undefined;
+}
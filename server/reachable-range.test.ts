@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { reachableRangeQuerySchema } from "@shared/reachable-range";
+import { findVehicleSpec } from "@shared/vehicles";
+import { MemStorage } from "./storage";
+import { createReachableRange } from "./reachable-range";
+import { stationInput } from "./test-helpers";
+
+const BERLIN = { lat: 52.52, lng: 13.405 };
+
+async function setup() {
+  const storage = new MemStorage();
+  const range = createReachableRange(storage);
+  const potsdam = await storage.createStation(stationInput("Potsdam", 52.4, 13.06, { availability: "AVAILABLE" }));
+  const chademo = await storage.createStation(
+    stationInput("Spandau", 52.53, 13.2, { connectors: [{ type: "CHAdeMO", powerKW: 50 }] })
+  );
+  const hamburg = await storage.createStation(stationInput("Hamburg", 53.55, 9.99));
+  return { storage, range, potsdam, chademo, hamburg };
+}
+
+function query(values: Record<string, unknown>) {
+  return reachableRangeQuerySchema.parse({ ...BERLIN, ...values });
+}
+
+test("only stations inside the safe radius are returned, with the charge left on arrival", async () => {
+  const { range, potsdam, chademo } = await setup();
+  const result = await range.findReachableStations(query({ soc: 50, batteryKWh: 60 }));
+  assert.ok(!("error" in result));
+  assert.equal(result.radiusKm, 102.6);
+  // Potsdam reports working, so it's first despite being further away
+  assert.deepEqual(result.stations.map((station) => station.id), [potsdam.id, chademo.id]);
+  const [first] = result.stations;
+  assert.equal(first.status, "UP");
+  assert.ok(first.arrivalSocPercent < 45 && first.arrivalSocPercent > 35);
+  assert.equal(result.vehicle, undefined);
+});
+
+test("a known car only counts stations it can plug into, at the power it can draw", async () => {
+  const { range, chademo } = await setup();
+  const ariya = findVehicleSpec({ brand: "Nissan", model: "Ariya" })!;
+  const result = await range.findReachableStations(query({ soc: 80 }), ariya);
+  assert.ok(!("error" in result));
+  assert.equal(result.batteryKWh, 87);
+  assert.deepEqual(result.vehicle, { brand: "Nissan", model: "Ariya" });
+  assert.ok(result.stations.every((station) => station.id !== chademo.id));
+  assert.ok(result.stations.every((station) => station.effectivePowerKW === 130));
+});
+
+test("without a battery size or a car on the profile there's nothing to work from", async () => {
+  const { range } = await setup();
+  assert.deepEqual(await range.findReachableStations(query({ soc: 80 })), {
+    error: "batteryKWh is required without a vehicle on your profile",
+  });
+});
+
+test("a battery already at the reserve reaches nothing", async () => {
+  const { range } = await setup();
+  const result = await range.findReachableStations(query({ soc: 10, batteryKWh: 60 }));
+  assert.ok(!("error" in result));
+  assert.equal(result.radiusKm, 0);
+  assert.deepEqual(result.stations, []);
+});
@@ -0,0 +1,99 @@
+import { haversineDistanceKm } from "@shared/geo";
+import {
+  arrivalSocPercent,
+  compareReachableStations,
+  estimateRange,
+  reachableStationStatus,
+  type ReachableRange,
+  type ReachableRangeQuery,
+  type ReachableStation,
+} from "@shared/reachable-range";
+import { toStationFeatureFilters } from "@shared/stations";
+import { connectorChargingPower, type VehicleSpec } from "@shared/vehicles";
+import type { IStorage } from "./storage";
+import { createStationStatus, type StationStatus } from "./station-status";
+
+export interface ReachableRangeOptions {
+  stationStatus?: StationStatus;
+}
+
+// Everything inside the circle is loaded and ranked before the response is
+// cut down, so a fast charger near the edge isn't lost to nearer slow ones
+const CANDIDATE_LIMIT = 2000;
+
+function bestPowerKW(connectors: Array<{ type: string; powerKW: number }>, vehicle?: VehicleSpec): number | undefined {
+  let best: number | undefined;
+  for (const connector of connectors) {
+    const power = connectorChargingPower(vehicle, connector);
+    if (power && (best === undefined || power.effectivePowerKW > best)) best = power.effectivePowerKW;
+  }
+  return best;
+}
+
+/**
+ * Stations a car can reach on the charge it has, worked out from stored
+ * stations only: straight-line distance stretched to approximate roads, with
+ * no routing service involved.
+ */
+export function createReachableRange(storage: IStorage, options: ReachableRangeOptions = {}) {
+  const stationStatus = options.stationStatus ?? createStationStatus(storage);
+
+  async function findReachableStations(
+    query: ReachableRangeQuery,
+    memberVehicle?: VehicleSpec
+  ): Promise<ReachableRange | { error: string }> {
+    const batteryKWh = query.batteryKWh ?? memberVehicle?.batteryKWh;
+    if (!batteryKWh) {
+      return { error: "batteryKWh is required without a vehicle on your profile" };
+    }
+    const vehicle = memberVehicle && { ...memberVehicle, batteryKWh };
+    const center = { lat: query.lat, lng: query.lng };
+    const input = {
+      batteryKWh,
+      socPercent: query.soc,
+      reservePercent: query.reserve,
+      consumptionKWhPer100Km: query.consumption,
+    };
+    const range = estimateRange(input);
+
+    const filters = toStationFeatureFilters(query);
+    const candidates = range.radiusKm > 0
+      ? await storage.getStations({
+          ...filters,
+          // A known car only counts stations it can plug into
+          connectorTypes: filters.connectorTypes ?? vehicle?.inlets,
+          near: { ...center, radiusKm: range.radiusKm },
+          limit: CANDIDATE_LIMIT,
+        })
+      : [];
+
+    const reachable: ReachableStation[] = [];
+    for (const station of await stationStatus.withLiveStatus(candidates)) {
+      const effectivePowerKW = bestPowerKW(station.connectors, vehicle);
+      if (vehicle && effectivePowerKW === undefined) continue;
+      const distanceKm = station.distanceKm ?? haversineDistanceKm(center, station.coords);
+      reachable.push({
+        ...station,
+        distanceKm,
+        arrivalSocPercent: arrivalSocPercent(distanceKm, input),
+        effectivePowerKW: effectivePowerKW ?? 0,
+        status: reachableStationStatus(station),
+      });
+    }
+
+    return {
+      ...range,
+      center,
+      socPercent: query.soc,
+      reservePercent: query.reserve,
+      batteryKWh,
+      consumptionKWhPer100Km: query.consumption,
+      vehicle: vehicle && { brand: vehicle.brand, model: vehicle.model },
+      stations: reachable.sort(compareReachableStations).slice(0, query.limit),
+    };
+  }
+
+  return { findReachableStations };
+}
+
+export type ReachableRangeFinder = ReturnType<typeof createReachableRange>;
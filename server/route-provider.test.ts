@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { haversineDistanceKm } from "@shared/geo";
+import { createOsrmRouteProvider, straightLineRouteProvider, withStraightLineFallback } from "./route-provider";
+
+const origin = { lat: 52.52, lng: 13.405 };
+const destination = { lat: 52.4, lng: 13.06 };
+
+function fakeFetch(respond: (url: string) => Response | Promise<Response>) {
+  const urls: string[] = [];
+  const fetchImpl = (async (input: string | URL | Request) => {
+    urls.push(String(input));
+    return respond(String(input));
+  }) as typeof fetch;
+  return { urls, fetchImpl };
+}
+
+test("the straight line runs between the two points in short segments", async () => {
+  const route = await straightLineRouteProvider.getRoute(origin, destination);
+  assert.equal(route.source, "straight-line");
+  assert.ok(haversineDistanceKm(route.points[0], origin) < 0.001);
+  assert.ok(haversineDistanceKm(route.points[route.points.length - 1], destination) < 0.001);
+  for (let i = 1; i < route.points.length; i++) {
+    assert.ok(haversineDistanceKm(route.points[i - 1], route.points[i]) <= 10);
+  }
+});
+
+test("OSRM geometry is read as lng,lat pairs", async () => {
+  const { urls, fetchImpl } = fakeFetch(() => Response.json({
+    code: "Ok",
+    routes: [{ geometry: { coordinates: [[13.405, 52.52], [13.2, 52.45], [13.06, 52.4]] } }],
+  }));
+  const provider = createOsrmRouteProvider({ baseUrl: "https://osrm.example/", fetchImpl });
+
+  const route = await provider.getRoute(origin, destination);
+
+  assert.equal(urls[0], "https://osrm.example/route/v1/driving/13.405,52.52;13.06,52.4?overview=full&geometries=geojson");
+  assert.deepEqual(route, {
+    source: "osrm",
+    points: [{ lat: 52.52, lng: 13.405 }, { lat: 52.45, lng: 13.2 }, { lat: 52.4, lng: 13.06 }],
+  });
+});
+
+test("router errors and empty answers fall back to the straight line", async (t) => {
+  t.mock.method(console, "error", () => {});
+  const answers = [
+    () => new Response("busy", { status: 503, statusText: "Service Unavailable" }),
+    () => Response.json({ code: "NoRoute", routes: [] }),
+    () => Promise.reject(new TypeError("fetch failed")),
+  ];
+
+  for (const answer of answers) {
+    const { urls, fetchImpl } = fakeFetch(answer);
+    const provider = withStraightLineFallback(createOsrmRouteProvider({ baseUrl: "https://osrm.example", fetchImpl }));
+    const route = await provider.getRoute(origin, destination);
+    assert.equal(urls.length, 1);
+    assert.equal(route.source, "straight-line");
+    assert.ok(haversineDistanceKm(route.points[0], origin) < 0.001);
+  }
+});
+
+test("the straight line isn't wrapped in a fallback to itself", () => {
+  assert.equal(withStraightLineFallback(straightLineRouteProvider), straightLineRouteProvider);
+});
@@ -0,0 +1,89 @@
+import { haversineDistanceKm, interpolateGreatCircle, type LatLng } from "@shared/geo";
+
+export interface RouteGeometry {
+  points: LatLng[];
+  /** Name of the provider that produced the geometry */
+  source: string;
+}
+
+export interface RouteProvider {
+  name: string;
+  getRoute(origin: LatLng, destination: LatLng): Promise<RouteGeometry>;
+}
+
+// Keeps straight-line segments short enough for projectOntoPolyline's flat approximation
+const STRAIGHT_LINE_SEGMENT_KM = 10;
+
+/** Great-circle line between the two points. Needs no network, so it's always available. */
+export const straightLineRouteProvider: RouteProvider = {
+  name: "straight-line",
+  async getRoute(origin, destination) {
+    const segments = Math.max(1, Math.ceil(haversineDistanceKm(origin, destination) / STRAIGHT_LINE_SEGMENT_KM));
+    return { points: interpolateGreatCircle(origin, destination, segments), source: "straight-line" };
+  },
+};
+
+export interface OsrmRouteProviderOptions {
+  /** e.g. https://router.project-osrm.org */
+  baseUrl: string;
+  profile?: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+
+/** Driving geometry from an OSRM-compatible routing server */
+export function createOsrmRouteProvider(options: OsrmRouteProviderOptions): RouteProvider {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const profile = options.profile ?? "driving";
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "osrm",
+    async getRoute(origin, destination) {
+      const url =
+        `${baseUrl}/route/v1/${profile}/${origin.lng},${origin.lat};${destination.lng},${destination.lat}` +
+        "?overview=full&geometries=geojson";
+      const response = await fetchImpl(url, {
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Routing API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const coordinates: Array<[number, number]> | undefined = data?.routes?.[0]?.geometry?.coordinates;
+      if (data?.code !== "Ok" || !coordinates || coordinates.length < 2) {
+        throw new Error(`Routing API returned no route (${data?.code ?? "unknown"})`);
+      }
+      return { points: coordinates.map(([lng, lat]) => ({ lat, lng })), source: "osrm" };
+    },
+  };
+}
+
+/**
+ * Wraps a provider so a failing or unreachable router degrades to a straight
+ * line instead of failing the whole plan.
+ */
+export function withStraightLineFallback(provider: RouteProvider): RouteProvider {
+  if (provider === straightLineRouteProvider) return provider;
+  return {
+    name: provider.name,
+    async getRoute(origin, destination) {
+      try {
+        return await provider.getRoute(origin, destination);
+      } catch (error) {
+        console.error(`Route provider ${provider.name} failed, using straight line:`, error);
+        return straightLineRouteProvider.getRoute(origin, destination);
+      }
+    },
+  };
+}
+
+/** Uses ROUTING_API_URL (an OSRM server) when configured, otherwise straight lines */
+export function createDefaultRouteProvider(): RouteProvider {
+  const baseUrl = process.env.ROUTING_API_URL?.trim();
+  if (!baseUrl) return straightLineRouteProvider;
+  return withStraightLineFallback(createOsrmRouteProvider({ baseUrl }));
+}
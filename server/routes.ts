@@ -1,15 +1,12 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import jwt from "jsonwebtoken";
-import { type IStorage } from "./storage";
+import { type IStorage, type StationBounds, type StationFilters } from "./storage";
 import {
   hashPassword,
   comparePassword,
-  generateToken,
   createAuthenticateToken,
   createEnsureNotBlocked,
-  requireModerator,
-  requireAdmin,
+  createRoleGuards,
   type AuthRequest
 } from "./auth";
 import {
@@ -28,14 +25,123 @@ import {
   insertReportSchema,
   insertMessageSchema,
   insertConversationSchema,
+  DEFAULT_NOTIFICATION_PREFS,
+  type Station,
+  type User,
 } from "@shared/schema";
 import { z } from "zod";
-import { searchChargingStations } from "./open-charge-map";
+import { createStationSync } from "./station-sync";
+import { bearerToken, createAccessTokens } from "./access-tokens";
+import { createRateLimiter, emailAccountKey, sendTooManyRequests } from "./rate-limit";
+import { createLoginLockout } from "./login-lockout";
+import { createAccessTokenSchema } from "@shared/access-tokens";
+import { DELETED_USER_STATUS, requestAccountDeletionSchema } from "@shared/account-deletion";
+import { createAccountDeletion } from "./account-deletion";
+import { PersistentSessionStore } from "./session-store";
+import { listSessions, recordSessionDevice, revokeSession } from "./sessions";
+import {
+  clusterCellDegrees,
+  matchesStationFilters,
+  stationFilterQuerySchema,
+  toStationFeatureFilters,
+} from "@shared/stations";
+import { resolveVehicle } from "@shared/vehicles";
+import { saveTripSchema, tripPlanRequestSchema, type TripPlanRequest } from "@shared/trips";
+import { createTripPlanner, formatTripSummary } from "./trip-planner";
+import { createReachableRange } from "./reachable-range";
+import { createStationStatus } from "./station-status";
+import { createStationWatch } from "./station-watch";
+import { createStationModeration } from "./station-moderation";
+import { createStationEdits } from "./station-edits";
+import { createStationImporter, stationImportRequestSchema } from "./station-import";
+import {
+  createOcpiLocations,
+  createOcpiTokenAuth,
+  ocpiLocationsQuerySchema,
+  ocpiResponse,
+  OCPI_STATUS,
+  OCPI_VERSION,
+} from "./ocpi";
+import { toStationsGeoJson, toStationsGpx, toStationsKml } from "./station-formats";
+import { stationEditInputSchema } from "@shared/station-edits";
+import {
+  chargingSessionInputSchema,
+  summarizeChargingSessions,
+  toChargingSessionsCsv,
+  type ChargingSessionInput,
+} from "@shared/charging-sessions";
+import { stationCheckInInputSchema } from "@shared/check-ins";
+import { compareByRating, stationReviewInputSchema, STATION_SORTS } from "@shared/reviews";
+import { compareByPrice, costEstimateQuerySchema, defaultEstimateKWh, estimateStationCost } from "@shared/tariffs";
+import { bookmarkWatchSchema, DEFAULT_BOOKMARK_WATCH } from "@shared/station-watch";
+import { reachableRangeQuerySchema } from "@shared/reachable-range";
+import {
+  changePasswordSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  USER_STATUSES,
+  verificationGraceEndsAt,
+  verifyEmailSchema,
+  disableTwoFactorSchema,
+  enableTwoFactorSchema,
+  securitySettingsSchema,
+  SECURITY_SETTINGS_KEY,
+  twoFactorLoginSchema,
+} from "@shared/account";
+import { createPasswords } from "./passwords";
+import { createEmailVerification, emailVerificationGraceMs } from "./email-verification";
+import { createTwoFactor } from "./two-factor";
+
+// A password-checked login waits this long for its second factor
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_LOGIN_MAX_ATTEMPTS = 5;
 
 export async function registerRoutes(app: Express, storage: IStorage): Promise<Server> {
   // Create auth middleware with storage instance
   const authenticateToken = createAuthenticateToken(storage);
+  // For the few routes a member still needs before verifying their email
+  const authenticateUnverified = createAuthenticateToken(storage, { allowUnverified: true });
   const ensureNotBlocked = createEnsureNotBlocked(storage);
+  const stationSync = createStationSync(storage);
+  const tripPlanner = createTripPlanner(storage);
+  const stationStatus = createStationStatus(storage);
+  const stationModeration = createStationModeration(storage);
+  const stationEdits = createStationEdits(storage);
+  const passwords = createPasswords(storage);
+  const emailVerification = createEmailVerification(storage);
+  const twoFactor = createTwoFactor(storage);
+  const accessTokens = createAccessTokens(storage);
+  const { rateLimit, reset: resetRateLimit } = createRateLimiter(storage);
+  const loginLockout = createLoginLockout(storage);
+  const accountDeletion = createAccountDeletion(storage);
+  accountDeletion.start();
+  const { requireModerator, requireAdmin } = createRoleGuards(twoFactor);
+  // index.ts installs the persistent store, which adds the per-member queries
+  const sessionStoreOf = (req: Request): PersistentSessionStore => {
+    const store: unknown = req.sessionStore;
+    if (!(store instanceof PersistentSessionStore)) {
+      throw new Error("Session store can't list sessions by member");
+    }
+    return store;
+  };
+
+  // What the client needs to know about the signed-in member
+  const sessionUser = (user: User) => ({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    status: user.status,
+    verificationGraceEndsAt: user.status === "PENDING_VERIFICATION"
+      ? verificationGraceEndsAt(user, emailVerificationGraceMs())
+      : undefined,
+    deletionScheduledFor: user.deletionScheduledFor ?? undefined,
+  });
+  const stationImporter = createStationImporter(storage);
+  const ocpiLocations = createOcpiLocations(storage, { stationStatus });
+  const authenticateOcpi = createOcpiTokenAuth();
+  const stationWatch = createStationWatch(storage, { stationStatus });
+  stationWatch.start();
+  const reachableRange = createReachableRange(storage, { stationStatus });
   type SearchResultPayload = {
     communities: Array<{ id: string; name: string; slug?: string | null; description?: string | null; membersCount?: number | null }>;
     posts: Array<{ id: string; title: string | null; text: string; communityId: string | null }>;
@@ -182,7 +288,7 @@ export async function registerRoutes(app: Express, storage: IStorage): Promise<S
 // In routes.ts (add inside registerRoutes)
 
 // GET /api/auth/me - Fetch current user/profile from session
-app.get("/api/auth/me", authenticateToken, async (req: AuthRequest, res) => {
+app.get("/api/auth/me", authenticateUnverified, async (req: AuthRequest, res) => {
   try {
     const user = await storage.getUser(req.user!.id);
     if (!user) {
@@ -190,7 +296,7 @@ app.get("/api/auth/me", authenticateToken, async (req: AuthRequest, res) => {
     }
     const profile = await storage.getProfile(req.user!.id); // Optional: Fetch profile
     return res.json({ 
-      user: { id: user.id, email: user.email, role: user.role },
+      user: sessionUser(user),
       profile // Include if your frontend expects it
     });
   } catch (error) {
@@ -215,7 +321,7 @@ app.post("/api/auth/logout", (req, res) => {
   });
 });
 
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", rateLimit("register"), async (req, res) => {
     try {
       const { email, password, displayName } = z.object({
         email: z.string().email(),
@@ -233,7 +339,7 @@ app.post("/api/auth/logout", (req, res) => {
         email,
         passwordHash,
         role: "USER",
-        status: "ACTIVE",
+        status: "PENDING_VERIFICATION",
       });
 
       const profile = await storage.createProfile({
@@ -241,8 +347,17 @@ app.post("/api/auth/logout", (req, res) => {
         displayName,
       });
 
+      try {
+        await emailVerification.sendVerification(user);
+      } catch (error) {
+        // The account stands; the member can ask for another link
+        console.error("[Register] Error sending verification email:", error);
+      }
+
       // Store user ID in session
       req.session.userId = user.id;
+      req.session.authenticatedAt = Date.now();
+      recordSessionDevice(req);
       console.log("[Register] Session created for user:", user.id, user.email);
       console.log("[Register] Session ID:", req.sessionID);
       
@@ -260,7 +375,7 @@ app.post("/api/auth/logout", (req, res) => {
       });
       
       return res.json({ 
-        user: { id: user.id, email: user.email, role: user.role },
+        user: sessionUser(user),
         profile
       });
     } catch (error) {
@@ -272,7 +387,7 @@ app.post("/api/auth/logout", (req, res) => {
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit("login", { accountKey: emailAccountKey }), async (req, res) => {
     try {
       const { email, password } = z.object({
         email: z.string().email(),
@@ -287,23 +402,51 @@ app.post("/api/auth/logout", (req, res) => {
       }
 
       console.log("[Login] User found:", user.id, user.email, user.role);
-      console.log("[Login] Password hash:", user.passwordHash);
-      console.log("[Login] Provided password:", password);
-      
+
+      // Checked before the password so a locked account gives nothing away about guesses
+      const lockedUntil = loginLockout.lockedUntil(user);
+      if (lockedUntil) {
+        console.log("[Login] Account locked until", lockedUntil.toISOString(), "for:", email);
+        sendTooManyRequests(res, lockedUntil, "Too many failed sign-in attempts. Try again later or reset your password.");
+        return;
+      }
+
       const isValid = await comparePassword(password, user.passwordHash);
       console.log("[Login] Password valid:", isValid);
       
       if (!isValid) {
         console.log("[Login] Invalid password for user:", email);
+        await loginLockout.recordFailure(user);
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      if (user.status !== "ACTIVE") {
+      // Unverified members can sign in; authenticateToken limits what they can do
+      if (user.status !== "ACTIVE" && user.status !== "PENDING_VERIFICATION") {
         return res.status(403).json({ error: "Account is not active" });
       }
 
+      if (await twoFactor.isEnabled(user.id)) {
+        // The session only counts as signed in once /api/auth/login/2fa accepts a code
+        delete req.session.userId;
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        await new Promise<void>((resolve, reject) => {
+          req.session.save((err) => (err ? reject(err) : resolve()));
+        });
+        return res.json({ twoFactorRequired: true });
+      }
+
+      // With 2FA on, the lockout and account bucket only clear once the code is accepted too
+      await loginLockout.recordSuccess(user);
+      await resetRateLimit("login", "account", emailAccountKey(req)!);
+
       // Store user ID in session
       req.session.userId = user.id;
+      req.session.authenticatedAt = Date.now();
+      recordSessionDevice(req);
       console.log("[Login] Session created for user:", user.id, user.email);
       console.log("[Login] Session ID:", req.sessionID);
       
@@ -321,7 +464,7 @@ app.post("/api/auth/logout", (req, res) => {
       });
 
       return res.json({ 
-        user: { id: user.id, email: user.email, role: user.role }
+        user: sessionUser(user)
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -342,14 +485,456 @@ app.post("/api/auth/logout", (req, res) => {
     });
   });
 
-  app.get("/api/auth/me", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/auth/me", authenticateUnverified, async (req: AuthRequest, res) => {
     const profile = await storage.getProfile(req.user!.id);
     return res.json({
-      user: { id: req.user!.id, email: req.user!.email, role: req.user!.role },
+      user: sessionUser(req.user!),
       profile,
     });
   });
 
+  app.post("/api/auth/password", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const changedAt = new Date();
+      const result = await passwords.changePassword(req.user!, currentPassword, newPassword, changedAt);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "PASSWORD_CHANGED",
+        actorId: req.user!.id,
+        targetType: "USER",
+        targetId: req.user!.id,
+      });
+
+      // Other sessions signed in before the change are rejected from now on; this one carries on
+      req.session.authenticatedAt = changedAt.getTime();
+      await new Promise<void>((resolve, reject) => {
+        req.session.save((err) => (err ? reject(err) : resolve()));
+      });
+      await sessionStoreOf(req).destroyUserSessions(req.user!.id, req.sessionID);
+
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error changing password:", error);
+      return res.status(500).json({ error: "Failed to change password" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/request", rateLimit("accountRecovery"), async (req, res) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      try {
+        await passwords.requestReset(email);
+      } catch (error) {
+        // Same answer either way so the response doesn't reveal who has an account
+        console.error("[Auth] Error sending password reset:", error);
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", rateLimit("accountRecovery"), async (req, res) => {
+    try {
+      const { token, newPassword } = passwordResetSchema.parse(req.body);
+      const result = await passwords.resetPassword(token, newPassword);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "PASSWORD_RESET",
+        actorId: result.id,
+        targetType: "USER",
+        targetId: result.id,
+      });
+      await sessionStoreOf(req).destroyUserSessions(result.id);
+      // Proving control of the email is enough to lift a lockout
+      await loginLockout.unlock(result.id);
+
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error resetting password:", error);
+      return res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  // Codes count against the account as well as the IP, so rotating addresses doesn't help guess them
+  const pendingTwoFactorAccountKey = (req: Request) => req.session.pendingTwoFactor?.userId;
+
+  app.post("/api/auth/login/2fa", rateLimit("login", { accountKey: pendingTwoFactorAccountKey }), async (req, res) => {
+    try {
+      const input = twoFactorLoginSchema.parse(req.body);
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Sign in again to continue" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Sign in again to continue" });
+      }
+
+      const lockedUntil = loginLockout.lockedUntil(user);
+      if (lockedUntil) {
+        delete req.session.pendingTwoFactor;
+        sendTooManyRequests(res, lockedUntil, "Too many failed sign-in attempts. Try again later or reset your password.");
+        return;
+      }
+
+      const result = await twoFactor.verifyLogin(user.id, input);
+      if ("error" in result) {
+        // Wrong codes feed the same lockout as wrong passwords
+        await loginLockout.recordFailure(user);
+        pending.attempts += 1;
+        if (pending.attempts >= TWO_FACTOR_LOGIN_MAX_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ error: "Too many wrong codes. Sign in again." });
+        }
+        return res.status(401).json({ error: result.error });
+      }
+
+      await loginLockout.recordSuccess(user);
+      await resetRateLimit("login", "account", user.email.trim().toLowerCase());
+      await resetRateLimit("login", "account", user.id);
+
+      delete req.session.pendingTwoFactor;
+      req.session.userId = user.id;
+      req.session.authenticatedAt = Date.now();
+      recordSessionDevice(req);
+      await new Promise<void>((resolve, reject) => {
+        req.session.save((err) => (err ? reject(err) : resolve()));
+      });
+
+      if (result.method === "recovery") {
+        await storage.createAuditLog({
+          action: "TWO_FACTOR_RECOVERY_CODE_USED",
+          actorId: user.id,
+          targetType: "USER",
+          targetId: user.id,
+        });
+      }
+
+      return res.json({ user: sessionUser(user), usedRecoveryCode: result.method === "recovery" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Login] Error checking second factor:", error);
+      return res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  app.get("/api/auth/2fa", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await twoFactor.getStatus(req.user!));
+    } catch (error) {
+      console.error("[Auth] Error fetching two-factor status:", error);
+      return res.status(500).json({ error: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const result = await twoFactor.beginEnrollment(req.user!);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      return res.json(result);
+    } catch (error) {
+      console.error("[Auth] Error starting two-factor setup:", error);
+      return res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { code } = enableTwoFactorSchema.parse(req.body);
+      const result = await twoFactor.enable(req.user!, code);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "TWO_FACTOR_ENABLED",
+        actorId: req.user!.id,
+        targetType: "USER",
+        targetId: req.user!.id,
+      });
+
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error enabling two-factor:", error);
+      return res.status(500).json({ error: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { password, code } = disableTwoFactorSchema.parse(req.body);
+      const result = await twoFactor.disable(req.user!, password, code);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "TWO_FACTOR_DISABLED",
+        actorId: req.user!.id,
+        targetType: "USER",
+        targetId: req.user!.id,
+      });
+
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error disabling two-factor:", error);
+      return res.status(500).json({ error: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { code } = enableTwoFactorSchema.parse(req.body);
+      const result = await twoFactor.regenerateRecoveryCodes(req.user!, code);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error regenerating recovery codes:", error);
+      return res.status(500).json({ error: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.get("/api/auth/sessions", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await listSessions(sessionStoreOf(req), req.user!.id, req.sessionID));
+    } catch (error) {
+      console.error("[Auth] Error listing sessions:", error);
+      return res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      const result = await revokeSession(sessionStoreOf(req), req.user!.id, req.params.id, req.sessionID);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "SESSION_REVOKED",
+        actorId: req.user!.id,
+        targetType: "USER",
+        targetId: req.user!.id,
+      });
+
+      return res.json(result);
+    } catch (error) {
+      console.error("[Auth] Error revoking session:", error);
+      return res.status(500).json({ error: "Failed to sign out session" });
+    }
+  });
+
+  app.post("/api/auth/sessions/revoke-others", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      const revoked = await sessionStoreOf(req).destroyUserSessions(req.user!.id, req.sessionID);
+      if (revoked > 0) {
+        await storage.createAuditLog({
+          action: "SESSIONS_REVOKED",
+          actorId: req.user!.id,
+          targetType: "USER",
+          targetId: req.user!.id,
+          metadata: { count: revoked },
+        });
+      }
+      return res.json({ revoked });
+    } catch (error) {
+      console.error("[Auth] Error revoking other sessions:", error);
+      return res.status(500).json({ error: "Failed to sign out other sessions" });
+    }
+  });
+
+  app.get("/api/auth/tokens", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      return res.json(await accessTokens.list(req.user!.id));
+    } catch (error) {
+      console.error("[Auth] Error listing access tokens:", error);
+      return res.status(500).json({ error: "Failed to fetch access tokens" });
+    }
+  });
+
+  app.post("/api/auth/tokens", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const input = createAccessTokenSchema.parse(req.body);
+      const result = await accessTokens.issue(req.user!, input);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "ACCESS_TOKEN_CREATED",
+        actorId: req.user!.id,
+        targetType: "ACCESS_TOKEN",
+        targetId: result.accessToken.id,
+        metadata: { name: result.accessToken.name, scopes: result.accessToken.scopes },
+      });
+
+      return res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error creating access token:", error);
+      return res.status(500).json({ error: "Failed to create access token" });
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      if (!(await accessTokens.revoke(req.user!.id, req.params.id))) {
+        return res.status(404).json({ error: "Access token not found" });
+      }
+
+      await storage.createAuditLog({
+        action: "ACCESS_TOKEN_REVOKED",
+        actorId: req.user!.id,
+        targetType: "ACCESS_TOKEN",
+        targetId: req.params.id,
+      });
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("[Auth] Error revoking access token:", error);
+      return res.status(500).json({ error: "Failed to revoke access token" });
+    }
+  });
+
+  app.get("/api/account/export", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      const data = await accountDeletion.exportData(req.user!.id);
+      const filename = `ev-connect-data-${data.exportedAt.slice(0, 10)}.json`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      return res.json(data);
+    } catch (error) {
+      console.error("[Account] Error exporting data:", error);
+      return res.status(500).json({ error: "Failed to export your data" });
+    }
+  });
+
+  app.get("/api/account/deletion", authenticateUnverified, async (req: AuthRequest, res) => {
+    return res.json(accountDeletion.getStatus(req.user!));
+  });
+
+  app.post("/api/account/deletion", authenticateUnverified, rateLimit("accountRecovery"), async (req: AuthRequest, res) => {
+    try {
+      const { password } = requestAccountDeletionSchema.parse(req.body);
+      const alreadyScheduled = !!req.user!.deletionScheduledFor;
+      const result = await accountDeletion.requestDeletion(req.user!, password);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      if (!alreadyScheduled) {
+        await storage.createAuditLog({
+          action: "ACCOUNT_DELETION_REQUESTED",
+          actorId: req.user!.id,
+          targetType: "USER",
+          targetId: req.user!.id,
+          metadata: { scheduledFor: result.deletionScheduledFor?.toISOString() },
+        });
+        // Whoever else is signed in can't quietly cancel it
+        await sessionStoreOf(req).destroyUserSessions(req.user!.id, req.sessionID);
+      }
+
+      return res.json(accountDeletion.getStatus(result));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Account] Error requesting deletion:", error);
+      return res.status(500).json({ error: "Failed to schedule account deletion" });
+    }
+  });
+
+  app.delete("/api/account/deletion", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      const result = await accountDeletion.cancelDeletion(req.user!);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      await storage.createAuditLog({
+        action: "ACCOUNT_DELETION_CANCELLED",
+        actorId: req.user!.id,
+        targetType: "USER",
+        targetId: req.user!.id,
+      });
+
+      return res.json(accountDeletion.getStatus(result));
+    } catch (error) {
+      console.error("[Account] Error cancelling deletion:", error);
+      return res.status(500).json({ error: "Failed to cancel account deletion" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", rateLimit("accountRecovery"), async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      const result = await emailVerification.verifyEmail(token);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      return res.json({ user: sessionUser(result) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Auth] Error verifying email:", error);
+      return res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/resend", authenticateUnverified, async (req: AuthRequest, res) => {
+    try {
+      const result = await emailVerification.resendVerification(req.user!);
+      if ("error" in result) {
+        if (result.retryAfterSeconds) {
+          res.setHeader("Retry-After", String(result.retryAfterSeconds));
+          return res.status(429).json(result);
+        }
+        return res.status(400).json({ error: result.error });
+      }
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("[Auth] Error resending verification email:", error);
+      return res.status(500).json({ error: "Failed to send verification email" });
+    }
+  });
+
   // Profile routes
   app.get("/api/profiles/:userId", async (req, res) => {
     const profile = await storage.getProfile(req.params.userId);
@@ -368,8 +953,23 @@ app.post("/api/auth/logout", (req, res) => {
         location: z.any().optional(),
         vehicle: z.any().optional(),
         interests: z.array(z.string()).optional(),
+        notificationPrefs: z.object({
+          newPost: z.boolean(),
+          like: z.boolean(),
+          comment: z.boolean(),
+          stationStatus: z.boolean(),
+        }).partial().optional(),
       }).parse(req.body);
 
+      // Preferences are merged so clients can flip one switch at a time
+      if (updates.notificationPrefs) {
+        const current = await storage.getProfile(req.user!.id);
+        updates.notificationPrefs = {
+          ...DEFAULT_NOTIFICATION_PREFS,
+          ...current?.notificationPrefs,
+          ...updates.notificationPrefs,
+        };
+      }
       const profile = await storage.updateProfile(req.user!.id, updates);
       if (!profile) {
         return res.status(404).json({ error: "Profile not found" });
@@ -527,7 +1127,7 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json({ ...post, author: profile });
   });
 
-  app.post("/api/posts", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/posts", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       console.log("[POST] Request body:", JSON.stringify(req.body, null, 2));
       console.log("[POST] User ID:", req.user!.id);
@@ -642,7 +1242,7 @@ app.post("/api/auth/logout", (req, res) => {
     }
   });
 
-  app.post("/api/posts/:postId/comments", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/posts/:postId/comments", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       console.log("[COMMENT] Request body:", req.body);
       console.log("[COMMENT] Post ID:", req.params.postId);
@@ -833,6 +1433,7 @@ app.post("/api/auth/logout", (req, res) => {
   app.post(
     "/api/conversations/:conversationId/messages",
     authenticateToken,
+    rateLimit("messages"),
     ensureNotBlocked(async (req) => {
       const conversation = await storage.getConversation(req.params.conversationId);
       if (!conversation) {
@@ -867,6 +1468,7 @@ app.post("/api/auth/logout", (req, res) => {
   app.post(
     "/api/messages",
     authenticateToken,
+    rateLimit("messages"),
     ensureNotBlocked((req) => req.body.recipientId),
     async (req: AuthRequest, res) => {
       try {
@@ -983,16 +1585,17 @@ app.post("/api/auth/logout", (req, res) => {
 
     let requesterId = req.session?.userId;
 
-    if (!requesterId) {
-      const authHeader = req.headers.authorization;
-      if (authHeader?.startsWith("Bearer ")) {
-        const token = authHeader.split(" ")[1];
-        try {
-          const decoded = jwt.verify(token, process.env.JWT_SECRET || "your-secret-key") as { id?: string; userId?: string };
-          requesterId = decoded.id ?? decoded.userId ?? undefined;
-        } catch (error) {
-          console.warn("[Community] Invalid auth token for membership lookup:", error);
+    const token = bearerToken(req.headers.authorization);
+    if (!requesterId && token) {
+      try {
+        const result = await accessTokens.authenticate(token);
+        if ("error" in result) {
+          console.warn("[Community] Invalid access token for membership lookup:", result.error);
+        } else if (result.accessToken.scopes.includes("read")) {
+          requesterId = result.user.id;
         }
+      } catch (error) {
+        console.warn("[Community] Access token lookup failed:", error);
       }
     }
 
@@ -1142,29 +1745,182 @@ app.post("/api/auth/logout", (req, res) => {
   });
 
   // Stations routes
+  // Station list query shared by /api/stations and its exports; undefined when bbox is malformed
+  function parseStationQuery(query: Request["query"]): StationFilters | undefined {
+    const { verified, limit, lat, lng, radius, bbox, sort } = z.object({
+      verified: z.enum(["true", "false"]).optional(),
+      limit: z.coerce.number().int().positive().max(1000).optional(),
+      lat: z.coerce.number().min(-90).max(90).optional(),
+      lng: z.coerce.number().min(-180).max(180).optional(),
+      radius: z.coerce.number().positive().max(500).optional(),
+      bbox: z.string().optional(),
+      sort: z.enum(STATION_SORTS).optional(),
+    }).parse(query);
+    const featureFilters = toStationFeatureFilters(stationFilterQuerySchema.parse(query));
+
+    const origin = lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+    let bounds: StationBounds | undefined;
+    if (bbox) {
+      // west,south,east,north — the order Leaflet's toBBoxString() produces
+      const [west, south, east, north] = bbox.split(",").map(Number);
+      if ([west, south, east, north].some((value) => !Number.isFinite(value)) || south > north) {
+        return undefined;
+      }
+      bounds = { west, south, east, north };
+    }
+
+    return {
+      verified: verified === undefined ? undefined : verified === "true",
+      limit,
+      near: origin && radius && !bounds ? { ...origin, radiusKm: radius } : undefined,
+      bounds,
+      origin,
+      sort,
+      ...featureFilters,
+    };
+  }
+
+  // Cheapest first for the signed-in member's vehicle, or for a generic charge.
+  // Storage has already applied the limit, so this orders the nearest stations.
+  async function sortByPrice<T extends Station>(stations: T[], userId?: string): Promise<T[]> {
+    const profile = userId ? await storage.getProfile(userId) : undefined;
+    const vehicle = resolveVehicle(profile?.vehicle);
+    return stations.sort((a, b) => compareByPrice(a, b, vehicle));
+  }
+
   app.get("/api/stations", async (req, res) => {
-    const { verified, limit } = req.query;
-    const stations = await storage.getStations({
-      verified: verified === "true",
-      limit: limit ? parseInt(limit as string) : undefined,
-    });
-    return res.json(stations);
+    try {
+      const filters = parseStationQuery(req.query);
+      if (!filters) {
+        return res.status(400).json({ error: "bbox must be west,south,east,north" });
+      }
+      let stations = await storage.getStations(filters);
+      if (filters.sort === "price") stations = await sortByPrice(stations, req.session.userId);
+      return res.json(await stationStatus.withLiveStatus(stations));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Stations] Error:", error);
+      return res.status(500).json({ error: "Failed to fetch stations" });
+    }
+  });
+
+  // Any station query, or the caller's bookmarked stations, for maps and navigation apps
+  app.get("/api/stations/export", async (req, res) => {
+    try {
+      const { format, bookmarked } = z.object({
+        format: z.enum(["geojson", "kml", "gpx"]).default("geojson"),
+        bookmarked: z.enum(["true", "false"]).optional(),
+      }).parse(req.query);
+
+      let stations: Station[];
+      if (bookmarked === "true") {
+        if (!req.session.userId) {
+          return res.status(401).json({ error: "Log in to export your bookmarked stations" });
+        }
+        const bookmarks = await storage.getBookmarks(req.session.userId, "STATION");
+        const found = await Promise.all(bookmarks.map((bookmark) => storage.getStation(bookmark.targetId)));
+        stations = found.filter((station): station is Station => !!station);
+      } else {
+        const filters = parseStationQuery(req.query);
+        if (!filters) {
+          return res.status(400).json({ error: "bbox must be west,south,east,north" });
+        }
+        stations = await storage.getStations({ ...filters, limit: filters.limit ?? 1000 });
+      }
+
+      const title = bookmarked === "true" ? "My saved charging stations" : "EV charging stations";
+      const filename = bookmarked === "true" ? "saved-stations" : "stations";
+      switch (format) {
+        case "kml":
+          res.setHeader("Content-Type", "application/vnd.google-earth.kml+xml; charset=utf-8");
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}.kml"`);
+          return res.send(toStationsKml(stations, title));
+        case "gpx":
+          res.setHeader("Content-Type", "application/gpx+xml; charset=utf-8");
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}.gpx"`);
+          return res.send(toStationsGpx(stations, title));
+        default:
+          res.setHeader("Content-Type", "application/geo+json; charset=utf-8");
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}.geojson"`);
+          return res.send(JSON.stringify(toStationsGeoJson(stations)));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to export stations" });
+    }
+  });
+
+  // Stations grouped on a grid sized for the map zoom, so country-wide views stay light
+  app.get("/api/stations/clusters", async (req, res) => {
+    try {
+      const { zoom } = z.object({ zoom: z.coerce.number().int().min(0).max(20) }).parse(req.query);
+      const filters = parseStationQuery(req.query);
+      if (!filters) {
+        return res.status(400).json({ error: "bbox must be west,south,east,north" });
+      }
+      return res.json(await storage.getStationClusters(filters, clusterCellDegrees(zoom)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Stations] Cluster error:", error);
+      return res.status(500).json({ error: "Failed to cluster stations" });
+    }
+  });
+
+  // "What can I reach on this charge?" Battery defaults to the member's profile vehicle
+  app.get("/api/stations/reachable", async (req, res) => {
+    try {
+      const query = reachableRangeQuerySchema.parse(req.query);
+      const profile = req.session.userId ? await storage.getProfile(req.session.userId) : undefined;
+      // A car missing from the catalog can still supply its battery size
+      const batteryKWh = query.batteryKWh ?? profile?.vehicle?.batteryCapacity;
+      const result = await reachableRange.findReachableStations(
+        { ...query, batteryKWh },
+        resolveVehicle(profile?.vehicle)
+      );
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Stations] Reachable range error:", error);
+      return res.status(500).json({ error: "Failed to find reachable stations" });
+    }
   });
 
   app.get("/api/stations/search", async (req, res) => {
     try {
       const { lat, lng, distance, countryCode, maxResults } = req.query;
-      
-      const stations = await searchChargingStations({
-        latitude: lat ? parseFloat(lat as string) : undefined,
-        longitude: lng ? parseFloat(lng as string) : undefined,
-        distance: distance ? parseFloat(distance as string) : undefined,
-        countryCode: countryCode as string,
-        maxResults: maxResults ? parseInt(maxResults as string) : undefined,
+      if ((!lat || !lng) && !countryCode) {
+        return res.status(400).json({ error: "lat and lng, or countryCode, are required" });
+      }
+      const featureFilters = toStationFeatureFilters(stationFilterQuerySchema.parse(req.query));
+      const sort = z.enum(STATION_SORTS).optional().parse(req.query.sort);
+
+      const result = await stationSync.syncArea({
+        latitude: lat && lng ? parseFloat(lat as string) : undefined,
+        longitude: lat && lng ? parseFloat(lng as string) : undefined,
+        distance: distance ? parseFloat(distance as string) : 25,
+        countryCode: countryCode ? z.string().length(2).parse(countryCode) : undefined,
+        maxResults: maxResults ? parseInt(maxResults as string) : 50,
       });
-      
-      return res.json(stations);
+
+      const stations = result.stations.filter((station) => matchesStationFilters(station, featureFilters));
+      if (sort === "rating") stations.sort(compareByRating);
+      if (sort === "price") await sortByPrice(stations, req.session.userId);
+      return res.json(await stationStatus.withLiveStatus(stations));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
       return res.status(500).json({ error: "Failed to search charging stations" });
     }
   });
@@ -1174,10 +1930,149 @@ app.post("/api/auth/logout", (req, res) => {
     if (!station) {
       return res.status(404).json({ error: "Station not found" });
     }
-    return res.json(station);
+    const [withStatus] = await stationStatus.withLiveStatus([station]);
+    return res.json(withStatus);
+  });
+
+  app.get("/api/stations/:id/check-ins", async (req, res) => {
+    const station = await storage.getStation(req.params.id);
+    if (!station) {
+      return res.status(404).json({ error: "Station not found" });
+    }
+    const checkIns = await storage.getStationCheckIns({ stationIds: [station.id], limit: 20 });
+    const [withStatus] = await stationStatus.withLiveStatus([station]);
+    // Member ids stay private; only the check-in itself is shown
+    return res.json({
+      liveStatus: withStatus.liveStatus,
+      checkIns: checkIns.map(({ userId, ...checkIn }) => checkIn),
+    });
+  });
+
+  // Expected cost of a charge, for the vehicle in the query or the member's own
+  app.get("/api/stations/:id/cost-estimate", async (req, res) => {
+    try {
+      const query = costEstimateQuerySchema.parse(req.query);
+      const station = await storage.getStation(req.params.id);
+      if (!station) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+
+      const profile = req.session.userId ? await storage.getProfile(req.session.userId) : undefined;
+      const vehicle = query.brand || query.model
+        ? resolveVehicle({ brand: query.brand, model: query.model, batteryCapacity: query.batteryCapacity })
+        : resolveVehicle(profile?.vehicle);
+      const energyKWh = query.kWh ?? defaultEstimateKWh(vehicle);
+
+      return res.json({
+        stationId: station.id,
+        vehicle: vehicle ? { brand: vehicle.brand, model: vehicle.model } : null,
+        ...estimateStationCost(station, vehicle, energyKWh),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to estimate charging cost" });
+    }
+  });
+
+  app.post("/api/stations/:id/check-ins", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
+    try {
+      const input = stationCheckInInputSchema.parse(req.body);
+      const station = await storage.getStation(req.params.id);
+      if (!station) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const { checkIn, liveStatus, report } = await stationStatus.recordCheckIn(station, req.user!.id, input);
+      if (report) {
+        await storage.createAuditLog({
+          action: "STATION_REPORTED_BROKEN",
+          actorId: req.user!.id,
+          targetType: "STATION",
+          targetId: station.id,
+          metadata: { reportId: report.id },
+        });
+      }
+      return res.json({ checkIn, liveStatus });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Stations] Check-in error:", error);
+      return res.status(500).json({ error: "Failed to record check-in" });
+    }
+  });
+
+  // Station reviews routes
+  app.get("/api/stations/:id/reviews", async (req, res) => {
+    const station = await storage.getStation(req.params.id);
+    if (!station) {
+      return res.status(404).json({ error: "Station not found" });
+    }
+    const reviews = await storage.getStationReviews(station.id);
+    const withAuthors = await Promise.all(
+      reviews.map(async (review) => ({ ...review, author: await storage.getProfile(review.authorId) }))
+    );
+    return res.json(withAuthors);
+  });
+
+  // Posting again replaces the member's earlier review of the station
+  app.post("/api/stations/:id/reviews", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
+    try {
+      const input = stationReviewInputSchema.parse(req.body);
+      const station = await storage.getStation(req.params.id);
+      if (!station) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const review = await storage.upsertStationReview({
+        ...input,
+        stationId: station.id,
+        authorId: req.user!.id,
+      });
+      await storage.createAuditLog({
+        action: "STATION_REVIEWED",
+        actorId: req.user!.id,
+        targetType: "STATION_REVIEW",
+        targetId: review.id,
+        metadata: { stationId: station.id, rating: review.rating },
+      });
+      const profile = await storage.getProfile(review.authorId);
+      return res.json({ ...review, author: profile });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to save review" });
+    }
+  });
+
+  app.delete("/api/station-reviews/:id", authenticateToken, async (req: AuthRequest, res) => {
+    const review = await storage.getStationReview(req.params.id);
+    if (!review) {
+      return res.status(404).json({ error: "Review not found" });
+    }
+
+    if (review.authorId === req.user!.id) {
+      await storage.deleteStationReview(review.id);
+      return res.json({ success: true });
+    }
+
+    // Removing someone else's review is moderation, so it goes through the same
+    // guard as the moderation tools (role, admin token scope and 2FA)
+    return requireModerator(req, res, async () => {
+      await storage.deleteStationReview(review.id);
+      await storage.createAuditLog({
+        action: "STATION_REVIEW_DELETED_BY_MODERATOR",
+        actorId: req.user!.id,
+        targetType: "STATION_REVIEW",
+        targetId: review.id,
+        metadata: { stationId: review.stationId },
+      });
+      res.json({ success: true });
+    });
   });
 
-  app.post("/api/stations", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/stations", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       const data = insertStationSchema.parse({
         ...req.body,
@@ -1199,6 +2094,431 @@ app.post("/api/auth/logout", (req, res) => {
     }
   });
 
+  app.post("/api/admin/stations/import", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const request = stationImportRequestSchema.parse(req.body);
+      const report = await stationImporter.importStations(request);
+      if ("error" in report) {
+        return res.status(400).json({ error: report.error });
+      }
+      if (!report.dryRun) {
+        await storage.createAuditLog({
+          action: "STATIONS_IMPORTED",
+          actorId: req.user!.id,
+          targetType: "STATION",
+          metadata: {
+            format: request.format,
+            total: report.total,
+            created: report.created,
+            updated: report.updated,
+            duplicates: report.duplicates,
+            invalid: report.invalid,
+          },
+        });
+      }
+      return res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("Station import error:", error);
+      return res.status(500).json({ error: "Failed to import stations" });
+    }
+  });
+
+  // Station verification queue
+  app.get("/api/moderation/stations", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const queue = await stationModeration.getQueue(limit);
+      return res.json(queue);
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to fetch verification queue" });
+    }
+  });
+
+  app.post("/api/moderation/stations/:id/approve", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const station = await storage.getStation(req.params.id);
+      if (!station) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const updated = await stationModeration.approve(station, req.user!.id);
+      return res.json(updated);
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to approve station" });
+    }
+  });
+
+  app.post("/api/moderation/stations/:id/reject", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().min(1).max(500) }).parse(req.body);
+      const station = await storage.getStation(req.params.id);
+      if (!station) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      await stationModeration.reject(station, req.user!.id, reason);
+      await stationEdits.closePending(station.id, req.user!.id, "Station was rejected");
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to reject station" });
+    }
+  });
+
+  app.post("/api/moderation/stations/:id/merge", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const { targetId } = z.object({ targetId: z.string().min(1) }).parse(req.body);
+      if (targetId === req.params.id) {
+        return res.status(400).json({ error: "A station can't be merged into itself" });
+      }
+      const [source, target] = await Promise.all([storage.getStation(req.params.id), storage.getStation(targetId)]);
+      if (!source || !target) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const merged = await stationModeration.merge(source, target, req.user!.id);
+      await stationEdits.closePending(source.id, req.user!.id, `Station was merged into ${target.name}`);
+      return res.json(merged);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to merge station" });
+    }
+  });
+
+  // Suggested station edits
+  app.post("/api/stations/:id/edits", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
+    try {
+      const input = stationEditInputSchema.parse(req.body);
+      const station = await storage.getStation(req.params.id);
+      if (!station) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const edit = await stationEdits.propose(station, req.user!.id, input);
+      if (!edit) {
+        return res.status(400).json({ error: "The suggestion doesn't change anything" });
+      }
+      await storage.createAuditLog({
+        action: "STATION_EDIT_PROPOSED",
+        actorId: req.user!.id,
+        targetType: "STATION",
+        targetId: station.id,
+        metadata: { editId: edit.id },
+      });
+      return res.json(edit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to submit suggestion" });
+    }
+  });
+
+  app.get("/api/stations/:id/history", async (req, res) => {
+    try {
+      const history = await stationEdits.getHistory(req.params.id);
+      return res.json(history);
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to fetch station history" });
+    }
+  });
+
+  app.get("/api/moderation/station-edits", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const queue = await stationEdits.getQueue(limit);
+      return res.json(queue);
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to fetch suggested edits" });
+    }
+  });
+
+  // Loads a pending proposal and its station, answering 404/409 itself when either is unusable
+  async function loadPendingEdit(id: string, res: Response) {
+    const edit = await storage.getStationEdit(id);
+    const station = edit ? await storage.getStation(edit.stationId) : undefined;
+    if (!edit || !station) {
+      res.status(404).json({ error: "Suggestion not found" });
+      return undefined;
+    }
+    if (edit.status !== "PENDING") {
+      res.status(409).json({ error: "Suggestion has already been reviewed" });
+      return undefined;
+    }
+    return { edit, station };
+  }
+
+  app.post("/api/moderation/station-edits/:id/apply", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const { note } = z.object({ note: z.string().trim().max(500).optional() }).parse(req.body ?? {});
+      const loaded = await loadPendingEdit(req.params.id, res);
+      if (!loaded) return;
+      const result = await stationEdits.apply(loaded.edit, loaded.station, req.user!.id, note || undefined);
+      if ("stale" in result) {
+        return res.status(409).json({
+          error: "The station has changed since this was suggested",
+          staleFields: result.stale,
+        });
+      }
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to apply suggestion" });
+    }
+  });
+
+  app.post("/api/moderation/station-edits/:id/reject", authenticateToken, requireModerator, async (req: AuthRequest, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().min(1).max(500) }).parse(req.body);
+      const loaded = await loadPendingEdit(req.params.id, res);
+      if (!loaded) return;
+      const edit = await stationEdits.reject(loaded.edit, loaded.station, req.user!.id, reason);
+      return res.json(edit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to reject suggestion" });
+    }
+  });
+
+  // Trip planner routes
+  // Members plan with their profile vehicle unless the request names another
+  async function planTripFor(request: TripPlanRequest, userId: string) {
+    const profile = await storage.getProfile(userId);
+    return tripPlanner.planTrip(request, resolveVehicle(profile?.vehicle));
+  }
+
+  app.post("/api/trips/plan", authenticateToken, rateLimit("search"), async (req: AuthRequest, res) => {
+    try {
+      const request = tripPlanRequestSchema.parse(req.body);
+      const plan = await planTripFor(request, req.user!.id);
+      return res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("Trip planning error:", error);
+      return res.status(500).json({ error: "Failed to plan trip" });
+    }
+  });
+
+  app.get("/api/trips", authenticateToken, async (req: AuthRequest, res) => {
+    const trips = await storage.getTrips(req.user!.id);
+    return res.json(trips);
+  });
+
+  app.post("/api/trips", authenticateToken, rateLimit("search"), async (req: AuthRequest, res) => {
+    try {
+      const { name, request } = saveTripSchema.parse(req.body);
+      const plan = await planTripFor(request, req.user!.id);
+      const trip = await storage.createTrip({ userId: req.user!.id, name, request, plan });
+      return res.json(trip);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("Trip save error:", error);
+      return res.status(500).json({ error: "Failed to save trip" });
+    }
+  });
+
+  // Shared trips are public; unshared ones only to their owner
+  app.get("/api/trips/:id", async (req, res) => {
+    const trip = await storage.getTrip(req.params.id);
+    if (!trip || (!trip.postId && trip.userId !== req.session.userId)) {
+      return res.status(404).json({ error: "Trip not found" });
+    }
+    return res.json(trip);
+  });
+
+  app.delete("/api/trips/:id", authenticateToken, async (req: AuthRequest, res) => {
+    const trip = await storage.getTrip(req.params.id);
+    if (!trip || trip.userId !== req.user!.id) {
+      return res.status(404).json({ error: "Trip not found" });
+    }
+    const success = await storage.deleteTrip(trip.id);
+    return res.json({ success });
+  });
+
+  app.post("/api/trips/:id/share", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
+    try {
+      const trip = await storage.getTrip(req.params.id);
+      if (!trip || trip.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Trip not found" });
+      }
+      if (trip.postId) {
+        const existing = await storage.getPost(trip.postId);
+        if (existing) {
+          return res.json({ trip, post: existing });
+        }
+      }
+
+      const post = await storage.createPost({
+        authorId: req.user!.id,
+        title: `Trip plan: ${trip.name}`,
+        text: formatTripSummary(trip.name, trip.plan, `/trips/${trip.id}`),
+        visibility: "PUBLIC",
+      });
+      const updated = await storage.updateTrip(trip.id, { postId: post.id });
+      await storage.createAuditLog({
+        action: "POST_CREATED",
+        actorId: req.user!.id,
+        targetType: "POST",
+        targetId: post.id,
+        metadata: { tripId: trip.id },
+      });
+      return res.json({ trip: updated, post });
+    } catch (error) {
+      console.error("Trip share error:", error);
+      return res.status(500).json({ error: "Failed to share trip" });
+    }
+  });
+
+  // Charging session log
+  // Links the session to a stored station when one is given and falls back to the profile vehicle
+  async function toChargingSession(input: ChargingSessionInput, userId: string) {
+    const station = input.stationId ? await storage.getStation(input.stationId) : undefined;
+    if (input.stationId && !station) return undefined;
+    const profile = input.vehicle === undefined ? await storage.getProfile(userId) : undefined;
+    const profileVehicle = profile?.vehicle?.brand && profile.vehicle.model
+      ? { brand: profile.vehicle.brand, model: profile.vehicle.model }
+      : null;
+    return {
+      userId,
+      stationId: station?.id ?? null,
+      stationName: input.stationName || station?.name || "",
+      startedAt: input.startedAt,
+      endedAt: input.endedAt ?? null,
+      energyKWh: input.energyKWh,
+      cost: input.cost,
+      currency: input.currency,
+      vehicle: input.vehicle === undefined ? profileVehicle : input.vehicle,
+      notes: input.notes || null,
+    };
+  }
+
+  const chargingSessionRangeSchema = z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  });
+
+  app.get("/api/charging-sessions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const range = chargingSessionRangeSchema.parse(req.query);
+      const sessions = await storage.getChargingSessions(req.user!.id, range);
+      return res.json(sessions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to fetch charging sessions" });
+    }
+  });
+
+  app.get("/api/charging-sessions/summary", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const range = chargingSessionRangeSchema.parse(req.query);
+      const sessions = await storage.getChargingSessions(req.user!.id, range);
+      return res.json(summarizeChargingSessions(sessions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to summarize charging sessions" });
+    }
+  });
+
+  app.get("/api/charging-sessions/export.csv", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const range = chargingSessionRangeSchema.parse(req.query);
+      const sessions = await storage.getChargingSessions(req.user!.id, range);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="charging-sessions.csv"');
+      return res.send(toChargingSessionsCsv(sessions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to export charging sessions" });
+    }
+  });
+
+  // Stations to offer when logging a session: ones the member has saved or charged at before
+  app.get("/api/charging-sessions/stations", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const [bookmarks, sessions] = await Promise.all([
+        storage.getBookmarks(req.user!.id, "STATION"),
+        storage.getChargingSessions(req.user!.id),
+      ]);
+      const ids = Array.from(new Set([
+        ...sessions.map((session) => session.stationId).filter((id): id is string => !!id),
+        ...bookmarks.map((bookmark) => bookmark.targetId),
+      ]));
+      const stations = await Promise.all(ids.map((id) => storage.getStation(id)));
+      return res.json(
+        stations
+          .filter((station): station is NonNullable<typeof station> => !!station)
+          .map(({ id, name, address }) => ({ id, name, address }))
+      );
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to fetch stations" });
+    }
+  });
+
+  app.post("/api/charging-sessions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const input = chargingSessionInputSchema.parse(req.body);
+      const data = await toChargingSession(input, req.user!.id);
+      if (!data) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const session = await storage.createChargingSession(data);
+      return res.json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to log charging session" });
+    }
+  });
+
+  app.put("/api/charging-sessions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const existing = await storage.getChargingSession(req.params.id);
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Charging session not found" });
+      }
+      const input = chargingSessionInputSchema.parse(req.body);
+      const data = await toChargingSession(input, req.user!.id);
+      if (!data) {
+        return res.status(404).json({ error: "Station not found" });
+      }
+      const { userId, ...updates } = data;
+      const session = await storage.updateChargingSession(existing.id, updates);
+      return res.json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to update charging session" });
+    }
+  });
+
+  app.delete("/api/charging-sessions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    const existing = await storage.getChargingSession(req.params.id);
+    if (!existing || existing.userId !== req.user!.id) {
+      return res.status(404).json({ error: "Charging session not found" });
+    }
+    await storage.deleteChargingSession(existing.id);
+    return res.json({ success: true });
+  });
+
   // Bookmarks routes
   app.get("/api/bookmarks", authenticateToken, async (req: AuthRequest, res) => {
     const { targetType } = req.query;
@@ -1212,7 +2532,10 @@ app.post("/api/auth/logout", (req, res) => {
         ...req.body,
         userId: req.user!.id,
       });
-      const bookmark = await storage.createBookmark(data);
+      const watch = data.targetType === "STATION"
+        ? bookmarkWatchSchema.optional().parse(req.body.watch) ?? DEFAULT_BOOKMARK_WATCH
+        : null;
+      const bookmark = await storage.createBookmark({ ...data, watch });
       return res.json(bookmark);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1227,6 +2550,24 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json({ success });
   });
 
+  // Which status changes at a bookmarked station notify the member
+  app.put("/api/bookmarks/:id/watch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const watch = bookmarkWatchSchema.parse(req.body);
+      const bookmarks = await storage.getBookmarks(req.user!.id, "STATION");
+      const bookmark = bookmarks.find((b) => b.id === req.params.id);
+      if (!bookmark) {
+        return res.status(404).json({ error: "Station bookmark not found" });
+      }
+      return res.json(await storage.updateBookmark(bookmark.id, { watch }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to update bookmark" });
+    }
+  });
+
   app.get("/api/bookmarks/check/:targetId", authenticateToken, async (req: AuthRequest, res) => {
     const bookmark = await storage.getBookmark(req.user!.id, req.params.targetId);
     return res.json({ bookmarked: !!bookmark, bookmarkId: bookmark?.id });
@@ -1254,7 +2595,7 @@ app.post("/api/auth/logout", (req, res) => {
     });
   });
 
-  // Charging Stations routes (proxy to Open Charge Map API)
+  // Charging Stations routes (configured charging data providers, cached in station storage)
   app.get("/api/charging-stations", async (req, res) => {
     console.log("[Charging Stations] ===== ROUTE HIT =====");
     try {
@@ -1267,48 +2608,27 @@ app.post("/api/auth/logout", (req, res) => {
         return res.status(400).json({ error: "latitude and longitude are required" });
       }
 
-      console.log("[Charging Stations] Calling searchChargingStations...");
-      
-      const stations = await searchChargingStations({
+      const featureFilters = toStationFeatureFilters(stationFilterQuerySchema.parse(req.query));
+      const { stations, source, lastSyncedAt } = await stationSync.syncArea({
         latitude: parseFloat(latitude as string),
         longitude: parseFloat(longitude as string),
         distance: distance ? parseFloat(distance as string) : 25,
         maxResults: maxResults ? parseInt(maxResults as string) : 50,
       });
 
-      console.log(`[Charging Stations] Found ${stations.length} stations`);
+      console.log(`[Charging Stations] Found ${stations.length} stations (${source})`);
+      res.setHeader("X-Stations-Source", source);
+      if (lastSyncedAt) {
+        res.setHeader("X-Stations-Last-Synced", lastSyncedAt.toISOString());
+      }
       
-      // Convert back to OCM format for frontend compatibility
-      const ocmFormat = stations.map(station => {
-        const addressParts = station.address.split(',').map(p => p.trim());
-        return {
-          ID: parseInt(station.externalId.replace('ocm-', '') || '0'),
-          AddressInfo: {
-            Title: station.name,
-            AddressLine1: addressParts[0] || '',
-            Town: addressParts[1] || '',
-            StateOrProvince: addressParts[2] || '',
-            Postcode: '',
-            Country: { Title: addressParts[addressParts.length - 1] || '' },
-            Latitude: station.coords.lat,
-            Longitude: station.coords.lng,
-          },
-          Connections: station.connectors.map(conn => ({
-            ConnectionType: { Title: conn.type },
-            PowerKW: conn.powerKW,
-          })),
-          OperatorInfo: station.provider ? { Title: station.provider } : undefined,
-          UsageCost: station.pricing,
-          StatusType: { 
-            IsOperational: station.availability === 'AVAILABLE',
-            Title: station.availability || 'UNKNOWN'
-          },
-        };
-      });
-
-      console.log("[Charging Stations] Returning", ocmFormat.length, "stations in OCM format");
-      return res.json(ocmFormat);
+      const matching = stations.filter((station) => matchesStationFilters(station, featureFilters));
+      console.log("[Charging Stations] Returning", matching.length, "stations");
+      return res.json(await stationStatus.withLiveStatus(matching));
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
       console.error("[Charging Stations] Error:", error);
       console.error("[Charging Stations] Error stack:", error?.stack);
       return res.status(500).json({ 
@@ -1318,6 +2638,77 @@ app.post("/api/auth/logout", (req, res) => {
     }
   });
 
+  // OCPI 2.2 (read-only Locations for partners). Responses use the OCPI
+  // envelope instead of our usual error shape.
+  const ocpiBaseUrl = (req: Request) => `${req.protocol}://${req.get("host")}/ocpi`;
+
+  app.get("/ocpi/versions", authenticateOcpi, (req, res) => {
+    return res.json(ocpiResponse([{ version: OCPI_VERSION, url: `${ocpiBaseUrl(req)}/${OCPI_VERSION}` }]));
+  });
+
+  app.get(`/ocpi/${OCPI_VERSION}`, authenticateOcpi, (req, res) => {
+    return res.json(ocpiResponse({
+      version: OCPI_VERSION,
+      endpoints: [
+        { identifier: "locations", role: "SENDER", url: `${ocpiBaseUrl(req)}/${OCPI_VERSION}/locations` },
+      ],
+    }));
+  });
+
+  app.get(`/ocpi/${OCPI_VERSION}/locations`, authenticateOcpi, async (req, res) => {
+    const parsed = ocpiLocationsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      const message = parsed.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+      return res.status(400).json(ocpiResponse(undefined, OCPI_STATUS.INVALID_PARAMETERS, message));
+    }
+
+    try {
+      const page = await ocpiLocations.listLocations(parsed.data);
+      res.setHeader("X-Total-Count", String(page.total));
+      res.setHeader("X-Limit", String(page.limit));
+      const nextOffset = page.offset + page.locations.length;
+      if (nextOffset < page.total) {
+        const next = new URLSearchParams({ offset: String(nextOffset), limit: String(page.limit) });
+        if (parsed.data.date_from) next.set("date_from", parsed.data.date_from.toISOString());
+        if (parsed.data.date_to) next.set("date_to", parsed.data.date_to.toISOString());
+        res.setHeader("Link", `<${ocpiBaseUrl(req)}/${OCPI_VERSION}/locations?${next.toString()}>; rel="next"`);
+      }
+      return res.json(ocpiResponse(page.locations));
+    } catch (error) {
+      console.error("[OCPI] Failed to list locations:", error);
+      return res.status(500).json(ocpiResponse(undefined, OCPI_STATUS.SERVER_ERROR, "Failed to list locations"));
+    }
+  });
+
+  app.get(`/ocpi/${OCPI_VERSION}/locations/:locationId/:evseUid?/:connectorId?`, authenticateOcpi, async (req, res) => {
+    try {
+      const location = await ocpiLocations.getLocation(req.params.locationId);
+      if (!location) {
+        return res.status(404).json(ocpiResponse(undefined, OCPI_STATUS.UNKNOWN_LOCATION, "Unknown location"));
+      }
+      if (!req.params.evseUid) {
+        return res.json(ocpiResponse(location));
+      }
+
+      const evse = location.evses.find((candidate) => candidate.uid === req.params.evseUid);
+      if (!evse) {
+        return res.status(404).json(ocpiResponse(undefined, OCPI_STATUS.UNKNOWN_LOCATION, "Unknown EVSE"));
+      }
+      if (!req.params.connectorId) {
+        return res.json(ocpiResponse(evse));
+      }
+
+      const connector = evse.connectors.find((candidate) => candidate.id === req.params.connectorId);
+      if (!connector) {
+        return res.status(404).json(ocpiResponse(undefined, OCPI_STATUS.UNKNOWN_LOCATION, "Unknown connector"));
+      }
+      return res.json(ocpiResponse(connector));
+    } catch (error) {
+      console.error("[OCPI] Failed to get location:", error);
+      return res.status(500).json(ocpiResponse(undefined, OCPI_STATUS.SERVER_ERROR, "Failed to get location"));
+    }
+  });
+
   // Questions routes
   app.get("/api/questions", async (req, res) => {
     const { tag, sort, limit, offset } = req.query;
@@ -1347,7 +2738,7 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json({ ...question, author: profile });
   });
 
-  app.post("/api/questions", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/questions", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       console.log("[Create Question] Request body:", req.body);
       console.log("[Create Question] User ID:", req.user!.id);
@@ -1436,7 +2827,7 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json(answersWithAuthors);
   });
 
-  app.post("/api/questions/:questionId/answers", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/questions/:questionId/answers", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       const data = insertAnswerSchema.parse({
         questionId: req.params.questionId,
@@ -1481,7 +2872,7 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json(article);
   });
 
-  app.post("/api/articles", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/articles", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       const data = insertArticleSchema.parse({
         ...req.body,
@@ -1547,7 +2938,7 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json(commentsWithAuthors);
   });
 
-  app.post("/api/articles/:articleId/comments", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/articles/:articleId/comments", authenticateToken, rateLimit("content"), async (req: AuthRequest, res) => {
     try {
       const data = insertArticleCommentSchema.parse({
         articleId: req.params.articleId,
@@ -1665,7 +3056,7 @@ app.post("/api/auth/logout", (req, res) => {
     return res.json(reports);
   });
 
-  app.post("/api/reports", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/reports", authenticateToken, rateLimit("reports"), async (req: AuthRequest, res) => {
     try {
       const data = insertReportSchema.parse({
         ...req.body,
@@ -1798,6 +3189,45 @@ app.post("/api/auth/logout", (req, res) => {
     }
   });
   
+  app.get("/api/admin/security-settings", authenticateToken, requireAdmin, async (_req: AuthRequest, res) => {
+    try {
+      return res.json(await twoFactor.getSecuritySettings());
+    } catch (error) {
+      console.error("[Admin] Error fetching security settings:", error);
+      return res.status(500).json({ error: "Failed to fetch security settings" });
+    }
+  });
+
+  app.put("/api/admin/security-settings", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const settings = securitySettingsSchema.parse(req.body);
+      // Requiring 2FA for your own role without having it would lock you out of this page
+      if (
+        (settings.requireTwoFactorRoles as string[]).includes(req.user!.role) &&
+        !(await twoFactor.isEnabled(req.user!.id))
+      ) {
+        return res.status(400).json({ error: "Turn on two-factor authentication for your own account first" });
+      }
+
+      await storage.setAppSetting(SECURITY_SETTINGS_KEY, settings, req.user!.id);
+      await storage.createAuditLog({
+        action: "SECURITY_SETTINGS_UPDATED",
+        actorId: req.user!.id,
+        targetType: "SETTINGS",
+        targetId: SECURITY_SETTINGS_KEY,
+        metadata: settings,
+      });
+
+      return res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid input", details: error.errors });
+      }
+      console.error("[Admin] Error updating security settings:", error);
+      return res.status(500).json({ error: "Failed to update security settings" });
+    }
+  });
+
   // Update user (role, status, email, password)
   app.put("/api/admin/users/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
@@ -1805,7 +3235,7 @@ app.post("/api/auth/logout", (req, res) => {
         email: z.string().email().optional(),
         password: z.string().min(6).optional(),
         role: z.enum(["USER", "MODERATOR", "ADMIN"]).optional(),
-        status: z.enum(["ACTIVE", "SUSPENDED", "BANNED"]).optional(),
+        status: z.enum(USER_STATUSES).optional(),
       }).parse(req.body);
 
       // Check if user exists
@@ -1813,6 +3243,10 @@ app.post("/api/auth/logout", (req, res) => {
       if (!existingUser) {
         return res.status(404).json({ error: "User not found" });
       }
+      const statusChanged = updates.status && updates.status !== existingUser.status;
+      if (statusChanged && (updates.status === DELETED_USER_STATUS || existingUser.status === DELETED_USER_STATUS)) {
+        return res.status(400).json({ error: "Only account deletion can set or clear the Deleted status" });
+      }
 
       // Prepare updates
       const userUpdates: any = {};
@@ -1923,6 +3357,27 @@ app.post("/api/auth/logout", (req, res) => {
     }
   });
   
+  app.post("/api/admin/users/:id/unlock", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const user = await loginLockout.unlock(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await storage.createAuditLog({
+        action: "USER_UNLOCKED",
+        actorId: req.user!.id,
+        targetType: "USER",
+        targetId: req.params.id,
+      });
+
+      return res.json({ ...user, passwordHash: undefined });
+    } catch (error) {
+      console.error("[Admin] Error unlocking user:", error);
+      return res.status(500).json({ error: "Failed to unlock user" });
+    }
+  });
+  
   // Delete user account
   app.delete("/api/admin/users/:id", authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
     try {
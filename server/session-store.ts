@@ -0,0 +1,240 @@
+import session, { type SessionData } from "express-session";
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+
+export interface StoredSession {
+  sid: string;
+  /** Signed-in member, pulled out of the data so their sessions can be listed */
+  userId: string | null;
+  data: SessionData;
+  expiresAt: Date;
+}
+
+/** Where sessions live; the store below adapts it to express-session */
+export interface SessionBackend {
+  name: string;
+  get(sid: string): Promise<StoredSession | undefined>;
+  /**
+   * Saves a session. A destroyed session stays destroyed: a request that
+   * loaded it before a remote sign-out must not write it back when it ends.
+   */
+  set(record: StoredSession): Promise<void>;
+  destroy(sid: string): Promise<void>;
+  touch(sid: string, expiresAt: Date): Promise<void>;
+  listByUser(userId: string): Promise<StoredSession[]>;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+function expiresAtOf(data: SessionData): Date {
+  const expires = data.cookie?.expires;
+  return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+}
+
+/**
+ * express-session store over a SessionBackend, plus the per-member queries
+ * the "Where you're signed in" list needs.
+ */
+export class PersistentSessionStore extends session.Store {
+  constructor(private readonly backend: SessionBackend) {
+    super();
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  get(sid: string, callback: (err: unknown, session?: SessionData | null) => void): void {
+    this.backend.get(sid).then(
+      async (record) => {
+        if (record && record.expiresAt.getTime() <= Date.now()) {
+          await this.backend.destroy(sid);
+          record = undefined;
+        }
+        callback(null, record?.data ?? null);
+      },
+      (err) => callback(err)
+    );
+  }
+
+  set(sid: string, data: SessionData, callback?: (err?: unknown) => void): void {
+    // Round-trip through JSON so the cookie becomes plain data, as MemoryStore does
+    const plain = JSON.parse(JSON.stringify(data)) as SessionData;
+    this.backend
+      .set({ sid, userId: plain.userId ?? null, data: plain, expiresAt: expiresAtOf(plain) })
+      .then(() => callback?.(), (err) => callback?.(err));
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    this.backend.destroy(sid).then(() => callback?.(), (err) => callback?.(err));
+  }
+
+  touch(sid: string, data: SessionData, callback?: (err?: unknown) => void): void {
+    this.backend.touch(sid, expiresAtOf(data)).then(() => callback?.(), (err) => callback?.(err));
+  }
+
+  async listUserSessions(userId: string): Promise<StoredSession[]> {
+    const now = Date.now();
+    return (await this.backend.listByUser(userId)).filter((record) => record.expiresAt.getTime() > now);
+  }
+
+  /** Signs the member out everywhere except the session with keepSid */
+  async destroyUserSessions(userId: string, keepSid?: string): Promise<number> {
+    const records = await this.backend.listByUser(userId);
+    const doomed = records.filter((record) => record.sid !== keepSid);
+    await Promise.all(doomed.map((record) => this.backend.destroy(record.sid)));
+    return doomed.length;
+  }
+}
+
+export interface FileSessionBackendOptions {
+  file: string;
+  /** Writes are batched so touching a session on every request stays cheap */
+  flushDelayMs?: number;
+}
+
+interface SessionFileEntry {
+  userId: string | null;
+  data: SessionData;
+  expiresAt: string;
+}
+
+const DEFAULT_FLUSH_DELAY_MS = 1000;
+
+/** Keeps sessions in memory and mirrors them to a JSON file that's read back on restart */
+export function createFileSessionBackend(options: FileSessionBackendOptions): SessionBackend {
+  const sessions = new Map<string, StoredSession>();
+  // Destroyed session ids, kept until the session would have expired
+  const destroyed = new Map<string, Date>();
+  let flushTimer: NodeJS.Timeout | undefined;
+
+  try {
+    const entries = JSON.parse(readFileSync(options.file, "utf8")) as Record<string, SessionFileEntry>;
+    const now = Date.now();
+    for (const [sid, entry] of Object.entries(entries)) {
+      const expiresAt = new Date(entry.expiresAt);
+      if (expiresAt.getTime() > now) sessions.set(sid, { sid, userId: entry.userId, data: entry.data, expiresAt });
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`[Sessions] Couldn't read ${options.file}, starting empty:`, error);
+    }
+  }
+
+  function flush() {
+    flushTimer = undefined;
+    const entries: Record<string, SessionFileEntry> = {};
+    const now = Date.now();
+    for (const [sid, expiresAt] of Array.from(destroyed.entries())) {
+      if (expiresAt.getTime() <= now) destroyed.delete(sid);
+    }
+    for (const record of Array.from(sessions.values())) {
+      if (record.expiresAt.getTime() <= now) {
+        sessions.delete(record.sid);
+        continue;
+      }
+      entries[record.sid] = { userId: record.userId, data: record.data, expiresAt: record.expiresAt.toISOString() };
+    }
+    try {
+      mkdirSync(path.dirname(options.file), { recursive: true });
+      // Write then rename so a crash mid-write can't leave a truncated file
+      const temp = `${options.file}.tmp`;
+      writeFileSync(temp, JSON.stringify(entries));
+      renameSync(temp, options.file);
+    } catch (error) {
+      console.error(`[Sessions] Couldn't write ${options.file}:`, error);
+    }
+  }
+
+  function scheduleFlush() {
+    if (flushTimer) return;
+    flushTimer = setTimeout(flush, options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS);
+    flushTimer.unref();
+  }
+
+  return {
+    name: "file",
+    async get(sid) {
+      return sessions.get(sid);
+    },
+    async set(record) {
+      if (destroyed.has(record.sid)) return;
+      sessions.set(record.sid, record);
+      scheduleFlush();
+    },
+    async destroy(sid) {
+      const record = sessions.get(sid);
+      if (!record) return;
+      sessions.delete(sid);
+      destroyed.set(sid, record.expiresAt);
+      scheduleFlush();
+    },
+    async touch(sid, expiresAt) {
+      const record = sessions.get(sid);
+      if (!record) return;
+      sessions.set(sid, { ...record, expiresAt });
+      scheduleFlush();
+    },
+    async listByUser(userId) {
+      return Array.from(sessions.values()).filter((record) => record.userId === userId);
+    },
+  };
+}
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Sessions in the app's MongoDB; expired ones are removed by a TTL index.
+ * Destroying a session leaves a revoked placeholder until it would have
+ * expired, so a late save from another request or instance can't recreate it.
+ */
+export function createMongoSessionBackend(): SessionBackend {
+  // Loaded on first use so file-backed setups never pull in mongoose models
+  const model = async () => (await import("./models")).Session;
+  const toRecord = (doc: any): StoredSession => ({
+    sid: doc._id,
+    userId: doc.userId ?? null,
+    data: doc.data,
+    expiresAt: doc.expiresAt,
+  });
+
+  return {
+    name: "mongodb",
+    async get(sid) {
+      const doc = await (await model()).findOne({ _id: sid, revokedAt: null }).lean();
+      return doc ? toRecord(doc) : undefined;
+    },
+    async set(record) {
+      try {
+        // Matches only live sessions, so for a revoked one the upsert's insert collides on _id
+        await (await model()).updateOne(
+          { _id: record.sid, revokedAt: null },
+          { userId: record.userId, data: record.data, expiresAt: record.expiresAt },
+          { upsert: true }
+        );
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY) throw error;
+      }
+    },
+    async destroy(sid) {
+      await (await model()).updateOne({ _id: sid }, { revokedAt: new Date(), userId: null, data: {} });
+    },
+    async touch(sid, expiresAt) {
+      await (await model()).updateOne({ _id: sid, revokedAt: null }, { expiresAt });
+    },
+    async listByUser(userId) {
+      const docs = await (await model()).find({ userId }).lean();
+      return docs.map(toRecord);
+    },
+  };
+}
+
+const DEFAULT_SESSION_FILE = ".data/sessions.json";
+
+/** MongoDB when USE_MONGODB is set, otherwise a file at SESSION_FILE */
+export function createDefaultSessionStore(): PersistentSessionStore {
+  const backend = process.env.USE_MONGODB === "true"
+    ? createMongoSessionBackend()
+    : createFileSessionBackend({ file: process.env.SESSION_FILE?.trim() || DEFAULT_SESSION_FILE });
+  return new PersistentSessionStore(backend);
+}
@@ -0,0 +1,112 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import type { SessionData } from "express-session";
+import { createFileSessionBackend, PersistentSessionStore } from "./session-store";
+import { describeUserAgent, listSessions, publicSessionId, revokeSession } from "./sessions";
+
+const dir = mkdtempSync(path.join(tmpdir(), "sessions-test-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+function newStore(file = path.join(dir, `sessions-${files++}.json`)) {
+  return { file, store: new PersistentSessionStore(createFileSessionBackend({ file, flushDelayMs: 0 })) };
+}
+
+function save(store: PersistentSessionStore, sid: string, userId: string, expiresInMs = 60 * 60 * 1000) {
+  const data = {
+    cookie: { expires: new Date(Date.now() + expiresInMs), originalMaxAge: expiresInMs },
+    userId,
+    authenticatedAt: Date.now(),
+    device: { userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/120.0 Safari/537.36", lastSeenAt: Date.now() },
+  } as unknown as SessionData;
+  return new Promise<void>((resolve, reject) => store.set(sid, data, (err) => (err ? reject(err) : resolve())));
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("sessions survive a restart", async () => {
+  const { file, store } = newStore();
+  await save(store, "sid-a", "alice");
+  await wait(20);
+
+  const reloaded = newStore(file).store;
+  const sessions = await reloaded.listUserSessions("alice");
+  assert.deepEqual(sessions.map((s) => s.sid), ["sid-a"]);
+});
+
+test("the list shows the current session first and hides raw session ids", async () => {
+  const { store } = newStore();
+  await save(store, "sid-a", "alice");
+  await save(store, "sid-b", "alice");
+  await save(store, "sid-c", "bob");
+
+  const sessions = await listSessions(store, "alice", "sid-b");
+  assert.equal(sessions.length, 2);
+  assert.equal(sessions[0].current, true);
+  assert.equal(sessions[0].id, publicSessionId("sid-b"));
+  assert.equal(sessions[0].device, "Chrome on macOS");
+  assert.ok(sessions.every((s) => !JSON.stringify(s).includes("sid-")));
+});
+
+test("expired sessions aren't listed or accepted", async () => {
+  const { store } = newStore();
+  await save(store, "sid-old", "alice", -1000);
+  assert.deepEqual(await store.listUserSessions("alice"), []);
+  const data = await new Promise((resolve) => store.get("sid-old", (_err, session) => resolve(session)));
+  assert.equal(data, null);
+});
+
+test("a member can sign out another of their sessions but not the current one", async () => {
+  const { store } = newStore();
+  await save(store, "sid-a", "alice");
+  await save(store, "sid-b", "alice");
+  await save(store, "sid-bob", "bob");
+
+  assert.deepEqual(await revokeSession(store, "alice", publicSessionId("sid-b"), "sid-b"), {
+    error: "Use sign out to end this session",
+    status: 400,
+  });
+  // Someone else's session looks the same as one that doesn't exist
+  assert.equal((await revokeSession(store, "alice", publicSessionId("sid-bob"), "sid-a") as { status: number }).status, 404);
+
+  assert.deepEqual(await revokeSession(store, "alice", publicSessionId("sid-b"), "sid-a"), { success: true });
+  assert.deepEqual((await store.listUserSessions("alice")).map((s) => s.sid), ["sid-a"]);
+  assert.equal((await store.listUserSessions("bob")).length, 1);
+});
+
+test("signing out everywhere else keeps only the current session", async () => {
+  const { store } = newStore();
+  await save(store, "sid-a", "alice");
+  await save(store, "sid-b", "alice");
+  await save(store, "sid-c", "alice");
+
+  assert.equal(await store.destroyUserSessions("alice", "sid-b"), 2);
+  assert.deepEqual((await store.listUserSessions("alice")).map((s) => s.sid), ["sid-b"]);
+  assert.equal(await store.destroyUserSessions("alice"), 1);
+  assert.deepEqual(await store.listUserSessions("alice"), []);
+});
+
+test("a request still in flight when its session is signed out can't save it back", async () => {
+  const { file, store } = newStore();
+  await save(store, "sid-a", "alice");
+  await save(store, "sid-b", "alice");
+
+  // The request on sid-b loaded its session, then sid-a signs everything else out
+  await store.destroyUserSessions("alice", "sid-a");
+  await save(store, "sid-b", "alice");
+
+  assert.deepEqual((await store.listUserSessions("alice")).map((s) => s.sid), ["sid-a"]);
+  const data = await new Promise((resolve) => store.get("sid-b", (_err, session) => resolve(session)));
+  assert.equal(data, null);
+  await wait(20);
+  assert.deepEqual((await newStore(file).store.listUserSessions("alice")).map((s) => s.sid), ["sid-a"]);
+});
+
+test("user agents get short device labels", () => {
+  assert.equal(describeUserAgent("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile/15E148 Safari/604.1"), "Safari on iOS");
+  assert.equal(describeUserAgent("Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0 Safari/537.36 Edg/120.0"), "Edge on Windows");
+  assert.equal(describeUserAgent(undefined), "Unknown device");
+});
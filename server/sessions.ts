@@ -0,0 +1,101 @@
+import { createHash } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { PersistentSessionStore, StoredSession } from "./session-store";
+
+/** lastSeenAt is only rewritten this often so most requests don't save the session */
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/** Short label like "Chrome on macOS" for the device list */
+export function describeUserAgent(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? "Unknown device";
+}
+
+/** Id the client sees for a session; the raw sid would let anyone holding it sign in */
+export function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+/** Stores the request's device details on the session; also called at sign-in */
+export function recordSessionDevice(req: Request) {
+  req.session.device = { userAgent: req.get("user-agent") ?? undefined, ip: req.ip, lastSeenAt: Date.now() };
+}
+
+/** Keeps the device details and last-seen time of signed-in sessions current */
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (!req.session?.userId) return next();
+
+  const device = req.session.device;
+  if (
+    !device ||
+    device.userAgent !== (req.get("user-agent") ?? undefined) ||
+    device.ip !== req.ip ||
+    Date.now() - device.lastSeenAt >= LAST_SEEN_RESOLUTION_MS
+  ) {
+    recordSessionDevice(req);
+  }
+  next();
+}
+
+export function toSessionSummary(record: StoredSession, currentSid: string) {
+  const { device, authenticatedAt } = record.data;
+  return {
+    id: publicSessionId(record.sid),
+    current: record.sid === currentSid,
+    device: describeUserAgent(device?.userAgent),
+    userAgent: device?.userAgent ?? null,
+    ip: device?.ip ?? null,
+    signedInAt: authenticatedAt ? new Date(authenticatedAt).toISOString() : null,
+    lastSeenAt: device?.lastSeenAt ? new Date(device.lastSeenAt).toISOString() : null,
+    expiresAt: record.expiresAt.toISOString(),
+  };
+}
+
+export type SessionSummary = ReturnType<typeof toSessionSummary>;
+
+/** The member's sessions, current first and then most recently used */
+export async function listSessions(store: PersistentSessionStore, userId: string, currentSid: string): Promise<SessionSummary[]> {
+  const records = await store.listUserSessions(userId);
+  return records
+    .map((record) => toSessionSummary(record, currentSid))
+    .sort((a, b) => {
+      if (a.current !== b.current) return a.current ? -1 : 1;
+      return (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? "");
+    });
+}
+
+/** Signs out one of the member's sessions by its public id */
+export async function revokeSession(
+  store: PersistentSessionStore,
+  userId: string,
+  id: string,
+  currentSid: string
+): Promise<{ success: true } | { error: string; status: number }> {
+  const records = await store.listUserSessions(userId);
+  const record = records.find((candidate) => publicSessionId(candidate.sid) === id);
+  if (!record) return { error: "Session not found", status: 404 };
+  if (record.sid === currentSid) return { error: "Use sign out to end this session", status: 400 };
+  await new Promise<void>((resolve, reject) => store.destroy(record.sid, (err) => (err ? reject(err) : resolve())));
+  return { success: true };
+}
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createStationEdits } from "./station-edits";
+import { stationInput } from "./test-helpers";
+
+async function setup() {
+  const storage = new MemStorage();
+  const edits = createStationEdits(storage);
+  const member = await storage.createUser({ email: "member@example.com", passwordHash: "x" });
+  await storage.createProfile({ userId: member.id, displayName: "Proposer" });
+  const moderator = await storage.createUser({ email: "mod@example.com", passwordHash: "x" });
+  const station = await storage.createStation(stationInput("Supermarket", 52.5, 13.4));
+  return { storage, edits, member, moderator, station };
+}
+
+test("proposing records only the changed fields, and nothing when nothing changes", async () => {
+  const { edits, member, station } = await setup();
+  assert.equal(await edits.propose(station, member.id, { changes: { name: "Supermarket" } }), undefined);
+
+  const edit = await edits.propose(station, member.id, { changes: { name: "Supermarket", provider: "EnBW" }, comment: "New operator" });
+  assert.deepEqual(edit!.changes, { provider: { from: null, to: "EnBW" } });
+  assert.equal(edit!.status, "PENDING");
+  assert.equal(edit!.comment, "New operator");
+});
+
+test("applying updates the station, closes the proposal and tells the proposer", async () => {
+  const { storage, edits, member, moderator, station } = await setup();
+  const edit = await edits.propose(station, member.id, { changes: { provider: "EnBW" } });
+  const result = await edits.apply(edit!, station, moderator.id);
+
+  assert.ok("station" in result);
+  assert.equal(result.station!.provider, "EnBW");
+  assert.equal(result.edit!.status, "APPLIED");
+  assert.deepEqual(await edits.getQueue(), []);
+
+  const [notification] = await storage.getNotifications(member.id);
+  assert.deepEqual(notification.metadata, { decision: "APPLIED", stationName: "Supermarket", fields: ["provider"], reason: undefined });
+  const [history] = await edits.getHistory(station.id);
+  assert.equal(history.id, edit!.id);
+  assert.equal(history.proposer?.displayName, "Proposer");
+});
+
+test("a proposal made against an outdated value is refused", async () => {
+  const { storage, edits, member, moderator, station } = await setup();
+  const first = await edits.propose(station, member.id, { changes: { name: "Supermarket North" } });
+  const second = await edits.propose(station, member.id, { changes: { name: "Supermarket South" } });
+  await edits.apply(first!, station, moderator.id);
+
+  const current = (await storage.getStation(station.id))!;
+  const [queued] = await edits.getQueue();
+  assert.deepEqual(queued.staleFields, ["name"]);
+  assert.deepEqual(await edits.apply(second!, current, moderator.id), { stale: ["name"] });
+  assert.equal((await storage.getStation(station.id))!.name, "Supermarket North");
+});
+
+test("rejecting keeps the station and records the reason", async () => {
+  const { storage, edits, member, moderator, station } = await setup();
+  const edit = await edits.propose(station, member.id, { changes: { provider: "EnBW" } });
+  const rejected = await edits.reject(edit!, station, moderator.id, "Operator unchanged");
+  assert.equal(rejected!.status, "REJECTED");
+  assert.equal(rejected!.reviewNote, "Operator unchanged");
+  assert.equal((await storage.getStation(station.id))!.provider, null);
+  const [log] = await storage.getAuditLogs();
+  assert.equal(log.action, "STATION_EDIT_REJECTED");
+});
+
+test("pending proposals are closed when their station goes away", async () => {
+  const { storage, edits, member, moderator, station } = await setup();
+  await edits.propose(station, member.id, { changes: { provider: "EnBW" } });
+  await edits.propose(station, member.id, { changes: { pricing: "0.59 €/kWh" } });
+  await edits.closePending(station.id, moderator.id, "Station removed");
+  assert.deepEqual(await storage.getStationEdits({ stationId: station.id, status: "PENDING" }), []);
+  assert.equal((await storage.getStationEdits({ stationId: station.id, status: "REJECTED" })).length, 2);
+});
@@ -0,0 +1,131 @@
+import type { Station, StationEdit } from "@shared/schema";
+import {
+  diffStationFields,
+  staleFields,
+  EDITABLE_STATION_FIELDS,
+  type EditableStationField,
+  type EditableStationFields,
+  type StationEditInput,
+} from "@shared/station-edits";
+import type { IStorage } from "./storage";
+
+export type StationEditDecision = "APPLIED" | "REJECTED";
+
+function changedFields(edit: StationEdit): EditableStationField[] {
+  return EDITABLE_STATION_FIELDS.filter((field) => edit.changes[field] !== undefined);
+}
+
+export function createStationEdits(storage: IStorage) {
+  /** Records the fields that differ from the station as a pending proposal; undefined when nothing changes */
+  async function propose(station: Station, proposerId: string, input: StationEditInput) {
+    const changes = diffStationFields(station, input.changes);
+    if (Object.keys(changes).length === 0) return undefined;
+    return storage.createStationEdit({
+      stationId: station.id,
+      proposerId,
+      changes,
+      comment: input.comment || null,
+    });
+  }
+
+  async function withProposer(edit: StationEdit) {
+    return {
+      ...edit,
+      proposer: edit.proposerId ? await storage.getProfile(edit.proposerId) : undefined,
+    };
+  }
+
+  /** Pending proposals alongside the station as it is now, for side-by-side review */
+  async function getQueue(limit = 50) {
+    const pending = await storage.getStationEdits({ status: "PENDING", limit });
+    const queue = await Promise.all(
+      pending.map(async (edit) => {
+        const station = await storage.getStation(edit.stationId);
+        if (!station) return undefined;
+        return { ...(await withProposer(edit)), station, staleFields: staleFields(station, edit.changes) };
+      })
+    );
+    return queue.filter((item): item is NonNullable<typeof item> => item !== undefined);
+  }
+
+  /** Applied proposals, most recent first, each crediting the member who proposed it */
+  async function getHistory(stationId: string, limit = 50) {
+    const applied = await storage.getStationEdits({ stationId, status: "APPLIED", limit });
+    applied.sort((a, b) => (b.reviewedAt?.getTime() ?? 0) - (a.reviewedAt?.getTime() ?? 0));
+    return Promise.all(applied.map(withProposer));
+  }
+
+  async function recordDecision(edit: StationEdit, station: Station, moderatorId: string, decision: StationEditDecision, note?: string) {
+    const fields = changedFields(edit);
+    await storage.createAuditLog({
+      action: `STATION_EDIT_${decision}`,
+      actorId: moderatorId,
+      targetType: "STATION",
+      targetId: station.id,
+      metadata: { editId: edit.id, proposerId: edit.proposerId, fields, note },
+    });
+
+    if (!edit.proposerId || edit.proposerId === moderatorId) return;
+    await storage.createNotification({
+      userId: edit.proposerId,
+      type: "STATION_EDIT",
+      actorId: moderatorId,
+      targetType: "STATION",
+      targetId: station.id,
+      metadata: { decision, stationName: station.name, fields, reason: note },
+    });
+  }
+
+  /**
+   * Applies a proposal through updateStation. Refuses when any field has
+   * changed since the proposal was made, so a newer fix isn't overwritten.
+   */
+  async function apply(edit: StationEdit, station: Station, moderatorId: string, note?: string) {
+    const stale = staleFields(station, edit.changes);
+    if (stale.length > 0) return { stale };
+
+    const updates: Partial<EditableStationFields> = {};
+    for (const field of changedFields(edit)) {
+      (updates as Record<string, unknown>)[field] = edit.changes[field]!.to;
+    }
+    const updated = await storage.updateStation(station.id, updates);
+    const reviewed = await storage.updateStationEdit(edit.id, {
+      status: "APPLIED",
+      reviewedBy: moderatorId,
+      reviewNote: note ?? null,
+      reviewedAt: new Date(),
+    });
+    await recordDecision(edit, station, moderatorId, "APPLIED", note);
+    return { station: updated, edit: reviewed };
+  }
+
+  async function reject(edit: StationEdit, station: Station, moderatorId: string, reason: string) {
+    const reviewed = await storage.updateStationEdit(edit.id, {
+      status: "REJECTED",
+      reviewedBy: moderatorId,
+      reviewNote: reason,
+      reviewedAt: new Date(),
+    });
+    await recordDecision(edit, station, moderatorId, "REJECTED", reason);
+    return reviewed;
+  }
+
+  /** Closes pending proposals for a station that is being removed or merged away */
+  async function closePending(stationId: string, moderatorId: string, note: string) {
+    const pending = await storage.getStationEdits({ stationId, status: "PENDING", limit: 1000 });
+    await Promise.all(
+      pending.map((edit) =>
+        storage.updateStationEdit(edit.id, {
+          status: "REJECTED",
+          reviewedBy: moderatorId,
+          reviewNote: note,
+          reviewedAt: new Date(),
+        })
+      )
+    );
+  }
+
+  return { propose, getQueue, getHistory, apply, reject, closePending };
+}
+
+export type StationEdits = ReturnType<typeof createStationEdits>;
@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Station } from "@shared/schema";
+import {
+  parseConnectorList,
+  parseCsv,
+  parseStationsCsv,
+  parseStationsGeoJson,
+  toStationsGeoJson,
+  toStationsGpx,
+  toStationsKml,
+} from "./station-formats";
+
+test("connector lists accept ; and | separators", () => {
+  assert.deepEqual(parseConnectorList("CCS:150; Type 2:22 | CHAdeMO:50"), [
+    { type: "CCS", powerKW: 150 },
+    { type: "Type 2", powerKW: 22 },
+    { type: "CHAdeMO", powerKW: 50 },
+  ]);
+  const [missingPower] = parseConnectorList("Schuko");
+  assert.equal(missingPower.type, "Schuko");
+  assert.ok(Number.isNaN(missingPower.powerKW));
+});
+
+test("the CSV reader handles quotes, doubled quotes, CRLF, a BOM and blank lines", () => {
+  assert.deepEqual(parseCsv('\uFEFFname,notes\r\n"Hotel, car park","Says ""hi"""\r\n\r\nShop,\n'), [
+    ["name", "notes"],
+    ["Hotel, car park", 'Says "hi"'],
+    ["Shop", ""],
+  ]);
+});
+
+test("CSV rows map common column names and report their line numbers", () => {
+  const parsed = parseStationsCsv(
+    "title,latitude,lon,operator,connector,power_kw\nHotel,52.5,13.4,EnBW,Type 2,22\n"
+  );
+  assert.ok("rows" in parsed);
+  assert.deepEqual(parsed.rows, [
+    {
+      row: 2,
+      data: {
+        externalId: undefined,
+        name: "Hotel",
+        address: undefined,
+        coords: { lat: 52.5, lng: 13.4 },
+        connectors: [{ type: "Type 2", powerKW: 22 }],
+        provider: "EnBW",
+        pricing: undefined,
+      },
+    },
+  ]);
+  assert.deepEqual(parseStationsCsv(""), { error: "The CSV file is empty" });
+});
+
+test("GeoJSON points are read as [lng, lat] and other geometries are flagged", () => {
+  const parsed = parseStationsGeoJson(JSON.stringify({
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", geometry: { type: "Point", coordinates: [13.4, 52.5] }, properties: { name: "Hotel", connectors: "CCS:50" } },
+      { type: "Feature", geometry: { type: "LineString", coordinates: [] }, properties: { name: "Road" } },
+    ],
+  }));
+  assert.ok("rows" in parsed);
+  assert.deepEqual(parsed.rows[0].data.coords, { lat: 52.5, lng: 13.4 });
+  assert.deepEqual(parsed.rows[0].data.connectors, [{ type: "CCS", powerKW: 50 }]);
+  assert.equal(parsed.rows[0].error, undefined);
+  assert.equal(parsed.rows[1].error, "Only Point features can be imported");
+
+  assert.deepEqual(parseStationsGeoJson("{"), { error: "The file isn't valid JSON" });
+  assert.deepEqual(parseStationsGeoJson({ type: "Feature" }), { error: "Expected a GeoJSON FeatureCollection" });
+});
+
+const station = {
+  id: "station-1",
+  externalId: null,
+  name: "Fish & Chips <Pier>",
+  coords: { lat: 50.1, lng: -5.5 },
+  address: "Pier Road",
+  connectors: [{ type: "CCS", powerKW: 50 }],
+  provider: null,
+  pricing: "0.79 €/kWh",
+  verified: true,
+  ratingAverage: 0,
+  ratingCount: 0,
+} as unknown as Station;
+
+test("exported GeoJSON reads back as the same station", () => {
+  const parsed = parseStationsGeoJson(toStationsGeoJson([station]));
+  assert.ok("rows" in parsed);
+  assert.equal(parsed.rows[0].data.name, station.name);
+  assert.deepEqual(parsed.rows[0].data.coords, station.coords);
+  assert.deepEqual(parsed.rows[0].data.connectors, station.connectors);
+});
+
+test("KML and GPX exports escape names and put coordinates in each format's order", () => {
+  const kml = toStationsKml([station]);
+  assert.match(kml, /<name>Fish &amp; Chips &lt;Pier&gt;<\/name>/);
+  assert.match(kml, /<coordinates>-5.5,50.1,0<\/coordinates>/);
+  assert.match(kml, /<description>Pier Road\nCCS:50\n0.79 €\/kWh<\/description>/);
+
+  const gpx = toStationsGpx([station], "Cornwall");
+  assert.match(gpx, /<wpt lat="50.1" lon="-5.5">/);
+  assert.match(gpx, /<metadata><name>Cornwall<\/name><\/metadata>/);
+});
@@ -0,0 +1,236 @@
+import type { Station } from "@shared/schema";
+
+// Station rows as read from an import file, before validation. Field names
+// follow InsertStation; anything unparseable is left for the schema to reject.
+export interface StationImportRow {
+  /** 1-based feature index or CSV line number, for error reporting */
+  row: number;
+  data: Record<string, unknown>;
+  /** Set when the row can't be read at all, e.g. a feature that isn't a point */
+  error?: string;
+}
+
+/** Splits "CCS:150; Type 2:22" (also "|"-separated) into connectors */
+export function parseConnectorList(value: string): Array<{ type: string; powerKW: number }> {
+  return value
+    .split(/[;|]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const separator = part.lastIndexOf(":");
+      const type = separator === -1 ? part : part.slice(0, separator).trim();
+      const powerKW = separator === -1 ? NaN : parseFloat(part.slice(separator + 1));
+      return { type, powerKW };
+    });
+}
+
+function firstDefined(source: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (source[key] !== undefined && source[key] !== null && source[key] !== "") return source[key];
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === "number" ? value : parseFloat(String(value));
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
+// Accepts the field names we export plus the usual alternatives in community lists
+function rowFromProperties(properties: Record<string, unknown>, coords?: { lat: unknown; lng: unknown }) {
+  const connectors = firstDefined(properties, ["connectors"]);
+  const singleType = firstDefined(properties, ["connectorType", "connector_type", "connector"]);
+  const singlePower = firstDefined(properties, ["powerKW", "power_kw", "power"]);
+  return {
+    externalId: optionalString(firstDefined(properties, ["externalId", "external_id", "ref"])),
+    name: optionalString(firstDefined(properties, ["name", "title"])),
+    address: optionalString(firstDefined(properties, ["address", "addr", "location"])),
+    coords: coords
+      ? { lat: toNumber(coords.lat), lng: toNumber(coords.lng) }
+      : {
+          lat: toNumber(firstDefined(properties, ["lat", "latitude"])),
+          lng: toNumber(firstDefined(properties, ["lng", "lon", "long", "longitude"])),
+        },
+    connectors: Array.isArray(connectors)
+      ? connectors
+      : typeof connectors === "string"
+        ? parseConnectorList(connectors)
+        : singleType !== undefined
+          ? [{ type: String(singleType), powerKW: toNumber(singlePower) }]
+          : [],
+    provider: optionalString(firstDefined(properties, ["provider", "operator", "network"])),
+    pricing: optionalString(firstDefined(properties, ["pricing", "price", "cost"])),
+  };
+}
+
+export type StationImportParseResult = { rows: StationImportRow[] } | { error: string };
+
+/** Reads point features from a GeoJSON FeatureCollection; other geometries come back with an error */
+export function parseStationsGeoJson(input: unknown): StationImportParseResult {
+  let collection: any = input;
+  if (typeof input === "string") {
+    try {
+      collection = JSON.parse(input);
+    } catch {
+      return { error: "The file isn't valid JSON" };
+    }
+  }
+  if (!collection || collection.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    return { error: "Expected a GeoJSON FeatureCollection" };
+  }
+  const rows = collection.features.map((feature: any, index: number) => {
+    const properties = (feature?.properties ?? {}) as Record<string, unknown>;
+    const point = feature?.geometry?.type === "Point" ? feature.geometry.coordinates : undefined;
+    return {
+      row: index + 1,
+      error: point ? undefined : "Only Point features can be imported",
+      data: rowFromProperties(properties, {
+        // GeoJSON positions are [lng, lat]
+        lat: point?.[1],
+        lng: point?.[0],
+      }),
+    };
+  });
+  return { rows };
+}
+
+/** Minimal RFC 4180 reader: quoted fields, doubled quotes and CRLF or LF line endings */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/** CSV with a header row; see rowFromProperties for the accepted column names */
+export function parseStationsCsv(text: string): StationImportParseResult {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return { error: "The CSV file is empty" };
+  const columns = header.map((name) => name.trim());
+  const rows = lines.map((cells, index) => {
+    const properties: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = cells[i]?.trim();
+      if (value) properties[column] = value;
+    });
+    // Header is line 1
+    return { row: index + 2, data: rowFromProperties(properties) };
+  });
+  return { rows };
+}
+
+function connectorSummary(station: Station): string {
+  return station.connectors.map((connector) => `${connector.type}:${connector.powerKW}`).join("; ");
+}
+
+export function toStationsGeoJson(stations: Station[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: stations.map((station) => ({
+      type: "Feature" as const,
+      id: station.id,
+      geometry: { type: "Point" as const, coordinates: [station.coords.lng, station.coords.lat] },
+      properties: {
+        id: station.id,
+        externalId: station.externalId,
+        name: station.name,
+        address: station.address,
+        connectors: station.connectors,
+        provider: station.provider,
+        pricing: station.pricing,
+        verified: station.verified,
+        ratingAverage: station.ratingAverage,
+        ratingCount: station.ratingCount,
+      },
+    })),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function stationDescription(station: Station): string {
+  return [station.address, connectorSummary(station), station.provider, station.pricing]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function toStationsKml(stations: Station[], title = "EV charging stations"): string {
+  const placemarks = stations.map((station) => [
+    "    <Placemark>",
+    `      <name>${escapeXml(station.name)}</name>`,
+    `      <description>${escapeXml(stationDescription(station))}</description>`,
+    `      <Point><coordinates>${station.coords.lng},${station.coords.lat},0</coordinates></Point>`,
+    "    </Placemark>",
+  ].join("\n"));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(title)}</name>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+export function toStationsGpx(stations: Station[], title = "EV charging stations"): string {
+  const waypoints = stations.map((station) => [
+    `  <wpt lat="${station.coords.lat}" lon="${station.coords.lng}">`,
+    `    <name>${escapeXml(station.name)}</name>`,
+    `    <desc>${escapeXml(stationDescription(station))}</desc>`,
+    "    <type>EV charging station</type>",
+    "  </wpt>",
+  ].join("\n"));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="EV Connect" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(title)}</name></metadata>`,
+    ...waypoints,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
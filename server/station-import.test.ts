@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createStationImporter } from "./station-import";
+import { stationInput } from "./test-helpers";
+
+const CSV = [
+  "external_id,name,address,lat,lng,connectors",
+  "ext-1,Hotel,Main Street 1,52.5,13.4,CCS:150",
+  "ext-1,Hotel again,Main Street 1,52.6,13.4,CCS:150",
+  "ext-2,Hotel annex,Main Street 2,52.5002,13.4,Type 2:22",
+  "ext-3,Old depot,Depot Lane,48.1,11.6,CCS:50",
+  ",Nowhere,Somewhere,91,0,CCS:50",
+].join("\n");
+
+async function setup() {
+  const storage = new MemStorage();
+  const importer = createStationImporter(storage);
+  const existing = await storage.createStation(stationInput("Old depot", 48.1, 11.6, { externalId: "ext-3" }));
+  return { storage, importer, existing };
+}
+
+test("a dry run reports each row's outcome without creating stations", async () => {
+  const { storage, importer, existing } = await setup();
+  const report = await importer.importStations({ format: "csv", data: CSV, dryRun: true, updateExisting: false });
+  assert.ok(!("error" in report));
+  assert.deepEqual(
+    { total: report.total, created: report.created, updated: report.updated, duplicates: report.duplicates, invalid: report.invalid },
+    { total: 5, created: 1, updated: 0, duplicates: 3, invalid: 1 }
+  );
+  assert.deepEqual(
+    report.rows.map((row) => [row.row, row.outcome, row.reason]),
+    [
+      [2, "CREATE", undefined],
+      [3, "DUPLICATE", "Same externalId as row 2"],
+      [4, "DUPLICATE", "Within 50 m of row 2"],
+      [5, "DUPLICATE", "A station with this externalId already exists"],
+      [6, "INVALID", "coords.lat: Number must be less than or equal to 90"],
+    ]
+  );
+  assert.equal(report.rows[3].stationId, existing.id);
+  assert.equal((await storage.getStations()).length, 1);
+});
+
+test("importing creates verified stations and can refresh existing ones", async () => {
+  const { storage, importer, existing } = await setup();
+  const report = await importer.importStations({ format: "csv", data: CSV, dryRun: false, updateExisting: true });
+  assert.ok(!("error" in report));
+  assert.equal(report.created, 1);
+  assert.equal(report.updated, 1);
+
+  const created = await storage.getStation(report.rows[0].stationId!);
+  assert.equal(created!.verified, true);
+  assert.equal(created!.externalId, "ext-1");
+  const refreshed = await storage.getStation(existing.id);
+  assert.equal(refreshed!.address, "Depot Lane");
+  assert.deepEqual(refreshed!.connectors, [{ type: "CCS", powerKW: 50 }]);
+});
+
+test("rows near a station already in storage are duplicates", async () => {
+  const { importer, existing } = await setup();
+  const report = await importer.importStations({
+    format: "csv",
+    data: "name,address,lat,lng,connectors\nDepot forecourt,Depot Lane,48.1001,11.6,CCS:50\n",
+    dryRun: true,
+    updateExisting: false,
+  });
+  assert.ok(!("error" in report));
+  assert.deepEqual(report.rows[0], {
+    row: 2,
+    outcome: "DUPLICATE",
+    name: "Depot forecourt",
+    stationId: existing.id,
+    reason: "Within 50 m of Old depot",
+  });
+});
+
+test("unreadable and oversized files are refused as a whole", async () => {
+  const storage = new MemStorage();
+  const importer = createStationImporter(storage, { maxRows: 2 });
+  const request = { dryRun: true, updateExisting: false };
+  assert.deepEqual(await importer.importStations({ ...request, format: "csv", data: { rows: [] } }), {
+    error: "CSV data must be sent as text",
+  });
+  assert.deepEqual(await importer.importStations({ ...request, format: "csv", data: CSV }), {
+    error: "Imports are limited to 2 stations at a time",
+  });
+});
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { insertStationSchema, type InsertStation } from "@shared/schema";
+import { haversineDistanceKm, type LatLng } from "@shared/geo";
+import { parseStationsCsv, parseStationsGeoJson, type StationImportRow } from "./station-formats";
+import type { IStorage } from "./storage";
+
+export interface StationImportOptions {
+  /** A row this close to an existing station is treated as the same site */
+  duplicateRadiusMeters?: number;
+  maxRows?: number;
+}
+
+const DEFAULT_DUPLICATE_RADIUS_METERS = 50;
+const DEFAULT_MAX_ROWS = 5000;
+
+export const stationImportRequestSchema = z.object({
+  format: z.enum(["geojson", "csv"]),
+  /** FeatureCollection object or file text */
+  data: z.unknown(),
+  dryRun: z.boolean().default(true),
+  /** Refresh stations that share an externalId instead of skipping them */
+  updateExisting: z.boolean().default(false),
+});
+
+export type StationImportRequest = z.infer<typeof stationImportRequestSchema>;
+
+// insertStationSchema leaves the jsonb columns loosely typed, so coordinates
+// and connectors are checked properly here
+const importedStationSchema = insertStationSchema
+  .omit({ addedBy: true, availability: true })
+  .extend({
+    externalId: z.string().trim().min(1).max(200).optional(),
+    name: z.string().trim().min(1).max(200),
+    address: z.string().trim().min(1).max(500),
+    coords: z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    }),
+    connectors: z.array(z.object({
+      type: z.string().trim().min(1).max(100),
+      powerKW: z.number().positive().max(1000),
+    })).max(50),
+    provider: z.string().trim().max(200).optional(),
+    pricing: z.string().trim().max(500).optional(),
+  });
+
+export type StationImportOutcome = "CREATE" | "UPDATE" | "DUPLICATE" | "INVALID";
+
+export interface StationImportRowResult {
+  row: number;
+  outcome: StationImportOutcome;
+  name?: string;
+  /** Station created or updated, or the existing one a duplicate matched */
+  stationId?: string;
+  /** Why a row was skipped or rejected */
+  reason?: string;
+}
+
+export interface StationImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  duplicates: number;
+  invalid: number;
+  rows: StationImportRowResult[];
+}
+
+export function createStationImporter(storage: IStorage, options: StationImportOptions = {}) {
+  const duplicateRadiusMeters = options.duplicateRadiusMeters ?? DEFAULT_DUPLICATE_RADIUS_METERS;
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+
+  function validate(row: StationImportRow): { station: InsertStation & { coords: LatLng } } | { reason: string } {
+    if (row.error) return { reason: row.error };
+    const result = importedStationSchema.safeParse(row.data);
+    if (result.success) return { station: result.data };
+    return {
+      reason: result.error.errors.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; "),
+    };
+  }
+
+  /**
+   * Validates and dedupes every row, then creates or updates stations unless
+   * it's a dry run. Imported stations come from an admin and are marked
+   * verified. Returns an error instead of a report when the file can't be read.
+   */
+  async function importStations(request: StationImportRequest): Promise<StationImportReport | { error: string }> {
+    const parsed = request.format === "geojson"
+      ? parseStationsGeoJson(request.data)
+      : typeof request.data === "string"
+        ? parseStationsCsv(request.data)
+        : { error: "CSV data must be sent as text" };
+    if ("error" in parsed) return parsed;
+    if (parsed.rows.length > maxRows) {
+      return { error: `Imports are limited to ${maxRows} stations at a time` };
+    }
+
+    const report: StationImportReport = {
+      dryRun: request.dryRun,
+      total: parsed.rows.length,
+      created: 0,
+      updated: 0,
+      duplicates: 0,
+      invalid: 0,
+      rows: [],
+    };
+    // Earlier rows of this file, so a list that repeats a charger only imports it once
+    const seenExternalIds = new Map<string, number>();
+    const accepted: Array<{ row: number; coords: LatLng }> = [];
+
+    for (const row of parsed.rows) {
+      const validated = validate(row);
+      if ("reason" in validated) {
+        report.invalid++;
+        report.rows.push({ row: row.row, outcome: "INVALID", reason: validated.reason });
+        continue;
+      }
+      const { station } = validated;
+      const result: StationImportRowResult = { row: row.row, outcome: "CREATE", name: station.name };
+
+      const repeatedAt = station.externalId ? seenExternalIds.get(station.externalId) : undefined;
+      const nearbyRow = accepted.find(
+        (earlier) => haversineDistanceKm(earlier.coords, station.coords) * 1000 <= duplicateRadiusMeters
+      );
+      const existing = station.externalId ? await storage.getStationByExternalId(station.externalId) : undefined;
+
+      if (repeatedAt !== undefined) {
+        result.outcome = "DUPLICATE";
+        result.reason = `Same externalId as row ${repeatedAt}`;
+      } else if (existing) {
+        result.stationId = existing.id;
+        if (request.updateExisting) {
+          result.outcome = "UPDATE";
+        } else {
+          result.outcome = "DUPLICATE";
+          result.reason = "A station with this externalId already exists";
+        }
+      } else if (nearbyRow) {
+        result.outcome = "DUPLICATE";
+        result.reason = `Within ${duplicateRadiusMeters} m of row ${nearbyRow.row}`;
+      } else {
+        const [nearby] = await storage.getStations({
+          near: { ...station.coords, radiusKm: duplicateRadiusMeters / 1000 },
+          limit: 1,
+        });
+        if (nearby) {
+          result.outcome = "DUPLICATE";
+          result.stationId = nearby.id;
+          result.reason = `Within ${duplicateRadiusMeters} m of ${nearby.name}`;
+        }
+      }
+
+      if (station.externalId && repeatedAt === undefined) seenExternalIds.set(station.externalId, row.row);
+      if (result.outcome === "CREATE" || result.outcome === "UPDATE") {
+        accepted.push({ row: row.row, coords: station.coords });
+      }
+
+      if (!request.dryRun && result.outcome === "UPDATE") {
+        await storage.upsertStationByExternalId({ ...station, externalId: station.externalId! });
+      } else if (!request.dryRun && result.outcome === "CREATE") {
+        const created = await storage.createStation(station);
+        await storage.updateStation(created.id, { verified: true });
+        result.stationId = created.id;
+      }
+
+      if (result.outcome === "CREATE") report.created++;
+      else if (result.outcome === "UPDATE") report.updated++;
+      else report.duplicates++;
+      report.rows.push(result);
+    }
+
+    return report;
+  }
+
+  return { importStations };
+}
+
+export type StationImporter = ReturnType<typeof createStationImporter>;
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { migratedStationFields } from "./station-migration";
+
+test("legacy stations get coords, a GeoJSON point and a one-line address", () => {
+  const created = new Date("2024-01-01T00:00:00Z");
+  const fields = migratedStationFields({
+    _id: "s1",
+    location: { lat: 52.5, lng: 13.4, address: "Alexanderplatz 1", city: "Berlin", country: "Germany" },
+    operator: "Ionity",
+    status: "AVAILABLE",
+    connectors: [{ type: "CCS", power: 150 }, { type: "Type 2" }],
+    createdAt: created,
+  });
+
+  assert.deepEqual(fields, {
+    coords: { lat: 52.5, lng: 13.4 },
+    location: { type: "Point", coordinates: [13.4, 52.5] },
+    address: "Alexanderplatz 1, Berlin, Germany",
+    connectors: [{ type: "CCS", powerKW: 150 }, { type: "Type 2", powerKW: 0 }],
+    provider: "Ionity",
+    availability: "AVAILABLE",
+    updatedAt: created,
+  });
+});
+
+test("legacy stations without a position are left alone", () => {
+  assert.equal(migratedStationFields({ _id: "s2", location: { address: "Somewhere" } }), null);
+  assert.equal(migratedStationFields({ _id: "s3" }), null);
+});
@@ -0,0 +1,65 @@
+import { Station } from "./models";
+
+/** A station document written before stations gained coords, a GeoJSON point and a one-line address */
+interface LegacyStationDocument {
+  _id: string;
+  location?: {
+    lat?: number;
+    lng?: number;
+    address?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+  };
+  operator?: string;
+  status?: string;
+  connectors?: Array<{ type?: string; power?: number; powerKW?: number }>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/** The current station fields for a legacy document, or null if it has no usable position */
+export function migratedStationFields(doc: LegacyStationDocument) {
+  const lat = doc.location?.lat;
+  const lng = doc.location?.lng;
+  if (typeof lat !== "number" || typeof lng !== "number") return null;
+
+  const { address, city, state, country } = doc.location ?? {};
+  return {
+    coords: { lat, lng },
+    location: { type: "Point", coordinates: [lng, lat] },
+    // One comma-separated line, country last, as the importers and OCPI expect
+    address: [address, city, state, country].filter(Boolean).join(", ") || "Unknown address",
+    connectors: (doc.connectors ?? [])
+      .filter((connector) => connector.type)
+      .map((connector) => ({ type: connector.type!, powerKW: connector.powerKW ?? connector.power ?? 0 })),
+    ...(doc.operator ? { provider: doc.operator } : {}),
+    ...(doc.status ? { availability: doc.status } : {}),
+    updatedAt: doc.updatedAt ?? doc.createdAt ?? new Date(),
+  };
+}
+
+/**
+ * Rewrites station documents from the original schema (location as
+ * lat/lng plus address parts, operator, status, connector power) into the
+ * current shape. Safe to run repeatedly: migrated documents have coords and
+ * are skipped. Returns how many documents were rewritten.
+ */
+export async function migrateLegacyStations(): Promise<number> {
+  const legacy = await Station.collection
+    .find<LegacyStationDocument>({ coords: { $exists: false } })
+    .toArray();
+
+  let migrated = 0;
+  for (const doc of legacy) {
+    const fields = migratedStationFields(doc);
+    if (!fields) {
+      console.warn(`[StationMigration] Skipping station ${doc._id}: no coordinates`);
+      continue;
+    }
+    await Station.collection.updateOne({ _id: doc._id } as any, { $set: fields, $unset: { operator: "", status: "" } });
+    migrated++;
+  }
+  if (migrated > 0) console.log(`[StationMigration] Migrated ${migrated} legacy stations`);
+  return migrated;
+}
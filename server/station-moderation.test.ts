@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createStationModeration } from "./station-moderation";
+import { stationInput } from "./test-helpers";
+
+async function setup() {
+  const storage = new MemStorage();
+  const moderation = createStationModeration(storage, { duplicateRadiusMeters: 150 });
+  const member = await storage.createUser({ email: "member@example.com", passwordHash: "x" });
+  const moderator = await storage.createUser({ email: "mod@example.com", passwordHash: "x" });
+  // A synced station and a member's submission of the same site 50 m away
+  const existing = await storage.createStation(stationInput("Ionity Brandenburg", 52.5, 13.0, { externalId: "ocm-1" }));
+  const submitted = await storage.createStation(
+    stationInput("Ionity Brandenburg", 52.50045, 13.0, { addedBy: member.id })
+  );
+  return { storage, moderation, member, moderator, existing, submitted };
+}
+
+test("duplicates are found by distance, name and external id, closest first", async () => {
+  const { storage, moderation, existing, submitted } = await setup();
+  const farSameName = await storage.createStation(stationInput("ionity brandenburg", 48.1, 11.6));
+  const nearOther = await storage.createStation(stationInput("Lidl car park", 52.5002, 13.0));
+  await storage.createStation(stationInput("Far away", 52.51, 13.0));
+
+  const duplicates = await moderation.findDuplicates(submitted);
+  assert.deepEqual(
+    duplicates.map((duplicate) => [duplicate.station.id, duplicate.reasons]),
+    [
+      [nearOther.id, ["NEARBY"]],
+      [existing.id, ["NEARBY", "SAME_NAME"]],
+      [farSameName.id, ["SAME_NAME"]],
+    ]
+  );
+  assert.equal(duplicates[1].distanceMeters, 50);
+
+  const byExternalId = await moderation.findDuplicates({ ...submitted, id: "incoming", externalId: "ocm-1", name: "x", coords: { lat: 0, lng: 0 } });
+  assert.deepEqual(byExternalId.map((duplicate) => duplicate.reasons), [["SAME_EXTERNAL_ID"]]);
+});
+
+test("the queue only holds unverified member submissions, with their duplicates", async () => {
+  const { moderation, existing, submitted } = await setup();
+  const queue = await moderation.getQueue();
+  assert.deepEqual(queue.map((station) => station.id), [submitted.id]);
+  assert.deepEqual(queue[0].duplicates.map((duplicate) => duplicate.station.id), [existing.id]);
+});
+
+test("approving verifies the station, logs it and tells the submitter", async () => {
+  const { storage, moderation, member, moderator, submitted } = await setup();
+  const approved = await moderation.approve(submitted, moderator.id);
+  assert.equal(approved!.verified, true);
+  assert.deepEqual(await moderation.getQueue(), []);
+
+  const [log] = await storage.getAuditLogs();
+  assert.equal(log.action, "STATION_APPROVED");
+  assert.equal(log.actorId, moderator.id);
+  const [notification] = await storage.getNotifications(member.id);
+  assert.equal(notification.targetId, submitted.id);
+  assert.equal((notification.metadata as any).decision, "APPROVED");
+});
+
+test("rejecting deletes the submission and the notification points nowhere", async () => {
+  const { storage, moderation, member, moderator, submitted } = await setup();
+  await moderation.reject(submitted, moderator.id, "Duplicate of an existing site");
+  assert.equal(await storage.getStation(submitted.id), undefined);
+  const [notification] = await storage.getNotifications(member.id);
+  assert.equal(notification.targetId, null);
+  assert.equal((notification.metadata as any).reason, "Duplicate of an existing site");
+});
+
+test("merging points the submitter at the station that remains", async () => {
+  const { storage, moderation, member, moderator, existing, submitted } = await setup();
+  const merged = await moderation.merge(submitted, existing, moderator.id);
+  assert.equal(merged!.id, existing.id);
+  assert.equal(await storage.getStation(submitted.id), undefined);
+  const [notification] = await storage.getNotifications(member.id);
+  assert.equal(notification.targetId, existing.id);
+  assert.equal((notification.metadata as any).mergedIntoName, existing.name);
+});
+
+test("moderators aren't notified about their own submissions", async () => {
+  const { storage, moderation, moderator } = await setup();
+  const own = await storage.createStation(stationInput("Own", 40, 10, { addedBy: moderator.id }));
+  await moderation.approve(own, moderator.id);
+  assert.deepEqual(await storage.getNotifications(moderator.id), []);
+  assert.equal((await storage.getAuditLogs()).length, 1);
+});
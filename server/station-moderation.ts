@@ -0,0 +1,126 @@
+import type { Station } from "@shared/schema";
+import { haversineDistanceKm } from "@shared/geo";
+import type { IStorage } from "./storage";
+
+export interface StationModerationOptions {
+  /** Stations closer than this are offered as likely duplicates */
+  duplicateRadiusMeters?: number;
+}
+
+const DEFAULT_DUPLICATE_RADIUS_METERS = 150;
+const MAX_DUPLICATES = 10;
+
+export type DuplicateReason = "NEARBY" | "SAME_NAME" | "SAME_EXTERNAL_ID";
+export type VerificationDecision = "APPROVED" | "REJECTED" | "MERGED";
+
+export interface StationDuplicate {
+  station: Station;
+  distanceMeters: number;
+  reasons: DuplicateReason[];
+}
+
+export function createStationModeration(storage: IStorage, options: StationModerationOptions = {}) {
+  const duplicateRadiusMeters =
+    options.duplicateRadiusMeters ??
+    (Number(process.env.STATION_DUPLICATE_RADIUS_METERS) || DEFAULT_DUPLICATE_RADIUS_METERS);
+
+  /** Other stations that look like the same site, closest first */
+  async function findDuplicates(station: Station): Promise<StationDuplicate[]> {
+    const [nearby, sameName, sameExternalId] = await Promise.all([
+      storage.getStations({ near: { ...station.coords, radiusKm: duplicateRadiusMeters / 1000 }, limit: MAX_DUPLICATES + 1 }),
+      storage.getStations({ name: station.name.trim(), limit: MAX_DUPLICATES + 1 }),
+      station.externalId ? storage.getStationByExternalId(station.externalId) : Promise.resolve(undefined),
+    ]);
+
+    const duplicates = new Map<string, StationDuplicate>();
+    const add = (candidate: Station, reason: DuplicateReason) => {
+      if (candidate.id === station.id) return;
+      const existing = duplicates.get(candidate.id);
+      if (existing) {
+        if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+        return;
+      }
+      duplicates.set(candidate.id, {
+        station: candidate,
+        distanceMeters: Math.round(haversineDistanceKm(station.coords, candidate.coords) * 1000),
+        reasons: [reason],
+      });
+    };
+
+    nearby.forEach((candidate) => add(candidate, "NEARBY"));
+    sameName.forEach((candidate) => add(candidate, "SAME_NAME"));
+    if (sameExternalId) add(sameExternalId, "SAME_EXTERNAL_ID");
+
+    return Array.from(duplicates.values())
+      .sort((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, MAX_DUPLICATES);
+  }
+
+  async function getQueue(limit = 50) {
+    const pending = await storage.getStations({ verified: false, submittedOnly: true, limit });
+    return Promise.all(
+      pending.map(async (station) => ({
+        ...station,
+        submitter: station.addedBy ? await storage.getProfile(station.addedBy) : undefined,
+        duplicates: await findDuplicates(station),
+      }))
+    );
+  }
+
+  async function recordDecision(
+    station: Station,
+    moderatorId: string,
+    decision: VerificationDecision,
+    details: { reason?: string; mergedInto?: Station } = {}
+  ) {
+    await storage.createAuditLog({
+      action: `STATION_${decision}`,
+      actorId: moderatorId,
+      targetType: "STATION",
+      targetId: station.id,
+      metadata: {
+        stationName: station.name,
+        submittedBy: station.addedBy,
+        reason: details.reason,
+        mergedInto: details.mergedInto?.id,
+      },
+    });
+
+    if (!station.addedBy || station.addedBy === moderatorId) return;
+    await storage.createNotification({
+      userId: station.addedBy,
+      type: "STATION_VERIFICATION",
+      actorId: moderatorId,
+      targetType: "STATION",
+      // A rejected or merged submission no longer exists; point at what does
+      targetId: details.mergedInto?.id ?? (decision === "APPROVED" ? station.id : null),
+      metadata: {
+        decision,
+        stationName: station.name,
+        reason: details.reason,
+        mergedIntoName: details.mergedInto?.name,
+      },
+    });
+  }
+
+  async function approve(station: Station, moderatorId: string) {
+    const updated = await storage.updateStation(station.id, { verified: true });
+    await recordDecision(station, moderatorId, "APPROVED");
+    return updated;
+  }
+
+  async function reject(station: Station, moderatorId: string, reason: string) {
+    await storage.deleteStation(station.id);
+    await recordDecision(station, moderatorId, "REJECTED", { reason });
+  }
+
+  async function merge(source: Station, target: Station, moderatorId: string) {
+    const merged = await storage.mergeStations(source.id, target.id);
+    if (merged) await recordDecision(source, moderatorId, "MERGED", { mergedInto: merged });
+    return merged;
+  }
+
+  return { findDuplicates, getQueue, approve, reject, merge };
+}
+
+export type StationModeration = ReturnType<typeof createStationModeration>;
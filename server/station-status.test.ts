@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createStationStatus } from "./station-status";
+import { stationInput } from "./test-helpers";
+
+async function setup() {
+  const storage = new MemStorage();
+  const station = await storage.createStation(stationInput("Alexanderplatz", 52.52, 13.41));
+  const status = createStationStatus(storage);
+  return { storage, station, status };
+}
+
+test("a check-in updates the live status straight away", async () => {
+  const { station, status } = await setup();
+  const result = await status.recordCheckIn(station, "member-1", { status: "ALL_OCCUPIED" });
+  assert.equal(result.checkIn.status, "ALL_OCCUPIED");
+  assert.equal(result.liveStatus.status, "OCCUPIED");
+  assert.equal(result.report, undefined);
+});
+
+test("the connector is only kept on broken check-ins", async () => {
+  const { station, status } = await setup();
+  const ok = await status.recordCheckIn(station, "member-1", { status: "CHARGED_OK", connectorType: "CCS" });
+  assert.equal(ok.checkIn.connectorType, null);
+  const broken = await status.recordCheckIn(station, "member-2", { status: "BROKEN", connectorType: "CCS" });
+  assert.equal(broken.checkIn.connectorType, "CCS");
+});
+
+test("listings carry the live status and the latest check-ins without member ids", async () => {
+  const { storage, station, status } = await setup();
+  const other = await storage.createStation(stationInput("Potsdam", 52.4, 13.06));
+  for (const userId of ["a", "b", "c", "d"]) {
+    await status.recordCheckIn(station, userId, { status: "CHARGED_OK" });
+  }
+
+  const [withCheckIns, without] = await status.withLiveStatus([station, other]);
+  assert.equal(withCheckIns.liveStatus!.status, "WORKING");
+  assert.equal(withCheckIns.recentCheckIns!.length, 3);
+  assert.ok(withCheckIns.recentCheckIns!.every((checkIn) => !("userId" in checkIn)));
+  assert.equal(without.liveStatus!.status, "UNKNOWN");
+  assert.deepEqual(without.recentCheckIns, []);
+});
+
+test("one member reporting a station broken repeatedly doesn't open a report", async () => {
+  const { storage, station, status } = await setup();
+  await status.recordCheckIn(station, "member-1", { status: "BROKEN" });
+  const again = await status.recordCheckIn(station, "member-1", { status: "BROKEN" });
+  assert.equal(again.report, undefined);
+  assert.deepEqual(await storage.getReports({ targetType: "STATION" }), []);
+});
+
+test("enough different members reporting it broken opens one report for moderators", async () => {
+  const { storage, station, status } = await setup();
+  await status.recordCheckIn(station, "member-1", { status: "BROKEN", connectorType: "CCS" });
+  const second = await status.recordCheckIn(station, "member-2", { status: "BROKEN", connectorType: "CCS" });
+  assert.ok(second.report);
+  assert.equal(second.report.targetId, station.id);
+  assert.match(second.report.reason, /2 members reported Alexanderplatz broken in the last 72 hours \(CCS\)/);
+
+  const third = await status.recordCheckIn(station, "member-3", { status: "BROKEN" });
+  assert.equal(third.report, undefined);
+  assert.equal((await storage.getReports({ status: "OPEN", targetId: station.id })).length, 1);
+});
+
+test("broken check-ins outside the window don't count towards the threshold", async () => {
+  const { storage, station } = await setup();
+  let now = new Date();
+  const status = createStationStatus(storage, { now: () => now });
+  await status.recordCheckIn(station, "member-1", { status: "BROKEN" });
+  now = new Date(Date.now() + 73 * 3_600_000);
+  const later = await status.recordCheckIn(station, "member-2", { status: "BROKEN" });
+  assert.equal(later.report, undefined);
+});
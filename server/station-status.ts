@@ -0,0 +1,102 @@
+import type { Station, StationCheckIn, StationWithDistance, StationWithStatus } from "@shared/schema";
+import {
+  CHECK_IN_WINDOW_MS,
+  deriveLiveStatus,
+  type CheckInStatus,
+  type RecentCheckIn,
+  type StationCheckInInput,
+} from "@shared/check-ins";
+import type { IStorage } from "./storage";
+
+export interface StationStatusOptions {
+  /** Distinct members reporting a station broken before moderators are asked to look */
+  brokenReportThreshold?: number;
+  /** How far back broken check-ins count towards the threshold */
+  brokenReportWindowMs?: number;
+  now?: () => Date;
+}
+
+const DEFAULT_BROKEN_REPORT_THRESHOLD = 2;
+const DEFAULT_BROKEN_REPORT_WINDOW_MS = 72 * 60 * 60 * 1000;
+const RECENT_CHECK_INS = 3;
+
+function toRecentCheckIn(checkIn: StationCheckIn): RecentCheckIn {
+  return {
+    status: checkIn.status as CheckInStatus,
+    connectorType: checkIn.connectorType,
+    createdAt: checkIn.createdAt.toISOString(),
+  };
+}
+
+export function createStationStatus(storage: IStorage, options: StationStatusOptions = {}) {
+  const now = options.now ?? (() => new Date());
+  const brokenReportThreshold = options.brokenReportThreshold ?? DEFAULT_BROKEN_REPORT_THRESHOLD;
+  const brokenReportWindowMs = options.brokenReportWindowMs ?? DEFAULT_BROKEN_REPORT_WINDOW_MS;
+
+  /** Adds live status and the latest few check-ins, with one storage query for the whole list */
+  async function withLiveStatus<T extends StationWithDistance>(stations: T[]): Promise<Array<T & StationWithStatus>> {
+    if (stations.length === 0) return [];
+    const at = now();
+    const checkIns = await storage.getStationCheckIns({
+      stationIds: stations.map((station) => station.id),
+      since: new Date(at.getTime() - CHECK_IN_WINDOW_MS),
+    });
+
+    const byStation = new Map<string, StationCheckIn[]>();
+    for (const checkIn of checkIns) {
+      const list = byStation.get(checkIn.stationId) ?? [];
+      list.push(checkIn);
+      byStation.set(checkIn.stationId, list);
+    }
+
+    return stations.map((station) => {
+      const stationCheckIns = byStation.get(station.id) ?? [];
+      return {
+        ...station,
+        liveStatus: deriveLiveStatus(stationCheckIns, at),
+        recentCheckIns: stationCheckIns.slice(0, RECENT_CHECK_INS).map(toRecentCheckIn),
+      };
+    });
+  }
+
+  // Opens one moderator report per station once enough different members say it's broken
+  async function escalateBrokenReports(station: Station, reporterId: string) {
+    const since = new Date(now().getTime() - brokenReportWindowMs);
+    const broken = await storage.getStationCheckIns({ stationIds: [station.id], status: "BROKEN", since });
+    const reporters = new Set(broken.map((checkIn) => checkIn.userId));
+    if (reporters.size < brokenReportThreshold) return undefined;
+
+    const [openReport] = await storage.getReports({ status: "OPEN", targetType: "STATION", targetId: station.id, limit: 1 });
+    if (openReport) return undefined;
+
+    const connectors = Array.from(
+      new Set(broken.map((checkIn) => checkIn.connectorType).filter((type): type is string => !!type))
+    );
+    const hours = Math.round(brokenReportWindowMs / 3_600_000);
+    return storage.createReport({
+      reporterId,
+      targetType: "STATION",
+      targetId: station.id,
+      reason:
+        `${reporters.size} members reported ${station.name} broken in the last ${hours} hours` +
+        (connectors.length > 0 ? ` (${connectors.join(", ")})` : ""),
+    });
+  }
+
+  async function recordCheckIn(station: Station, userId: string, input: StationCheckInInput) {
+    const checkIn = await storage.createStationCheckIn({
+      stationId: station.id,
+      userId,
+      status: input.status,
+      connectorType: input.status === "BROKEN" ? input.connectorType ?? null : null,
+      comment: input.comment || null,
+    });
+    const report = input.status === "BROKEN" ? await escalateBrokenReports(station, userId) : undefined;
+    const [withStatus] = await withLiveStatus([station]);
+    return { checkIn, liveStatus: withStatus.liveStatus!, report };
+  }
+
+  return { withLiveStatus, recordCheckIn };
+}
+
+export type StationStatus = ReturnType<typeof createStationStatus>;
@@ -0,0 +1,124 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createStationSync } from "./station-sync";
+import {
+  createFixtureChargingDataProvider,
+  type ChargingDataProvider,
+  type ChargingStationSearchParams,
+} from "./charging-data-provider";
+
+const SAN_FRANCISCO = { latitude: 37.78, longitude: -122.41, distance: 5, maxResults: 50 };
+const REFRESH_MS = 60_000;
+
+/** The repo's local fixture, counting how often it's asked and optionally failing */
+function fixtureProvider() {
+  const fixture = createFixtureChargingDataProvider();
+  const calls: ChargingStationSearchParams[] = [];
+  let failing = false;
+  const provider: ChargingDataProvider = {
+    name: "fixture",
+    async searchStations(params) {
+      calls.push(params);
+      if (failing) throw new Error("upstream down");
+      return fixture.searchStations(params);
+    },
+  };
+  return { provider, calls, fail: () => void (failing = true) };
+}
+
+function clock(start = Date.parse("2026-01-01T00:00:00Z")) {
+  let time = start;
+  return { now: () => new Date(time), advance: (ms: number) => void (time += ms) };
+}
+
+test("a synced area is answered from storage until the refresh interval passes", async () => {
+  const storage = new MemStorage();
+  const { provider, calls } = fixtureProvider();
+  const { now, advance } = clock();
+  const sync = createStationSync(storage, { provider, refreshIntervalMs: REFRESH_MS, now });
+
+  const first = await sync.syncArea(SAN_FRANCISCO);
+  assert.equal(first.source, "remote");
+  assert.deepEqual(first.stations.map((station) => station.externalId).sort(), [
+    "fixture-sf-civic-center",
+    "fixture-sf-embarcadero",
+    "fixture-sf-mission-bay",
+  ]);
+  assert.equal((await storage.getStationByExternalId("fixture-sf-civic-center"))?.lastSyncedAt?.getTime(), now().getTime());
+
+  advance(REFRESH_MS - 1);
+  const cached = await sync.syncArea({ ...SAN_FRANCISCO, latitude: 37.781 });
+  assert.equal(cached.source, "cache");
+  assert.deepEqual(cached.stations.map((station) => station.id), first.stations.map((station) => station.id));
+  assert.equal(calls.length, 1);
+
+  advance(1);
+  assert.equal((await sync.syncArea(SAN_FRANCISCO)).source, "remote");
+  assert.equal(calls.length, 2);
+  // Re-syncing updates the stored stations rather than adding copies
+  assert.equal((await storage.getStations({})).length, 3);
+});
+
+test("concurrent requests for one area share a single upstream call", async () => {
+  const { provider, calls } = fixtureProvider();
+  const sync = createStationSync(new MemStorage(), { provider });
+
+  const results = await Promise.all([sync.syncArea(SAN_FRANCISCO), sync.syncArea(SAN_FRANCISCO), sync.syncArea(SAN_FRANCISCO)]);
+  assert.equal(calls.length, 1);
+  for (const result of results) assert.equal(result, results[0]);
+
+  // Once it's settled a forced sync goes upstream again
+  await sync.syncArea(SAN_FRANCISCO, { force: true });
+  assert.equal(calls.length, 2);
+});
+
+test("when upstream fails, an area synced earlier is served from its cached stations", async (t) => {
+  t.mock.method(console, "error", () => {});
+  const { provider, fail } = fixtureProvider();
+  const { now, advance } = clock();
+  const sync = createStationSync(new MemStorage(), { provider, refreshIntervalMs: REFRESH_MS, now });
+  const synced = await sync.syncArea(SAN_FRANCISCO);
+
+  fail();
+  advance(REFRESH_MS);
+  const fallback = await sync.syncArea(SAN_FRANCISCO);
+  assert.equal(fallback.source, "cache");
+  assert.equal(fallback.lastSyncedAt, synced.lastSyncedAt);
+  assert.equal(fallback.stations.length, 3);
+});
+
+test("when upstream fails for an area never synced here, stored stations nearby are served", async (t) => {
+  t.mock.method(console, "error", () => {});
+  const storage = new MemStorage();
+  // Another instance synced the stations into the shared storage earlier
+  const { now } = clock();
+  await createStationSync(storage, { provider: fixtureProvider().provider, now }).syncArea({ ...SAN_FRANCISCO, distance: 50 });
+
+  const { provider, calls, fail } = fixtureProvider();
+  fail();
+  const result = await createStationSync(storage, { provider }).syncArea(SAN_FRANCISCO);
+  assert.equal(calls.length, 1);
+  assert.equal(result.source, "cache");
+  assert.equal(result.lastSyncedAt?.getTime(), now().getTime());
+  // Oakland and Mountain View were stored too, but are outside this 5 mile search
+  assert.equal(result.stations.length, 3);
+});
+
+test("a country can be searched without a position", async (t) => {
+  const { provider, calls } = fixtureProvider();
+  const sync = createStationSync(new MemStorage(), { provider });
+  const result = await sync.syncArea({ countryCode: "gb", distance: 25, maxResults: 50 });
+  assert.deepEqual(result.stations.map((station) => station.externalId), ["fixture-london-kings-cross"]);
+  assert.equal(calls[0].countryCode, "gb");
+
+  t.mock.method(console, "error", () => {});
+  const failing = fixtureProvider();
+  failing.fail();
+  const offline = await createStationSync(new MemStorage(), { provider: failing.provider }).syncArea({
+    countryCode: "GB",
+    distance: 25,
+    maxResults: 50,
+  });
+  assert.deepEqual(offline.stations, []);
+});
@@ -0,0 +1,147 @@
+import type { Station } from "@shared/schema";
+import { milesToKm } from "@shared/geo";
+import type { IStorage } from "./storage";
+import {
+  createDefaultChargingDataProvider,
+  type ChargingDataProvider,
+  type ChargingStation,
+} from "./charging-data-provider";
+
+export interface StationSyncOptions {
+  /** Where remote stations come from; defaults to the providers configured in the environment */
+  provider?: ChargingDataProvider;
+  /** How long a synced area is answered from storage before asking upstream again */
+  refreshIntervalMs?: number;
+  now?: () => Date;
+}
+
+/** A circle around a point, or a whole country when no point is given */
+export interface StationAreaQuery {
+  latitude?: number;
+  longitude?: number;
+  /** Radius in miles */
+  distance: number;
+  /** ISO 3166-1 alpha-2 */
+  countryCode?: string;
+  maxResults: number;
+}
+
+export interface StationSyncResult {
+  stations: Station[];
+  /** "remote" when upstream was queried for this request, "cache" otherwise */
+  source: "remote" | "cache";
+  lastSyncedAt: Date | null;
+}
+
+interface SyncedArea {
+  syncedAt: Date;
+  stationIds: string[];
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+// Areas are bucketed to ~1 km so small map nudges reuse the same sync
+function areaKey(query: StationAreaQuery): string {
+  const country = query.countryCode?.toUpperCase() ?? "";
+  if (query.latitude === undefined || query.longitude === undefined) {
+    return ["country", country, query.maxResults].join(":");
+  }
+  return [
+    query.latitude.toFixed(2),
+    query.longitude.toFixed(2),
+    Math.round(query.distance),
+    query.maxResults,
+    ...(country ? [country] : []),
+  ].join(":");
+}
+
+function toInsertStation(station: ChargingStation) {
+  return {
+    externalId: station.externalId,
+    name: station.name,
+    coords: station.coords,
+    address: station.address,
+    connectors: station.connectors,
+    provider: station.provider ?? null,
+    pricing: station.pricing ?? null,
+    availability: station.availability ?? null,
+  };
+}
+
+export function createStationSync(storage: IStorage, options: StationSyncOptions = {}) {
+  const provider = options.provider ?? createDefaultChargingDataProvider();
+  const refreshIntervalMs = options.refreshIntervalMs ?? DEFAULT_REFRESH_INTERVAL_MS;
+  const now = options.now ?? (() => new Date());
+
+  const syncedAreas = new Map<string, SyncedArea>();
+  const inFlight = new Map<string, Promise<StationSyncResult>>();
+
+  async function loadArea(area: SyncedArea): Promise<Station[]> {
+    const stations = await Promise.all(area.stationIds.map((id) => storage.getStation(id)));
+    return stations.filter((station): station is Station => !!station);
+  }
+
+  // Used when upstream is unreachable and this area was never synced in-process.
+  // Stored stations don't record their country, so country-only searches get nothing.
+  async function loadStoredNearby(query: StationAreaQuery): Promise<Station[]> {
+    if (query.latitude === undefined || query.longitude === undefined) return [];
+    return storage.getStations({
+      near: { lat: query.latitude, lng: query.longitude, radiusKm: milesToKm(query.distance) },
+      limit: query.maxResults,
+    });
+  }
+
+  async function refresh(key: string, query: StationAreaQuery): Promise<StationSyncResult> {
+    const cached = syncedAreas.get(key);
+    try {
+      const remote = await provider.searchStations(query);
+      const syncedAt = now();
+      const stations: Station[] = [];
+      for (const station of remote) {
+        stations.push(await storage.upsertStationByExternalId(toInsertStation(station), syncedAt));
+      }
+      syncedAreas.set(key, { syncedAt, stationIds: stations.map((station) => station.id) });
+      console.log(`[StationSync] Synced ${stations.length} stations from ${provider.name} for area ${key}`);
+      return { stations, source: "remote", lastSyncedAt: syncedAt };
+    } catch (error) {
+      console.error(`[StationSync] Upstream fetch failed for area ${key}, serving stored stations:`, error);
+      if (cached) {
+        return { stations: await loadArea(cached), source: "cache", lastSyncedAt: cached.syncedAt };
+      }
+      const stations = await loadStoredNearby(query);
+      const lastSyncedAt = stations.reduce<Date | null>((latest, station) => {
+        if (!station.lastSyncedAt) return latest;
+        return !latest || station.lastSyncedAt > latest ? station.lastSyncedAt : latest;
+      }, null);
+      return { stations, source: "cache", lastSyncedAt };
+    }
+  }
+
+  /**
+   * Returns stations for an area, refreshing from upstream when the area has
+   * not been synced within the refresh interval. Concurrent requests for the
+   * same area share one upstream call.
+   */
+  async function syncArea(query: StationAreaQuery, opts: { force?: boolean } = {}): Promise<StationSyncResult> {
+    const key = areaKey(query);
+    const cached = syncedAreas.get(key);
+    const isFresh = cached && now().getTime() - cached.syncedAt.getTime() < refreshIntervalMs;
+
+    if (isFresh && !opts.force) {
+      return { stations: await loadArea(cached), source: "cache", lastSyncedAt: cached.syncedAt };
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = refresh(key, query).finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  }
+
+  return { syncArea };
+}
+
+export type StationSync = ReturnType<typeof createStationSync>;
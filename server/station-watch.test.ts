@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_BOOKMARK_WATCH } from "@shared/station-watch";
+import { MemStorage } from "./storage";
+import { createStationWatch } from "./station-watch";
+import { stationInput } from "./test-helpers";
+
+async function setup() {
+  const storage = new MemStorage();
+  const watch = createStationWatch(storage, { intervalMs: 0 });
+  const member = await storage.createUser({ email: "member@example.com", passwordHash: "x" });
+  const station = await storage.createStation(stationInput("Supermarket", 52.5, 13.4, { availability: "AVAILABLE" }));
+  const bookmark = await storage.createBookmark({
+    userId: member.id,
+    targetType: "STATION",
+    targetId: station.id,
+    watch: DEFAULT_BOOKMARK_WATCH,
+  });
+  return { storage, watch, member, station, bookmark };
+}
+
+test("the first check only records a baseline", async () => {
+  const { storage, watch, member, station } = await setup();
+  assert.equal(await watch.checkWatchedStations(), 0);
+  assert.equal((await storage.getBookmark(member.id, station.id))!.lastSeenStatus, "UP");
+  assert.deepEqual(await storage.getNotifications(member.id), []);
+});
+
+test("a station going down and coming back notifies once per change", async () => {
+  const { storage, watch, member, station } = await setup();
+  await watch.checkWatchedStations();
+
+  await storage.updateStation(station.id, { availability: "OFFLINE" });
+  assert.equal(await watch.checkWatchedStations(), 1);
+  assert.equal(await watch.checkWatchedStations(), 0);
+
+  await storage.updateStation(station.id, { availability: "AVAILABLE" });
+  assert.equal(await watch.checkWatchedStations(), 1);
+
+  const notifications = await storage.getNotifications(member.id);
+  assert.deepEqual(
+    notifications.map((notification) => [
+      (notification.metadata as any).previousStatus,
+      (notification.metadata as any).status,
+    ]).sort(),
+    [["DOWN", "UP"], ["UP", "DOWN"]]
+  );
+  assert.equal(notifications[0].targetId, station.id);
+});
+
+test("changes the member didn't ask about are tracked without notifying", async () => {
+  const { storage, watch, member, station } = await setup();
+  await watch.checkWatchedStations();
+  await storage.updateStation(station.id, { availability: "BUSY" });
+  assert.equal(await watch.checkWatchedStations(), 0);
+  assert.equal((await storage.getBookmark(member.id, station.id))!.lastSeenStatus, "BUSY");
+  assert.deepEqual(await storage.getNotifications(member.id), []);
+});
+
+test("an unknown status keeps the last one seen", async () => {
+  const { storage, watch, member, station } = await setup();
+  await watch.checkWatchedStations();
+  await storage.updateStation(station.id, { availability: null });
+  await watch.checkWatchedStations();
+  assert.equal((await storage.getBookmark(member.id, station.id))!.lastSeenStatus, "UP");
+});
+
+test("members who turned station alerts off aren't notified", async () => {
+  const { storage, watch, member, station } = await setup();
+  await storage.createProfile({ userId: member.id, displayName: "Member", notificationPrefs: { stationStatus: false } });
+  await watch.checkWatchedStations();
+  await storage.updateStation(station.id, { availability: "OFFLINE" });
+  assert.equal(await watch.checkWatchedStations(), 0);
+});
+
+test("disabled watches aren't checked", async () => {
+  const { storage, watch, member, station, bookmark } = await setup();
+  await storage.updateBookmark(bookmark.id, { watch: { enabled: false, notifyOn: [] } });
+  await watch.checkWatchedStations();
+  assert.equal((await storage.getBookmark(member.id, station.id))!.lastSeenStatus, null);
+});
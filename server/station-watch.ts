@@ -0,0 +1,103 @@
+import type { Profile, Station } from "@shared/schema";
+import { watchedStatus } from "@shared/station-watch";
+import type { IStorage } from "./storage";
+import { createStationStatus, type StationStatus } from "./station-status";
+
+export interface StationWatchOptions {
+  stationStatus?: StationStatus;
+  /** How often watched stations are checked; 0 disables the background checker */
+  intervalMs?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+function defaultIntervalMs(): number {
+  const configured = Number(process.env.STATION_WATCH_INTERVAL_MS || DEFAULT_INTERVAL_MS);
+  return Number.isFinite(configured) ? configured : DEFAULT_INTERVAL_MS;
+}
+
+/**
+ * Notifies members when a station they bookmarked goes down, comes back or
+ * gets busy. Each bookmark remembers the status it last saw, so a member
+ * hears about each change once, and the first check only records a baseline.
+ */
+export function createStationWatch(storage: IStorage, options: StationWatchOptions = {}) {
+  const stationStatus = options.stationStatus ?? createStationStatus(storage);
+  const intervalMs = options.intervalMs ?? defaultIntervalMs();
+
+  /** Compares every watched station with what its watchers last saw; returns the notifications sent */
+  async function checkWatchedStations(): Promise<number> {
+    const bookmarks = await storage.getWatchedStationBookmarks();
+    if (bookmarks.length === 0) return 0;
+
+    const stationIds = Array.from(new Set(bookmarks.map((bookmark) => bookmark.targetId)));
+    const found = await Promise.all(stationIds.map((id) => storage.getStation(id)));
+    const stations = await stationStatus.withLiveStatus(found.filter((station): station is Station => !!station));
+    const stationsById = new Map(stations.map((station) => [station.id, station]));
+    const profiles = new Map<string, Profile | undefined>();
+
+    let sent = 0;
+    for (const bookmark of bookmarks) {
+      const station = stationsById.get(bookmark.targetId);
+      const status = station && watchedStatus(station.availability, station.liveStatus?.status);
+      // Nothing known right now isn't a change; keep the last status we saw
+      if (!station || !status || status === bookmark.lastSeenStatus) continue;
+
+      await storage.updateBookmark(bookmark.id, { lastSeenStatus: status });
+      if (!bookmark.lastSeenStatus || !bookmark.watch?.notifyOn.includes(status)) continue;
+
+      if (!profiles.has(bookmark.userId)) {
+        profiles.set(bookmark.userId, await storage.getProfile(bookmark.userId));
+      }
+      if (profiles.get(bookmark.userId)?.notificationPrefs?.stationStatus === false) continue;
+
+      await storage.createNotification({
+        userId: bookmark.userId,
+        type: "STATION_STATUS",
+        targetType: "STATION",
+        targetId: station.id,
+        metadata: {
+          stationName: station.name,
+          previousStatus: bookmark.lastSeenStatus,
+          status,
+          brokenConnectors: station.liveStatus?.brokenConnectors ?? [],
+        },
+      });
+      sent++;
+    }
+    return sent;
+  }
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let running = false;
+
+  async function tick() {
+    // A slow storage shouldn't stack checks on top of each other
+    if (running) return;
+    running = true;
+    try {
+      const sent = await checkWatchedStations();
+      if (sent > 0) console.log(`[StationWatch] Sent ${sent} station status notifications`);
+    } catch (error) {
+      console.error("[StationWatch] Check failed:", error);
+    } finally {
+      running = false;
+    }
+  }
+
+  function start() {
+    if (timer || intervalMs <= 0) return;
+    timer = setInterval(tick, intervalMs);
+    // Don't keep the process alive just for the watcher
+    timer.unref?.();
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = undefined;
+  }
+
+  return { checkWatchedStations, start, stop };
+}
+
+export type StationWatch = ReturnType<typeof createStationWatch>;
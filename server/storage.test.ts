@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { boundsCenter, isWithinBounds, MemStorage } from "./storage";
+import { stationInput } from "./test-helpers";
+
+// Berlin, Potsdam, Hamburg and a station just east of the antimeridian in Fiji
+async function stations() {
+  const storage = new MemStorage();
+  const berlin = await storage.createStation(stationInput("Berlin", 52.52, 13.405));
+  const potsdam = await storage.createStation(stationInput("Potsdam", 52.4, 13.06));
+  const hamburg = await storage.createStation(stationInput("Hamburg", 53.55, 9.99));
+  const fiji = await storage.createStation(stationInput("Taveuni", -16.8, -179.95));
+  return { storage, berlin, potsdam, hamburg, fiji };
+}
+
+test("radius queries return stations inside the radius, nearest first, with their distance", async () => {
+  const { storage, berlin, potsdam } = await stations();
+  const found = await storage.getStations({ near: { lat: 52.41, lng: 13.1, radiusKm: 50 } });
+  assert.deepEqual(found.map((station) => station.id), [potsdam.id, berlin.id]);
+  assert.ok(found[0].distanceKm! < 5);
+  assert.ok(found[1].distanceKm! > 20 && found[1].distanceKm! < 50);
+});
+
+test("the limit keeps the nearest stations", async () => {
+  const { storage, berlin } = await stations();
+  const found = await storage.getStations({ near: { lat: 52.52, lng: 13.4, radiusKm: 1000 }, limit: 1 });
+  assert.deepEqual(found.map((station) => station.id), [berlin.id]);
+});
+
+test("bounding boxes are ordered from the box centre unless an origin is given", async () => {
+  const { storage, berlin, potsdam, hamburg } = await stations();
+  const bounds = { west: 9, south: 52, east: 14, north: 54 };
+  const fromCentre = await storage.getStations({ bounds });
+  assert.deepEqual(fromCentre.map((station) => station.id), [hamburg.id, potsdam.id, berlin.id]);
+
+  const fromBerlin = await storage.getStations({ bounds, origin: { lat: 52.52, lng: 13.405 } });
+  assert.deepEqual(fromBerlin.map((station) => station.id), [berlin.id, potsdam.id, hamburg.id]);
+  assert.equal(fromBerlin[0].distanceKm, 0);
+});
+
+test("a box with west > east wraps the antimeridian", async () => {
+  const { storage, fiji } = await stations();
+  const bounds = { west: 179, south: -18, east: -179, north: -16 };
+  assert.deepEqual((await storage.getStations({ bounds })).map((station) => station.id), [fiji.id]);
+
+  assert.equal(isWithinBounds({ lat: -17, lng: 179.5 }, bounds), true);
+  assert.equal(isWithinBounds({ lat: -17, lng: 0 }, bounds), false);
+  assert.deepEqual(boundsCenter(bounds), { lat: -17, lng: 180 });
+  assert.deepEqual(boundsCenter({ west: 170, south: 0, east: -160, north: 10 }), { lat: 5, lng: -175 });
+});
+
+test("reviews keep the station's rating aggregate up to date, one review per member", async () => {
+  const { storage, berlin } = await stations();
+  await storage.upsertStationReview({ stationId: berlin.id, authorId: "a", rating: 5 });
+  const second = await storage.upsertStationReview({ stationId: berlin.id, authorId: "b", rating: 2 });
+  let station = await storage.getStation(berlin.id);
+  assert.equal(station!.ratingAverage, 3.5);
+  assert.equal(station!.ratingCount, 2);
+
+  const edited = await storage.upsertStationReview({ stationId: berlin.id, authorId: "b", rating: 4 });
+  assert.equal(edited.id, second.id);
+  station = await storage.getStation(berlin.id);
+  assert.equal(station!.ratingAverage, 4.5);
+  assert.equal(station!.ratingCount, 2);
+
+  await storage.deleteStationReview(second.id);
+  station = await storage.getStation(berlin.id);
+  assert.equal(station!.ratingAverage, 5);
+  assert.equal(station!.ratingCount, 1);
+});
+
+test("sorting by rating puts the best rated first and falls back to distance", async () => {
+  const { storage, berlin, potsdam, hamburg } = await stations();
+  await storage.upsertStationReview({ stationId: hamburg.id, authorId: "a", rating: 5 });
+  const found = await storage.getStations({ near: { lat: 52.52, lng: 13.405, radiusKm: 500 }, sort: "rating" });
+  assert.deepEqual(found.map((station) => station.id).slice(0, 3), [hamburg.id, berlin.id, potsdam.id]);
+});
+
+test("clusters cover every matching station regardless of the usual limit", async () => {
+  const { storage, fiji } = await stations();
+  const clusters = await storage.getStationClusters({ limit: 1 }, 2);
+  assert.deepEqual(clusters.map((cluster) => cluster.count).sort(), [1, 1, 2]);
+  assert.ok(clusters.some((cluster) => cluster.stationId === fiji.id));
+
+  const inBox = await storage.getStationClusters({ bounds: { west: 9, south: 52, east: 14, north: 54 } }, 20);
+  assert.deepEqual(inBox.map((cluster) => cluster.count), [3]);
+});
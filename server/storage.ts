@@ -1,11 +1,20 @@
 import {
   type User, type InsertUser,
+  type AuthToken, type InsertAuthToken,
+  type TwoFactorCredential, type InsertTwoFactorCredential,
+  type AppSetting,
+  type AccessToken, type InsertAccessToken,
+  type RateLimitBucket,
   type Profile, type InsertProfile,
   type Community, type InsertCommunity,
   type CommunityMember, type InsertCommunityMember,
   type Post, type InsertPost,
   type Comment, type InsertComment,
-  type Station, type InsertStation,
+  type Station, type InsertStation, type StationWithDistance,
+  type StationCheckIn, type InsertStationCheckIn,
+  type StationReview, type InsertStationReview,
+  type StationEdit, type InsertStationEdit,
+  type ChargingSession, type InsertChargingSession,
   type Bookmark, type InsertBookmark,
   type Question, type InsertQuestion,
   type Answer, type InsertAnswer,
@@ -19,8 +28,116 @@ import {
   type Notification, type InsertNotification,
   type Conversation, type InsertConversation,
   type Message, type InsertMessage,
+  type Trip, type InsertTrip,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { haversineDistanceKm, type LatLng } from "@shared/geo";
+import {
+  groupStationsByCell,
+  matchesStationFilters,
+  toStationCluster,
+  type StationCluster,
+  type StationFeatureFilters,
+} from "@shared/stations";
+import { averageRating, compareByRating, type StationSort } from "@shared/reviews";
+import type { AuthTokenPurpose } from "@shared/account";
+import type { UserContentType } from "@shared/account-deletion";
+
+export interface StationBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface StationFilters extends StationFeatureFilters {
+  verified?: boolean;
+  limit?: number;
+  /** Only stations within radiusKm of the point, nearest first */
+  near?: LatLng & { radiusKm: number };
+  /** Only stations inside the box; west > east wraps the antimeridian */
+  bounds?: StationBounds;
+  /** Point distances are measured from when only bounds are given; defaults to the box centre */
+  origin?: LatLng;
+  /** Nearest first by default when there's an origin. "price" depends on the
+   * member's vehicle, so storage leaves it to the caller. */
+  sort?: StationSort;
+  /** Only stations added by members rather than synced from a feed */
+  submittedOnly?: boolean;
+  /** Case-insensitive exact name */
+  name?: string;
+}
+
+export function isWithinBounds(coords: LatLng, bounds: StationBounds): boolean {
+  if (coords.lat < bounds.south || coords.lat > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? coords.lng >= bounds.west && coords.lng <= bounds.east
+    : coords.lng >= bounds.west || coords.lng <= bounds.east;
+}
+
+export function boundsCenter(bounds: StationBounds): LatLng {
+  const east = bounds.west <= bounds.east ? bounds.east : bounds.east + 360;
+  let lng = (bounds.west + east) / 2;
+  if (lng > 180) lng -= 360;
+  return { lat: (bounds.north + bounds.south) / 2, lng };
+}
+
+/** When the station or its crowd-reported status last changed */
+export function stationLastChangedAt(station: Pick<Station, "updatedAt" | "lastCheckInAt">): Date {
+  return station.lastCheckInAt && station.lastCheckInAt > station.updatedAt ? station.lastCheckInAt : station.updatedAt;
+}
+
+export interface StationChangeFilters {
+  verified?: boolean;
+  /** Inclusive */
+  changedFrom?: Date;
+  /** Exclusive */
+  changedBefore?: Date;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Whether a feed refresh changes any field the feed owns. Unchanged stations
+ * keep their updatedAt, so incremental pulls (OCPI date_from) only see real edits.
+ */
+export function syncedStationChanged(existing: Station, incoming: InsertStation): boolean {
+  const connectors = (list: Array<{ type: string; powerKW?: number | null }>) =>
+    list.map((connector) => `${connector.type}:${connector.powerKW ?? 0}`).join("|");
+  return existing.name !== incoming.name
+    || existing.coords.lat !== incoming.coords.lat
+    || existing.coords.lng !== incoming.coords.lng
+    || existing.address !== incoming.address
+    || connectors(existing.connectors) !== connectors(incoming.connectors as Station["connectors"])
+    || existing.provider !== (incoming.provider ?? null)
+    || existing.pricing !== (incoming.pricing ?? null)
+    || existing.availability !== (incoming.availability ?? null);
+}
+
+/** Everything a member has created or keeps, as handed over in their data export */
+export interface UserData {
+  user: User;
+  profile?: Profile;
+  posts: Post[];
+  comments: Comment[];
+  questions: Question[];
+  answers: Answer[];
+  articles: Article[];
+  articleComments: ArticleComment[];
+  stationReviews: StationReview[];
+  stationCheckIns: StationCheckIn[];
+  stationEdits: StationEdit[];
+  bookmarks: Bookmark[];
+  conversations: Conversation[];
+  messages: Message[];
+  notifications: Notification[];
+  following: UserFollow[];
+  followers: UserFollow[];
+  blocks: UserBlock[];
+  communityMemberships: CommunityMember[];
+  trips: Trip[];
+  chargingSessions: ChargingSession[];
+}
 
 export interface IStorage {
   // Users
@@ -30,6 +147,58 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<Omit<User, 'id' | 'createdAt'>>): Promise<User | undefined>;
   deleteUser?(id: string): Promise<boolean>;
+  /** Adds one to failedLoginCount and returns the new count */
+  recordFailedLogin(id: string): Promise<number>;
+  /** Members whose self-deletion cooldown has run out by the given time */
+  getUsersDueForDeletion(now: Date): Promise<User[]>;
+
+  // Account data
+  getUserData(userId: string): Promise<UserData>;
+  /** Deletes the member's content of one type, keeping counts on what it belonged to right */
+  deleteUserContent(userId: string, type: UserContentType): Promise<number>;
+  /**
+   * Deletes what only mattered to the member: bookmarks, notifications,
+   * follows, blocks, memberships, trips, charging sessions, reports they
+   * filed and their tokens and 2FA credential
+   */
+  deleteUserRecords(userId: string): Promise<void>;
+
+  // Auth tokens
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined>;
+  /** Marks the token used; false if it already was, so each token works once */
+  useAuthToken(id: string): Promise<boolean>;
+  /** Marks every unused token the user holds for the purpose as used */
+  revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<number>;
+  /** Tokens issued to the user for the purpose since the given time, used or not */
+  countAuthTokens(userId: string, purpose: AuthTokenPurpose, since: Date): Promise<number>;
+
+  // Two-factor authentication
+  getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined>;
+  /** Creates the user's credential or replaces the one they have */
+  saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential>;
+  deleteTwoFactorCredential(userId: string): Promise<boolean>;
+  /** Records the time step a code was accepted for; false if it or a later one already was */
+  useTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  /** Removes a recovery code; false if it isn't there, so each works once */
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+
+  // Personal access tokens
+  createAccessToken(token: InsertAccessToken): Promise<AccessToken>;
+  getAccessTokenByHash(tokenHash: string): Promise<AccessToken | undefined>;
+  getAccessTokens(userId: string): Promise<AccessToken[]>;
+  /** Deletes the token if it belongs to the user */
+  deleteAccessToken(id: string, userId: string): Promise<boolean>;
+  touchAccessToken(id: string, usedAt: Date): Promise<void>;
+
+  // Rate limiting
+  /** Counts a hit in the bucket, starting a new window if the old one is over */
+  hitRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket>;
+  clearRateLimitBucket(key: string): Promise<void>;
+
+  // App settings
+  getAppSetting(key: string): Promise<AppSetting | undefined>;
+  setAppSetting(key: string, value: unknown, updatedBy?: string): Promise<AppSetting>;
   
   // Profiles
   getProfile(userId: string): Promise<Profile | undefined>;
@@ -66,16 +235,60 @@ export interface IStorage {
   deleteComment(id: string): Promise<boolean>;
   
   // Stations
-  getStations(filters?: { verified?: boolean; limit?: number }): Promise<Station[]>;
+  getStations(filters?: StationFilters): Promise<StationWithDistance[]>;
+  /** Every matching station grouped into grid cells of cellDegrees; limit and sort are ignored */
+  getStationClusters(filters: StationFilters, cellDegrees: number): Promise<StationCluster[]>;
+  /** Oldest change first (see stationLastChangedAt), ties by id, so pages are stable */
+  getStationsByLastChange(filters: StationChangeFilters): Promise<{ stations: Station[]; total: number }>;
   getStation(id: string): Promise<Station | undefined>;
+  getStationByExternalId(externalId: string): Promise<Station | undefined>;
   createStation(station: InsertStation): Promise<Station>;
-  updateStation(id: string, updates: Partial<Omit<Station, 'id' | 'createdAt'>>): Promise<Station | undefined>;
+  updateStation(id: string, updates: Partial<Omit<Station, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Station | undefined>;
+  upsertStationByExternalId(station: InsertStation & { externalId: string }, syncedAt?: Date): Promise<Station>;
+  deleteStation(id: string): Promise<boolean>;
+  /**
+   * Folds a duplicate into the station it duplicates: connectors and missing
+   * details are combined, bookmarks, reviews and check-ins move over, and the
+   * duplicate is deleted. Returns the updated target.
+   */
+  mergeStations(sourceId: string, targetId: string): Promise<Station | undefined>;
+
+  // Station check-ins
+  /** Also records the time on the station as lastCheckInAt */
+  createStationCheckIn(checkIn: InsertStationCheckIn): Promise<StationCheckIn>;
+  /** Newest first */
+  getStationCheckIns(filters: { stationIds: string[]; since?: Date; status?: string; limit?: number }): Promise<StationCheckIn[]>;
+
+  // Station reviews
+  getStationReviews(stationId: string): Promise<StationReview[]>;
+  getStationReview(id: string): Promise<StationReview | undefined>;
+  /** Creates the author's review of the station, or replaces their earlier one */
+  upsertStationReview(review: InsertStationReview): Promise<StationReview>;
+  deleteStationReview(id: string): Promise<boolean>;
+
+  // Station edit proposals
+  createStationEdit(edit: InsertStationEdit): Promise<StationEdit>;
+  getStationEdit(id: string): Promise<StationEdit | undefined>;
+  /** Newest first; history callers sort by reviewedAt themselves */
+  getStationEdits(filters?: { stationId?: string; proposerId?: string; status?: string; limit?: number }): Promise<StationEdit[]>;
+  updateStationEdit(id: string, updates: Partial<Pick<StationEdit, 'status' | 'reviewedBy' | 'reviewNote' | 'reviewedAt'>>): Promise<StationEdit | undefined>;
   
+  // Charging sessions
+  /** Most recent first */
+  getChargingSessions(userId: string, filters?: { from?: Date; to?: Date }): Promise<ChargingSession[]>;
+  getChargingSession(id: string): Promise<ChargingSession | undefined>;
+  createChargingSession(session: InsertChargingSession): Promise<ChargingSession>;
+  updateChargingSession(id: string, updates: Partial<Omit<ChargingSession, 'id' | 'userId' | 'createdAt'>>): Promise<ChargingSession | undefined>;
+  deleteChargingSession(id: string): Promise<boolean>;
+
   // Bookmarks
   getBookmarks(userId: string, targetType?: string): Promise<Bookmark[]>;
   createBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
   deleteBookmark(id: string): Promise<boolean>;
   getBookmark(userId: string, targetId: string): Promise<Bookmark | undefined>;
+  updateBookmark(id: string, updates: Partial<Pick<Bookmark, 'watch' | 'lastSeenStatus'>>): Promise<Bookmark | undefined>;
+  /** Station bookmarks with watching turned on, across all members */
+  getWatchedStationBookmarks(): Promise<Bookmark[]>;
   
   // Questions
   getQuestions(filters?: { tag?: string; sort?: string; limit?: number; offset?: number }): Promise<Question[]>;
@@ -105,7 +318,7 @@ export interface IStorage {
   deleteArticleComment(id: string): Promise<boolean>;
   
   // Reports
-  getReports(filters?: { status?: string; limit?: number }): Promise<Report[]>;
+  getReports(filters?: { status?: string; targetType?: string; targetId?: string; limit?: number }): Promise<Report[]>;
   getReport(id: string): Promise<Report | undefined>;
   createReport(report: InsertReport): Promise<Report>;
   updateReport(id: string, updates: Partial<Omit<Report, 'id' | 'createdAt' | 'reporterId'>>): Promise<Report | undefined>;
@@ -149,10 +362,22 @@ export interface IStorage {
   getMessages(conversationId: string, options?: { limit?: number; before?: Date }): Promise<Message[]>;
   markMessageRead(conversationId: string, messageId: string, userId: string): Promise<Message | undefined>;
   getUnreadMessageCount(userId: string): Promise<number>;
+
+  // Trips
+  getTrips(userId: string): Promise<Trip[]>;
+  getTrip(id: string): Promise<Trip | undefined>;
+  createTrip(trip: InsertTrip): Promise<Trip>;
+  updateTrip(id: string, updates: Partial<Pick<Trip, 'name' | 'postId'>>): Promise<Trip | undefined>;
+  deleteTrip(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private authTokens: Map<string, AuthToken>;
+  private twoFactorCredentials: Map<string, TwoFactorCredential>;
+  private appSettings: Map<string, AppSetting>;
+  private accessTokens: Map<string, AccessToken>;
+  private rateLimitBuckets: Map<string, RateLimitBucket>;
   private profiles: Map<string, Profile>;
   private communities: Map<string, Community>;
   private communityMembers: Map<string, CommunityMember>;
@@ -172,9 +397,19 @@ export class MemStorage implements IStorage {
   private notifications: Map<string, Notification>;
   private conversations: Map<string, Conversation>;
   private messages: Map<string, Message>;
+  private trips: Map<string, Trip>;
+  private stationCheckIns: Map<string, StationCheckIn>;
+  private stationReviews: Map<string, StationReview>;
+  private stationEdits: Map<string, StationEdit>;
+  private chargingSessions: Map<string, ChargingSession>;
 
   constructor() {
     this.users = new Map();
+    this.authTokens = new Map();
+    this.twoFactorCredentials = new Map();
+    this.appSettings = new Map();
+    this.accessTokens = new Map();
+    this.rateLimitBuckets = new Map();
     this.profiles = new Map();
     this.communities = new Map();
     this.communityMembers = new Map();
@@ -194,6 +429,11 @@ export class MemStorage implements IStorage {
     this.notifications = new Map();
     this.conversations = new Map();
     this.messages = new Map();
+    this.trips = new Map();
+    this.stationCheckIns = new Map();
+    this.stationReviews = new Map();
+    this.stationEdits = new Map();
+    this.chargingSessions = new Map();
   }
 
   // Users
@@ -213,6 +453,10 @@ export class MemStorage implements IStorage {
       passwordHash: insertUser.passwordHash,
       role: insertUser.role || "USER",
       status: insertUser.status || "ACTIVE",
+      passwordChangedAt: insertUser.passwordChangedAt ?? null,
+      failedLoginCount: insertUser.failedLoginCount ?? 0,
+      lockedUntil: insertUser.lockedUntil ?? null,
+      deletionScheduledFor: insertUser.deletionScheduledFor ?? null,
       createdAt: new Date(),
     };
     this.users.set(id, user);
@@ -241,6 +485,297 @@ export class MemStorage implements IStorage {
     return deleted;
   }
 
+  async recordFailedLogin(id: string): Promise<number> {
+    const user = this.users.get(id);
+    if (!user) return 0;
+    const failedLoginCount = user.failedLoginCount + 1;
+    this.users.set(id, { ...user, failedLoginCount });
+    return failedLoginCount;
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.deletionScheduledFor && user.deletionScheduledFor <= now
+    );
+  }
+
+  // Account data
+  async getUserData(userId: string): Promise<UserData> {
+    const user = this.users.get(userId);
+    if (!user) throw new Error(`User ${userId} not found`);
+    const byAuthor = <T extends { authorId: string }>(items: Map<string, T>) =>
+      Array.from(items.values()).filter((item) => item.authorId === userId);
+    const byUser = <T extends { userId: string }>(items: Map<string, T>) =>
+      Array.from(items.values()).filter((item) => item.userId === userId);
+    const conversations = Array.from(this.conversations.values()).filter(
+      (conversation) => conversation.participantAId === userId || conversation.participantBId === userId
+    );
+    const conversationIds = new Set(conversations.map((conversation) => conversation.id));
+
+    return {
+      user,
+      profile: await this.getProfile(userId),
+      posts: byAuthor(this.posts),
+      comments: byAuthor(this.comments),
+      questions: byAuthor(this.questions),
+      answers: byAuthor(this.answers),
+      articles: byAuthor(this.articles),
+      articleComments: byAuthor(this.articleComments),
+      stationReviews: byAuthor(this.stationReviews),
+      stationCheckIns: byUser(this.stationCheckIns),
+      stationEdits: Array.from(this.stationEdits.values()).filter((edit) => edit.proposerId === userId),
+      bookmarks: byUser(this.bookmarks),
+      conversations,
+      messages: Array.from(this.messages.values()).filter((message) => conversationIds.has(message.conversationId)),
+      notifications: byUser(this.notifications),
+      following: await this.getFollowing(userId),
+      followers: await this.getFollowers(userId),
+      blocks: await this.getBlockedUsers(userId),
+      communityMemberships: byUser(this.communityMembers),
+      trips: byUser(this.trips),
+      chargingSessions: byUser(this.chargingSessions),
+    };
+  }
+
+  async deleteUserContent(userId: string, type: UserContentType): Promise<number> {
+    const idsBy = <T extends { id: string }>(items: Map<string, T>, owns: (item: T) => boolean) =>
+      Array.from(items.values()).filter(owns).map((item) => item.id);
+    let ids: string[];
+
+    switch (type) {
+      case "posts":
+        ids = idsBy(this.posts, (post) => post.authorId === userId);
+        for (const id of ids) {
+          // Nothing else should point at a post that's gone
+          const pointsAtPost = (item: { targetType: string | null; targetId: string | null }) =>
+            item.targetType === "POST" && item.targetId === id;
+          idsBy(this.comments, (comment) => comment.postId === id).forEach((commentId) => this.comments.delete(commentId));
+          idsBy(this.bookmarks, pointsAtPost).forEach((bookmarkId) => this.bookmarks.delete(bookmarkId));
+          idsBy(this.notifications, pointsAtPost).forEach((notificationId) => this.notifications.delete(notificationId));
+          await this.deletePost(id);
+        }
+        return ids.length;
+      case "comments":
+        ids = idsBy(this.comments, (comment) => comment.authorId === userId);
+        for (const id of ids) await this.deleteComment(id);
+        return ids.length;
+      case "questions":
+        ids = idsBy(this.questions, (question) => question.authorId === userId);
+        for (const id of ids) await this.deleteQuestion(id);
+        return ids.length;
+      case "answers":
+        ids = idsBy(this.answers, (answer) => answer.authorId === userId);
+        for (const id of ids) {
+          const answer = this.answers.get(id)!;
+          this.answers.delete(id);
+          const question = this.questions.get(answer.questionId);
+          if (question) {
+            await this.updateQuestion(question.id, { answersCount: Math.max(0, question.answersCount - 1) });
+          }
+        }
+        return ids.length;
+      case "articles":
+        ids = idsBy(this.articles, (article) => article.authorId === userId);
+        for (const id of ids) await this.deleteArticle(id);
+        return ids.length;
+      case "articleComments":
+        ids = idsBy(this.articleComments, (comment) => comment.authorId === userId);
+        for (const id of ids) await this.deleteArticleComment(id);
+        return ids.length;
+      case "stationReviews":
+        ids = idsBy(this.stationReviews, (review) => review.authorId === userId);
+        for (const id of ids) await this.deleteStationReview(id);
+        return ids.length;
+      case "stationCheckIns":
+        ids = idsBy(this.stationCheckIns, (checkIn) => checkIn.userId === userId);
+        ids.forEach((id) => this.stationCheckIns.delete(id));
+        return ids.length;
+      case "messages": {
+        // Both sides go; a conversation with half of it missing isn't worth keeping
+        ids = idsBy(this.conversations, (c) => c.participantAId === userId || c.participantBId === userId);
+        const conversationIds = new Set(ids);
+        idsBy(this.messages, (message) => conversationIds.has(message.conversationId)).forEach((id) => this.messages.delete(id));
+        ids.forEach((id) => this.conversations.delete(id));
+        return ids.length;
+      }
+    }
+  }
+
+  async deleteUserRecords(userId: string): Promise<void> {
+    const deleteWhere = <T extends { id: string }>(items: Map<string, T>, owns: (item: T) => boolean) => {
+      Array.from(items.values()).filter(owns).forEach((item) => items.delete(item.id));
+    };
+
+    for (const follow of await this.getFollowing(userId)) await this.unfollowUser(userId, follow.followingId);
+    for (const follow of await this.getFollowers(userId)) await this.unfollowUser(follow.followerId, userId);
+    const memberships = Array.from(this.communityMembers.values()).filter((member) => member.userId === userId);
+    for (const membership of memberships) await this.leaveCommunity(membership.communityId, userId);
+
+    deleteWhere(this.userBlocks, (block) => block.blockerId === userId || block.blockedId === userId);
+    deleteWhere(this.bookmarks, (bookmark) => bookmark.userId === userId);
+    deleteWhere(this.notifications, (notification) => notification.userId === userId);
+    deleteWhere(this.trips, (trip) => trip.userId === userId);
+    deleteWhere(this.chargingSessions, (session) => session.userId === userId);
+    deleteWhere(this.reports, (report) => report.reporterId === userId);
+    deleteWhere(this.authTokens, (token) => token.userId === userId);
+    deleteWhere(this.accessTokens, (token) => token.userId === userId);
+    this.twoFactorCredentials.delete(userId);
+
+    // Others' notifications about the member stay but no longer point at them
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.actorId === userId) this.notifications.set(notification.id, { ...notification, actorId: null });
+    }
+  }
+
+  // Auth tokens
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const id = randomUUID();
+    const token: AuthToken = {
+      id,
+      userId: insertToken.userId,
+      purpose: insertToken.purpose as AuthTokenPurpose,
+      tokenHash: insertToken.tokenHash,
+      expiresAt: insertToken.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.authTokens.set(id, token);
+    return token;
+  }
+
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined> {
+    return Array.from(this.authTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async useAuthToken(id: string): Promise<boolean> {
+    const token = this.authTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.authTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+
+  async revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<number> {
+    let revoked = 0;
+    for (const token of Array.from(this.authTokens.values())) {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.authTokens.set(token.id, { ...token, usedAt: new Date() });
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  async countAuthTokens(userId: string, purpose: AuthTokenPurpose, since: Date): Promise<number> {
+    return Array.from(this.authTokens.values()).filter(
+      (token) => token.userId === userId && token.purpose === purpose && token.createdAt >= since
+    ).length;
+  }
+
+  // Two-factor authentication, keyed by user
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.get(userId);
+  }
+
+  async saveTwoFactorCredential(insertCredential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const credential: TwoFactorCredential = {
+      id: this.twoFactorCredentials.get(insertCredential.userId)?.id ?? randomUUID(),
+      userId: insertCredential.userId,
+      secret: insertCredential.secret,
+      enabledAt: insertCredential.enabledAt ?? null,
+      recoveryCodeHashes: (insertCredential.recoveryCodeHashes as string[] | undefined) ?? [],
+      lastUsedStep: insertCredential.lastUsedStep ?? null,
+      createdAt: new Date(),
+    };
+    this.twoFactorCredentials.set(credential.userId, credential);
+    return credential;
+  }
+
+  async deleteTwoFactorCredential(userId: string): Promise<boolean> {
+    return this.twoFactorCredentials.delete(userId);
+  }
+
+  async useTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) return false;
+    this.twoFactorCredentials.set(userId, { ...credential, lastUsedStep: step });
+    return true;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || !credential.recoveryCodeHashes.includes(codeHash)) return false;
+    this.twoFactorCredentials.set(userId, {
+      ...credential,
+      recoveryCodeHashes: credential.recoveryCodeHashes.filter((hash) => hash !== codeHash),
+    });
+    return true;
+  }
+
+  // Personal access tokens
+  async createAccessToken(insertToken: InsertAccessToken): Promise<AccessToken> {
+    const id = randomUUID();
+    const token: AccessToken = {
+      id,
+      userId: insertToken.userId,
+      name: insertToken.name,
+      scopes: insertToken.scopes as AccessToken["scopes"],
+      tokenHash: insertToken.tokenHash,
+      prefix: insertToken.prefix,
+      expiresAt: insertToken.expiresAt ?? null,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    this.accessTokens.set(id, token);
+    return token;
+  }
+
+  async getAccessTokenByHash(tokenHash: string): Promise<AccessToken | undefined> {
+    return Array.from(this.accessTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async getAccessTokens(userId: string): Promise<AccessToken[]> {
+    return Array.from(this.accessTokens.values())
+      .filter((token) => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async deleteAccessToken(id: string, userId: string): Promise<boolean> {
+    const token = this.accessTokens.get(id);
+    if (!token || token.userId !== userId) return false;
+    return this.accessTokens.delete(id);
+  }
+
+  async touchAccessToken(id: string, usedAt: Date): Promise<void> {
+    const token = this.accessTokens.get(id);
+    if (token) this.accessTokens.set(id, { ...token, lastUsedAt: usedAt });
+  }
+
+  // Rate limiting
+  async hitRateLimitBucket(key: string, windowMs: number): Promise<RateLimitBucket> {
+    const now = new Date();
+    const current = this.rateLimitBuckets.get(key);
+    const bucket: RateLimitBucket = current && current.resetAt > now
+      ? { ...current, count: current.count + 1 }
+      : { key, count: 1, resetAt: new Date(now.getTime() + windowMs) };
+    this.rateLimitBuckets.set(key, bucket);
+    return bucket;
+  }
+
+  async clearRateLimitBucket(key: string): Promise<void> {
+    this.rateLimitBuckets.delete(key);
+  }
+
+  // App settings
+  async getAppSetting(key: string): Promise<AppSetting | undefined> {
+    return this.appSettings.get(key);
+  }
+
+  async setAppSetting(key: string, value: unknown, updatedBy?: string): Promise<AppSetting> {
+    const setting: AppSetting = { key, value, updatedBy: updatedBy ?? null, updatedAt: new Date() };
+    this.appSettings.set(key, setting);
+    return setting;
+  }
+
   // Profiles
   async getProfile(userId: string): Promise<Profile | undefined> {
     return Array.from(this.profiles.values()).find(p => p.userId === userId);
@@ -254,7 +789,7 @@ export class MemStorage implements IStorage {
     const id = randomUUID();
     const notificationPrefs = insertProfile.notificationPrefs
       ? insertProfile.notificationPrefs as Profile['notificationPrefs']
-      : { newPost: true, like: true, comment: true } as Profile['notificationPrefs'];
+      : { newPost: true, like: true, comment: true, stationStatus: true } as Profile['notificationPrefs'];
 
     const profile: Profile = {
       id,
@@ -768,21 +1303,80 @@ export class MemStorage implements IStorage {
   }
 
   // Stations
-  async getStations(filters?: { verified?: boolean; limit?: number }): Promise<Station[]> {
+  async getStations(filters?: StationFilters): Promise<StationWithDistance[]> {
     let stations = Array.from(this.stations.values());
     
     if (filters?.verified !== undefined) {
       stations = stations.filter(s => s.verified === filters.verified);
     }
+    if (filters?.bounds) {
+      const bounds = filters.bounds;
+      stations = stations.filter(s => isWithinBounds(s.coords, bounds));
+    }
+    if (filters?.submittedOnly) {
+      stations = stations.filter(s => s.addedBy !== null);
+    }
+    if (filters?.name) {
+      const name = filters.name.toLowerCase();
+      stations = stations.filter(s => s.name.toLowerCase() === name);
+    }
+    if (filters) {
+      stations = stations.filter(s => matchesStationFilters(s, filters));
+    }
     
     const limit = filters?.limit || 100;
-    return stations.slice(0, limit);
+    const origin = filters?.near ?? filters?.origin ?? (filters?.bounds && boundsCenter(filters.bounds));
+    if (!origin) {
+      if (filters?.sort === "rating") stations.sort(compareByRating);
+      return stations.slice(0, limit);
+    }
+
+    let withDistance: StationWithDistance[] = stations.map(s => ({
+      ...s,
+      distanceKm: haversineDistanceKm(origin, s.coords),
+    }));
+    if (filters?.near) {
+      const radiusKm = filters.near.radiusKm;
+      withDistance = withDistance.filter(s => s.distanceKm! <= radiusKm);
+    }
+    withDistance.sort((a, b) =>
+      (filters?.sort === "rating" ? compareByRating(a, b) : 0) || a.distanceKm! - b.distanceKm!
+    );
+    return withDistance.slice(0, limit);
+  }
+
+  async getStationClusters(filters: StationFilters, cellDegrees: number): Promise<StationCluster[]> {
+    // near stays so the radius applies; ordering doesn't matter once stations are grouped
+    const stations = await this.getStations({
+      ...filters,
+      origin: undefined,
+      sort: undefined,
+      limit: Number.MAX_SAFE_INTEGER,
+    });
+    return groupStationsByCell(stations, cellDegrees).map(toStationCluster);
+  }
+
+  async getStationsByLastChange(filters: StationChangeFilters): Promise<{ stations: Station[]; total: number }> {
+    const matching = Array.from(this.stations.values())
+      .map((station) => ({ station, changedAt: stationLastChangedAt(station) }))
+      .filter(({ station }) => filters.verified === undefined || station.verified === filters.verified)
+      .filter(({ changedAt }) => !filters.changedFrom || changedAt >= filters.changedFrom)
+      .filter(({ changedAt }) => !filters.changedBefore || changedAt < filters.changedBefore)
+      .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime() || a.station.id.localeCompare(b.station.id));
+    return {
+      stations: matching.slice(filters.offset, filters.offset + filters.limit).map(({ station }) => station),
+      total: matching.length,
+    };
   }
 
   async getStation(id: string): Promise<Station | undefined> {
     return this.stations.get(id);
   }
 
+  async getStationByExternalId(externalId: string): Promise<Station | undefined> {
+    return Array.from(this.stations.values()).find(s => s.externalId === externalId);
+  }
+
   async createStation(insertStation: InsertStation): Promise<Station> {
     const id = randomUUID();
     const station: Station = {
@@ -795,23 +1389,296 @@ export class MemStorage implements IStorage {
       provider: insertStation.provider ?? null,
       pricing: insertStation.pricing ?? null,
       availability: insertStation.availability ?? null,
+      openingHours: (insertStation.openingHours as Station['openingHours']) ?? null,
+      accessType: (insertStation.accessType as Station['accessType']) ?? null,
+      parkingRestrictions: (insertStation.parkingRestrictions as Station['parkingRestrictions']) ?? [],
+      maxHeightMeters: insertStation.maxHeightMeters ?? null,
+      amenities: (insertStation.amenities as Station['amenities']) ?? [],
       addedBy: insertStation.addedBy ?? null,
       verified: false,
       bookmarksCount: 0,
+      ratingAverage: 0,
+      ratingCount: 0,
+      lastSyncedAt: null,
+      lastCheckInAt: null,
       createdAt: new Date(),
+      updatedAt: new Date(),
     };
     this.stations.set(id, station);
     return station;
   }
 
-  async updateStation(id: string, updates: Partial<Omit<Station, 'id' | 'createdAt'>>): Promise<Station | undefined> {
+  async updateStation(id: string, updates: Partial<Omit<Station, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Station | undefined> {
     const station = this.stations.get(id);
     if (!station) return undefined;
-    const updated = { ...station, ...updates };
+    const updated = { ...station, ...updates, updatedAt: new Date() };
     this.stations.set(id, updated);
     return updated;
   }
 
+  async upsertStationByExternalId(insertStation: InsertStation & { externalId: string }, syncedAt: Date = new Date()): Promise<Station> {
+    const existing = await this.getStationByExternalId(insertStation.externalId);
+    if (!existing) {
+      const created = await this.createStation(insertStation);
+      return (await this.updateStation(created.id, { lastSyncedAt: syncedAt }))!;
+    }
+
+    // Only refresh the fields the upstream feed owns; local state such as
+    // verification, bookmarks and the original submitter is preserved.
+    const updated: Station = {
+      ...existing,
+      name: insertStation.name,
+      coords: insertStation.coords,
+      address: insertStation.address,
+      connectors: insertStation.connectors as Station['connectors'],
+      provider: insertStation.provider ?? null,
+      pricing: insertStation.pricing ?? null,
+      availability: insertStation.availability ?? null,
+      lastSyncedAt: syncedAt,
+      updatedAt: syncedStationChanged(existing, insertStation) ? syncedAt : existing.updatedAt,
+    };
+    this.stations.set(existing.id, updated);
+    return updated;
+  }
+
+  async deleteStation(id: string): Promise<boolean> {
+    return this.stations.delete(id);
+  }
+
+  async mergeStations(sourceId: string, targetId: string): Promise<Station | undefined> {
+    const source = this.stations.get(sourceId);
+    const target = this.stations.get(targetId);
+    if (!source || !target || sourceId === targetId) return undefined;
+
+    const connectors = [...target.connectors];
+    for (const connector of source.connectors) {
+      if (!connectors.some(c => c.type === connector.type && c.powerKW === connector.powerKW)) {
+        connectors.push(connector);
+      }
+    }
+
+    for (const bookmark of Array.from(this.bookmarks.values())) {
+      if (bookmark.targetType !== "STATION" || bookmark.targetId !== sourceId) continue;
+      const alreadySaved = Array.from(this.bookmarks.values()).some(
+        b => b.userId === bookmark.userId && b.targetType === "STATION" && b.targetId === targetId
+      );
+      if (alreadySaved) {
+        this.bookmarks.delete(bookmark.id);
+      } else {
+        this.bookmarks.set(bookmark.id, { ...bookmark, targetId });
+      }
+    }
+
+    for (const review of Array.from(this.stationReviews.values())) {
+      if (review.stationId !== sourceId) continue;
+      const alreadyReviewed = Array.from(this.stationReviews.values()).some(
+        r => r.authorId === review.authorId && r.stationId === targetId
+      );
+      if (alreadyReviewed) {
+        this.stationReviews.delete(review.id);
+      } else {
+        this.stationReviews.set(review.id, { ...review, stationId: targetId });
+      }
+    }
+
+    for (const checkIn of Array.from(this.stationCheckIns.values())) {
+      if (checkIn.stationId === sourceId) {
+        this.stationCheckIns.set(checkIn.id, { ...checkIn, stationId: targetId });
+      }
+    }
+
+    for (const session of Array.from(this.chargingSessions.values())) {
+      if (session.stationId === sourceId) {
+        this.chargingSessions.set(session.id, { ...session, stationId: targetId });
+      }
+    }
+
+    this.stations.delete(sourceId);
+    const bookmarksCount = Array.from(this.bookmarks.values()).filter(
+      b => b.targetType === "STATION" && b.targetId === targetId
+    ).length;
+    this.stations.set(targetId, {
+      ...target,
+      externalId: target.externalId ?? source.externalId,
+      provider: target.provider ?? source.provider,
+      pricing: target.pricing ?? source.pricing,
+      openingHours: target.openingHours ?? source.openingHours,
+      accessType: target.accessType ?? source.accessType,
+      maxHeightMeters: target.maxHeightMeters ?? source.maxHeightMeters,
+      parkingRestrictions: Array.from(new Set([...target.parkingRestrictions, ...source.parkingRestrictions])),
+      amenities: Array.from(new Set([...target.amenities, ...source.amenities])),
+      connectors,
+      bookmarksCount,
+    });
+    this.refreshStationRating(targetId);
+    return this.stations.get(targetId);
+  }
+
+  // Station check-ins
+  async createStationCheckIn(insertCheckIn: InsertStationCheckIn): Promise<StationCheckIn> {
+    const id = randomUUID();
+    const checkIn: StationCheckIn = {
+      id,
+      stationId: insertCheckIn.stationId,
+      userId: insertCheckIn.userId,
+      status: insertCheckIn.status,
+      connectorType: insertCheckIn.connectorType ?? null,
+      comment: insertCheckIn.comment ?? null,
+      createdAt: new Date(),
+    };
+    this.stationCheckIns.set(id, checkIn);
+    // Not through updateStation: a check-in isn't an edit of the station itself
+    const station = this.stations.get(checkIn.stationId);
+    if (station) this.stations.set(station.id, { ...station, lastCheckInAt: checkIn.createdAt });
+    return checkIn;
+  }
+
+  async getStationCheckIns(filters: { stationIds: string[]; since?: Date; status?: string; limit?: number }): Promise<StationCheckIn[]> {
+    const stationIds = new Set(filters.stationIds);
+    const since = filters.since?.getTime() ?? 0;
+    const checkIns = Array.from(this.stationCheckIns.values())
+      .filter(c => stationIds.has(c.stationId) && c.createdAt.getTime() >= since)
+      .filter(c => !filters.status || c.status === filters.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return filters.limit ? checkIns.slice(0, filters.limit) : checkIns;
+  }
+
+  // Station reviews
+  private refreshStationRating(stationId: string) {
+    const station = this.stations.get(stationId);
+    if (!station) return;
+    const ratings = Array.from(this.stationReviews.values())
+      .filter(r => r.stationId === stationId)
+      .map(r => r.rating);
+    this.stations.set(stationId, {
+      ...station,
+      ratingAverage: averageRating(ratings),
+      ratingCount: ratings.length,
+    });
+  }
+
+  async getStationReviews(stationId: string): Promise<StationReview[]> {
+    return Array.from(this.stationReviews.values())
+      .filter(r => r.stationId === stationId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getStationReview(id: string): Promise<StationReview | undefined> {
+    return this.stationReviews.get(id);
+  }
+
+  async upsertStationReview(insertReview: InsertStationReview): Promise<StationReview> {
+    const existing = Array.from(this.stationReviews.values()).find(
+      r => r.stationId === insertReview.stationId && r.authorId === insertReview.authorId
+    );
+    const now = new Date();
+    const review: StationReview = {
+      id: existing?.id ?? randomUUID(),
+      stationId: insertReview.stationId,
+      authorId: insertReview.authorId,
+      rating: insertReview.rating,
+      text: insertReview.text ?? "",
+      tags: insertReview.tags ?? [],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.stationReviews.set(review.id, review);
+    this.refreshStationRating(review.stationId);
+    return review;
+  }
+
+  async deleteStationReview(id: string): Promise<boolean> {
+    const review = this.stationReviews.get(id);
+    if (!review) return false;
+    this.stationReviews.delete(id);
+    this.refreshStationRating(review.stationId);
+    return true;
+  }
+
+  // Station edit proposals
+  async createStationEdit(insertEdit: InsertStationEdit): Promise<StationEdit> {
+    const edit: StationEdit = {
+      id: randomUUID(),
+      stationId: insertEdit.stationId,
+      proposerId: insertEdit.proposerId ?? null,
+      changes: insertEdit.changes as StationEdit["changes"],
+      comment: insertEdit.comment ?? null,
+      status: "PENDING",
+      reviewedBy: null,
+      reviewNote: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+    };
+    this.stationEdits.set(edit.id, edit);
+    return edit;
+  }
+
+  async getStationEdit(id: string): Promise<StationEdit | undefined> {
+    return this.stationEdits.get(id);
+  }
+
+  async getStationEdits(filters?: { stationId?: string; proposerId?: string; status?: string; limit?: number }): Promise<StationEdit[]> {
+    let edits = Array.from(this.stationEdits.values());
+    if (filters?.stationId) edits = edits.filter(e => e.stationId === filters.stationId);
+    if (filters?.proposerId) edits = edits.filter(e => e.proposerId === filters.proposerId);
+    if (filters?.status) edits = edits.filter(e => e.status === filters.status);
+    edits.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return edits.slice(0, filters?.limit || 50);
+  }
+
+  async updateStationEdit(id: string, updates: Partial<Pick<StationEdit, 'status' | 'reviewedBy' | 'reviewNote' | 'reviewedAt'>>): Promise<StationEdit | undefined> {
+    const edit = this.stationEdits.get(id);
+    if (!edit) return undefined;
+    const updated = { ...edit, ...updates };
+    this.stationEdits.set(id, updated);
+    return updated;
+  }
+
+  // Charging sessions
+  async getChargingSessions(userId: string, filters?: { from?: Date; to?: Date }): Promise<ChargingSession[]> {
+    let sessions = Array.from(this.chargingSessions.values()).filter(s => s.userId === userId);
+    if (filters?.from) sessions = sessions.filter(s => s.startedAt >= filters.from!);
+    if (filters?.to) sessions = sessions.filter(s => s.startedAt < filters.to!);
+    return sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async getChargingSession(id: string): Promise<ChargingSession | undefined> {
+    return this.chargingSessions.get(id);
+  }
+
+  async createChargingSession(insertSession: InsertChargingSession): Promise<ChargingSession> {
+    const now = new Date();
+    const session: ChargingSession = {
+      id: randomUUID(),
+      userId: insertSession.userId,
+      stationId: insertSession.stationId ?? null,
+      stationName: insertSession.stationName,
+      startedAt: insertSession.startedAt,
+      endedAt: insertSession.endedAt ?? null,
+      energyKWh: insertSession.energyKWh,
+      cost: insertSession.cost,
+      currency: insertSession.currency,
+      vehicle: (insertSession.vehicle as ChargingSession["vehicle"]) ?? null,
+      notes: insertSession.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.chargingSessions.set(session.id, session);
+    return session;
+  }
+
+  async updateChargingSession(id: string, updates: Partial<Omit<ChargingSession, 'id' | 'userId' | 'createdAt'>>): Promise<ChargingSession | undefined> {
+    const session = this.chargingSessions.get(id);
+    if (!session) return undefined;
+    const updated = { ...session, ...updates, updatedAt: new Date() };
+    this.chargingSessions.set(id, updated);
+    return updated;
+  }
+
+  async deleteChargingSession(id: string): Promise<boolean> {
+    return this.chargingSessions.delete(id);
+  }
+
   // Bookmarks
   async getBookmarks(userId: string, targetType?: string): Promise<Bookmark[]> {
     let bookmarks = Array.from(this.bookmarks.values()).filter(b => b.userId === userId);
@@ -825,7 +1692,13 @@ export class MemStorage implements IStorage {
 
   async createBookmark(insertBookmark: InsertBookmark): Promise<Bookmark> {
     const id = randomUUID();
-    const bookmark: Bookmark = { id, ...insertBookmark, createdAt: new Date() };
+    const bookmark: Bookmark = {
+      id,
+      ...insertBookmark,
+      watch: (insertBookmark.watch as Bookmark['watch']) ?? null,
+      lastSeenStatus: null,
+      createdAt: new Date(),
+    };
     this.bookmarks.set(id, bookmark);
     
     // Update bookmarksCount for stations
@@ -866,6 +1739,18 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async updateBookmark(id: string, updates: Partial<Pick<Bookmark, 'watch' | 'lastSeenStatus'>>): Promise<Bookmark | undefined> {
+    const bookmark = this.bookmarks.get(id);
+    if (!bookmark) return undefined;
+    const updated = { ...bookmark, ...updates };
+    this.bookmarks.set(id, updated);
+    return updated;
+  }
+
+  async getWatchedStationBookmarks(): Promise<Bookmark[]> {
+    return Array.from(this.bookmarks.values()).filter(b => b.targetType === "STATION" && b.watch?.enabled);
+  }
+
   // Questions
   async getQuestions(filters?: { tag?: string; sort?: string; limit?: number; offset?: number }): Promise<Question[]> {
     let questions = Array.from(this.questions.values());
@@ -1090,12 +1975,18 @@ export class MemStorage implements IStorage {
   }
 
   // Reports
-  async getReports(filters?: { status?: string; limit?: number }): Promise<Report[]> {
+  async getReports(filters?: { status?: string; targetType?: string; targetId?: string; limit?: number }): Promise<Report[]> {
     let reports = Array.from(this.reports.values());
     
     if (filters?.status) {
       reports = reports.filter(r => r.status === filters.status);
     }
+    if (filters?.targetType) {
+      reports = reports.filter(r => r.targetType === filters.targetType);
+    }
+    if (filters?.targetId) {
+      reports = reports.filter(r => r.targetId === filters.targetId);
+    }
     
     reports.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
     
@@ -1180,6 +2071,44 @@ export class MemStorage implements IStorage {
   async deleteKnowledgeCategory(id: string): Promise<boolean> {
     return this.knowledgeCategories.delete(id);
   }
+
+  // Trips
+  async getTrips(userId: string): Promise<Trip[]> {
+    return Array.from(this.trips.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getTrip(id: string): Promise<Trip | undefined> {
+    return this.trips.get(id);
+  }
+
+  async createTrip(insertTrip: InsertTrip): Promise<Trip> {
+    const id = randomUUID();
+    const trip: Trip = {
+      id,
+      userId: insertTrip.userId,
+      name: insertTrip.name,
+      request: insertTrip.request as Trip['request'],
+      plan: insertTrip.plan as Trip['plan'],
+      postId: null,
+      createdAt: new Date(),
+    };
+    this.trips.set(id, trip);
+    return trip;
+  }
+
+  async updateTrip(id: string, updates: Partial<Pick<Trip, 'name' | 'postId'>>): Promise<Trip | undefined> {
+    const trip = this.trips.get(id);
+    if (!trip) return undefined;
+    const updated = { ...trip, ...updates };
+    this.trips.set(id, updated);
+    return updated;
+  }
+
+  async deleteTrip(id: string): Promise<boolean> {
+    return this.trips.delete(id);
+  }
 }
 
 export async function createStorage(): Promise<IStorage> {
@@ -1188,6 +2117,9 @@ export async function createStorage(): Promise<IStorage> {
   if (useMongoDB) {
     const { connectToMongoDB } = await import("./mongo-storage");
     await connectToMongoDB(process.env.MONGODB_URI);
+    // Stations stored before the current schema can't be read or geo-queried until rewritten
+    const { migrateLegacyStations } = await import("./station-migration");
+    await migrateLegacyStations();
     const { MongoStorage } = await import("./mongo-storage");
     return new MongoStorage();
   } else {
@@ -0,0 +1,53 @@
+import type { Response } from "express";
+import type { InsertStation, InsertUser } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { createMailer, type MailMessage } from "./mailer";
+
+// Shared by the server/*.test.ts files; not used by the app itself
+
+/** Base URL the mail links in tests point at */
+export const TEST_APP_URL = "https://ev.example";
+
+/**
+ * Fresh in-memory storage with one member in it, and a mailer that keeps
+ * every message in `sent` instead of delivering it.
+ */
+export async function createTestContext(member: InsertUser) {
+  const storage = new MemStorage();
+  const sent: MailMessage[] = [];
+  const mailer = createMailer({ transport: { name: "test", send: async (message) => void sent.push(message) } });
+  const user = await storage.createUser(member);
+  return { storage, mailer, sent, user };
+}
+
+/** A minimal station at a point, with one 150 kW CCS connector unless overridden */
+export function stationInput(name: string, lat: number, lng: number, overrides: Partial<InsertStation> = {}): InsertStation {
+  return { name, coords: { lat, lng }, address: `${name}, Test Street`, connectors: [{ type: "CCS", powerKW: 150 }], ...overrides };
+}
+
+/** The token from the link in a reset or verification mail */
+export function linkToken(message: MailMessage): string {
+  const match = message.text.match(/token=([^\s]+)/);
+  if (!match) throw new Error(`No link token in mail "${message.subject}"`);
+  return decodeURIComponent(match[1]);
+}
+
+/** Stands in for an Express response and records what a middleware sent */
+export function fakeResponse() {
+  const sent: { status?: number; body?: any; headers: Record<string, string> } = { headers: {} };
+  const res = {
+    setHeader(name: string, value: string) {
+      sent.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, matchTotpStep, totpCode, totpStep } from "./totp";
+
+// RFC 6238 appendix B secret ("12345678901234567890"), base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+test("codes match the RFC 6238 SHA-1 test vectors", () => {
+  // The RFC lists eight digits; the last six are what a six-digit app shows
+  assert.equal(totpCode(RFC_SECRET, totpStep(59 * 1000)), "287082");
+  assert.equal(totpCode(RFC_SECRET, totpStep(1111111109 * 1000)), "081804");
+  assert.equal(totpCode(RFC_SECRET, totpStep(1234567890 * 1000)), "005924");
+  assert.equal(totpCode(RFC_SECRET, totpStep(2000000000 * 1000)), "279037");
+});
+
+test("codes from one step either side of now are accepted", () => {
+  const secret = generateTotpSecret();
+  const now = Date.now();
+  const step = totpStep(now);
+  assert.equal(matchTotpStep(secret, totpCode(secret, step), now), step);
+  assert.equal(matchTotpStep(secret, totpCode(secret, step - 1), now), step - 1);
+  assert.equal(matchTotpStep(secret, totpCode(secret, step + 1), now), step + 1);
+});
+
+test("stale, wrong and malformed codes are rejected", () => {
+  const at = 1111111109 * 1000;
+  assert.equal(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, totpStep(at) - 5), at), null);
+  assert.equal(matchTotpStep(RFC_SECRET, "000000", at), null);
+  assert.equal(matchTotpStep(RFC_SECRET, "08180", at), null);
+  assert.equal(matchTotpStep(RFC_SECRET, "", at), null);
+});
+
+test("recovery codes are unique and hash the same however they're typed", () => {
+  const codes = generateRecoveryCodes();
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, codes.length);
+  assert.match(codes[0], /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+  assert.equal(hashRecoveryCode(codes[0].toUpperCase()), hashRecoveryCode(codes[0]));
+  assert.equal(hashRecoveryCode(codes[0].replace("-", "")), hashRecoveryCode(codes[0]));
+});
@@ -0,0 +1,100 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { normalizeRecoveryCode, TWO_FACTOR_CODE_LENGTH } from "@shared/account";
+
+// RFC 6238 defaults, which is what authenticator apps assume when the URI doesn't say
+const STEP_SECONDS = 30;
+const SECRET_BYTES = 20;
+/** Steps either side of now still accepted, for phones whose clocks drift */
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+export function totpStep(at = Date.now()): number {
+  return Math.floor(at / 1000 / STEP_SECONDS);
+}
+
+/** HOTP (RFC 4226) for the given time step */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TWO_FACTOR_CODE_LENGTH).padStart(TWO_FACTOR_CODE_LENGTH, "0");
+}
+
+/** Time step the code belongs to, or null when it matches none near now */
+export function matchTotpStep(secret: string, code: string, at = Date.now()): number | null {
+  const expected = Buffer.from(code);
+  const now = totpStep(at);
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    const candidate = Buffer.from(totpCode(secret, step));
+    if (candidate.length === expected.length && timingSafeEqual(candidate, expected)) return step;
+  }
+  return null;
+}
+
+/** otpauth:// URI authenticator apps read from a QR code */
+export function totpProvisioningUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TWO_FACTOR_CODE_LENGTH),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+/** Readable one-time codes like "3f9a1-c07be" */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
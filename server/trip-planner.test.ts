@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createTripPlanner } from "./trip-planner";
+import { straightLineRouteProvider } from "./route-provider";
+import { stationInput } from "./test-helpers";
+import { tripPlanRequestSchema, type TripPlanRequest } from "@shared/trips";
+
+function request(overrides: Partial<TripPlanRequest> = {}): TripPlanRequest {
+  return tripPlanRequestSchema.parse({
+    origin: { lat: 0, lng: 0 },
+    destination: { lat: 0, lng: 3 },
+    batteryKWh: 50,
+    consumptionKWhPer100Km: 20,
+    startSocPercent: 60,
+    connectorTypes: ["CCS"],
+    ...overrides,
+  });
+}
+
+async function addStation(storage: MemStorage, name: string, lat: number, lng: number, type = "CCS", powerKW = 150) {
+  return storage.createStation(stationInput(name, lat, lng, { connectors: [{ type, powerKW }] }));
+}
+
+test("a trip within range needs no stops", async () => {
+  const planner = createTripPlanner(new MemStorage(), { routeProvider: straightLineRouteProvider });
+  const plan = await planner.planTrip(request({ destination: { lat: 0, lng: 0.5 } }));
+
+  assert.equal(plan.feasible, true);
+  assert.equal(plan.legs.length, 1);
+  assert.equal(plan.routeSource, "straight-line");
+  assert.ok(plan.warnings.some((warning) => warning.includes("straight line")));
+  // 55.6 km at 0.2 kWh/km from 30 of 50 kWh
+  assert.equal(plan.totalDistanceKm, 55.6);
+  assert.equal(plan.arrivalSocPercent, 37.8);
+});
+
+test("stops are compatible stations on the corridor, each within reach of the last", async () => {
+  const storage = new MemStorage();
+  const first = await addStation(storage, "First", 0, 1);
+  const second = await addStation(storage, "Second", 0, 2.2);
+  await addStation(storage, "Off the route", 1, 1.1);
+  await addStation(storage, "Wrong plug", 0, 1.05, "CHAdeMO");
+  await addStation(storage, "Too slow", 0, 1.08, "CCS", 22);
+  const planner = createTripPlanner(storage, { routeProvider: straightLineRouteProvider });
+
+  const plan = await planner.planTrip(request());
+
+  assert.equal(plan.feasible, true);
+  assert.deepEqual(plan.legs.map((leg) => leg.chargingStop?.stationId), [first.id, second.id, undefined]);
+  for (const leg of plan.legs) assert.ok(leg.arrivalSocPercent >= 10);
+  assert.equal(plan.legs[1].departureSocPercent, 80);
+});
+
+test("a gap no station bridges makes the plan infeasible", async () => {
+  const planner = createTripPlanner(new MemStorage(), { routeProvider: straightLineRouteProvider });
+  const plan = await planner.planTrip(request());
+
+  assert.equal(plan.feasible, false);
+  assert.equal(plan.legs.length, 1);
+  assert.equal(plan.arrivalSocPercent, 0);
+  assert.ok(plan.warnings.some((warning) => warning.startsWith("No compatible station")));
+});
+
+test("stations are found on a route across the antimeridian", async () => {
+  const storage = new MemStorage();
+  const east = await addStation(storage, "East of the line", -17, 179.9);
+  await addStation(storage, "Far west", -17, 170);
+  const planner = createTripPlanner(storage, { routeProvider: straightLineRouteProvider });
+
+  const plan = await planner.planTrip(request({
+    origin: { lat: -17, lng: 178.9 },
+    destination: { lat: -17, lng: -178.9 },
+  }));
+
+  assert.equal(plan.feasible, true);
+  assert.ok(plan.totalDistanceKm < 250);
+  assert.equal(plan.legs[0].chargingStop?.stationId, east.id);
+  assert.ok(plan.legs[0].chargingStop!.detourKm < 1);
+});
+
+test("the request schema bounds coordinates and trip length", () => {
+  const base = { batteryKWh: 50, consumptionKWhPer100Km: 20, startSocPercent: 80 };
+  assert.equal(tripPlanRequestSchema.safeParse({
+    ...base,
+    origin: { lat: 0, lng: 0 },
+    destination: { lat: 0, lng: 1 },
+    polyline: [[0, 0], [95, 1]],
+  }).success, false);
+  assert.equal(tripPlanRequestSchema.safeParse({
+    ...base,
+    origin: { lat: 0, lng: 0 },
+    destination: { lat: 0, lng: 1 },
+    polyline: [[0, 0], [0, 200]],
+  }).success, false);
+  assert.equal(tripPlanRequestSchema.safeParse({
+    ...base,
+    origin: { lat: 51.5, lng: -0.1 },
+    destination: { lat: 40.7, lng: -74 },
+  }).success, false);
+  assert.equal(tripPlanRequestSchema.safeParse({
+    ...base,
+    origin: { lat: 0, lng: 0 },
+    destination: { lat: 0, lng: 1 },
+    polyline: [[0, 0], [0, 60], [0, 1]],
+  }).success, false);
+});
@@ -0,0 +1,302 @@
+import type { Station } from "@shared/schema";
+import { longitudeDelta, polylineLengthKm, projectOntoPolyline, wrapLongitude, type LatLng } from "@shared/geo";
+import { CONNECTOR_FAMILIES } from "@shared/stations";
+import { estimateChargeMinutes, findVehicleSpec, type VehicleSpec } from "@shared/vehicles";
+import { MAX_TRIP_KM, type TripChargingStop, type TripLeg, type TripPlan, type TripPlanRequest, type TripWaypoint } from "@shared/trips";
+import type { IStorage, StationBounds } from "./storage";
+import { createDefaultRouteProvider, type RouteProvider } from "./route-provider";
+
+export interface TripPlannerOptions {
+  /** Where route geometry comes from when the request carries no polyline */
+  routeProvider?: RouteProvider;
+}
+
+// Stations are looked up one stretch of route at a time so a long diagonal
+// route doesn't turn into one enormous bounding box
+const CORRIDOR_CHUNK_KM = 50;
+const CORRIDOR_STATION_LIMIT = 1000;
+// Bounds the lookups one plan can make; road routes run somewhat longer than MAX_TRIP_KM
+const MAX_CORRIDOR_CHUNKS = Math.ceil((MAX_TRIP_KM * 2) / CORRIDOR_CHUNK_KM);
+// Only a thinned copy of long routes is returned to the client
+const MAX_RESPONSE_POINTS = 500;
+// Stops are taken from the last part of the reachable stretch, fastest first
+const PREFERRED_WINDOW = 0.3;
+const MAX_STOPS = 50;
+
+// Assumed when the car isn't in the catalog: a typical modern EV
+const GENERIC_MAX_AC_KW = 11;
+const GENERIC_MAX_DC_KW = 150;
+
+interface CorridorStation {
+  station: Station;
+  alongKm: number;
+  offsetKm: number;
+  connector: { type: string; powerKW: number };
+  effectivePowerKW: number;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Padded box around one stretch of route. Longitudes are unwrapped from the
+ * first point, so a stretch across the antimeridian gets a box with west >
+ * east that wraps round ±180 (which getStations understands) instead of one
+ * spanning the whole globe.
+ */
+function chunkBounds(points: LatLng[], paddingKm: number): StationBounds {
+  const lats = points.map((p) => p.lat);
+  const lngs = [points[0].lng];
+  for (let i = 1; i < points.length; i++) {
+    lngs.push(lngs[i - 1] + longitudeDelta(points[i - 1].lng, points[i].lng));
+  }
+  const padLat = paddingKm / 111;
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const padLng = paddingKm / (111 * Math.max(0.01, Math.cos((midLat * Math.PI) / 180)));
+  const west = Math.min(...lngs) - padLng;
+  const east = Math.max(...lngs) + padLng;
+  const wholeWidth = east - west >= 360;
+  return {
+    north: Math.min(90, Math.max(...lats) + padLat),
+    south: Math.max(-90, Math.min(...lats) - padLat),
+    east: wholeWidth ? 180 : wrapLongitude(east),
+    west: wholeWidth ? -180 : wrapLongitude(west),
+  };
+}
+
+function splitIntoChunks(points: LatLng[]): LatLng[][] {
+  const chunks: LatLng[][] = [];
+  let current: LatLng[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    current.push(points[i]);
+    if (polylineLengthKm(current) >= CORRIDOR_CHUNK_KM) {
+      chunks.push(current);
+      current = [points[i]];
+    }
+  }
+  if (current.length > 1) chunks.push(current);
+  return chunks;
+}
+
+function thin(points: LatLng[]): Array<[number, number]> {
+  const step = Math.max(1, Math.ceil(points.length / MAX_RESPONSE_POINTS));
+  const kept = points.filter((_, index) => index % step === 0);
+  if (kept[kept.length - 1] !== points[points.length - 1]) kept.push(points[points.length - 1]);
+  return kept.map((p) => [round(p.lat, 5), round(p.lng, 5)]);
+}
+
+/**
+ * The car the plan is for. An explicit connector list overrides the inlets
+ * of a known model; unknown cars get generic charging limits.
+ */
+function resolvePlanVehicle(request: TripPlanRequest, memberVehicle?: VehicleSpec): VehicleSpec {
+  const spec = findVehicleSpec(request.vehicle) ?? memberVehicle;
+  return {
+    brand: spec?.brand ?? "",
+    model: spec?.model ?? "",
+    inlets: request.connectorTypes ?? spec?.inlets ?? [...CONNECTOR_FAMILIES],
+    maxAcKW: spec?.maxAcKW ?? GENERIC_MAX_AC_KW,
+    maxDcKW: spec?.maxDcKW ?? GENERIC_MAX_DC_KW,
+    batteryKWh: request.batteryKWh,
+  };
+}
+
+// Fastest connector on the station the car can use at or above the minimum power
+function bestConnector(station: Station, vehicle: VehicleSpec, minPowerKW: number) {
+  let best: { connector: { type: string; powerKW: number }; effectivePowerKW: number } | undefined;
+  for (const connector of station.connectors) {
+    if (connector.powerKW < minPowerKW) continue;
+    const estimate = estimateChargeMinutes(vehicle, connector);
+    if (!estimate.compatible) continue;
+    const effectivePowerKW = estimate.effectivePowerKW ?? 0;
+    if (!best || effectivePowerKW > best.effectivePowerKW) {
+      best = { connector, effectivePowerKW };
+    }
+  }
+  return best;
+}
+
+export function createTripPlanner(storage: IStorage, options: TripPlannerOptions = {}) {
+  const routeProvider = options.routeProvider ?? createDefaultRouteProvider();
+
+  async function findCorridorStations(
+    route: LatLng[],
+    chunks: LatLng[][],
+    request: TripPlanRequest,
+    vehicle: VehicleSpec
+  ): Promise<CorridorStation[]> {
+    const seen = new Set<string>();
+    const found: CorridorStation[] = [];
+
+    for (const chunk of chunks) {
+      const stations = await storage.getStations({
+        bounds: chunkBounds(chunk, request.corridorKm),
+        connectorTypes: vehicle.inlets,
+        minPowerKW: request.minPowerKW,
+        limit: CORRIDOR_STATION_LIMIT,
+      });
+
+      for (const station of stations) {
+        if (seen.has(station.id)) continue;
+        seen.add(station.id);
+
+        const match = bestConnector(station, vehicle, request.minPowerKW);
+        if (!match) continue;
+        const { alongKm, offsetKm } = projectOntoPolyline(station.coords, route);
+        if (offsetKm > request.corridorKm) continue;
+        found.push({ station, alongKm, offsetKm, ...match });
+      }
+    }
+
+    return found.sort((a, b) => a.alongKm - b.alongKm);
+  }
+
+  async function planTrip(request: TripPlanRequest, memberVehicle?: VehicleSpec): Promise<TripPlan> {
+    const geometry = request.polyline
+      ? { points: request.polyline.map(([lat, lng]) => ({ lat, lng })), source: "provided" }
+      : await routeProvider.getRoute(request.origin, request.destination);
+    const route = geometry.points;
+    const totalDistanceKm = polylineLengthKm(route);
+    const vehicle = resolvePlanVehicle(request, memberVehicle);
+    const kWhPerKm = request.consumptionKWhPer100Km / 100;
+    const legs: TripLeg[] = [];
+    const warnings: string[] = [];
+    const chunks = splitIntoChunks(route);
+    if (chunks.length > MAX_CORRIDOR_CHUNKS) {
+      warnings.push(`Only the first ${MAX_CORRIDOR_CHUNKS * CORRIDOR_CHUNK_KM} km of the route were searched for stations.`);
+    }
+    const candidates = await findCorridorStations(route, chunks.slice(0, MAX_CORRIDOR_CHUNKS), request, vehicle);
+    let from: TripWaypoint = request.origin;
+    let positionKm = 0;
+    // Distance back to the route from the previous stop
+    let rejoinKm = 0;
+    let soc = request.startSocPercent;
+    let feasible = true;
+
+    const socAfter = (distanceKm: number, startSoc: number) =>
+      startSoc - ((distanceKm * kWhPerKm) / request.batteryKWh) * 100;
+
+    while (legs.length <= MAX_STOPS) {
+      const remainingKm = rejoinKm + totalDistanceKm - positionKm;
+      const arrivalSoc = socAfter(remainingKm, soc);
+
+      if (arrivalSoc >= request.reserveSocPercent) {
+        legs.push({
+          from,
+          to: request.destination,
+          distanceKm: round(remainingKm),
+          energyKWh: round(remainingKm * kWhPerKm),
+          departureSocPercent: round(soc),
+          arrivalSocPercent: round(arrivalSoc),
+        });
+        break;
+      }
+
+      const usableKm = Math.max(0, ((soc - request.reserveSocPercent) / 100) * request.batteryKWh) / kWhPerKm;
+      const legKm = (c: CorridorStation) => rejoinKm + c.alongKm - positionKm + c.offsetKm;
+      const reachable = candidates.filter((c) => c.alongKm > positionKm + 1 && legKm(c) <= usableKm);
+
+      if (reachable.length === 0) {
+        feasible = false;
+        warnings.push(
+          `No compatible station with ${request.minPowerKW}+ kW within reach after ${round(positionKm)} km of the route.`
+        );
+        legs.push({
+          from,
+          to: request.destination,
+          distanceKm: round(remainingKm),
+          energyKWh: round(remainingKm * kWhPerKm),
+          departureSocPercent: round(soc),
+          arrivalSocPercent: round(Math.max(0, arrivalSoc)),
+        });
+        break;
+      }
+
+      const furthestKm = reachable[reachable.length - 1].alongKm;
+      const windowStartKm = furthestKm - (furthestKm - positionKm) * PREFERRED_WINDOW;
+      const stop = reachable
+        .filter((c) => c.alongKm >= windowStartKm)
+        .sort((a, b) => b.effectivePowerKW - a.effectivePowerKW || b.alongKm - a.alongKm)[0];
+
+      const distanceKm = legKm(stop);
+      const arrivalAtStop = socAfter(distanceKm, soc);
+      const departureSoc = Math.max(arrivalAtStop, request.chargeToPercent);
+      const estimate = estimateChargeMinutes(vehicle, stop.connector, arrivalAtStop, departureSoc);
+      const to: TripWaypoint = { lat: stop.station.coords.lat, lng: stop.station.coords.lng, label: stop.station.name };
+      const chargingStop: TripChargingStop = {
+        stationId: stop.station.id,
+        name: stop.station.name,
+        address: stop.station.address,
+        coords: stop.station.coords,
+        connectorType: stop.connector.type,
+        powerKW: stop.connector.powerKW,
+        detourKm: round(stop.offsetKm),
+        arrivalSocPercent: round(arrivalAtStop),
+        departureSocPercent: round(departureSoc),
+        chargeMinutes: estimate.chargeMinutes,
+      };
+
+      legs.push({
+        from,
+        to,
+        distanceKm: round(distanceKm),
+        energyKWh: round(distanceKm * kWhPerKm),
+        departureSocPercent: round(soc),
+        arrivalSocPercent: round(arrivalAtStop),
+        chargingStop,
+      });
+
+      from = to;
+      positionKm = stop.alongKm;
+      rejoinKm = stop.offsetKm;
+      soc = departureSoc;
+    }
+
+    if (legs.length > MAX_STOPS) {
+      feasible = false;
+      warnings.push(`Gave up after ${MAX_STOPS} charging stops.`);
+    }
+    if (geometry.source === "straight-line") {
+      warnings.push("Distances follow a straight line; real driving distance will be longer.");
+    }
+
+    const lastLeg = legs[legs.length - 1];
+    return {
+      routeSource: geometry.source,
+      polyline: thin(route),
+      totalDistanceKm: round(totalDistanceKm),
+      legs,
+      feasible,
+      arrivalSocPercent: lastLeg.arrivalSocPercent,
+      totalChargeMinutes: legs.reduce((sum, leg) => sum + (leg.chargingStop?.chargeMinutes ?? 0), 0),
+      warnings,
+    };
+  }
+
+  return { planTrip };
+}
+
+export type TripPlanner = ReturnType<typeof createTripPlanner>;
+
+/** Plain-text body for sharing a saved trip as a post */
+export function formatTripSummary(name: string, plan: TripPlan, tripUrl: string): string {
+  const stops = plan.legs.filter((leg) => leg.chargingStop);
+  const lines = [
+    `${name}: ${plan.totalDistanceKm} km with ${stops.length} charging stop${stops.length === 1 ? "" : "s"}` +
+      (plan.totalChargeMinutes > 0 ? ` (about ${plan.totalChargeMinutes} min charging)` : "") +
+      ".",
+  ];
+  stops.forEach((leg, index) => {
+    const stop = leg.chargingStop!;
+    lines.push(
+      `${index + 1}. ${stop.name} (${stop.powerKW} kW ${stop.connectorType}), ` +
+        `arrive ${Math.round(stop.arrivalSocPercent)}%, leave ${Math.round(stop.departureSocPercent)}%`
+    );
+  });
+  lines.push(`Arriving with ${Math.round(plan.arrivalSocPercent)}% battery.`);
+  if (!plan.feasible) lines.push("Note: part of this route has no suitable charger yet.");
+  lines.push(`Full plan: ${tripUrl}`);
+  return lines.join("\n");
+}
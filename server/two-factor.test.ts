@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { createTwoFactor } from "./two-factor";
+import { hashPassword } from "./auth";
+import { totpCode, totpStep } from "./totp";
+
+async function enrolledMember() {
+  const storage = new MemStorage();
+  const twoFactor = createTwoFactor(storage);
+  const user = await storage.createUser({ email: "member@example.com", passwordHash: await hashPassword("secret123") });
+  const enrollment = await twoFactor.beginEnrollment(user);
+  assert.ok("secret" in enrollment);
+  const enabled = await twoFactor.enable(user, totpCode(enrollment.secret, totpStep()));
+  assert.ok("recoveryCodes" in enabled);
+  return { storage, twoFactor, user, secret: enrollment.secret, recoveryCodes: enabled.recoveryCodes };
+}
+
+test("2FA stays off until a code from the new secret is confirmed", async () => {
+  const storage = new MemStorage();
+  const twoFactor = createTwoFactor(storage);
+  const user = await storage.createUser({ email: "member@example.com", passwordHash: "x" });
+  const enrollment = await twoFactor.beginEnrollment(user);
+  assert.ok("secret" in enrollment);
+  assert.equal(await twoFactor.isEnabled(user.id), false);
+  assert.ok("error" in (await twoFactor.enable(user, "000000")));
+  assert.equal(await twoFactor.isEnabled(user.id), false);
+});
+
+test("a code can't be replayed, even within its 30 seconds", async () => {
+  const { twoFactor, user, secret } = await enrolledMember();
+  const next = totpCode(secret, totpStep() + 1);
+  assert.deepEqual(await twoFactor.verifyLogin(user.id, { code: next }), { method: "totp" });
+  assert.ok("error" in (await twoFactor.verifyLogin(user.id, { code: next })));
+});
+
+test("the enrollment code can't be used to sign in", async () => {
+  const { twoFactor, user, secret } = await enrolledMember();
+  assert.ok("error" in (await twoFactor.verifyLogin(user.id, { code: totpCode(secret, totpStep()) })));
+});
+
+test("recovery codes work once each", async () => {
+  const { twoFactor, user, recoveryCodes } = await enrolledMember();
+  assert.deepEqual(await twoFactor.verifyLogin(user.id, { recoveryCode: recoveryCodes[0].toUpperCase() }), { method: "recovery" });
+  assert.ok("error" in (await twoFactor.verifyLogin(user.id, { recoveryCode: recoveryCodes[0] })));
+  assert.ok("error" in (await twoFactor.verifyLogin(user.id, { recoveryCode: "not-a-code" })));
+  assert.equal((await twoFactor.getStatus(user)).recoveryCodesLeft, recoveryCodes.length - 1);
+});
+
+test("turning 2FA off needs the password and a fresh code", async () => {
+  const { twoFactor, user, secret } = await enrolledMember();
+  const code = totpCode(secret, totpStep() + 1);
+  assert.ok("error" in (await twoFactor.disable(user, "wrong-password", code)));
+  assert.deepEqual(await twoFactor.disable(user, "secret123", code), { disabled: true });
+  assert.equal(await twoFactor.isEnabled(user.id), false);
+});
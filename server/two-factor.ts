@@ -0,0 +1,160 @@
+import {
+  normalizeRecoveryCode,
+  securitySettingsSchema,
+  SECURITY_SETTINGS_KEY,
+  type SecuritySettings,
+} from "@shared/account";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { comparePassword } from "./auth";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  matchTotpStep,
+  totpProvisioningUri,
+} from "./totp";
+
+const ISSUER = "EV Connect";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  /** The member's role needs 2FA before moderator or admin tools open */
+  requiredForRole: boolean;
+}
+
+export function createTwoFactor(storage: IStorage) {
+  async function getSecuritySettings(): Promise<SecuritySettings> {
+    const setting = await storage.getAppSetting(SECURITY_SETTINGS_KEY);
+    const parsed = securitySettingsSchema.safeParse(setting?.value ?? {});
+    return parsed.success ? parsed.data : securitySettingsSchema.parse({});
+  }
+
+  async function isRequiredFor(user: Pick<User, "role">): Promise<boolean> {
+    const settings = await getSecuritySettings();
+    return (settings.requireTwoFactorRoles as string[]).includes(user.role);
+  }
+
+  async function isEnabled(userId: string): Promise<boolean> {
+    const credential = await storage.getTwoFactorCredential(userId);
+    return !!credential?.enabledAt;
+  }
+
+  async function getStatus(user: User): Promise<TwoFactorStatus> {
+    const [credential, requiredForRole] = await Promise.all([
+      storage.getTwoFactorCredential(user.id),
+      isRequiredFor(user),
+    ]);
+    return {
+      enabled: !!credential?.enabledAt,
+      recoveryCodesLeft: credential?.enabledAt ? credential.recoveryCodeHashes.length : 0,
+      requiredForRole,
+    };
+  }
+
+  /** Starts enrollment with a fresh secret; 2FA stays off until a code from it is confirmed */
+  async function beginEnrollment(user: User): Promise<{ secret: string; otpauthUri: string } | { error: string }> {
+    if (await isEnabled(user.id)) {
+      return { error: "Two-factor authentication is already on" };
+    }
+    const secret = generateTotpSecret();
+    await storage.saveTwoFactorCredential({ userId: user.id, secret, enabledAt: null, recoveryCodeHashes: [] });
+    return { secret, otpauthUri: totpProvisioningUri(secret, user.email, ISSUER) };
+  }
+
+  /** Time step of a code not used before, or null */
+  async function acceptCode(userId: string, secret: string, code: string): Promise<number | null> {
+    const step = matchTotpStep(secret, code);
+    // Each code works once, even inside its 30 seconds
+    return step !== null && (await storage.useTwoFactorStep(userId, step)) ? step : null;
+  }
+
+  /** Turns 2FA on and hands back recovery codes, the only time they're shown */
+  async function enable(user: User, code: string): Promise<{ recoveryCodes: string[] } | { error: string }> {
+    const credential = await storage.getTwoFactorCredential(user.id);
+    if (!credential) return { error: "Start setup first" };
+    if (credential.enabledAt) return { error: "Two-factor authentication is already on" };
+    const step = await acceptCode(user.id, credential.secret, code);
+    if (step === null) {
+      return { error: "That code didn't match. Check your phone's clock and try again." };
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.saveTwoFactorCredential({
+      userId: user.id,
+      secret: credential.secret,
+      enabledAt: new Date(),
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+    });
+    return { recoveryCodes };
+  }
+
+  async function disable(user: User, password: string, code: string): Promise<{ disabled: true } | { error: string }> {
+    const credential = await storage.getTwoFactorCredential(user.id);
+    if (!credential?.enabledAt) return { error: "Two-factor authentication is not on" };
+    if (await isRequiredFor(user)) {
+      return { error: "Your role requires two-factor authentication" };
+    }
+    if (!(await comparePassword(password, user.passwordHash))) {
+      return { error: "Password is incorrect" };
+    }
+    if ((await acceptCode(user.id, credential.secret, code)) === null) {
+      return { error: "That code didn't match" };
+    }
+    await storage.deleteTwoFactorCredential(user.id);
+    return { disabled: true };
+  }
+
+  async function regenerateRecoveryCodes(user: User, code: string): Promise<{ recoveryCodes: string[] } | { error: string }> {
+    const credential = await storage.getTwoFactorCredential(user.id);
+    if (!credential?.enabledAt) return { error: "Two-factor authentication is not on" };
+    const step = await acceptCode(user.id, credential.secret, code);
+    if (step === null) {
+      return { error: "That code didn't match" };
+    }
+    const recoveryCodes = generateRecoveryCodes();
+    await storage.saveTwoFactorCredential({
+      userId: user.id,
+      secret: credential.secret,
+      enabledAt: credential.enabledAt,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+    });
+    return { recoveryCodes };
+  }
+
+  /** Second login step: an authenticator code or one of the recovery codes */
+  async function verifyLogin(
+    userId: string,
+    input: { code: string } | { recoveryCode: string }
+  ): Promise<{ method: "totp" | "recovery" } | { error: string }> {
+    const credential = await storage.getTwoFactorCredential(userId);
+    if (!credential?.enabledAt) return { error: "Two-factor authentication is not on" };
+
+    if ("code" in input) {
+      return (await acceptCode(userId, credential.secret, input.code)) !== null
+        ? { method: "totp" }
+        : { error: "That code didn't match" };
+    }
+    if (!normalizeRecoveryCode(input.recoveryCode)) return { error: "That recovery code didn't match" };
+    return (await storage.useRecoveryCode(userId, hashRecoveryCode(input.recoveryCode)))
+      ? { method: "recovery" }
+      : { error: "That recovery code didn't match" };
+  }
+
+  return {
+    getSecuritySettings,
+    isRequiredFor,
+    isEnabled,
+    getStatus,
+    beginEnrollment,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+    verifyLogin,
+  };
+}
+
+export type TwoFactor = ReturnType<typeof createTwoFactor>;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+// What a personal access token may do. Reading covers every GET the member
+// could make themselves; the rest unlock groups of write routes.
+export const ACCESS_TOKEN_SCOPES = ["read", "write:posts", "write:stations", "admin"] as const;
+export type AccessTokenScope = typeof ACCESS_TOKEN_SCOPES[number];
+
+export const ACCESS_TOKEN_SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  read: "Read anything you can see",
+  "write:posts": "Create and edit posts, comments, questions, answers and articles",
+  "write:stations": "Add and edit stations, reviews and check-ins",
+  admin: "Use moderator and admin tools your role allows",
+};
+
+/** Only members who could use the admin tools themselves can grant them to a token */
+export const ADMIN_SCOPE_ROLES = ["MODERATOR", "ADMIN"];
+
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Give the token a name").max(100),
+  scopes: z.array(z.enum(ACCESS_TOKEN_SCOPES)).min(1, "Pick at least one scope"),
+  /** Null for a token that never expires */
+  expiresInDays: z.union([z.literal(7), z.literal(30), z.literal(90), z.literal(365)]).nullable(),
+});
+
+export type CreateAccessTokenInput = z.infer<typeof createAccessTokenSchema>;
+
+/** What the token list shows; the token itself is only returned once, when it's created */
+export interface AccessTokenSummary {
+  id: string;
+  name: string;
+  scopes: AccessTokenScope[];
+  /** First characters of the token, to tell tokens apart */
+  prefix: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
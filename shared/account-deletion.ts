@@ -0,0 +1,68 @@
+import { z } from "zod";
+import type { UserStatus } from "./account";
+
+// Content other members may still be reading when its author leaves. Each
+// type is either removed outright or kept under a "Deleted member" account
+// stripped of everything that identified the author. Everything private to
+// the member (bookmarks, follows, notifications, trips, ...) is always removed.
+export const USER_CONTENT_TYPES = [
+  "posts",
+  "comments",
+  "questions",
+  "answers",
+  "articles",
+  "articleComments",
+  "stationReviews",
+  "stationCheckIns",
+  "messages",
+] as const;
+export type UserContentType = typeof USER_CONTENT_TYPES[number];
+
+export const CONTENT_DELETION_ACTIONS = ["remove", "anonymize"] as const;
+export type ContentDeletionAction = typeof CONTENT_DELETION_ACTIONS[number];
+export type ContentDeletionPolicy = Record<UserContentType, ContentDeletionAction>;
+
+export const DEFAULT_CONTENT_DELETION_POLICY: ContentDeletionPolicy = {
+  posts: "remove",
+  // Replies stay so the threads around them still make sense
+  comments: "anonymize",
+  questions: "anonymize",
+  answers: "anonymize",
+  articles: "anonymize",
+  articleComments: "anonymize",
+  stationReviews: "anonymize",
+  stationCheckIns: "anonymize",
+  // The other person keeps their side of the conversation
+  messages: "anonymize",
+};
+
+export const USER_CONTENT_TYPE_LABELS: Record<UserContentType, string> = {
+  posts: "Posts",
+  comments: "Comments on posts",
+  questions: "Questions",
+  answers: "Answers",
+  articles: "Articles",
+  articleComments: "Comments on articles",
+  stationReviews: "Station reviews",
+  stationCheckIns: "Station check-ins",
+  messages: "Messages",
+};
+
+export const contentDeletionPolicySchema = z
+  .record(z.enum(USER_CONTENT_TYPES), z.enum(CONTENT_DELETION_ACTIONS))
+  .transform((overrides): ContentDeletionPolicy => ({ ...DEFAULT_CONTENT_DELETION_POLICY, ...overrides }));
+
+/** Status of the placeholder an erased account leaves behind for its anonymized content */
+export const DELETED_USER_STATUS: UserStatus = "DELETED";
+export const DELETED_USER_DISPLAY_NAME = "Deleted member";
+
+export const requestAccountDeletionSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+});
+
+export interface AccountDeletionStatus {
+  /** When the account will be erased, or null if no deletion is scheduled */
+  scheduledFor: string | null;
+  cooldownDays: number;
+  policy: ContentDeletionPolicy;
+}
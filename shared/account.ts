@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+export const AUTH_TOKEN_PURPOSES = ["PASSWORD_RESET", "EMAIL_VERIFICATION"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+// DELETED is the placeholder an erased account leaves behind; only account deletion sets it
+export const USER_STATUSES = ["ACTIVE", "PENDING_VERIFICATION", "SUSPENDED", "BANNED", "DELETED"] as const;
+export type UserStatus = typeof USER_STATUSES[number];
+
+export const USER_STATUS_LABELS: Record<UserStatus, string> = {
+  ACTIVE: "Active",
+  PENDING_VERIFICATION: "Pending verification",
+  SUSPENDED: "Suspended",
+  BANNED: "Banned",
+  DELETED: "Deleted",
+};
+
+/**
+ * Until this moment a member who hasn't verified their email can still read
+ * everything; writing (posting, messaging, submitting stations) waits for
+ * verification either way.
+ */
+export function verificationGraceEndsAt(user: { createdAt: Date | string }, graceMs: number): Date {
+  return new Date(new Date(user.createdAt).getTime() + graceMs);
+}
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const newPasswordSchema = z.string().min(PASSWORD_MIN_LENGTH).max(200);
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: newPasswordSchema,
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1).max(200),
+  newPassword: newPasswordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1).max(200),
+});
+
+export const TWO_FACTOR_CODE_LENGTH = 6;
+export const TWO_FACTOR_ROLES = ["ADMIN", "MODERATOR"] as const;
+export type TwoFactorRole = typeof TWO_FACTOR_ROLES[number];
+
+export const twoFactorCodeSchema = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your app");
+
+/** Recovery codes are typed by hand, so case and dashes don't matter */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export const twoFactorLoginSchema = z.union([
+  z.object({ code: twoFactorCodeSchema }),
+  z.object({ recoveryCode: z.string().trim().min(1).max(50) }),
+]);
+
+export const enableTwoFactorSchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+  code: twoFactorCodeSchema,
+});
+
+export const SECURITY_SETTINGS_KEY = "security";
+
+export const securitySettingsSchema = z.object({
+  /** Members with these roles must turn on 2FA before using moderator and admin tools */
+  requireTwoFactorRoles: z.array(z.enum(TWO_FACTOR_ROLES)).default([]),
+});
+
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  chargingSessionInputSchema,
+  summarizeChargingSessions,
+  toChargingSessionsCsv,
+  type ChargingSessionLike,
+} from "./charging-sessions";
+
+function session(overrides: Partial<ChargingSessionLike>): ChargingSessionLike {
+  return {
+    stationId: "station-1",
+    stationName: "Ionity Brandenburg",
+    startedAt: "2026-01-10T08:00:00Z",
+    endedAt: "2026-01-10T08:30:00Z",
+    energyKWh: 40,
+    cost: 27.6,
+    currency: "EUR",
+    vehicle: null,
+    notes: null,
+    ...overrides,
+  };
+}
+
+test("the summary totals energy and spend per currency and month", () => {
+  const summary = summarizeChargingSessions([
+    session({}),
+    session({ startedAt: "2026-01-20T08:00:00Z", energyKWh: 20, cost: 10 }),
+    session({ startedAt: "2026-02-02T08:00:00Z", energyKWh: 30, cost: 15, currency: "CHF" }),
+  ]);
+  assert.equal(summary.sessions, 3);
+  assert.equal(summary.energyKWh, 90);
+  assert.deepEqual(summary.spend, { EUR: 37.6, CHF: 15 });
+  assert.deepEqual(summary.averagePricePerKWh, { EUR: 0.627, CHF: 0.5 });
+  assert.deepEqual(summary.months, [
+    { month: "2026-01", sessions: 2, energyKWh: 60, spend: { EUR: 37.6 } },
+    { month: "2026-02", sessions: 1, energyKWh: 30, spend: { CHF: 15 } },
+  ]);
+});
+
+test("unlisted chargers are grouped by name and top stations are ranked by visits", () => {
+  const summary = summarizeChargingSessions([
+    session({ stationId: null, stationName: "Hotel car park" }),
+    session({ stationId: null, stationName: "hotel car park" }),
+    session({ stationId: null, stationName: "Hotel car park" }),
+    session({ energyKWh: 60 }),
+    session({ stationId: "station-2", stationName: "Other", energyKWh: 10 }),
+  ]);
+  assert.deepEqual(
+    summary.topStations.map((usage) => [usage.stationId, usage.stationName, usage.sessions]),
+    [[null, "Hotel car park", 3], ["station-1", "Ionity Brandenburg", 1], ["station-2", "Other", 1]]
+  );
+});
+
+test("an empty log summarises to zeros", () => {
+  assert.deepEqual(summarizeChargingSessions([]), {
+    sessions: 0,
+    energyKWh: 0,
+    spend: {},
+    averagePricePerKWh: {},
+    months: [],
+    topStations: [],
+  });
+});
+
+test("the CSV export is oldest first and quotes cells that need it", () => {
+  const csv = toChargingSessionsCsv([
+    session({ startedAt: "2026-02-01T10:00:00Z", endedAt: null, notes: 'Slow, "derated"' }),
+    session({ vehicle: { brand: "Kia", model: "EV6" } }),
+  ]);
+  assert.equal(
+    csv,
+    "started_at,ended_at,station_id,station_name,energy_kwh,cost,currency,price_per_kwh,vehicle,notes\r\n" +
+      "2026-01-10T08:00:00.000Z,2026-01-10T08:30:00.000Z,station-1,Ionity Brandenburg,40,27.6,EUR,0.69,Kia EV6,\r\n" +
+      '2026-02-01T10:00:00.000Z,,station-1,Ionity Brandenburg,40,27.6,EUR,0.69,,"Slow, ""derated"""\r\n'
+  );
+});
+
+test("sessions need a station or a name, and can't end before they start", () => {
+  const base = { startedAt: "2026-01-10T08:00:00Z", energyKWh: 40, cost: 27.6, currency: "eur" };
+  assert.equal(chargingSessionInputSchema.parse({ ...base, stationName: "Hotel" }).currency, "EUR");
+  assert.equal(chargingSessionInputSchema.safeParse(base).success, false);
+  assert.equal(
+    chargingSessionInputSchema.safeParse({ ...base, stationId: "s", endedAt: "2026-01-10T07:00:00Z" }).success,
+    false
+  );
+});
@@ -0,0 +1,167 @@
+import { z } from "zod";
+
+export const chargingSessionInputSchema = z.object({
+  /** Station in storage; omit for a charger that isn't listed */
+  stationId: z.string().min(1).nullable().optional(),
+  /** Free-text name, used when there's no stationId and kept as a snapshot when there is */
+  stationName: z.string().trim().max(200).optional(),
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().nullable().optional(),
+  energyKWh: z.number().positive().max(1000),
+  cost: z.number().min(0).max(100000),
+  currency: z.string().trim().length(3).transform((code) => code.toUpperCase()),
+  vehicle: z.object({ brand: z.string().trim().max(100), model: z.string().trim().max(100) }).nullable().optional(),
+  notes: z.string().trim().max(1000).optional(),
+}).refine((input) => !input.endedAt || input.endedAt >= input.startedAt, {
+  message: "endedAt must be after startedAt",
+  path: ["endedAt"],
+}).refine((input) => !!input.stationId || !!input.stationName, {
+  message: "Pick a station or enter its name",
+  path: ["stationName"],
+});
+
+export type ChargingSessionInput = z.infer<typeof chargingSessionInputSchema>;
+
+// Fields the summary and CSV export need; server and client records both fit
+export interface ChargingSessionLike {
+  stationId: string | null;
+  stationName: string;
+  startedAt: Date | string;
+  endedAt: Date | string | null;
+  energyKWh: number;
+  cost: number;
+  currency: string;
+  vehicle: { brand: string; model: string } | null;
+  notes: string | null;
+}
+
+export interface MonthlyChargingTotals {
+  /** YYYY-MM */
+  month: string;
+  sessions: number;
+  energyKWh: number;
+  /** Spend per currency; members who charge abroad pay in more than one */
+  spend: Record<string, number>;
+}
+
+export interface ChargingStationUsage {
+  stationId: string | null;
+  stationName: string;
+  sessions: number;
+  energyKWh: number;
+}
+
+export interface ChargingSessionSummary {
+  sessions: number;
+  energyKWh: number;
+  spend: Record<string, number>;
+  /** Average price per kWh in each currency */
+  averagePricePerKWh: Record<string, number>;
+  months: MonthlyChargingTotals[];
+  topStations: ChargingStationUsage[];
+}
+
+const TOP_STATIONS = 5;
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function monthKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 7);
+}
+
+export function summarizeChargingSessions(sessions: ChargingSessionLike[]): ChargingSessionSummary {
+  const months = new Map<string, MonthlyChargingTotals>();
+  const stations = new Map<string, ChargingStationUsage>();
+  const spend: Record<string, number> = {};
+  const energyByCurrency: Record<string, number> = {};
+  let energyKWh = 0;
+
+  for (const session of sessions) {
+    energyKWh += session.energyKWh;
+    spend[session.currency] = (spend[session.currency] ?? 0) + session.cost;
+    energyByCurrency[session.currency] = (energyByCurrency[session.currency] ?? 0) + session.energyKWh;
+
+    const key = monthKey(session.startedAt);
+    const month = months.get(key) ?? { month: key, sessions: 0, energyKWh: 0, spend: {} };
+    month.sessions += 1;
+    month.energyKWh += session.energyKWh;
+    month.spend[session.currency] = (month.spend[session.currency] ?? 0) + session.cost;
+    months.set(key, month);
+
+    // Unlisted chargers are grouped by the name the member typed
+    const stationKey = session.stationId ?? `name:${session.stationName.toLowerCase()}`;
+    const usage = stations.get(stationKey) ?? {
+      stationId: session.stationId,
+      stationName: session.stationName,
+      sessions: 0,
+      energyKWh: 0,
+    };
+    usage.sessions += 1;
+    usage.energyKWh += session.energyKWh;
+    stations.set(stationKey, usage);
+  }
+
+  const roundAll = (values: Record<string, number>) =>
+    Object.fromEntries(Object.entries(values).map(([currency, value]) => [currency, round(value)]));
+
+  return {
+    sessions: sessions.length,
+    energyKWh: round(energyKWh, 1),
+    spend: roundAll(spend),
+    averagePricePerKWh: Object.fromEntries(
+      Object.entries(spend).map(([currency, total]) => [currency, round(total / energyByCurrency[currency], 3)])
+    ),
+    months: Array.from(months.values())
+      .sort((a, b) => a.month.localeCompare(b.month))
+      .map((month) => ({ ...month, energyKWh: round(month.energyKWh, 1), spend: roundAll(month.spend) })),
+    topStations: Array.from(stations.values())
+      .sort((a, b) => b.sessions - a.sessions || b.energyKWh - a.energyKWh)
+      .slice(0, TOP_STATIONS)
+      .map((usage) => ({ ...usage, energyKWh: round(usage.energyKWh, 1) })),
+  };
+}
+
+const CSV_COLUMNS = [
+  "started_at",
+  "ended_at",
+  "station_id",
+  "station_name",
+  "energy_kwh",
+  "cost",
+  "currency",
+  "price_per_kwh",
+  "vehicle",
+  "notes",
+] as const;
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function isoOrEmpty(value: Date | string | null): string {
+  return value ? new Date(value).toISOString() : "";
+}
+
+/** RFC 4180 CSV, oldest session first */
+export function toChargingSessionsCsv(sessions: ChargingSessionLike[]): string {
+  const rows = [...sessions]
+    .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime())
+    .map((session) => [
+      isoOrEmpty(session.startedAt),
+      isoOrEmpty(session.endedAt),
+      session.stationId,
+      session.stationName,
+      session.energyKWh,
+      session.cost,
+      session.currency,
+      session.energyKWh > 0 ? round(session.cost / session.energyKWh, 4) : null,
+      session.vehicle ? `${session.vehicle.brand} ${session.vehicle.model}` : null,
+      session.notes,
+    ].map(csvCell).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { deriveLiveStatus, type CheckInLike } from "./check-ins";
+
+const now = new Date("2026-03-02T12:00:00Z");
+
+function hoursAgo(hours: number) {
+  return new Date(now.getTime() - hours * 3_600_000);
+}
+
+function checkIn(userId: string, status: string, hours: number, connectorType?: string): CheckInLike {
+  return { userId, status, createdAt: hoursAgo(hours), connectorType };
+}
+
+test("no check-ins means the status is unknown", () => {
+  assert.deepEqual(deriveLiveStatus([], now), {
+    status: "UNKNOWN",
+    confidence: 0,
+    lastCheckInAt: null,
+    brokenConnectors: [],
+  });
+});
+
+test("a fresh check-in is fully trusted", () => {
+  const live = deriveLiveStatus([checkIn("a", "CHARGED_OK", 0)], now);
+  assert.equal(live.status, "WORKING");
+  assert.equal(live.confidence, 1);
+  assert.equal(live.lastCheckInAt, now.toISOString());
+});
+
+test("short-lived reports fade faster than broken hardware", () => {
+  // Three hours is six half-lives for a busy bay but a fraction of one for a broken connector
+  assert.equal(deriveLiveStatus([checkIn("a", "ALL_OCCUPIED", 3)], now).status, "UNKNOWN");
+  assert.equal(deriveLiveStatus([checkIn("a", "BROKEN", 3)], now).status, "BROKEN");
+  assert.equal(deriveLiveStatus([checkIn("a", "BROKEN", 24 * 8)], now).lastCheckInAt, null);
+});
+
+test("only each member's latest check-in counts", () => {
+  const live = deriveLiveStatus(
+    [
+      checkIn("a", "BROKEN", 1),
+      checkIn("a", "BROKEN", 2),
+      checkIn("a", "BROKEN", 3),
+      checkIn("a", "CHARGED_OK", 0.5),
+      checkIn("b", "BROKEN", 10),
+    ],
+    now
+  );
+  assert.equal(live.status, "WORKING");
+});
+
+test("broken connectors are listed while the report is still believed", () => {
+  const live = deriveLiveStatus([checkIn("a", "BROKEN", 1, "CCS"), checkIn("b", "BROKEN", 24 * 6, "Type 2")], now);
+  assert.equal(live.status, "BROKEN");
+  assert.deepEqual(live.brokenConnectors, ["CCS"]);
+});
+
+test("unknown check-in statuses are ignored", () => {
+  assert.equal(deriveLiveStatus([checkIn("a", "SOMETHING_ELSE", 0)], now).status, "UNKNOWN");
+});
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+export const CHECK_IN_STATUSES = ["CHARGED_OK", "ALL_OCCUPIED", "BROKEN", "ICED"] as const;
+export type CheckInStatus = typeof CHECK_IN_STATUSES[number];
+
+export const CHECK_IN_LABELS: Record<CheckInStatus, string> = {
+  CHARGED_OK: "Charged successfully",
+  ALL_OCCUPIED: "All bays occupied",
+  BROKEN: "Broken connector",
+  ICED: "Blocked by a non-EV (ICE'd)",
+};
+
+export const stationCheckInInputSchema = z.object({
+  status: z.enum(CHECK_IN_STATUSES),
+  /** Which connector is broken; only meaningful for BROKEN */
+  connectorType: z.string().trim().max(100).optional(),
+  comment: z.string().trim().max(500).optional(),
+});
+
+export type StationCheckInInput = z.infer<typeof stationCheckInInputSchema>;
+
+// Live states shown on cards and the map. WORKING comes from successful
+// charges; the others mirror the check-in that produced them.
+export type LiveStationStatus = "WORKING" | "OCCUPIED" | "BROKEN" | "BLOCKED" | "UNKNOWN";
+
+const STATUS_FOR_CHECK_IN: Record<CheckInStatus, Exclude<LiveStationStatus, "UNKNOWN">> = {
+  CHARGED_OK: "WORKING",
+  ALL_OCCUPIED: "OCCUPIED",
+  BROKEN: "BROKEN",
+  ICED: "BLOCKED",
+};
+
+// How quickly a check-in stops being believed. Busy bays and blocked spots
+// change within the hour; broken hardware tends to stay broken for days.
+const HALF_LIFE_HOURS: Record<CheckInStatus, number> = {
+  CHARGED_OK: 12,
+  ALL_OCCUPIED: 0.5,
+  BROKEN: 48,
+  ICED: 1,
+};
+
+/** Check-ins older than this are ignored entirely */
+export const CHECK_IN_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Below this combined weight there isn't enough recent evidence to say anything
+const MIN_CONFIDENCE = 0.25;
+
+export interface CheckInLike {
+  userId: string;
+  status: string;
+  connectorType?: string | null;
+  createdAt: Date | string;
+}
+
+export interface StationLiveStatus {
+  status: LiveStationStatus;
+  /** 0–1; a single fresh check-in is 1 */
+  confidence: number;
+  lastCheckInAt: string | null;
+  /** Connectors currently reported broken */
+  brokenConnectors: string[];
+}
+
+/** Recent check-in as exposed with station listings, without the member's id */
+export interface RecentCheckIn {
+  status: CheckInStatus;
+  connectorType: string | null;
+  createdAt: string;
+}
+
+function checkInWeight(checkIn: CheckInLike, now: number): number {
+  const halfLife = HALF_LIFE_HOURS[checkIn.status as CheckInStatus];
+  if (!halfLife) return 0;
+  const ageHours = Math.max(0, now - new Date(checkIn.createdAt).getTime()) / 3_600_000;
+  return 0.5 ** (ageHours / halfLife);
+}
+
+/**
+ * Live status from crowd check-ins. Only each member's latest check-in
+ * counts, so one person tapping "broken" repeatedly doesn't outweigh others.
+ */
+export function deriveLiveStatus(checkIns: CheckInLike[], now: Date = new Date()): StationLiveStatus {
+  const nowMs = now.getTime();
+  const latestByUser = new Map<string, CheckInLike>();
+  for (const checkIn of checkIns) {
+    const time = new Date(checkIn.createdAt).getTime();
+    if (nowMs - time > CHECK_IN_WINDOW_MS) continue;
+    const current = latestByUser.get(checkIn.userId);
+    if (!current || new Date(current.createdAt).getTime() < time) {
+      latestByUser.set(checkIn.userId, checkIn);
+    }
+  }
+
+  const weights = new Map<LiveStationStatus, number>();
+  const brokenConnectors = new Set<string>();
+  let lastCheckInAt: number | null = null;
+  for (const checkIn of Array.from(latestByUser.values())) {
+    const weight = checkInWeight(checkIn, nowMs);
+    const status = STATUS_FOR_CHECK_IN[checkIn.status as CheckInStatus];
+    if (!status) continue;
+    weights.set(status, (weights.get(status) ?? 0) + weight);
+    if (status === "BROKEN" && checkIn.connectorType && weight >= MIN_CONFIDENCE) {
+      brokenConnectors.add(checkIn.connectorType);
+    }
+    const time = new Date(checkIn.createdAt).getTime();
+    lastCheckInAt = lastCheckInAt === null ? time : Math.max(lastCheckInAt, time);
+  }
+
+  let best: LiveStationStatus = "UNKNOWN";
+  let bestWeight = 0;
+  for (const [status, weight] of Array.from(weights.entries())) {
+    if (weight > bestWeight) {
+      best = status;
+      bestWeight = weight;
+    }
+  }
+
+  return {
+    status: bestWeight >= MIN_CONFIDENCE ? best : "UNKNOWN",
+    confidence: Math.min(1, Math.round(bestWeight * 100) / 100),
+    lastCheckInAt: lastCheckInAt === null ? null : new Date(lastCheckInAt).toISOString(),
+    brokenConnectors: Array.from(brokenConnectors),
+  };
+}
+
+export const LIVE_STATUS_LABELS: Record<LiveStationStatus, string> = {
+  WORKING: "Working",
+  OCCUPIED: "All bays occupied",
+  BROKEN: "Reported broken",
+  BLOCKED: "Bays blocked",
+  UNKNOWN: "No recent check-ins",
+};
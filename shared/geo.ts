@@ -0,0 +1,111 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_MILE = 1.609344;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance between two points
+export function haversineDistanceKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Signed east-west difference from one longitude to another, the short way round the globe */
+export function longitudeDelta(from: number, to: number): number {
+  return ((((to - from) % 360) + 540) % 360) - 180;
+}
+
+/** Brings a longitude back into [-180, 180] */
+export function wrapLongitude(lng: number): number {
+  return lng > 180 ? lng - 360 : lng < -180 ? lng + 360 : lng;
+}
+
+export function milesToKm(miles: number): number {
+  return miles * KM_PER_MILE;
+}
+
+export function kmToMiles(km: number): number {
+  return km / KM_PER_MILE;
+}
+
+export function polylineLengthKm(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineDistanceKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+/** Evenly spaced points on the great circle between a and b, both ends included */
+export function interpolateGreatCircle(a: LatLng, b: LatLng, segments: number): LatLng[] {
+  const lat1 = toRadians(a.lat);
+  const lng1 = toRadians(a.lng);
+  const lat2 = toRadians(b.lat);
+  const lng2 = toRadians(b.lng);
+  const angle = haversineDistanceKm(a, b) / EARTH_RADIUS_KM;
+  if (angle === 0 || segments < 1) return [a, b];
+
+  const points: LatLng[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const f = i / segments;
+    const wa = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const wb = Math.sin(f * angle) / Math.sin(angle);
+    const x = wa * Math.cos(lat1) * Math.cos(lng1) + wb * Math.cos(lat2) * Math.cos(lng2);
+    const y = wa * Math.cos(lat1) * Math.sin(lng1) + wb * Math.cos(lat2) * Math.sin(lng2);
+    const z = wa * Math.sin(lat1) + wb * Math.sin(lat2);
+    points.push({
+      lat: (Math.atan2(z, Math.sqrt(x * x + y * y)) * 180) / Math.PI,
+      lng: (Math.atan2(y, x) * 180) / Math.PI,
+    });
+  }
+  return points;
+}
+
+export interface PolylineProjection {
+  /** Distance along the line to the closest point */
+  alongKm: number;
+  /** Distance from the point to the line */
+  offsetKm: number;
+}
+
+/**
+ * Closest point on a polyline. Each segment is treated as flat around its
+ * start, which is accurate enough for the short segments routes are made of.
+ */
+export function projectOntoPolyline(point: LatLng, points: LatLng[]): PolylineProjection {
+  let best: PolylineProjection = { alongKm: 0, offsetKm: haversineDistanceKm(point, points[0]) };
+  let travelled = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1];
+    const end = points[i];
+    const segmentKm = haversineDistanceKm(start, end);
+    const scale = Math.cos(toRadians(start.lat));
+    // Measured the short way round so segments across the antimeridian stay short
+    const dLng = longitudeDelta(start.lng, end.lng);
+    const dx = dLng * scale;
+    const dy = end.lat - start.lat;
+    const px = longitudeDelta(start.lng, point.lng) * scale;
+    const py = point.lat - start.lat;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq));
+    const closest = { lat: start.lat + t * (end.lat - start.lat), lng: wrapLongitude(start.lng + t * dLng) };
+    const offsetKm = haversineDistanceKm(point, closest);
+    if (offsetKm < best.offsetKm) {
+      best = { alongKm: travelled + t * segmentKm, offsetKm };
+    }
+    travelled += segmentKm;
+  }
+
+  return best;
+}
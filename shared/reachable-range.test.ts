@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { arrivalSocPercent, compareReachableStations, estimateRange, type ReachableStation } from "./reachable-range";
+
+test("range counts only the charge above the reserve and shrinks for roads", () => {
+  assert.deepEqual(estimateRange({ batteryKWh: 60, socPercent: 50, reservePercent: 10, consumptionKWhPer100Km: 18 }), {
+    usableKWh: 24,
+    drivingRangeKm: 133.3,
+    radiusKm: 102.6,
+  });
+  assert.deepEqual(estimateRange({ batteryKWh: 60, socPercent: 5, reservePercent: 10, consumptionKWhPer100Km: 18 }), {
+    usableKWh: 0,
+    drivingRangeKm: 0,
+    radiusKm: 0,
+  });
+});
+
+test("arrival charge uses the stretched road distance", () => {
+  // 100 km straight is 130 km of road, 23.4 kWh, 39% of a 60 kWh battery
+  assert.equal(arrivalSocPercent(100, { batteryKWh: 60, socPercent: 80, consumptionKWhPer100Km: 18 }), 41);
+});
+
+test("working stations come first, then the fastest, then the nearest", () => {
+  const station = (name: string, status: ReachableStation["status"], effectivePowerKW: number, distanceKm: number) =>
+    ({ name, status, effectivePowerKW, distanceKm }) as ReachableStation;
+  const sorted = [
+    station("down", "DOWN", 350, 1),
+    station("unknown", undefined, 350, 1),
+    station("slow", "UP", 50, 1),
+    station("busy", "BUSY", 350, 1),
+    station("fast far", "UP", 150, 20),
+    station("fast near", "UP", 150, 5),
+  ].sort(compareReachableStations);
+  assert.deepEqual(sorted.map((s) => s.name), ["fast near", "fast far", "slow", "unknown", "busy", "down"]);
+});
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { StationWithStatus } from "./schema";
+import { stationFilterQuerySchema } from "./stations";
+import { watchedStatus, type WatchedStatus } from "./station-watch";
+
+/** Typical mixed-driving consumption, used when the member doesn't give one */
+export const DEFAULT_CONSUMPTION_KWH_PER_100KM = 18;
+export const DEFAULT_RESERVE_PERCENT = 10;
+
+// Roads are longer than the straight line between two points. Range is
+// worked out without a routing service, so straight-line distances are
+// stretched by this much before energy is counted.
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+export const reachableRangeQuerySchema = stationFilterQuerySchema.extend({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  /** Current state of charge */
+  soc: z.coerce.number().min(0).max(100),
+  /** Usable battery; defaults to the signed-in member's vehicle */
+  batteryKWh: z.coerce.number().positive().max(300).optional(),
+  consumption: z.coerce.number().positive().max(100).default(DEFAULT_CONSUMPTION_KWH_PER_100KM),
+  /** Charge to keep in hand on arrival */
+  reserve: z.coerce.number().min(0).max(50).default(DEFAULT_RESERVE_PERCENT),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+});
+
+export type ReachableRangeQuery = z.infer<typeof reachableRangeQuerySchema>;
+
+export interface RangeEstimate {
+  /** Energy available before dipping into the reserve */
+  usableKWh: number;
+  /** How far that energy lasts on the road */
+  drivingRangeKm: number;
+  /** Straight-line radius of the safe range, for drawing on a map */
+  radiusKm: number;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function estimateRange(input: {
+  batteryKWh: number;
+  socPercent: number;
+  reservePercent: number;
+  consumptionKWhPer100Km: number;
+}): RangeEstimate {
+  const usableKWh = Math.max(0, (input.batteryKWh * (input.socPercent - input.reservePercent)) / 100);
+  const drivingRangeKm = (usableKWh / input.consumptionKWhPer100Km) * 100;
+  return {
+    usableKWh: round(usableKWh),
+    drivingRangeKm: round(drivingRangeKm),
+    radiusKm: round(drivingRangeKm / ROAD_DISTANCE_FACTOR),
+  };
+}
+
+/** Battery left after driving to a point this far away in a straight line */
+export function arrivalSocPercent(
+  distanceKm: number,
+  input: { batteryKWh: number; socPercent: number; consumptionKWhPer100Km: number }
+): number {
+  const energyKWh = (distanceKm * ROAD_DISTANCE_FACTOR * input.consumptionKWhPer100Km) / 100;
+  return round(input.socPercent - (energyKWh / input.batteryKWh) * 100);
+}
+
+export type ReachableStation = StationWithStatus & {
+  distanceKm: number;
+  arrivalSocPercent: number;
+  /** Fastest power the car can draw here; the highest connector power without a known car */
+  effectivePowerKW: number;
+  status?: WatchedStatus;
+};
+
+export interface ReachableRange extends RangeEstimate {
+  center: { lat: number; lng: number };
+  socPercent: number;
+  reservePercent: number;
+  batteryKWh: number;
+  consumptionKWhPer100Km: number;
+  /** The car the range is for, when the member's profile names a known one */
+  vehicle?: { brand: string; model: string };
+  stations: ReachableStation[];
+}
+
+// Working stations first, then ones nobody has reported on, busy, and down
+const STATUS_RANK: Record<WatchedStatus | "UNKNOWN", number> = { UP: 0, UNKNOWN: 1, BUSY: 2, DOWN: 3 };
+
+export function reachableStationStatus(station: Pick<StationWithStatus, "availability" | "liveStatus">) {
+  return watchedStatus(station.availability, station.liveStatus?.status);
+}
+
+/** Working stations first, fastest first within a status, then nearest */
+export function compareReachableStations(a: ReachableStation, b: ReachableStation): number {
+  return (
+    STATUS_RANK[a.status ?? "UNKNOWN"] - STATUS_RANK[b.status ?? "UNKNOWN"] ||
+    b.effectivePowerKW - a.effectivePowerKW ||
+    a.distanceKm - b.distanceKm
+  );
+}
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { averageRating, compareByRating, stationReviewInputSchema } from "./reviews";
+
+test("the average rating is rounded to two decimals and 0 without ratings", () => {
+  assert.equal(averageRating([]), 0);
+  assert.equal(averageRating([5]), 5);
+  assert.equal(averageRating([5, 4, 4]), 4.33);
+});
+
+test("best rated first, more reviews break ties, unreviewed last", () => {
+  const stations = [
+    { name: "unreviewed", ratingAverage: 0, ratingCount: 0 },
+    { name: "few", ratingAverage: 4.5, ratingCount: 2 },
+    { name: "best", ratingAverage: 4.8, ratingCount: 1 },
+    { name: "many", ratingAverage: 4.5, ratingCount: 40 },
+  ];
+  assert.deepEqual(
+    stations.sort(compareByRating).map((station) => station.name),
+    ["best", "many", "few", "unreviewed"]
+  );
+});
+
+test("reviews need a whole-star rating and known tags", () => {
+  assert.deepEqual(stationReviewInputSchema.parse({ rating: 4 }), { rating: 4, text: "", tags: [] });
+  assert.equal(stationReviewInputSchema.safeParse({ rating: 0 }).success, false);
+  assert.equal(stationReviewInputSchema.safeParse({ rating: 4.5 }).success, false);
+  assert.equal(stationReviewInputSchema.safeParse({ rating: 4, tags: ["cheap"] }).success, false);
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+export const REVIEW_TAGS = [
+  "well-lit",
+  "restrooms",
+  "food-nearby",
+  "fast",
+  "slow",
+  "reliable",
+  "overpriced",
+  "good-value",
+  "easy-access",
+  "covered",
+] as const;
+export type ReviewTag = typeof REVIEW_TAGS[number];
+
+export const REVIEW_TAG_LABELS: Record<ReviewTag, string> = {
+  "well-lit": "Well lit",
+  restrooms: "Restrooms",
+  "food-nearby": "Food nearby",
+  fast: "Fast",
+  slow: "Slow",
+  reliable: "Reliable",
+  overpriced: "Overpriced",
+  "good-value": "Good value",
+  "easy-access": "Easy access",
+  covered: "Covered",
+};
+
+export const stationReviewInputSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  text: z.string().trim().max(2000).default(""),
+  tags: z.array(z.enum(REVIEW_TAGS)).max(REVIEW_TAGS.length).default([]),
+});
+
+export type StationReviewInput = z.infer<typeof stationReviewInputSchema>;
+
+export const STATION_SORTS = ["distance", "rating", "price"] as const;
+export type StationSort = typeof STATION_SORTS[number];
+
+type RatedStation = { ratingAverage: number; ratingCount: number };
+
+/** Best rated first; more reviews break ties, unreviewed stations go last */
+export function compareByRating(a: RatedStation, b: RatedStation): number {
+  return b.ratingAverage - a.ratingAverage || b.ratingCount - a.ratingCount;
+}
+
+/** Mean of the ratings rounded to two decimals, 0 when there are none */
+export function averageRating(ratings: number[]): number {
+  if (ratings.length === 0) return 0;
+  const sum = ratings.reduce((total, rating) => total + rating, 0);
+  return Math.round((sum / ratings.length) * 100) / 100;
+}
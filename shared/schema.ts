@@ -1,7 +1,20 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uniqueIndex, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { TripPlan, TripPlanRequest } from "./trips";
+import type { RecentCheckIn, StationLiveStatus } from "./check-ins";
+import type { StationEditDiff } from "./station-edits";
+import type { BookmarkWatch, WatchedStatus } from "./station-watch";
+import type { AuthTokenPurpose } from "./account";
+import type { AccessTokenScope } from "./access-tokens";
+import {
+  stationDetailsSchema,
+  type AccessType,
+  type Amenity,
+  type OpeningHours,
+  type ParkingRestriction,
+} from "./station-details";
 
 // Users table
 export const users = pgTable("users", {
@@ -10,6 +23,14 @@ export const users = pgTable("users", {
   passwordHash: text("password_hash").notNull(),
   role: text("role").notNull().default("USER"),
   status: text("status").notNull().default("ACTIVE"),
+  /** Sessions signed in before this are no longer accepted */
+  passwordChangedAt: timestamp("password_changed_at"),
+  /** Wrong passwords since the last successful sign-in; drives the lockout */
+  failedLoginCount: integer("failed_login_count").notNull().default(0),
+  /** Sign-in is refused until then */
+  lockedUntil: timestamp("locked_until"),
+  /** Set while the member's own deletion request waits out its cooldown */
+  deletionScheduledFor: timestamp("deletion_scheduled_for"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -25,6 +46,93 @@ export const registerUserSchema = insertUserSchema.omit({ passwordHash: true }).
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Single-use tokens mailed to members, such as password reset links. Only a
+// hash of the token is stored so a leaked table can't be used to sign in.
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull().$type<AuthTokenPurpose>(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+
+// TOTP second factor; kept apart from users so user rows can be sent to
+// admins without exposing secrets
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  /** Base32 TOTP secret */
+  secret: text("secret").notNull(),
+  /** Null while enrollment waits for the first code */
+  enabledAt: timestamp("enabled_at"),
+  /** Hashes of the unused recovery codes */
+  recoveryCodeHashes: jsonb("recovery_code_hashes").notNull().$type<string[]>().default([]),
+  /** Last time step a code was accepted for, so a code can't be replayed */
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+
+// Personal access tokens members create for scripts, sent as a Bearer token
+export const accessTokens = pgTable("access_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  scopes: jsonb("scopes").notNull().$type<AccessTokenScope[]>(),
+  /** sha256 of the token; the token itself is never stored */
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAccessTokenSchema = createInsertSchema(accessTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+});
+
+export type InsertAccessToken = z.infer<typeof insertAccessTokenSchema>;
+export type AccessToken = typeof accessTokens.$inferSelect;
+
+// Fixed-window request counters for rate limiting, shared by every instance
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull().default(0),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+
+// Site-wide settings admins change at runtime, one JSON value per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull().$type<unknown>(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type AppSetting = typeof appSettings.$inferSelect;
+
 // Profiles table
 export const profiles = pgTable("profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -52,6 +160,8 @@ export const profiles = pgTable("profiles", {
     newPost?: boolean;
     like?: boolean;
     comment?: boolean;
+    /** Status changes at watched station bookmarks */
+    stationStatus?: boolean;
   }>().default(sql`'{}'::jsonb`),
   acceptsMessages: boolean("accepts_messages").notNull().default(true),
 });
@@ -63,6 +173,14 @@ export const insertProfileSchema = createInsertSchema(profiles).omit({
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profiles.$inferSelect;
 
+/** Every notification is on until the member turns it off */
+export const DEFAULT_NOTIFICATION_PREFS: Required<NonNullable<Profile["notificationPrefs"]>> = {
+  newPost: true,
+  like: true,
+  comment: true,
+  stationStatus: true,
+};
+
 // User follows table (follower/following relationships)
 export const userFollows = pgTable("user_follows", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -250,33 +368,163 @@ export const stations = pgTable("stations", {
   provider: text("provider"),
   pricing: text("pricing"),
   availability: text("availability"),
+  // Site details from members; null and empty lists mean "not known"
+  openingHours: jsonb("opening_hours").$type<OpeningHours>(),
+  accessType: text("access_type").$type<AccessType>(),
+  parkingRestrictions: jsonb("parking_restrictions").notNull().$type<ParkingRestriction[]>().default(sql`'[]'::jsonb`),
+  maxHeightMeters: real("max_height_meters"),
+  amenities: jsonb("amenities").notNull().$type<Amenity[]>().default(sql`'[]'::jsonb`),
   verified: boolean("verified").notNull().default(false),
   addedBy: varchar("added_by").references(() => users.id, { onDelete: "set null" }),
   bookmarksCount: integer("bookmarks_count").notNull().default(0),
+  /** Mean review rating, 0 when there are no reviews */
+  ratingAverage: real("rating_average").notNull().default(0),
+  ratingCount: integer("rating_count").notNull().default(0),
+  lastSyncedAt: timestamp("last_synced_at"),
+  /** Newest check-in; with updatedAt it dates the last change OCPI clients see */
+  lastCheckInAt: timestamp("last_check_in_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  externalIdUnique: uniqueIndex("stations_external_id_idx").on(table.externalId),
+}));
 
 export const insertStationSchema = createInsertSchema(stations).omit({
   id: true,
   verified: true,
   bookmarksCount: true,
+  ratingAverage: true,
+  ratingCount: true,
+  lastSyncedAt: true,
+  lastCheckInAt: true,
   createdAt: true,
-});
+  updatedAt: true,
+}).extend(stationDetailsSchema.partial().shape);
 
 export type InsertStation = z.infer<typeof insertStationSchema>;
 export type Station = typeof stations.$inferSelect;
 
+// Station as returned by geospatial queries, with the distance from the query origin
+export type StationWithDistance = Station & { distanceKm?: number };
+
+// Station check-ins table
+export const stationCheckIns = pgTable("station_check_ins", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull().references(() => stations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull(),
+  connectorType: text("connector_type"),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertStationCheckInSchema = createInsertSchema(stationCheckIns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertStationCheckIn = z.infer<typeof insertStationCheckInSchema>;
+export type StationCheckIn = typeof stationCheckIns.$inferSelect;
+
+// Station reviews table
+export const stationReviews = pgTable("station_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull().references(() => stations.id, { onDelete: "cascade" }),
+  authorId: varchar("author_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  rating: integer("rating").notNull(),
+  text: text("text").notNull().default(""),
+  tags: text("tags").array().notNull().default(sql`ARRAY[]::text[]`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  // One review per member per station; reviewing again edits it
+  stationAuthorUnique: uniqueIndex("station_reviews_station_author_idx").on(table.stationId, table.authorId),
+}));
+
+export const insertStationReviewSchema = createInsertSchema(stationReviews).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertStationReview = z.infer<typeof insertStationReviewSchema>;
+export type StationReview = typeof stationReviews.$inferSelect;
+
+// Suggested station edits, stored as a diff against the record the proposer saw
+export const stationEdits = pgTable("station_edits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull().references(() => stations.id, { onDelete: "cascade" }),
+  proposerId: varchar("proposer_id").references(() => users.id, { onDelete: "set null" }),
+  changes: jsonb("changes").notNull().$type<StationEditDiff>(),
+  comment: text("comment"),
+  status: text("status").notNull().default("PENDING"), // PENDING, APPLIED, REJECTED
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertStationEditSchema = createInsertSchema(stationEdits).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewNote: true,
+  reviewedAt: true,
+  createdAt: true,
+});
+
+export type InsertStationEdit = z.infer<typeof insertStationEditSchema>;
+export type StationEdit = typeof stationEdits.$inferSelect;
+
+// Charging sessions logged by members for their own cost tracking
+export const chargingSessions = pgTable("charging_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  stationId: varchar("station_id").references(() => stations.id, { onDelete: "set null" }),
+  // Snapshot of the name so the log still reads well if the station goes away
+  stationName: text("station_name").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  energyKWh: real("energy_kwh").notNull(),
+  cost: real("cost").notNull(),
+  currency: text("currency").notNull(),
+  vehicle: jsonb("vehicle").$type<{ brand: string; model: string }>(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertChargingSessionSchema = createInsertSchema(chargingSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertChargingSession = z.infer<typeof insertChargingSessionSchema>;
+export type ChargingSession = typeof chargingSessions.$inferSelect;
+
+// Station with its crowd-sourced status attached for listings
+export type StationWithStatus = StationWithDistance & {
+  liveStatus?: StationLiveStatus;
+  recentCheckIns?: RecentCheckIn[];
+};
+
 // Bookmarks table
 export const bookmarks = pgTable("bookmarks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   targetType: text("target_type").notNull(),
   targetId: varchar("target_id").notNull(),
+  /** Station bookmarks only: which status changes notify the member */
+  watch: jsonb("watch").$type<BookmarkWatch>(),
+  /** What the status watcher saw last time, so only changes notify */
+  lastSeenStatus: text("last_seen_status").$type<WatchedStatus>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({
   id: true,
+  lastSeenStatus: true,
   createdAt: true,
 });
 
@@ -427,3 +675,24 @@ export const insertKnowledgeCategorySchema = createInsertSchema(knowledgeCategor
 
 export type InsertKnowledgeCategory = z.infer<typeof insertKnowledgeCategorySchema>;
 export type KnowledgeCategory = typeof knowledgeCategories.$inferSelect;
+
+// Trips table
+export const trips = pgTable("trips", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  request: jsonb("request").notNull().$type<TripPlanRequest>(),
+  plan: jsonb("plan").notNull().$type<TripPlan>(),
+  /** Post the trip was shared as, if any */
+  postId: varchar("post_id").references(() => posts.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTripSchema = createInsertSchema(trips).omit({
+  id: true,
+  postId: true,
+  createdAt: true,
+});
+
+export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type Trip = typeof trips.$inferSelect;
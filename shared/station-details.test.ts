@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatOpeningHours,
+  isOpenAt,
+  nominalTimeZone,
+  openingHoursSchema,
+  stationTimeZone,
+  type OpeningHours,
+} from "./station-details";
+
+const BERLIN = { lat: 52.52, lng: 13.4 };
+
+const weekdays: OpeningHours = {
+  twentyFourSeven: false,
+  timeZone: "Europe/Berlin",
+  periods: (["MON", "TUE", "WED", "THU", "FRI"] as const).map((day) => ({ day, open: "07:00", close: "22:00" })),
+};
+
+test("the nominal zone follows the longitude with POSIX signs", () => {
+  assert.equal(nominalTimeZone(0), "Etc/UTC");
+  assert.equal(nominalTimeZone(13.4), "Etc/GMT-1");
+  assert.equal(nominalTimeZone(-122.4), "Etc/GMT+8");
+  assert.equal(nominalTimeZone(179.9), "Etc/GMT-12");
+  assert.equal(stationTimeZone({ coords: BERLIN, openingHours: weekdays }), "Europe/Berlin");
+  assert.equal(stationTimeZone({ coords: BERLIN }), "Etc/GMT-1");
+});
+
+test("opening hours are judged in the station's local time", () => {
+  const station = { coords: BERLIN, openingHours: weekdays };
+  // Monday 06:30 UTC is 07:30 in Berlin in winter
+  assert.equal(isOpenAt(station, new Date("2026-01-05T06:30:00Z")), true);
+  assert.equal(isOpenAt(station, new Date("2026-01-05T05:30:00Z")), false);
+  // 22:00 in Berlin in summer; closing time is exclusive
+  assert.equal(isOpenAt(station, new Date("2026-07-06T20:00:00Z")), false);
+  assert.equal(isOpenAt(station, new Date("2026-01-10T12:00:00Z")), false);
+});
+
+test("periods closing at or before they open run past midnight", () => {
+  const station = {
+    coords: BERLIN,
+    openingHours: { twentyFourSeven: false, timeZone: "Europe/Berlin", periods: [{ day: "FRI" as const, open: "22:00", close: "02:00" }] },
+  };
+  assert.equal(isOpenAt(station, new Date("2026-01-09T22:30:00Z")), true);
+  assert.equal(isOpenAt(station, new Date("2026-01-10T00:30:00Z")), true);
+  assert.equal(isOpenAt(station, new Date("2026-01-10T01:30:00Z")), false);
+  assert.equal(isOpenAt(station, new Date("2026-01-08T23:30:00Z")), false);
+});
+
+test("unknown hours are neither open nor closed", () => {
+  assert.equal(isOpenAt({ coords: BERLIN, openingHours: null }), undefined);
+  assert.equal(isOpenAt({ coords: BERLIN, openingHours: { twentyFourSeven: true, periods: [] } }), true);
+});
+
+test("opening hours are summarised by runs of identical days", () => {
+  assert.equal(formatOpeningHours(weekdays), "Mon–Fri 07:00–22:00");
+  assert.equal(
+    formatOpeningHours({
+      ...weekdays,
+      periods: [...weekdays.periods, { day: "SAT", open: "09:00", close: "18:00" }, { day: "SUN", open: "09:00", close: "18:00" }],
+    }),
+    "Mon–Fri 07:00–22:00, Sat–Sun 09:00–18:00"
+  );
+  assert.equal(formatOpeningHours({ twentyFourSeven: true, periods: [] }), "Open 24/7");
+  assert.equal(formatOpeningHours({ twentyFourSeven: false, periods: [] }), "Closed");
+});
+
+test("times and zones are validated", () => {
+  const period = { day: "MON", open: "07:00", close: "24:00" };
+  assert.equal(openingHoursSchema.safeParse({ twentyFourSeven: false, periods: [period] }).success, true);
+  assert.equal(openingHoursSchema.safeParse({ twentyFourSeven: false, periods: [{ ...period, open: "7:00" }] }).success, false);
+  assert.equal(openingHoursSchema.safeParse({ twentyFourSeven: false, periods: [], timeZone: "Mars/Olympus" }).success, false);
+});
@@ -0,0 +1,170 @@
+import { z } from "zod";
+
+export const WEEKDAYS = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MON: "Mon",
+  TUE: "Tue",
+  WED: "Wed",
+  THU: "Thu",
+  FRI: "Fri",
+  SAT: "Sat",
+  SUN: "Sun",
+};
+
+export const ACCESS_TYPES = ["PUBLIC", "CUSTOMERS_ONLY", "RESIDENTS"] as const;
+export type AccessType = typeof ACCESS_TYPES[number];
+
+export const ACCESS_TYPE_LABELS: Record<AccessType, string> = {
+  PUBLIC: "Public",
+  CUSTOMERS_ONLY: "Customers only",
+  RESIDENTS: "Residents only",
+};
+
+export const PARKING_RESTRICTIONS = ["EV_ONLY", "CHARGING_ONLY", "TIME_LIMITED", "DISABLED", "PAID_PARKING"] as const;
+export type ParkingRestriction = typeof PARKING_RESTRICTIONS[number];
+
+export const PARKING_RESTRICTION_LABELS: Record<ParkingRestriction, string> = {
+  EV_ONLY: "EV parking only",
+  CHARGING_ONLY: "Only while charging",
+  TIME_LIMITED: "Time limited",
+  DISABLED: "Disabled badge holders",
+  PAID_PARKING: "Parking fee",
+};
+
+export const AMENITIES = ["TOILETS", "FOOD", "WIFI", "COVERED"] as const;
+export type Amenity = typeof AMENITIES[number];
+
+export const AMENITY_LABELS: Record<Amenity, string> = {
+  TOILETS: "Toilets",
+  FOOD: "Food",
+  WIFI: "Wi-Fi",
+  COVERED: "Covered",
+};
+
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+function isTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const openingPeriodSchema = z.object({
+  day: z.enum(WEEKDAYS),
+  /** Local time, "HH:MM" */
+  open: z.string().regex(TIME_PATTERN),
+  /** Local time, "HH:MM"; at or before open means the period runs past midnight */
+  close: z.string().regex(TIME_PATTERN),
+});
+
+export type OpeningPeriod = z.infer<typeof openingPeriodSchema>;
+
+export const openingHoursSchema = z.object({
+  twentyFourSeven: z.boolean(),
+  periods: z.array(openingPeriodSchema).max(WEEKDAYS.length * 4),
+  /** IANA zone the periods are in; without one the zone is guessed from the longitude */
+  timeZone: z.string().max(64).refine(isTimeZone, "Unknown time zone").optional(),
+});
+
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+
+// What a member can tell us about a site beyond its chargers. Null and empty
+// lists mean "not known", not "none".
+export const stationDetailsSchema = z.object({
+  openingHours: openingHoursSchema.nullable(),
+  accessType: z.enum(ACCESS_TYPES).nullable(),
+  parkingRestrictions: z.array(z.enum(PARKING_RESTRICTIONS)).max(PARKING_RESTRICTIONS.length),
+  /** Height clearance in metres, e.g. for a multi-storey car park */
+  maxHeightMeters: z.number().positive().max(10).nullable(),
+  amenities: z.array(z.enum(AMENITIES)).max(AMENITIES.length),
+});
+
+export type StationDetails = z.infer<typeof stationDetailsSchema>;
+
+// Most stations have no stored zone. This is the nominal zone for the
+// longitude, which is right for most of the day but ignores daylight saving.
+export function nominalTimeZone(lng: number): string {
+  const offset = Math.max(-12, Math.min(14, Math.round(lng / 15)));
+  if (offset === 0) return "Etc/UTC";
+  // Etc/GMT zones use POSIX signs: Etc/GMT+8 is eight hours behind UTC
+  return offset > 0 ? `Etc/GMT-${offset}` : `Etc/GMT+${-offset}`;
+}
+
+type StationWithHours = {
+  coords: { lat: number; lng: number };
+  openingHours?: OpeningHours | null;
+};
+
+export function stationTimeZone(station: StationWithHours): string {
+  return station.openingHours?.timeZone ?? nominalTimeZone(station.coords.lng);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function localTime(at: Date, timeZone: string): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: part("weekday").toUpperCase() as Weekday,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+/**
+ * Whether a station is open at a moment, judged in the station's own local
+ * time. Undefined when its hours aren't known.
+ */
+export function isOpenAt(station: StationWithHours, at: Date = new Date()): boolean | undefined {
+  const hours = station.openingHours;
+  if (!hours) return undefined;
+  if (hours.twentyFourSeven) return true;
+
+  const { day, minutes } = localTime(at, stationTimeZone(station));
+  const previousDay = WEEKDAYS[(WEEKDAYS.indexOf(day) + WEEKDAYS.length - 1) % WEEKDAYS.length];
+  return hours.periods.some((period) => {
+    const open = toMinutes(period.open);
+    const close = toMinutes(period.close);
+    const overnight = close <= open;
+    if (period.day === day) return minutes >= open && (overnight || minutes < close);
+    return overnight && period.day === previousDay && minutes < close;
+  });
+}
+
+/** e.g. "Mon–Fri 07:00–22:00, Sat 09:00–18:00"; days without periods are closed */
+export function formatOpeningHours(hours: OpeningHours): string {
+  if (hours.twentyFourSeven) return "Open 24/7";
+  const byDay = WEEKDAYS.map((day) =>
+    hours.periods
+      .filter((period) => period.day === day)
+      .map((period) => `${period.open}–${period.close}`)
+      .join(", ")
+  );
+
+  const groups: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= WEEKDAYS.length; i++) {
+    if (i < WEEKDAYS.length && byDay[i] === byDay[start]) continue;
+    if (byDay[start]) {
+      const days = i - 1 === start
+        ? WEEKDAY_LABELS[WEEKDAYS[start]]
+        : `${WEEKDAY_LABELS[WEEKDAYS[start]]}–${WEEKDAY_LABELS[WEEKDAYS[i - 1]]}`;
+      groups.push(`${days} ${byDay[start]}`);
+    }
+    start = i;
+  }
+  return groups.length > 0 ? groups.join(", ") : "Closed";
+}
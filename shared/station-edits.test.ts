@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffStationFields, formatStationFieldValue, staleFields, stationEditInputSchema } from "./station-edits";
+
+const current = {
+  name: "Ionity Brandenburg",
+  address: "A2 services",
+  coords: { lat: 52.5, lng: 13 },
+  connectors: [{ type: "CCS", powerKW: 350 }],
+  provider: null,
+};
+
+test("the diff keeps only fields that actually change", () => {
+  const diff = diffStationFields(current, {
+    name: "Ionity Brandenburg",
+    coords: { lat: 52.5, lng: 13 },
+    connectors: [{ type: "CCS", powerKW: 350 }, { type: "Type 2", powerKW: 22 }],
+    provider: "Ionity",
+  });
+  assert.deepEqual(diff, {
+    connectors: { from: current.connectors, to: [{ type: "CCS", powerKW: 350 }, { type: "Type 2", powerKW: 22 }] },
+    provider: { from: null, to: "Ionity" },
+  });
+  assert.deepEqual(diffStationFields(current, { name: "Ionity Brandenburg" }), {});
+});
+
+test("a field is stale once the station no longer has the value the proposal started from", () => {
+  const diff = diffStationFields(current, { name: "Ionity Brandenburg Nord", provider: "Ionity" });
+  assert.deepEqual(staleFields(current, diff), []);
+  assert.deepEqual(staleFields({ ...current, name: "Ionity Brandenburg Süd" }, diff), ["name"]);
+  // Changes to fields the proposal doesn't touch don't matter
+  assert.deepEqual(staleFields({ ...current, address: "Elsewhere" }, diff), []);
+});
+
+test("field values are formatted for the side-by-side review", () => {
+  assert.equal(formatStationFieldValue("coords", { lat: 52.5, lng: 13 }), "52.50000, 13.00000");
+  assert.equal(formatStationFieldValue("connectors", current.connectors), "CCS 350 kW");
+  assert.equal(formatStationFieldValue("maxHeightMeters", 2.1), "2.1 m");
+  assert.equal(formatStationFieldValue("provider", null), "—");
+  assert.equal(formatStationFieldValue("amenities", []), "—");
+});
+
+test("proposals are validated field by field", () => {
+  assert.equal(stationEditInputSchema.safeParse({ changes: { name: "" } }).success, false);
+  assert.equal(stationEditInputSchema.safeParse({ changes: { connectors: [] } }).success, false);
+  assert.equal(stationEditInputSchema.safeParse({ changes: { coords: { lat: 91, lng: 0 } } }).success, false);
+  assert.equal(stationEditInputSchema.safeParse({ changes: { provider: null } }).success, true);
+});
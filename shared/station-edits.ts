@@ -0,0 +1,133 @@
+import { z } from "zod";
+import {
+  ACCESS_TYPE_LABELS,
+  AMENITY_LABELS,
+  PARKING_RESTRICTION_LABELS,
+  formatOpeningHours,
+  stationDetailsSchema,
+  type AccessType,
+  type Amenity,
+  type OpeningHours,
+  type ParkingRestriction,
+} from "./station-details";
+
+// Fields members can propose changes to. Availability is left out: it comes
+// from the data feed and check-ins rather than from one member's say-so.
+export const EDITABLE_STATION_FIELDS = [
+  "name",
+  "address",
+  "coords",
+  "connectors",
+  "provider",
+  "pricing",
+  "openingHours",
+  "accessType",
+  "parkingRestrictions",
+  "maxHeightMeters",
+  "amenities",
+] as const;
+export type EditableStationField = typeof EDITABLE_STATION_FIELDS[number];
+
+export const STATION_FIELD_LABELS: Record<EditableStationField, string> = {
+  name: "Name",
+  address: "Address",
+  coords: "Location",
+  connectors: "Connectors",
+  provider: "Operator",
+  pricing: "Pricing",
+  openingHours: "Opening hours",
+  accessType: "Access",
+  parkingRestrictions: "Parking",
+  maxHeightMeters: "Max height",
+  amenities: "Amenities",
+};
+
+export const STATION_EDIT_STATUSES = ["PENDING", "APPLIED", "REJECTED"] as const;
+export type StationEditStatus = typeof STATION_EDIT_STATUSES[number];
+
+const stationFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  address: z.string().trim().min(1).max(500),
+  coords: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+  }),
+  connectors: z.array(z.object({
+    type: z.string().trim().min(1).max(100),
+    powerKW: z.number().positive().max(1000),
+  })).min(1).max(50),
+  provider: z.string().trim().max(200).nullable(),
+  pricing: z.string().trim().max(500).nullable(),
+  ...stationDetailsSchema.shape,
+});
+
+export type EditableStationFields = z.infer<typeof stationFieldsSchema>;
+
+export const stationEditInputSchema = z.object({
+  changes: stationFieldsSchema.partial(),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export type StationEditInput = z.infer<typeof stationEditInputSchema>;
+
+/** One changed field: the value the proposer saw and the value they want */
+export interface StationFieldChange<F extends EditableStationField = EditableStationField> {
+  from: EditableStationFields[F];
+  to: EditableStationFields[F];
+}
+
+export type StationEditDiff = { [F in EditableStationField]?: StationFieldChange<F> };
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Diff of the proposed values against the station, keeping only fields that actually change */
+export function diffStationFields(
+  current: Partial<EditableStationFields>,
+  proposed: Partial<EditableStationFields>
+): StationEditDiff {
+  const diff: Record<string, StationFieldChange> = {};
+  for (const field of EDITABLE_STATION_FIELDS) {
+    if (!(field in proposed) || proposed[field] === undefined) continue;
+    if (sameValue(current[field], proposed[field])) continue;
+    diff[field] = { from: current[field] ?? null, to: proposed[field] } as StationFieldChange;
+  }
+  return diff as StationEditDiff;
+}
+
+/** Fields whose current value no longer matches what the proposal was made against */
+export function staleFields(current: Partial<EditableStationFields>, diff: StationEditDiff): EditableStationField[] {
+  return EDITABLE_STATION_FIELDS.filter((field) => {
+    const change = diff[field];
+    return change !== undefined && !sameValue(current[field], change.from);
+  });
+}
+
+export function formatStationFieldValue(field: EditableStationField, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  switch (field) {
+    case "coords": {
+      const { lat, lng } = value as EditableStationFields["coords"];
+      return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+    }
+    case "connectors":
+      return (value as EditableStationFields["connectors"])
+        .map((connector) => `${connector.type} ${connector.powerKW} kW`)
+        .join(", ");
+    case "openingHours":
+      return formatOpeningHours(value as OpeningHours);
+    case "accessType":
+      return ACCESS_TYPE_LABELS[value as AccessType] ?? String(value);
+    case "parkingRestrictions":
+    case "amenities": {
+      const labels: Record<string, string> = field === "amenities" ? AMENITY_LABELS : PARKING_RESTRICTION_LABELS;
+      const items = value as Array<Amenity | ParkingRestriction>;
+      return items.length > 0 ? items.map((item) => labels[item] ?? item).join(", ") : "—";
+    }
+    case "maxHeightMeters":
+      return `${value} m`;
+    default:
+      return String(value);
+  }
+}
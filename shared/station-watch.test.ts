@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { watchedStatus } from "./station-watch";
+
+test("recent check-ins win over the feed's availability", () => {
+  assert.equal(watchedStatus("OFFLINE", "WORKING"), "UP");
+  assert.equal(watchedStatus("AVAILABLE", "BROKEN"), "DOWN");
+  assert.equal(watchedStatus("AVAILABLE", "BLOCKED"), "BUSY");
+  assert.equal(watchedStatus("AVAILABLE", "OCCUPIED"), "BUSY");
+});
+
+test("without check-ins the feed decides, and unknown states say nothing", () => {
+  assert.equal(watchedStatus("AVAILABLE", "UNKNOWN"), "UP");
+  assert.equal(watchedStatus("BUSY", undefined), "BUSY");
+  assert.equal(watchedStatus("OFFLINE", undefined), "DOWN");
+  assert.equal(watchedStatus("PLANNED", "UNKNOWN"), undefined);
+  assert.equal(watchedStatus(null, undefined), undefined);
+});
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { LiveStationStatus } from "./check-ins";
+
+// Coarse states a watched station moves between. Finer live states
+// (occupied vs. ICE'd) would notify far too often.
+export const WATCHED_STATUSES = ["UP", "BUSY", "DOWN"] as const;
+export type WatchedStatus = typeof WATCHED_STATUSES[number];
+
+export const WATCHED_STATUS_LABELS: Record<WatchedStatus, string> = {
+  UP: "back up",
+  BUSY: "busy",
+  DOWN: "down",
+};
+
+export const bookmarkWatchSchema = z.object({
+  enabled: z.boolean(),
+  /** Notify when the station changes to one of these */
+  notifyOn: z.array(z.enum(WATCHED_STATUSES)).max(WATCHED_STATUSES.length),
+});
+
+export type BookmarkWatch = z.infer<typeof bookmarkWatchSchema>;
+
+/** New station bookmarks watch for outages and recoveries */
+export const DEFAULT_BOOKMARK_WATCH: BookmarkWatch = { enabled: true, notifyOn: ["UP", "DOWN"] };
+
+/**
+ * A station's current state for watching. Recent member check-ins win over
+ * the synced feed, which can lag by hours; undefined when neither says
+ * anything useful.
+ */
+export function watchedStatus(
+  availability: string | null | undefined,
+  liveStatus: LiveStationStatus | undefined
+): WatchedStatus | undefined {
+  switch (liveStatus) {
+    case "WORKING":
+      return "UP";
+    case "OCCUPIED":
+    case "BLOCKED":
+      return "BUSY";
+    case "BROKEN":
+      return "DOWN";
+  }
+  switch (availability) {
+    case "AVAILABLE":
+      return "UP";
+    case "BUSY":
+      return "BUSY";
+    case "OFFLINE":
+      return "DOWN";
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,162 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  clusterCellDegrees,
+  connectorFamily,
+  connectorFamilyMatcher,
+  groupStationsByCell,
+  isFreePricing,
+  matchesStationFilters,
+  mergeClusters,
+  stationFilterQuerySchema,
+  toStationCluster,
+  toStationFeatureFilters,
+} from "./stations";
+
+test("connector titles are bucketed into families, CCS before Type 2", () => {
+  const cases: Array<[string, string | null]> = [
+    ["CCS (Type 2)", "CCS"],
+    ["CCS (Type 1)", "CCS"],
+    ["CHAdeMO", "CHADEMO"],
+    ["Type 2 (Socket Only)", "TYPE_2"],
+    ["Mennekes", "TYPE_2"],
+    ["J1772", "TYPE_1"],
+    ["Tesla (Model S/X)", "TESLA"],
+    ["NACS / SAE J3400", "TESLA"],
+    ["Three Phase 3 pin", null],
+  ];
+  for (const [type, family] of cases) assert.equal(connectorFamily(type), family, type);
+});
+
+test("family matchers exclude titles an earlier family claims", () => {
+  const { pattern, excludes } = connectorFamilyMatcher("TYPE_2");
+  const matches = (type: string) => pattern.test(type) && !excludes.some((exclude) => exclude.test(type));
+  assert.equal(matches("Type 2 (Tethered)"), true);
+  assert.equal(matches("CCS (Type 2)"), false);
+});
+
+const station = {
+  coords: { lat: 51.5, lng: -0.12 },
+  connectors: [{ type: "CCS (Type 2)", powerKW: 150 }, { type: "Type 2", powerKW: 22 }],
+  provider: "Ionity GmbH",
+  pricing: "£0.69/kWh",
+  availability: "AVAILABLE",
+};
+
+test("connector type and minimum power must be met by the same connector", () => {
+  assert.equal(matchesStationFilters(station, { connectorTypes: ["CCS"], minPowerKW: 100 }), true);
+  assert.equal(matchesStationFilters(station, { connectorTypes: ["TYPE_2"], minPowerKW: 22 }), true);
+  assert.equal(matchesStationFilters(station, { connectorTypes: ["TYPE_2"], minPowerKW: 50 }), false);
+  assert.equal(matchesStationFilters(station, { connectorTypes: ["CHADEMO", "CCS"] }), true);
+  assert.equal(matchesStationFilters(station, { minPowerKW: 200 }), false);
+});
+
+test("operator, price and availability filters", () => {
+  assert.equal(matchesStationFilters(station, { provider: "ionity" }), true);
+  assert.equal(matchesStationFilters(station, { provider: "tesla" }), false);
+  assert.equal(matchesStationFilters(station, { pricing: "paid" }), true);
+  assert.equal(matchesStationFilters(station, { pricing: "free" }), false);
+  assert.equal(matchesStationFilters({ ...station, pricing: "Free" }, { pricing: "free" }), true);
+  // Unknown pricing is neither free nor paid
+  assert.equal(matchesStationFilters({ ...station, pricing: null }, { pricing: "paid" }), false);
+  assert.equal(matchesStationFilters(station, { operationalOnly: true }), true);
+  assert.equal(matchesStationFilters({ ...station, availability: "OUT_OF_ORDER" }, { operationalOnly: true }), false);
+  assert.equal(matchesStationFilters(station, {}), true);
+});
+
+test("free pricing is recognised from the text", () => {
+  for (const pricing of ["Free", "Free for customers", "0", "£0.00"]) assert.equal(isFreePricing(pricing), true, pricing);
+  for (const pricing of ["£0.45/kWh", "", null]) assert.equal(isFreePricing(pricing), false, String(pricing));
+});
+
+test("the query string form parses into filters", () => {
+  const filters = toStationFeatureFilters(stationFilterQuerySchema.parse({
+    connector: "ccs, type_2",
+    minPower: "50",
+    provider: " Ionity ",
+    pricing: "paid",
+    operational: "true",
+  }));
+  assert.deepEqual(filters.connectorTypes, ["CCS", "TYPE_2"]);
+  assert.equal(filters.minPowerKW, 50);
+  assert.equal(filters.provider, "Ionity");
+  assert.equal(filters.pricing, "paid");
+  assert.equal(filters.operationalOnly, true);
+
+  assert.equal(stationFilterQuerySchema.safeParse({ connector: "ccs,schuko" }).success, false);
+  assert.equal(stationFilterQuerySchema.safeParse({ pricing: "cheap" }).success, false);
+});
+
+test("cluster cells span the same number of pixels at every zoom", () => {
+  assert.equal(clusterCellDegrees(0), (60 * 360) / 256);
+  assert.equal(clusterCellDegrees(10), clusterCellDegrees(9) / 2);
+});
+
+function clusterable(id: string, lat: number, lng: number, powerKW = 50) {
+  return { id, coords: { lat, lng }, connectors: [{ type: "CCS", powerKW }] };
+}
+
+test("stations are grouped by grid cell and summarised per cluster", () => {
+  const cells = groupStationsByCell(
+    [clusterable("a", 52.1, 13.1, 50), clusterable("b", 52.3, 13.5, 300), clusterable("c", 48.1, 11.5)],
+    1
+  );
+  assert.deepEqual(cells.map((cell) => cell.map((station) => station.id)), [["a", "b"], ["c"]]);
+
+  const [pair, single] = cells.map(toStationCluster);
+  assert.equal(pair.count, 2);
+  assert.ok(Math.abs(pair.lat - 52.2) < 1e-9 && Math.abs(pair.lng - 13.3) < 1e-9);
+  assert.equal(pair.maxPowerKW, 300);
+  assert.deepEqual(pair.bounds, { west: 13.1, south: 52.1, east: 13.5, north: 52.3 });
+  assert.equal(pair.stationId, undefined);
+  assert.equal(single.stationId, "c");
+});
+
+test("negative coordinates fall into their own cells rather than sharing one with 0", () => {
+  const cells = groupStationsByCell([clusterable("west", 0.5, -0.5), clusterable("east", 0.5, 0.5)], 1);
+  assert.equal(cells.length, 2);
+});
+
+test("clusters in the same cell are merged with a count-weighted centre", () => {
+  const merged = mergeClusters(
+    [
+      { lat: 52.2, lng: 13.2, count: 3, maxPowerKW: 50, bounds: { west: 13.1, south: 52.1, east: 13.3, north: 52.3 } },
+      { lat: 52.6, lng: 13.6, count: 1, maxPowerKW: 150, bounds: { west: 13.6, south: 52.6, east: 13.6, north: 52.6 }, stationId: "x" },
+      { lat: 48.1, lng: 11.5, count: 2, maxPowerKW: 22, bounds: { west: 11.4, south: 48, east: 11.6, north: 48.2 } },
+    ],
+    1
+  );
+  assert.equal(merged.length, 2);
+  const [berlin] = merged;
+  assert.equal(berlin.count, 4);
+  assert.ok(Math.abs(berlin.lat - 52.3) < 1e-9 && Math.abs(berlin.lng - 13.3) < 1e-9);
+  assert.equal(berlin.maxPowerKW, 150);
+  assert.deepEqual(berlin.bounds, { west: 13.1, south: 52.1, east: 13.6, north: 52.6 });
+  assert.equal(berlin.stationId, undefined);
+});
+
+test("opening, access, amenity and height filters", () => {
+  const site = {
+    ...station,
+    openingHours: { twentyFourSeven: false, timeZone: "Europe/London", periods: [{ day: "MON" as const, open: "08:00", close: "20:00" }] },
+    accessType: "CUSTOMERS_ONLY" as const,
+    amenities: ["TOILETS" as const, "FOOD" as const],
+    maxHeightMeters: 2.1,
+  };
+  assert.equal(matchesStationFilters(site, { openAt: new Date("2026-01-05T12:00:00Z") }), true);
+  assert.equal(matchesStationFilters(site, { openAt: new Date("2026-01-05T21:00:00Z") }), false);
+  // Unknown hours don't count as open
+  assert.equal(matchesStationFilters(station, { openAt: new Date("2026-01-05T12:00:00Z") }), false);
+
+  assert.equal(matchesStationFilters(site, { accessTypes: ["PUBLIC", "CUSTOMERS_ONLY"] }), true);
+  assert.equal(matchesStationFilters(site, { accessTypes: ["PUBLIC"] }), false);
+  assert.equal(matchesStationFilters(station, { accessTypes: ["PUBLIC"] }), false);
+
+  assert.equal(matchesStationFilters(site, { amenities: ["TOILETS", "FOOD"] }), true);
+  assert.equal(matchesStationFilters(site, { amenities: ["TOILETS", "WIFI"] }), false);
+
+  assert.equal(matchesStationFilters(site, { vehicleHeightMeters: 2 }), true);
+  assert.equal(matchesStationFilters(site, { vehicleHeightMeters: 2.5 }), false);
+  // No recorded clearance means no known limit
+  assert.equal(matchesStationFilters(station, { vehicleHeightMeters: 2.5 }), true);
+});
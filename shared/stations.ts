@@ -0,0 +1,263 @@
+import { z } from "zod";
+import {
+  ACCESS_TYPES,
+  AMENITIES,
+  isOpenAt,
+  type AccessType,
+  type Amenity,
+  type OpeningHours,
+} from "./station-details";
+
+// Connector families the finder can filter on. OCM reports many spellings
+// ("CCS (Type 2)", "Type 2 (Socket Only)", "Tesla (Model S/X)", ...), so
+// raw connector titles are bucketed by pattern.
+export const CONNECTOR_FAMILIES = ["CCS", "CHADEMO", "TYPE_2", "TYPE_1", "TESLA"] as const;
+export type ConnectorFamily = typeof CONNECTOR_FAMILIES[number];
+
+export const CONNECTOR_FAMILY_LABELS: Record<ConnectorFamily, string> = {
+  CCS: "CCS",
+  CHADEMO: "CHAdeMO",
+  TYPE_2: "Type 2",
+  TYPE_1: "Type 1 (J1772)",
+  TESLA: "Tesla / NACS",
+};
+
+// Order matters: "CCS (Type 2)" is CCS, not Type 2
+const CONNECTOR_FAMILY_PATTERNS: Array<[ConnectorFamily, RegExp]> = [
+  ["CCS", /\bccs\b|combo/i],
+  ["CHADEMO", /chademo/i],
+  ["TESLA", /tesla|nacs|supercharger/i],
+  ["TYPE_1", /type\s*1|j-?1772/i],
+  ["TYPE_2", /type\s*2|mennekes/i],
+];
+
+/**
+ * The pattern a connector title must match to belong to a family, plus the
+ * patterns of higher-priority families it must not match. Lets database
+ * queries reproduce connectorFamily() without loading every station.
+ */
+export function connectorFamilyMatcher(family: ConnectorFamily): { pattern: RegExp; excludes: RegExp[] } {
+  const index = CONNECTOR_FAMILY_PATTERNS.findIndex(([candidate]) => candidate === family);
+  return {
+    pattern: CONNECTOR_FAMILY_PATTERNS[index][1],
+    excludes: CONNECTOR_FAMILY_PATTERNS.slice(0, index).map(([, pattern]) => pattern),
+  };
+}
+
+export function connectorFamily(type: string): ConnectorFamily | null {
+  for (const [family, pattern] of CONNECTOR_FAMILY_PATTERNS) {
+    if (pattern.test(type)) {
+      return family;
+    }
+  }
+  return null;
+}
+
+export const FREE_PRICING_PATTERN = /\bfree\b|^\s*[£$€]?\s*0+(\.0+)?\s*$/i;
+
+export function isFreePricing(pricing: string | null | undefined): boolean {
+  return !!pricing && FREE_PRICING_PATTERN.test(pricing);
+}
+
+export interface StationFeatureFilters {
+  /** Match stations with at least one connector of any of these families */
+  connectorTypes?: ConnectorFamily[];
+  /** Minimum power of the matching connector */
+  minPowerKW?: number;
+  /** Case-insensitive substring of the operator name */
+  provider?: string;
+  pricing?: "free" | "paid";
+  operationalOnly?: boolean;
+  /** Only stations known to be open at this moment, in their local time */
+  openAt?: Date;
+  /** Match stations with any of these access types */
+  accessTypes?: AccessType[];
+  /** Match stations that have all of these amenities */
+  amenities?: Amenity[];
+  /** Exclude stations whose height clearance is known to be lower */
+  vehicleHeightMeters?: number;
+}
+
+type FilterableStation = {
+  connectors: Array<{ type: string; powerKW: number }>;
+  provider?: string | null;
+  pricing?: string | null;
+  availability?: string | null;
+  coords: { lat: number; lng: number };
+  openingHours?: OpeningHours | null;
+  accessType?: AccessType | null;
+  amenities?: Amenity[];
+  maxHeightMeters?: number | null;
+};
+
+export function matchesStationFilters(station: FilterableStation, filters: StationFeatureFilters): boolean {
+  const families = filters.connectorTypes ?? [];
+  const minPowerKW = filters.minPowerKW ?? 0;
+  if (families.length > 0 || minPowerKW > 0) {
+    // Type and power must be satisfied by the same connector
+    const hasConnector = station.connectors.some((connector) => {
+      if (connector.powerKW < minPowerKW) return false;
+      if (families.length === 0) return true;
+      const family = connectorFamily(connector.type);
+      return family !== null && families.includes(family);
+    });
+    if (!hasConnector) return false;
+  }
+
+  if (filters.provider) {
+    const needle = filters.provider.toLowerCase();
+    if (!station.provider?.toLowerCase().includes(needle)) return false;
+  }
+
+  if (filters.pricing === "free" && !isFreePricing(station.pricing)) return false;
+  if (filters.pricing === "paid" && (!station.pricing || isFreePricing(station.pricing))) return false;
+
+  if (filters.operationalOnly && station.availability !== "AVAILABLE") return false;
+
+  if (filters.openAt && !isOpenAt(station, filters.openAt)) return false;
+
+  if (filters.accessTypes?.length && !(station.accessType && filters.accessTypes.includes(station.accessType))) {
+    return false;
+  }
+
+  if (filters.amenities?.length && !filters.amenities.every((amenity) => station.amenities?.includes(amenity))) {
+    return false;
+  }
+
+  if (
+    filters.vehicleHeightMeters !== undefined &&
+    station.maxHeightMeters != null &&
+    station.maxHeightMeters < filters.vehicleHeightMeters
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/** Comma-separated list of enum values, e.g. "ccs,type_2", case-insensitive */
+function enumListParam<T extends string>(values: readonly T[], label: string) {
+  return z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const parts = value.split(",").map((part) => part.trim().toUpperCase()).filter(Boolean);
+    for (const part of parts) {
+      if (!(values as readonly string[]).includes(part)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown ${label}: ${part}` });
+        return z.NEVER;
+      }
+    }
+    return parts as T[];
+  });
+}
+
+// Query-string form shared by the station endpoints and the finder URL
+export const stationFilterQuerySchema = z.object({
+  connector: enumListParam(CONNECTOR_FAMILIES, "connector type"),
+  minPower: z.coerce.number().min(0).optional(),
+  provider: z.string().trim().optional(),
+  pricing: z.enum(["free", "paid"]).optional(),
+  operational: z.enum(["true", "false"]).optional(),
+  open: z.enum(["true", "false"]).optional(),
+  access: enumListParam(ACCESS_TYPES, "access type"),
+  amenity: enumListParam(AMENITIES, "amenity"),
+  /** Vehicle height in metres */
+  height: z.coerce.number().positive().max(10).optional(),
+});
+
+export function toStationFeatureFilters(query: z.infer<typeof stationFilterQuerySchema>): StationFeatureFilters {
+  return {
+    connectorTypes: query.connector,
+    minPowerKW: query.minPower,
+    provider: query.provider || undefined,
+    pricing: query.pricing,
+    operationalOnly: query.operational === "true",
+    openAt: query.open === "true" ? new Date() : undefined,
+    accessTypes: query.access,
+    amenities: query.amenity,
+    vehicleHeightMeters: query.height,
+  };
+}
+
+/** Stations grouped into one map marker, e.g. for zoomed-out views */
+export interface StationCluster {
+  /** Mean position of the member stations */
+  lat: number;
+  lng: number;
+  count: number;
+  /** Fastest connector among the members, 0 when none report power */
+  maxPowerKW: number;
+  /** Box around the members, for zooming in on the cluster */
+  bounds: { west: number; south: number; east: number; north: number };
+  /** The station itself when the cluster has only one */
+  stationId?: string;
+}
+
+// Stations closer than this on screen are drawn as one cluster
+export const CLUSTER_CELL_PIXELS = 60;
+
+/** Grid cell size in degrees that spans CLUSTER_CELL_PIXELS at a Web Mercator zoom level */
+export function clusterCellDegrees(zoom: number): number {
+  return (CLUSTER_CELL_PIXELS * 360) / (256 * 2 ** zoom);
+}
+
+type ClusterableStation = {
+  id: string;
+  coords: { lat: number; lng: number };
+  connectors: Array<{ type: string; powerKW: number }>;
+};
+
+/** Groups stations by grid cell; cells are squares in degrees, so they stretch away from the equator */
+export function groupStationsByCell<T extends ClusterableStation>(stations: T[], cellDegrees: number): T[][] {
+  const cells = new Map<string, T[]>();
+  for (const station of stations) {
+    const key = `${Math.floor(station.coords.lng / cellDegrees)}:${Math.floor(station.coords.lat / cellDegrees)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(station);
+    else cells.set(key, [station]);
+  }
+  return Array.from(cells.values());
+}
+
+export function toStationCluster(stations: ClusterableStation[]): StationCluster {
+  const lats = stations.map((station) => station.coords.lat);
+  const lngs = stations.map((station) => station.coords.lng);
+  const powers = stations.flatMap((station) => station.connectors.map((connector) => connector.powerKW || 0));
+  return {
+    lat: lats.reduce((sum, lat) => sum + lat, 0) / stations.length,
+    lng: lngs.reduce((sum, lng) => sum + lng, 0) / stations.length,
+    count: stations.length,
+    maxPowerKW: powers.length > 0 ? Math.max(...powers) : 0,
+    bounds: { west: Math.min(...lngs), south: Math.min(...lats), east: Math.max(...lngs), north: Math.max(...lats) },
+    stationId: stations.length === 1 ? stations[0].id : undefined,
+  };
+}
+
+/**
+ * Combines clusters whose centres share a grid cell, e.g. halves of one cell
+ * that were counted separately for neighbouring map tiles.
+ */
+export function mergeClusters(clusters: StationCluster[], cellDegrees: number): StationCluster[] {
+  const cells = new Map<string, StationCluster>();
+  for (const cluster of clusters) {
+    const key = `${Math.floor(cluster.lng / cellDegrees)}:${Math.floor(cluster.lat / cellDegrees)}`;
+    const existing = cells.get(key);
+    if (!existing) {
+      cells.set(key, cluster);
+      continue;
+    }
+    const count = existing.count + cluster.count;
+    cells.set(key, {
+      lat: (existing.lat * existing.count + cluster.lat * cluster.count) / count,
+      lng: (existing.lng * existing.count + cluster.lng * cluster.count) / count,
+      count,
+      maxPowerKW: Math.max(existing.maxPowerKW, cluster.maxPowerKW),
+      bounds: {
+        west: Math.min(existing.bounds.west, cluster.bounds.west),
+        south: Math.min(existing.bounds.south, cluster.bounds.south),
+        east: Math.max(existing.bounds.east, cluster.bounds.east),
+        north: Math.max(existing.bounds.north, cluster.bounds.north),
+      },
+    });
+  }
+  return Array.from(cells.values());
+}
@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareByPrice, estimateChargeCost, parseTariff, type Tariff } from "./tariffs";
+
+const cases: Array<[string, Partial<Tariff>]> = [
+  ["£0.45/kWh", { currency: "GBP", perKWh: 0.45 }],
+  ["£0.45/kWh, £1 connection fee", { currency: "GBP", perKWh: 0.45, sessionFee: 1 }],
+  ["0,59 €/kWh + 0.10 €/min after 60 min", { currency: "EUR", perKWh: 0.59, idleFeePerMinute: 0.1, idleGraceMinutes: 60 }],
+  ["45p per kWh", { currency: "GBP", perKWh: 0.45 }],
+  ["USD 0.30/kWh plus $1.50 session", { currency: "USD", perKWh: 0.3, sessionFee: 1.5 }],
+  ["$6/hour", { currency: "USD", perMinute: 0.1 }],
+  ["£0.79/kWh, idle fee £0.10/min after 30 min", { currency: "GBP", perKWh: 0.79, idleFeePerMinute: 0.1, idleGraceMinutes: 30 }],
+  ["Free for the first hour, then £2/hour", { currency: "GBP", perMinute: 0.0333, freeMinutes: 60 }],
+  ["First 30 minutes free, then £0.20/min", { currency: "GBP", perMinute: 0.2, freeMinutes: 30 }],
+  ["£0.50/kWh, £10 overstay fee", { currency: "GBP", perKWh: 0.5, overstayFee: 10 }],
+  ["£0.50/kWh; £10 overstay fee after 2 hours", { currency: "GBP", perKWh: 0.5, overstayFee: 10, idleGraceMinutes: 120 }],
+  ["£0.40/kWh, £0.40/kWh", { currency: "GBP", perKWh: 0.4 }],
+];
+
+test("parseTariff reads common pricing text", () => {
+  for (const [raw, expected] of cases) {
+    assert.deepEqual(parseTariff(raw), { free: false, parsed: true, raw, ...expected }, raw);
+  }
+});
+
+test("parseTariff gives up rather than guess", () => {
+  for (const raw of [
+    "£0.40/kWh members, £0.55/kWh non-members",
+    "0.30 €/min AC; 0.50 €/min DC",
+    "Free for the first hour",
+    "Ask in store",
+    "",
+  ]) {
+    assert.deepEqual(parseTariff(raw), { currency: null, free: false, raw, parsed: false }, raw);
+  }
+});
+
+test("parseTariff recognises free charging", () => {
+  for (const raw of ["Free", "free to customers", "£0", "0.00"]) {
+    const tariff = parseTariff(raw);
+    assert.equal(tariff.free, true, raw);
+    assert.equal(tariff.parsed, true, raw);
+  }
+});
+
+test("estimateChargeCost adds energy, time and session charges", () => {
+  const cases: Array<[string, { energyKWh: number; minutes?: number }, number | null]> = [
+    ["£0.45/kWh, £1 connection fee", { energyKWh: 30 }, 14.5],
+    ["$6/hour", { energyKWh: 30, minutes: 45 }, 4.5],
+    // Time charges need a duration
+    ["$6/hour", { energyKWh: 30 }, null],
+    ["Free for the first hour, then £2/hour", { energyKWh: 30, minutes: 90 }, 1],
+    ["Free for the first hour, then £2/hour", { energyKWh: 30, minutes: 40 }, 0],
+    // Overstaying is assumed not to happen
+    ["£0.50/kWh, £10 overstay fee", { energyKWh: 20 }, 10],
+    ["Free", { energyKWh: 30 }, 0],
+    ["£0.40/kWh members, £0.55/kWh non-members", { energyKWh: 30 }, null],
+  ];
+  for (const [raw, session, total] of cases) {
+    assert.equal(estimateChargeCost(parseTariff(raw), session).total, total, raw);
+  }
+});
+
+test("compareByPrice puts the cheapest first and unreadable prices last", () => {
+  const station = (pricing: string | null) => ({ pricing, connectors: [{ type: "CCS", powerKW: 50 }] });
+  const stations = [
+    station("£0.40/kWh members, £0.55/kWh non-members"),
+    station("£0.79/kWh"),
+    station(null),
+    station("Free"),
+    station("£0.45/kWh, £1 connection fee"),
+  ];
+  assert.deepEqual(stations.sort((a, b) => compareByPrice(a, b)).map((s) => s.pricing), [
+    "Free",
+    "£0.45/kWh, £1 connection fee",
+    "£0.79/kWh",
+    "£0.40/kWh members, £0.55/kWh non-members",
+    null,
+  ]);
+});
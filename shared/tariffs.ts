@@ -0,0 +1,279 @@
+import { z } from "zod";
+import { FREE_PRICING_PATTERN } from "./stations";
+import { connectorChargingPower, type VehicleSpec } from "./vehicles";
+
+/** Prices read from a station's free-text pricing */
+export interface Tariff {
+  /** ISO 4217 code, null when the text doesn't name a currency */
+  currency: string | null;
+  perKWh?: number;
+  perMinute?: number;
+  /** Minutes at the start of a session perMinute isn't charged for, e.g. "free for the first hour" */
+  freeMinutes?: number;
+  /** Flat fee per session, e.g. a connection or unlock fee */
+  sessionFee?: number;
+  /** Charged per minute for staying plugged in, after idleGraceMinutes */
+  idleFeePerMinute?: number;
+  idleGraceMinutes?: number;
+  /** One-off fee for staying plugged in too long, e.g. "£10 overstay fee" */
+  overstayFee?: number;
+  free: boolean;
+  /** The original text, kept whether or not it could be read */
+  raw: string;
+  /** False when no price could be read from raw */
+  parsed: boolean;
+}
+
+type TariffAmount = Exclude<keyof Tariff, "currency" | "free" | "raw" | "parsed">;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "£": "GBP",
+  "$": "USD",
+  "€": "EUR",
+  "¥": "JPY",
+};
+
+const CURRENCY_CODES = ["USD", "GBP", "EUR", "CAD", "AUD", "NZD", "CHF", "NOK", "SEK", "DKK", "JPY"];
+
+// Minor units that follow a number: "45p", "30c", "25 cents"
+const MINOR_UNITS: Array<[RegExp, string | null]> = [
+  [/^(p|pence)\b/i, "GBP"],
+  [/^(c|ct|cents?)\b/i, null],
+];
+
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`(?:([£$€¥])\s*|\b(${CURRENCY_CODES.join("|")})\s*)?(\d+(?:\.\d+)?)\s*` +
+    String.raw`(?:([£$€¥])|(${CURRENCY_CODES.join("|")})\b|(p|pence|c|ct|cents?)\b)?`,
+  "i"
+);
+
+const SESSION_PATTERN = /connection|session|start|unlock|flat|plug-?in|per charge|initial|activation|access/i;
+const IDLE_PATTERN = /idle|overstay|over-?stay|blocking|parking|after\s+\d+\s*(min|minutes|h|hours?)\b/i;
+const PER_KWH_PATTERN = /kwh/i;
+const PER_MINUTE_PATTERN = /\/\s*min\b|per\s+min(ute)?\b|\bmin(ute)?s?\b|\/\s*minute/i;
+const PER_HOUR_PATTERN = /\/\s*(h|hr|hour)\b|per\s+(hour|hr)\b|\bhourly\b|\bhours?\b|\bhr\b/i;
+const GRACE_PATTERN = /after\s+(\d+)\s*(min|minutes|h|hours?)\b/i;
+// "free for the first hour", "first 30 minutes free"
+const FREE_PERIOD_PATTERN = /\bfirst\s+(?:(\d+)\s*)?(min|minutes?|h|hrs?|hours?)\b/i;
+
+interface Amount {
+  value: number;
+  currency: string | null;
+}
+
+function readAmount(clause: string): Amount | undefined {
+  const match = AMOUNT_PATTERN.exec(clause);
+  if (!match) return undefined;
+  const [, prefixSymbol, prefixCode, number, suffixSymbol, suffixCode, minor] = match;
+  let value = parseFloat(number);
+  let currency =
+    (prefixSymbol && CURRENCY_SYMBOLS[prefixSymbol]) ||
+    prefixCode?.toUpperCase() ||
+    (suffixSymbol && CURRENCY_SYMBOLS[suffixSymbol]) ||
+    suffixCode?.toUpperCase() ||
+    null;
+  if (minor) {
+    const [, minorCurrency] = MINOR_UNITS.find(([pattern]) => pattern.test(minor)) ?? [];
+    value /= 100;
+    currency = currency ?? minorCurrency ?? null;
+  }
+  return Number.isFinite(value) ? { value, currency } : undefined;
+}
+
+function toMinutes(amount: number, unit: string): number {
+  return /^h/i.test(unit) ? amount * 60 : amount;
+}
+
+function graceMinutes(clause: string): number | undefined {
+  const match = GRACE_PATTERN.exec(clause);
+  return match ? toMinutes(parseInt(match[1], 10), match[2]) : undefined;
+}
+
+function freePeriodMinutes(clause: string): number | undefined {
+  if (!/\bfree\b/i.test(clause)) return undefined;
+  const match = FREE_PERIOD_PATTERN.exec(clause);
+  return match ? toMinutes(match[1] ? parseInt(match[1], 10) : 1, match[2]) : undefined;
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Reads common free-text pricing, e.g. "£0.45/kWh, £1 connection fee",
+ * "0,59 €/kWh + 0.10 €/min after 60 min" or "Free". Anything it can't make
+ * sense of comes back with parsed: false and only the raw text, and so does
+ * text naming two different prices for the same thing (member and guest
+ * rates, say), since picking one would quote a wrong price.
+ */
+export function parseTariff(raw: string | null | undefined): Tariff {
+  const text = (raw ?? "").trim();
+  const unreadable: Tariff = { currency: null, free: false, raw: text, parsed: false };
+  const tariff: Tariff = { ...unreadable };
+  if (!text) return tariff;
+
+  let conflicting = false;
+  const set = (field: TariffAmount, value: number | undefined) => {
+    if (value === undefined) return;
+    if (tariff[field] !== undefined && tariff[field] !== value) conflicting = true;
+    tariff[field] = value;
+  };
+
+  // Decimal commas ("0,59 €") would otherwise split into separate clauses
+  const normalized = text.replace(/(\d),(\d{1,2})(?!\d)/g, "$1.$2");
+  const clauses = normalized.split(/[,;+\n]|\band\b|\bplus\b|\bthen\b/i).map((clause) => clause.trim()).filter(Boolean);
+
+  for (const clause of clauses) {
+    const freeMinutes = freePeriodMinutes(clause);
+    if (freeMinutes !== undefined) {
+      set("freeMinutes", freeMinutes);
+      continue;
+    }
+    const amount = readAmount(clause);
+    if (!amount) continue;
+    const perHour = PER_HOUR_PATTERN.test(clause.replace(GRACE_PATTERN, ""));
+    const perMinute = PER_MINUTE_PATTERN.test(clause.replace(GRACE_PATTERN, ""));
+    const perMinuteValue = perHour ? amount.value / 60 : amount.value;
+
+    if (PER_KWH_PATTERN.test(clause)) {
+      set("perKWh", amount.value);
+    } else if (IDLE_PATTERN.test(clause)) {
+      if (perMinute || perHour) {
+        set("idleFeePerMinute", round(perMinuteValue));
+      } else {
+        set("overstayFee", amount.value);
+      }
+      set("idleGraceMinutes", graceMinutes(clause));
+    } else if (perMinute || perHour) {
+      set("perMinute", round(perMinuteValue));
+    } else if (SESSION_PATTERN.test(clause)) {
+      set("sessionFee", amount.value);
+    } else {
+      continue;
+    }
+    tariff.currency = tariff.currency ?? amount.currency;
+    tariff.parsed = true;
+  }
+
+  if (conflicting) return unreadable;
+  // "Free for the first hour" says nothing about what comes after it
+  if (tariff.freeMinutes !== undefined && !tariff.parsed) return unreadable;
+  // "Free for the first hour, then £2/hour" isn't free
+  if (!tariff.parsed && FREE_PRICING_PATTERN.test(text)) {
+    return { ...tariff, free: true, parsed: true };
+  }
+  return tariff;
+}
+
+export interface ChargeCostEstimate {
+  currency: string | null;
+  /** Null when the tariff couldn't be read, or charges by time and the duration is unknown */
+  total: number | null;
+  energyCost: number;
+  timeCost: number;
+  sessionFee: number;
+}
+
+/**
+ * Cost of one session under a tariff. Idle and overstay fees are left out:
+ * the estimate assumes the car is unplugged once it's done.
+ */
+export function estimateChargeCost(
+  tariff: Tariff,
+  session: { energyKWh: number; minutes?: number }
+): ChargeCostEstimate {
+  const empty = { currency: tariff.currency, energyCost: 0, timeCost: 0, sessionFee: 0 };
+  if (tariff.free) return { ...empty, total: 0 };
+  if (!tariff.parsed) return { ...empty, total: null };
+
+  const energyCost = (tariff.perKWh ?? 0) * session.energyKWh;
+  const chargedMinutes = session.minutes === undefined ? NaN : Math.max(0, session.minutes - (tariff.freeMinutes ?? 0));
+  const timeCost = tariff.perMinute ? tariff.perMinute * chargedMinutes : 0;
+  const sessionFee = tariff.sessionFee ?? 0;
+  const total = energyCost + timeCost + sessionFee;
+  return {
+    currency: tariff.currency,
+    total: Number.isFinite(total) ? round(total, 2) : null,
+    energyCost: round(energyCost, 2),
+    timeCost: Number.isFinite(timeCost) ? round(timeCost, 2) : 0,
+    sessionFee: round(sessionFee, 2),
+  };
+}
+
+/** Energy for a typical 10–80% stop, or a fixed amount when the car is unknown */
+export const DEFAULT_ESTIMATE_KWH = 30;
+
+export function defaultEstimateKWh(vehicle?: VehicleSpec): number {
+  return vehicle ? round(vehicle.batteryKWh * 0.7, 1) : DEFAULT_ESTIMATE_KWH;
+}
+
+export const costEstimateQuerySchema = z.object({
+  /** Energy to add; defaults to a 10–80% charge for the vehicle */
+  kWh: z.coerce.number().positive().max(300).optional(),
+  /** Vehicle to estimate for; defaults to the signed-in member's profile vehicle */
+  brand: z.string().trim().max(100).optional(),
+  model: z.string().trim().max(100).optional(),
+  batteryCapacity: z.coerce.number().positive().max(300).optional(),
+});
+
+export interface StationCostEstimate extends ChargeCostEstimate {
+  tariff: Tariff;
+  energyKWh: number;
+  /** Connector the estimate assumes: the fastest one the car can use */
+  connector?: { type: string; powerKW: number; effectivePowerKW: number };
+  minutes?: number;
+}
+
+/**
+ * Expected cost of charging energyKWh at a station. With a vehicle, only
+ * connectors it can plug into are considered and power is capped at what the
+ * car accepts.
+ */
+export function estimateStationCost(
+  station: { pricing: string | null; connectors: Array<{ type: string; powerKW: number }> },
+  vehicle: VehicleSpec | undefined,
+  energyKWh: number
+): StationCostEstimate {
+  const tariff = parseTariff(station.pricing);
+  let best: StationCostEstimate["connector"] & { averageKW: number } | undefined;
+  for (const connector of station.connectors) {
+    const power = connectorChargingPower(vehicle, connector);
+    if (power && (!best || power.averageKW > best.averageKW)) {
+      best = { type: connector.type, powerKW: connector.powerKW, ...power };
+    }
+  }
+  const minutes = best ? Math.round((energyKWh / best.averageKW) * 60) : undefined;
+  return {
+    ...estimateChargeCost(tariff, { energyKWh, minutes }),
+    tariff,
+    energyKWh,
+    connector: best && { type: best.type, powerKW: best.powerKW, effectivePowerKW: best.effectivePowerKW },
+    minutes,
+  };
+}
+
+/**
+ * Cheapest first by the cost of a reference charge; stations without a
+ * readable price go last. Amounts in different currencies are compared as is.
+ */
+export function compareByPrice(
+  a: { pricing: string | null; connectors: Array<{ type: string; powerKW: number }> },
+  b: { pricing: string | null; connectors: Array<{ type: string; powerKW: number }> },
+  vehicle?: VehicleSpec
+): number {
+  const energyKWh = defaultEstimateKWh(vehicle);
+  const costA = estimateStationCost(a, vehicle, energyKWh).total;
+  const costB = estimateStationCost(b, vehicle, energyKWh).total;
+  if (costA === null || costB === null) return (costA === null ? 1 : 0) - (costB === null ? 1 : 0);
+  return costA - costB;
+}
+
+export function formatMoney(amount: number, currency: string | null): string {
+  if (!currency) return amount.toFixed(2);
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { CONNECTOR_FAMILIES } from "./stations";
+import { haversineDistanceKm, polylineLengthKm } from "./geo";
+
+/** Longest trip that can be planned in one request */
+export const MAX_TRIP_KM = 5000;
+
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+const latLngSchema = z.object({
+  lat: latitudeSchema,
+  lng: longitudeSchema,
+});
+
+const waypointSchema = latLngSchema.extend({
+  label: z.string().trim().max(200).optional(),
+});
+
+export const tripPlanRequestSchema = z.object({
+  origin: waypointSchema,
+  destination: waypointSchema,
+  batteryKWh: z.number().positive().max(300),
+  /** Average consumption in kWh per 100 km */
+  consumptionKWhPer100Km: z.number().positive().max(100),
+  startSocPercent: z.number().min(1).max(100),
+  /** Don't plan to arrive anywhere below this charge */
+  reserveSocPercent: z.number().min(0).max(50).default(10),
+  /** Charge level to leave each stop with */
+  chargeToPercent: z.number().min(20).max(100).default(80),
+  minPowerKW: z.number().min(0).default(50),
+  /** Connector families the car can use; defaults to the member's vehicle, then to any */
+  connectorTypes: z.array(z.enum(CONNECTOR_FAMILIES)).optional(),
+  vehicle: z.object({ brand: z.string(), model: z.string() }).optional(),
+  /** How far off the route a stop may be */
+  corridorKm: z.number().positive().max(50).default(5),
+  /** Route geometry as [lat, lng] pairs; when omitted the route provider is asked */
+  polyline: z.array(z.tuple([latitudeSchema, longitudeSchema])).min(2).max(5000).optional(),
+}).refine((request) => request.chargeToPercent > request.reserveSocPercent + 5, {
+  message: "chargeToPercent must be comfortably above reserveSocPercent",
+  path: ["chargeToPercent"],
+}).refine((request) => haversineDistanceKm(request.origin, request.destination) <= MAX_TRIP_KM, {
+  message: `Trips can be at most ${MAX_TRIP_KM} km`,
+  path: ["destination"],
+}).refine(
+  (request) => !request.polyline || polylineLengthKm(request.polyline.map(([lat, lng]) => ({ lat, lng }))) <= MAX_TRIP_KM,
+  { message: `Trips can be at most ${MAX_TRIP_KM} km`, path: ["polyline"] }
+);
+
+export type TripPlanRequest = z.infer<typeof tripPlanRequestSchema>;
+export type TripWaypoint = z.infer<typeof waypointSchema>;
+
+export interface TripChargingStop {
+  stationId: string;
+  name: string;
+  address: string;
+  coords: { lat: number; lng: number };
+  connectorType: string;
+  powerKW: number;
+  /** Distance from the route to the station */
+  detourKm: number;
+  arrivalSocPercent: number;
+  departureSocPercent: number;
+  chargeMinutes?: number;
+}
+
+export interface TripLeg {
+  from: TripWaypoint;
+  to: TripWaypoint;
+  distanceKm: number;
+  energyKWh: number;
+  departureSocPercent: number;
+  arrivalSocPercent: number;
+  /** Set when the leg ends at a charging stop rather than the destination */
+  chargingStop?: TripChargingStop;
+}
+
+export interface TripPlan {
+  /** Route provider that produced the geometry, e.g. "straight-line" */
+  routeSource: string;
+  polyline: Array<[number, number]>;
+  totalDistanceKm: number;
+  legs: TripLeg[];
+  /** False when no suitable station was found to bridge a gap */
+  feasible: boolean;
+  arrivalSocPercent: number;
+  totalChargeMinutes: number;
+  warnings: string[];
+}
+
+export const saveTripSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  request: tripPlanRequestSchema,
+});
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  connectorChargingPower,
+  findVehicleSpec,
+  formatChargeTime,
+  resolveVehicle,
+  stationCompatibility,
+} from "./vehicles";
+
+test("profile vehicles are found in the catalog regardless of case and punctuation", () => {
+  assert.equal(findVehicleSpec({ brand: "VW", model: "id4" })?.model, "ID.4");
+  assert.equal(findVehicleSpec({ brand: "tesla", model: "MODEL 3" })?.model, "Model 3");
+  assert.equal(findVehicleSpec({ brand: "Hyundai", model: "Ioniq 5 Long Range" })?.model, "Ioniq 5");
+  assert.equal(findVehicleSpec({ brand: "Trabant", model: "601" }), undefined);
+  assert.equal(findVehicleSpec({ brand: "Tesla" }), undefined);
+  assert.equal(findVehicleSpec(null), undefined);
+});
+
+test("the profile's battery size overrides the catalog's", () => {
+  assert.equal(resolveVehicle({ brand: "Nissan", model: "Leaf" })?.batteryKWh, 39);
+  assert.equal(resolveVehicle({ brand: "Nissan", model: "Leaf", batteryCapacity: 59 })?.batteryKWh, 59);
+});
+
+test("charging power is capped by the car's AC or DC limit", () => {
+  const leaf = findVehicleSpec({ brand: "Nissan", model: "Leaf" })!;
+  assert.deepEqual(connectorChargingPower(leaf, { type: "CHAdeMO", powerKW: 100 }), { effectivePowerKW: 50, averageKW: 35 });
+  assert.equal(connectorChargingPower(leaf, { type: "Type 2", powerKW: 22 })?.effectivePowerKW, 6.6);
+  assert.equal(connectorChargingPower(leaf, { type: "CCS", powerKW: 150 }), undefined);
+  // Without a car only the connector limits it
+  assert.equal(connectorChargingPower(undefined, { type: "CCS", powerKW: 150 })?.effectivePowerKW, 150);
+  assert.equal(connectorChargingPower(undefined, { type: "CCS", powerKW: 0 }), undefined);
+});
+
+test("Tesla connectors count as DC only above AC power", () => {
+  const model3 = findVehicleSpec({ brand: "Tesla", model: "Model 3" })!;
+  assert.equal(connectorChargingPower(model3, { type: "Tesla Supercharger", powerKW: 250 })?.effectivePowerKW, 250);
+  assert.equal(connectorChargingPower(model3, { type: "Tesla (Destination)", powerKW: 22 })?.effectivePowerKW, 11);
+});
+
+test("station compatibility lists each connector and the quickest 10-80% charge", () => {
+  const leaf = findVehicleSpec({ brand: "Nissan", model: "Leaf" })!;
+  const result = stationCompatibility(leaf, {
+    connectors: [
+      { type: "CCS (Type 2)", powerKW: 150 },
+      { type: "CHAdeMO", powerKW: 50 },
+      { type: "Type 2", powerKW: 22 },
+      { type: "Type 2", powerKW: 0 },
+    ],
+  });
+  assert.equal(result.compatible, true);
+  assert.deepEqual(result.connectors.map((connector) => connector.compatible), [false, true, true, true]);
+  // 27.3 kWh at an average of 35 kW, and at 6.27 kW
+  assert.deepEqual(result.connectors.map((connector) => connector.chargeMinutes), [undefined, 47, 261, undefined]);
+  assert.equal(result.fastestChargeMinutes, 47);
+
+  assert.equal(stationCompatibility(leaf, { connectors: [{ type: "Tesla Supercharger", powerKW: 250 }] }).compatible, false);
+});
+
+test("charge times read as minutes and hours", () => {
+  assert.equal(formatChargeTime(45), "45 min");
+  assert.equal(formatChargeTime(120), "2 h");
+  assert.equal(formatChargeTime(261), "4 h 21 min");
+});
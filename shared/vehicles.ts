@@ -0,0 +1,173 @@
+import { connectorFamily, type ConnectorFamily } from "./stations";
+
+export interface VehicleSpec {
+  brand: string;
+  model: string;
+  /** Charging inlets fitted to the car, including ones reachable with a factory adapter */
+  inlets: ConnectorFamily[];
+  maxAcKW: number;
+  maxDcKW: number;
+  /** Usable battery capacity */
+  batteryKWh: number;
+}
+
+// Common models with their typical (European/North American) inlet setup.
+// Where a model shipped with different inlets by region, both are listed.
+export const VEHICLE_CATALOG: VehicleSpec[] = [
+  { brand: "Tesla", model: "Model 3", inlets: ["TESLA", "CCS", "TYPE_2"], maxAcKW: 11, maxDcKW: 250, batteryKWh: 75 },
+  { brand: "Tesla", model: "Model Y", inlets: ["TESLA", "CCS", "TYPE_2"], maxAcKW: 11, maxDcKW: 250, batteryKWh: 75 },
+  { brand: "Tesla", model: "Model S", inlets: ["TESLA", "CCS", "TYPE_2"], maxAcKW: 16.5, maxDcKW: 250, batteryKWh: 95 },
+  { brand: "Tesla", model: "Model X", inlets: ["TESLA", "CCS", "TYPE_2"], maxAcKW: 16.5, maxDcKW: 250, batteryKWh: 95 },
+  { brand: "Nissan", model: "Leaf", inlets: ["CHADEMO", "TYPE_1", "TYPE_2"], maxAcKW: 6.6, maxDcKW: 50, batteryKWh: 39 },
+  { brand: "Nissan", model: "Ariya", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 7.4, maxDcKW: 130, batteryKWh: 87 },
+  { brand: "Chevrolet", model: "Bolt", inlets: ["CCS", "TYPE_1"], maxAcKW: 11, maxDcKW: 55, batteryKWh: 65 },
+  { brand: "Chevrolet", model: "Equinox EV", inlets: ["CCS", "TYPE_1"], maxAcKW: 11.5, maxDcKW: 150, batteryKWh: 85 },
+  { brand: "Ford", model: "Mustang Mach-E", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 150, batteryKWh: 88 },
+  { brand: "Ford", model: "F-150 Lightning", inlets: ["CCS", "TYPE_1"], maxAcKW: 19.2, maxDcKW: 155, batteryKWh: 98 },
+  { brand: "Hyundai", model: "Ioniq 5", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 235, batteryKWh: 77 },
+  { brand: "Hyundai", model: "Ioniq 6", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 235, batteryKWh: 77 },
+  { brand: "Hyundai", model: "Kona Electric", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 100, batteryKWh: 64 },
+  { brand: "Kia", model: "EV6", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 235, batteryKWh: 77 },
+  { brand: "Kia", model: "Niro EV", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 80, batteryKWh: 64 },
+  { brand: "Volkswagen", model: "ID.3", inlets: ["CCS", "TYPE_2"], maxAcKW: 11, maxDcKW: 170, batteryKWh: 77 },
+  { brand: "Volkswagen", model: "ID.4", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 175, batteryKWh: 77 },
+  { brand: "BMW", model: "i3", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 50, batteryKWh: 37.9 },
+  { brand: "BMW", model: "i4", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 205, batteryKWh: 81 },
+  { brand: "BMW", model: "iX", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 195, batteryKWh: 105 },
+  { brand: "Audi", model: "e-tron", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 150, batteryKWh: 86 },
+  { brand: "Audi", model: "Q4 e-tron", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 135, batteryKWh: 77 },
+  { brand: "Porsche", model: "Taycan", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 270, batteryKWh: 84 },
+  { brand: "Polestar", model: "2", inlets: ["CCS", "TYPE_1", "TYPE_2"], maxAcKW: 11, maxDcKW: 205, batteryKWh: 79 },
+  { brand: "Renault", model: "Zoe", inlets: ["CCS", "TYPE_2"], maxAcKW: 22, maxDcKW: 50, batteryKWh: 52 },
+  { brand: "Mitsubishi", model: "Outlander PHEV", inlets: ["CHADEMO", "TYPE_1", "TYPE_2"], maxAcKW: 3.7, maxDcKW: 22, batteryKWh: 20 },
+  { brand: "Rivian", model: "R1T", inlets: ["CCS", "TYPE_1"], maxAcKW: 11.5, maxDcKW: 220, batteryKWh: 135 },
+  { brand: "Rivian", model: "R1S", inlets: ["CCS", "TYPE_1"], maxAcKW: 11.5, maxDcKW: 220, batteryKWh: 135 },
+  { brand: "BYD", model: "Atto 3", inlets: ["CCS", "TYPE_2"], maxAcKW: 7, maxDcKW: 88, batteryKWh: 60 },
+  { brand: "MG", model: "MG4", inlets: ["CCS", "TYPE_2"], maxAcKW: 11, maxDcKW: 135, batteryKWh: 61.7 },
+];
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Finds the catalog entry for a profile vehicle. Matching ignores case and
+ * punctuation, so "VW id4" and "Volkswagen ID.4" resolve alike; unknown cars
+ * return undefined.
+ */
+export function findVehicleSpec(vehicle: { brand?: string; model?: string } | null | undefined): VehicleSpec | undefined {
+  if (!vehicle?.brand || !vehicle.model) return undefined;
+  const brand = normalize(vehicle.brand === "VW" ? "Volkswagen" : vehicle.brand);
+  const model = normalize(vehicle.model);
+  const candidates = VEHICLE_CATALOG.filter((spec) => normalize(spec.brand) === brand);
+  return (
+    candidates.find((spec) => normalize(spec.model) === model) ??
+    candidates.find((spec) => model.includes(normalize(spec.model)) || normalize(spec.model).includes(model))
+  );
+}
+
+/** Resolves a profile vehicle, letting the profile's own battery size override the catalog */
+export function resolveVehicle(
+  vehicle: { brand?: string; model?: string; batteryCapacity?: number } | null | undefined
+): VehicleSpec | undefined {
+  const spec = findVehicleSpec(vehicle);
+  if (!spec) return undefined;
+  return vehicle?.batteryCapacity ? { ...spec, batteryKWh: vehicle.batteryCapacity } : spec;
+}
+
+const DC_FAMILIES: ConnectorFamily[] = ["CCS", "CHADEMO"];
+
+// Tesla connectors cover both Superchargers and AC destination chargers
+function isDcConnector(family: ConnectorFamily, powerKW: number): boolean {
+  return DC_FAMILIES.includes(family) || (family === "TESLA" && powerKW > 22);
+}
+
+export interface ConnectorCompatibility {
+  type: string;
+  powerKW: number;
+  compatible: boolean;
+  /** Power the car can actually draw, limited by its onboard charger or DC limit */
+  effectivePowerKW?: number;
+  /** Minutes to go from 10% to 80% at this connector */
+  chargeMinutes?: number;
+}
+
+export interface StationCompatibility {
+  compatible: boolean;
+  connectors: ConnectorCompatibility[];
+  /** Quickest 10–80% charge among compatible connectors */
+  fastestChargeMinutes?: number;
+}
+
+// DC sessions taper well before 80%, so the average is well below peak
+const DC_AVERAGE_FACTOR = 0.7;
+const AC_AVERAGE_FACTOR = 0.95;
+
+/**
+ * Power drawn at a connector, capped by the car when one is given, and the
+ * average over a typical session. Undefined when the car can't plug in or
+ * the connector's power isn't known.
+ */
+export function connectorChargingPower(
+  vehicle: VehicleSpec | undefined,
+  connector: { type: string; powerKW: number }
+): { effectivePowerKW: number; averageKW: number } | undefined {
+  const family = connectorFamily(connector.type);
+  if (!family || connector.powerKW <= 0) return undefined;
+  if (vehicle && !vehicle.inlets.includes(family)) return undefined;
+  const dc = isDcConnector(family, connector.powerKW);
+  const effectivePowerKW = vehicle
+    ? Math.min(connector.powerKW, dc ? vehicle.maxDcKW : vehicle.maxAcKW)
+    : connector.powerKW;
+  return { effectivePowerKW, averageKW: effectivePowerKW * (dc ? DC_AVERAGE_FACTOR : AC_AVERAGE_FACTOR) };
+}
+
+export function estimateChargeMinutes(
+  vehicle: VehicleSpec,
+  connector: { type: string; powerKW: number },
+  fromPercent = 10,
+  toPercent = 80
+): ConnectorCompatibility {
+  const family = connectorFamily(connector.type);
+  if (!family || !vehicle.inlets.includes(family)) {
+    return { type: connector.type, powerKW: connector.powerKW, compatible: false };
+  }
+  const power = connectorChargingPower(vehicle, connector);
+  if (!power) {
+    // Usable, but OCM didn't tell us how fast
+    return { type: connector.type, powerKW: connector.powerKW, compatible: true };
+  }
+
+  const { effectivePowerKW, averageKW } = power;
+  const energyKWh = (vehicle.batteryKWh * (toPercent - fromPercent)) / 100;
+
+  return {
+    type: connector.type,
+    powerKW: connector.powerKW,
+    compatible: true,
+    effectivePowerKW,
+    chargeMinutes: Math.round((energyKWh / averageKW) * 60),
+  };
+}
+
+export function stationCompatibility(
+  vehicle: VehicleSpec,
+  station: { connectors: Array<{ type: string; powerKW: number }> }
+): StationCompatibility {
+  const connectors = station.connectors.map((connector) => estimateChargeMinutes(vehicle, connector));
+  const times = connectors
+    .map((connector) => connector.chargeMinutes)
+    .filter((minutes): minutes is number => minutes !== undefined);
+  return {
+    compatible: connectors.some((connector) => connector.compatible),
+    connectors,
+    fastestChargeMinutes: times.length > 0 ? Math.min(...times) : undefined,
+  };
+}
+
+export function formatChargeTime(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}